@@ -1,6 +1,27 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
+import { loadFixture, loadTrace } from '@bench/core';
 import { App } from './ui/App';
 
 const root = document.getElementById('root')!;
-createRoot(root).render(<App />);
+
+// ?fixture=<url> runs against a saved dataset instead of the generated one;
+// ?trace=<url> loads a recorded session to replay
+const params = new URLSearchParams(window.location.search);
+const fixtureUrl = params.get('fixture');
+const traceUrl = params.get('trace');
+if (fixtureUrl || traceUrl) {
+    Promise.all([
+        fixtureUrl ? loadFixture(fixtureUrl) : undefined,
+        traceUrl ? loadTrace(traceUrl) : undefined,
+    ])
+        .then(([fixture, trace]) =>
+            createRoot(root).render(<App fixture={fixture} trace={trace} />),
+        )
+        .catch((error) => {
+            console.error(error);
+            root.textContent = String(error);
+        });
+} else {
+    createRoot(root).render(<App />);
+}
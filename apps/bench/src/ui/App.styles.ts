@@ -23,10 +23,24 @@ export const colors = {
         blue: '#2196F3',
         orange: '#FF9800',
         purple: '#9C27B0',
+        green: '#4CAF50',
+        teal: '#009688',
+        indigo: '#3F51B5',
+        brown: '#795548',
+        deepOrange: '#FF5722',
+        deepPurple: '#673AB7',
+        lightBlue: '#03A9F4',
+        lightGreen: '#8BC34A',
+        red: '#F44336',
+        blueGrey: '#607D8B',
         pink: '#E91E63',
         pinkDark: '#C2185B',
         cyan: '#00BCD4',
         cyanDark: '#0097A7',
+        amber: '#FFA000',
+        lime: '#9E9D24',
+        navy: '#283593',
+        rust: '#BF360C',
         gray: '#6c757d',
         grayBlue: '#607D8B',
     },
@@ -53,8 +67,22 @@ const baseStyles = {
         button: '0 2px 8px rgba(33, 150, 243, 0.3)',
         buttonOrange: '0 2px 8px rgba(255, 152, 0, 0.3)',
         buttonPurple: '0 2px 8px rgba(156, 39, 176, 0.3)',
+        buttonGreen: '0 2px 8px rgba(76, 175, 80, 0.3)',
+        buttonTeal: '0 2px 8px rgba(0, 150, 136, 0.3)',
+        buttonIndigo: '0 2px 8px rgba(63, 81, 181, 0.3)',
+        buttonBrown: '0 2px 8px rgba(121, 85, 72, 0.3)',
+        buttonDeepOrange: '0 2px 8px rgba(255, 87, 34, 0.3)',
+        buttonDeepPurple: '0 2px 8px rgba(103, 58, 183, 0.3)',
+        buttonLightBlue: '0 2px 8px rgba(3, 169, 244, 0.3)',
+        buttonLightGreen: '0 2px 8px rgba(139, 195, 74, 0.3)',
+        buttonRed: '0 2px 8px rgba(244, 67, 54, 0.3)',
+        buttonBlueGrey: '0 2px 8px rgba(96, 125, 139, 0.3)',
         buttonPink: '0 3px 12px rgba(233, 30, 99, 0.4)',
         buttonCyan: '0 3px 12px rgba(0, 188, 212, 0.4)',
+        buttonAmber: '0 2px 8px rgba(255, 160, 0, 0.3)',
+        buttonLime: '0 2px 8px rgba(158, 157, 36, 0.3)',
+        buttonNavy: '0 2px 8px rgba(40, 53, 147, 0.3)',
+        buttonRust: '0 2px 8px rgba(191, 54, 12, 0.3)',
         buttonGray: '0 2px 8px rgba(96, 125, 139, 0.3)',
         buttonReset: '0 2px 8px rgba(108, 117, 125, 0.3)',
     },
@@ -178,6 +206,32 @@ export const deckListStyles = {
     },
 };
 
+// DeckDetail styles (previous/next bar above the active deck)
+export const deckDetailStyles = {
+    nav: {
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 16,
+        marginBottom: 20,
+    },
+    navButton: {
+        padding: '6px 14px',
+        borderRadius: baseStyles.borderRadius.medium,
+        border: `2px solid ${colors.gray[600]}`,
+        background: colors.white,
+        fontSize: '14px',
+        cursor: 'pointer',
+    },
+    position: {
+        minWidth: 140,
+        textAlign: 'center' as const,
+        fontWeight: 600,
+        color: colors.gray[900],
+        fontSize: '14px',
+    },
+};
+
 // DeckItem styles
 export const deckItemStyles = {
     container: {
@@ -223,6 +277,24 @@ export const deckItemStyles = {
     },
 };
 
+// DeckStats styles (derived data row under the deck header)
+export const deckStatsStyles = {
+    container: {
+        display: 'flex',
+        flexWrap: 'wrap' as const,
+        alignItems: 'center',
+        gap: 12,
+        marginBottom: 12,
+    },
+    item: {
+        display: 'inline-flex',
+        alignItems: 'center',
+        gap: 4,
+        fontSize: 12,
+        color: colors.gray[800],
+    },
+};
+
 // CardItem styles
 export const cardItemStyles = {
     container: {
@@ -336,6 +408,46 @@ export const commentItemStyles = {
     },
 };
 
+// SubtaskItem styles (nested checklist under a card)
+export const subtaskItemStyles = {
+    list: {
+        paddingLeft: 14,
+        borderLeft: `2px solid ${colors.gray[400]}`,
+    },
+    row: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: 6,
+        fontSize: 12,
+        color: colors.gray[800],
+        padding: '2px 0',
+        cursor: 'pointer',
+    },
+    done: {
+        textDecoration: 'line-through',
+        color: colors.gray[700],
+    },
+};
+
+// TagChip styles (tag label pills on a card, colored by the tag)
+export const tagChipStyles = {
+    list: {
+        display: 'flex',
+        flexWrap: 'wrap' as const,
+        gap: 4,
+        marginTop: 6,
+    },
+    chip: (color: string) => ({
+        display: 'inline-block',
+        padding: '1px 8px',
+        borderRadius: baseStyles.borderRadius.round,
+        fontSize: 11,
+        fontWeight: 600,
+        color: colors.white,
+        backgroundColor: color,
+    }),
+};
+
 // Toolbar styles
 export const toolbarStyles = {
     container: {
@@ -369,6 +481,14 @@ export const toolbarStyles = {
         background: colors.white,
         minWidth: 180,
     },
+    searchInput: {
+        padding: '8px 12px',
+        borderRadius: baseStyles.borderRadius.medium,
+        border: `2px solid ${colors.gray[600]}`,
+        fontSize: '14px',
+        background: colors.white,
+        minWidth: 180,
+    },
     buttonsGroup: {
         display: 'flex',
         gap: 8,
@@ -408,12 +528,54 @@ export const toolbarStyles = {
     buttonPurple: {
         boxShadow: baseStyles.shadow.buttonPurple,
     },
+    buttonGreen: {
+        boxShadow: baseStyles.shadow.buttonGreen,
+    },
+    buttonTeal: {
+        boxShadow: baseStyles.shadow.buttonTeal,
+    },
+    buttonIndigo: {
+        boxShadow: baseStyles.shadow.buttonIndigo,
+    },
+    buttonBrown: {
+        boxShadow: baseStyles.shadow.buttonBrown,
+    },
+    buttonDeepOrange: {
+        boxShadow: baseStyles.shadow.buttonDeepOrange,
+    },
+    buttonDeepPurple: {
+        boxShadow: baseStyles.shadow.buttonDeepPurple,
+    },
+    buttonLightBlue: {
+        boxShadow: baseStyles.shadow.buttonLightBlue,
+    },
+    buttonLightGreen: {
+        boxShadow: baseStyles.shadow.buttonLightGreen,
+    },
+    buttonRed: {
+        boxShadow: baseStyles.shadow.buttonRed,
+    },
+    buttonBlueGrey: {
+        boxShadow: baseStyles.shadow.buttonBlueGrey,
+    },
     buttonPink: {
         boxShadow: baseStyles.shadow.buttonPink,
     },
     buttonCyan: {
         boxShadow: baseStyles.shadow.buttonCyan,
     },
+    buttonAmber: {
+        boxShadow: baseStyles.shadow.buttonAmber,
+    },
+    buttonLime: {
+        boxShadow: baseStyles.shadow.buttonLime,
+    },
+    buttonNavy: {
+        boxShadow: baseStyles.shadow.buttonNavy,
+    },
+    buttonRust: {
+        boxShadow: baseStyles.shadow.buttonRust,
+    },
     buttonGray: {
         boxShadow: baseStyles.shadow.buttonGray,
     },
@@ -547,6 +709,12 @@ export const heatmapOverlayStyles = {
     totalText: {
         fontSize: 18,
     },
+    wastedText: {
+        display: 'block',
+        marginTop: 4,
+        fontSize: 12,
+        opacity: 0.9,
+    },
     list: {
         maxHeight: 200,
         overflowY: 'auto' as const,
@@ -574,6 +742,27 @@ export const heatmapOverlayStyles = {
         minWidth: 40,
         textAlign: 'center' as const,
     }),
+    listItemWasted: {
+        marginLeft: 'auto',
+        marginRight: 8,
+        fontSize: 11,
+        color: '#c62828',
+    },
+    instancesTitle: {
+        marginTop: 12,
+        marginBottom: 6,
+        fontSize: 12,
+        fontWeight: 600,
+        color: colors.gray[800],
+    },
+    instanceItem: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        fontSize: 11,
+        fontFamily: 'monospace',
+        color: colors.gray[800],
+        marginBottom: 2,
+    },
     legend: {
         fontSize: 11,
         color: '#888',
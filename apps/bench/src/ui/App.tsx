@@ -1,19 +1,77 @@
-import React, { useMemo, useState, useContext, createContext, useCallback, useEffect, Profiler } from 'react';
+import React, {
+    useMemo,
+    useState,
+    useContext,
+    createContext,
+    useCallback,
+    useEffect,
+    Profiler,
+    startTransition,
+    useDeferredValue,
+    useLayoutEffect,
+} from 'react';
 import { flushSync } from 'react-dom';
+import { createRoot } from 'react-dom/client';
 
 // Accumulates React commit time (Profiler actualDuration) for the throughput probe.
 let __reactCommitMs = 0;
 import {
     generateDataset,
+    DATASET_SKEW_PRESETS,
+    DEFAULT_FIXTURE_EPOCH,
+    createFixture,
+    serializeFixture,
+    type DataGenOptions,
+    type DatasetFixture,
     createRenderCounter,
     testAllAdapters,
     type AdapterTestResult,
     type BenchmarkResult,
+    createMockServer,
+    type MockServer,
+    SCENARIOS,
+    APP_SCENARIOS,
+    getScenario,
+    getAppScenario,
+    prepareScenario,
+    type AppScenarioDefinition,
+    type PreparedScenario,
+    type ScenarioOptions,
+    getPerUpdateCost,
+    summarizeScalingSweep,
+    type ScalingPoint,
+    type ScalingSweep,
+    createTraceRecorder,
+    createTraceReplayer,
+    generateEventStream,
+    runEventStream,
+    parseTrace,
+    serializeTrace,
+    type ActionTrace,
+    type TearingCheckResult,
+    snapshotRenderInputs,
+    sameRenderInputs,
+    type RenderInputs,
+} from '@bench/core';
+import type {
+    StoreAdapter,
+    StoreHandle,
+    RootState,
+    ID,
+    Card,
+    Comment,
+    Subtask,
+    Tag,
+    Actions,
+    CardSortKey,
+    WorkloadScenario,
 } from '@bench/core';
-import type { StoreAdapter, RootState, ID, Card, Comment } from '@bench/core';
 import { BenchmarkResults } from './BenchmarkResults';
 import { DebugRenders } from './DebugRenders';
+import { ScalingSweepResults } from './ScalingSweepResults';
+import { TearingMatrix } from './TearingMatrix';
 import * as styles from './App.styles';
+import { getAdapterBundleSize } from './bundleSize';
 import {
     cnstraOimdbAdapter,
     cnstraOimdbInPlaceAdapter,
@@ -24,7 +82,13 @@ import { effectorAdapter } from '@bench/adapter-effector';
 import { effectorAtomicAdapter } from '@bench/adapter-effector-atomic';
 import { zustandAdapter } from '@bench/adapter-zustand';
 import { mobxAdapter, mobxDeepAdapter } from '@bench/adapter-mobx';
-import { createBenchmarkRunner, calculateMedian } from './benchmarkRunner';
+import {
+    createBenchmarkRunner,
+    calculateMedian,
+    calculatePercentile,
+    getMemoryUsage,
+    type MeasureLatency,
+} from './benchmarkRunner';
 
 const AdapterContext = createContext<{ adapter: StoreAdapter; actions: any } | null>(null);
 
@@ -35,6 +99,11 @@ type LeafComponents = {
     CardItem: React.ComponentType<{ cardId: string }>;
     CommentItem: React.ComponentType<{ commentId: string }>;
     DeckItem: React.ComponentType<{ deckId: string }>;
+    SubtaskItem: React.ComponentType<{ subtaskId: string }>;
+    // hostId: the card (or deck stats) showing the chip, so each chip is its own instance
+    TagChip: React.ComponentType<{ tagId: string; hostId: string }>;
+    DeckStats: React.ComponentType<{ deckId: string; ownerId: string }>;
+    DeckDetail: React.ComponentType;
 };
 const LeafComponentsContext = createContext<LeafComponents | null>(null);
 function useLeaf(): LeafComponents {
@@ -43,6 +112,24 @@ function useLeaf(): LeafComponents {
     return c;
 }
 
+// Build the entity-reading leaf components for an adapter: observer() for MobX
+// (direct observable reads in JSX), plain React.memo otherwise.
+function buildLeafComponents(adapter: StoreAdapter): LeafComponents {
+    const wrap = <P extends object>(c: React.ComponentType<P>): React.ComponentType<P> =>
+        adapter.observer
+            ? adapter.observer(c)
+            : (React.memo(c) as unknown as React.ComponentType<P>);
+    return {
+        CardItem: wrap(CardItemBase),
+        CommentItem: wrap(CommentItemBase),
+        DeckItem: wrap(DeckItemBase),
+        SubtaskItem: wrap(SubtaskItemBase),
+        TagChip: wrap(TagChipBase),
+        DeckStats: wrap(DeckStatsBase),
+        DeckDetail: wrap(DeckDetailBase),
+    };
+}
+
 // Intersection Observer Context for tracking card visibility
 type ObserverCallbacks = {
     observe: (element: HTMLElement, cardId: string) => void;
@@ -50,6 +137,26 @@ type ObserverCallbacks = {
 };
 const IntersectionObserverContext = createContext<ObserverCallbacks | null>(null);
 
+// Order of the deck view's cards; null keeps each deck's own order
+const DeckSortContext = createContext<CardSortKey | null>(null);
+
+// When on, card lists render their ids through useDeferredValue (concurrent-input)
+const DeferredListsContext = createContext(false);
+
+// What the deck view shows: every deck (the first 100), or the active deck alone
+type DeckView = 'list' | 'detail';
+const DECK_VIEW_OPTIONS: Array<{ value: DeckView; label: string }> = [
+    { value: 'list', label: 'All decks' },
+    { value: 'detail', label: 'Active deck' },
+];
+// An id no deck has: the detail view shows no deck while it is the active one
+const NO_DECK_ID = '';
+const DECK_SORT_OPTIONS: Array<{ value: CardSortKey; label: string }> = [
+    { value: 'updatedAt', label: 'Last updated' },
+    { value: 'createdAt', label: 'Newest' },
+    { value: 'title', label: 'Title' },
+];
+
 // All components use ids-based mode
 
 // Create adapters - only ids-based versions
@@ -65,6 +172,29 @@ const adapters: StoreAdapter[] = [
     effectorAtomicAdapter,
 ].filter(Boolean) as StoreAdapter[];
 
+// Generator options of the app's dataset; the fixed epoch keeps it byte-identical
+// per seed
+const APP_DATASET_OPTIONS: DataGenOptions = {
+    decks: 50,
+    cardsPerDeck: 30,
+    minCommentsPerCard: 2,
+    maxCommentsPerCard: 2,
+    users: 2000,
+    tags: 50,
+    seed: 42,
+    epoch: DEFAULT_FIXTURE_EPOCH,
+    // A 2-wide, 3-deep checklist (14 subtasks) on the first card of each deck
+    subtaskCardsPerDeck: 1,
+    subtaskBranching: 2,
+    subtaskDepth: 3,
+};
+
+// Decks of the app's dataset when it is sized to about `cards` cards (?cards=<n>,
+// the scaling sweep); the deck shape stays the same
+function getDatasetDecks(cards: number): number {
+    return Math.max(1, Math.round(cards / (APP_DATASET_OPTIONS.cardsPerDeck ?? 10)));
+}
+
 // Global render counter for non-benchmark renders (UI components)
 const globalRenderCounter = createRenderCounter();
 const isDev = import.meta.env.DEV;
@@ -100,9 +230,14 @@ function convertToStandardizedFormat(
     const allRenderCounts = result.runs.map((r) => r.renderCount);
     const affectedComponentsMedian = calculateMedian(allRenderCounts);
 
-    // Get bundle size (would need to be calculated separately)
-    // For now, placeholder - would need to analyze actual bundle
-    const bundleKbGzip = 0; // TODO: Calculate from build artifacts
+    // Bundle size from the last `npm run bundle-size`, null when it was not measured
+    const bundleSize = getAdapterBundleSize(manager);
+
+    // Measured updates (action calls and measure() calls) per second of execution time
+    const updates = result.runs.reduce((sum, r) => sum + r.latency.length, 0);
+    const executionMs = result.runs.reduce((sum, r) => sum + r.executionTime, 0);
+    const throughput = executionMs > 0 ? updates / (executionMs / 1000) : 0;
+    const mainThread = result.average.mainThread;
 
     return {
         manager: manager.toLowerCase().replace(/\s+/g, '-'),
@@ -117,30 +252,53 @@ function convertToStandardizedFormat(
             p95: result.average.latency.p95,
             p99: result.average.latency.p99,
         },
-        throughput_updates_per_s: 0, // TODO: Calculate from executionTime
+        throughput_updates_per_s: throughput,
         js_time_ms: result.average.executionTime,
-        layout_paint_ms: 0, // TODO: Use PerformanceObserver
+        // From long-animation-frame entries (see benchmarkRunner.ts); 0 without them
+        layout_paint_ms: mainThread ? mainThread.styleLayoutMs + mainThread.paintMs : 0,
+        main_thread_ms: {
+            script: mainThread?.scriptMs ?? 0,
+            style_layout: mainThread?.styleLayoutMs ?? 0,
+            paint: mainThread?.paintMs ?? 0,
+            long_tasks: mainThread?.longTaskMs ?? 0,
+            event_max: mainThread?.eventMsMax ?? 0,
+        },
+        long_tasks: mainThread?.longTasks ?? 0,
+        observed_entry_types: mainThread?.observed ?? [],
         renders: {
             total: result.average.renderCount,
             affectedComponentsMedian: affectedComponentsMedian,
+            // entity renders that read the same data as the instance's previous render
+            wasted: result.average.wastedRenders?.wasted ?? 0,
+            wasted_by_component: Object.fromEntries(
+                Object.entries(result.average.wastedRenders?.byComponent ?? {}).map(
+                    ([component, stats]) => [component, stats.wasted],
+                ),
+            ),
         },
+        // idle, afterGC and gc need the DevTools protocol: scripts/bench-with-server.mjs
+        // fills them in (and peak, from the trace's heap samples), the page leaves 0
         heap_mb: {
-            idle: 0, // TODO: Measure before test
+            idle: 0,
             peak: result.average.memoryUsage,
-            afterGC: 0, // TODO: Force GC and measure
+            afterGC: 0,
         },
         gc: {
-            minor: 0, // TODO: Track via PerformanceObserver
-            major: 0, // TODO: Track via PerformanceObserver
-            pause_ms_total: 0, // TODO: Track via PerformanceObserver
+            minor: 0,
+            major: 0,
+            pause_ms_total: 0,
         },
-        bundle_kb_gzip: bundleKbGzip,
+        bundle_kb_gzip: bundleSize ? bundleSize.gzipBytes / 1024 : null,
+        // adapters from one package ship in (and report) the same bundle
+        bundle_package: bundleSize?.package ?? null,
+        bundle_shared_with: bundleSize?.sharedWith ?? [],
+        fixture_hash: result.fixtureHash ?? null,
         timestamp: result.timestamp,
         raw: result, // Include raw data for reference
     };
 }
 
-function useCounterKey(name: string) {
+function useActiveRenderCounter() {
     // Check for benchmark-specific render counter (set during benchmark execution)
     // Search for the most recent benchmark counter key
     const windowAny = window as any;
@@ -169,8 +327,26 @@ function useCounterKey(name: string) {
     }
 
     // Use benchmark counter if available (during benchmarks), otherwise global counter
-    const counter = benchmarkCounter || contextCounter || globalRenderCounter;
-    counter.increment(name);
+    return benchmarkCounter || contextCounter || globalRenderCounter;
+}
+
+function useCounterKey(name: string) {
+    useActiveRenderCounter().increment(name);
+}
+
+// Per-instance companion to useCounterKey for components showing one entity:
+// records whether this render read the same `inputs` (the entity fields and id
+// lists it renders) as the instance's previous render, i.e. was wasted. The
+// previous inputs live on the instance, so a mount is never wasted.
+function useWastedRenderCheck(name: string, id: ID, inputs: RenderInputs) {
+    const counter = useActiveRenderCounter();
+    const previous = React.useRef<RenderInputs | null>(null);
+    counter.recordRender(
+        name,
+        id,
+        previous.current !== null && sameRenderInputs(previous.current, inputs),
+    );
+    previous.current = snapshotRenderInputs(inputs);
 }
 
 // Define component implementations first
@@ -183,8 +359,19 @@ const CardItemBase: React.FC<{ cardId: string }> = ({ cardId }) => {
 
     const card = ctx.adapter.hooks.useCardById(cardId) as Card | undefined;
     const commentIds = ctx.adapter.hooks.useCommentIdsByCardId(cardId) as ID[];
+    const tagIds = ctx.adapter.hooks.useTagIdsByCardId(cardId) as ID[];
+    const subtaskIds = ctx.adapter.hooks.useChildIdsByParentId(cardId) as ID[];
     // isVisible is a field on the card we already read — no separate subscription.
     const isVisible = card?.isVisible ?? false;
+    useWastedRenderCheck('CardItem', cardId, [
+        card?.title,
+        card?.description,
+        card?.updatedAt,
+        isVisible,
+        commentIds,
+        tagIds,
+        subtaskIds,
+    ]);
 
     const cardRef = React.useRef<HTMLDivElement>(null);
 
@@ -198,6 +385,11 @@ const CardItemBase: React.FC<{ cardId: string }> = ({ cardId }) => {
         };
     }, [observerCtx, cardId]);
 
+    // Scroll benchmark: a visibility change the observer noted is committed now
+    React.useEffect(() => {
+        noteVisibilityCommit(cardId, isVisible);
+    }, [cardId, isVisible]);
+
     if (!card) return <div>Loading card...</div>;
     // Read updatedAt to ensure UI depends on the field mutated in bulk updates
     const lastUpdatedAt = card.updatedAt;
@@ -206,6 +398,7 @@ const CardItemBase: React.FC<{ cardId: string }> = ({ cardId }) => {
         <div
             ref={cardRef}
             data-card-id={cardId}
+            data-visible={isVisible}
             style={styles.cardItemStyles.container}
             onMouseEnter={styles.hoverHandlers.cardItem.onEnter}
             onMouseLeave={styles.hoverHandlers.cardItem.onLeave}
@@ -225,6 +418,7 @@ const CardItemBase: React.FC<{ cardId: string }> = ({ cardId }) => {
                     </span>
                 )}
             </div>
+            {tagIds.length > 0 && <TagChips tagIds={tagIds} hostId={cardId} />}
             <div style={styles.cardItemStyles.description}>{card.description}</div>
             <div style={styles.cardItemStyles.commentsHeader}>
                 <div style={styles.cardItemStyles.commentsTitle}>
@@ -232,6 +426,14 @@ const CardItemBase: React.FC<{ cardId: string }> = ({ cardId }) => {
                 </div>
                 <CommentsList commentIds={commentIds} />
             </div>
+            {subtaskIds.length > 0 && (
+                <div style={{ ...styles.cardItemStyles.commentsHeader, marginTop: 12 }}>
+                    <div style={styles.cardItemStyles.commentsTitle}>
+                        Checklist ({subtaskIds.length})
+                    </div>
+                    <SubtasksList subtaskIds={subtaskIds} />
+                </div>
+            )}
             <div style={{ marginTop: 6, fontSize: 11, color: '#6b7280' }}>
                 Updated: {lastUpdatedAt}
             </div>
@@ -261,6 +463,7 @@ const CommentItemBase: React.FC<{ commentId: string }> = ({ commentId }) => {
 
     const comment = ctx.adapter.hooks.useCommentById(commentId) as Comment | undefined;
     const user = ctx.adapter.hooks.useUserById(comment?.authorId || '');
+    useWastedRenderCheck('CommentItem', commentId, [comment?.text, comment?.isEditing, user?.name]);
 
     if (!comment) return null;
 
@@ -341,6 +544,75 @@ const CommentItemBase: React.FC<{ commentId: string }> = ({ commentId }) => {
     );
 };
 
+// SubtaskItem renders itself and recurses into its own children, so every level
+// of a checklist subscribes to exactly one subtask and one child-id list.
+const SubtaskItemBase: React.FC<{ subtaskId: string }> = ({ subtaskId }) => {
+    useCounterKey('SubtaskItem');
+    const ctx = useContext(AdapterContext);
+    if (!ctx) throw new Error('Adapter context not found');
+
+    const subtask = ctx.adapter.hooks.useSubtaskById(subtaskId) as Subtask | undefined;
+    const childIds = ctx.adapter.hooks.useChildIdsByParentId(subtaskId) as ID[];
+    useWastedRenderCheck('SubtaskItem', subtaskId, [subtask?.title, subtask?.done, childIds]);
+
+    const handleToggle = useCallback(() => {
+        ctx.actions.toggleSubtask(subtaskId);
+    }, [ctx.actions, subtaskId]);
+
+    if (!subtask) return null;
+
+    return (
+        <div>
+            <label style={styles.subtaskItemStyles.row}>
+                <input type="checkbox" checked={subtask.done} onChange={handleToggle} />
+                <span style={subtask.done ? styles.subtaskItemStyles.done : undefined}>
+                    {subtask.title}
+                </span>
+            </label>
+            {childIds.length > 0 && <SubtasksList subtaskIds={childIds} />}
+        </div>
+    );
+};
+
+const SubtasksListBase: React.FC<{ subtaskIds: ID[] }> = ({ subtaskIds }) => {
+    const { SubtaskItem } = useLeaf();
+
+    return (
+        <div style={styles.subtaskItemStyles.list}>
+            {subtaskIds.map((subtaskId) => (
+                <SubtaskItem key={subtaskId} subtaskId={subtaskId} />
+            ))}
+        </div>
+    );
+};
+
+// TagChip subscribes to a single tag, so renaming or recoloring it re-renders the
+// chip on every card carrying the tag — and nothing else on those cards.
+const TagChipBase: React.FC<{ tagId: string; hostId: string }> = ({ tagId, hostId }) => {
+    useCounterKey('TagChip');
+    const ctx = useContext(AdapterContext);
+    if (!ctx) throw new Error('Adapter context not found');
+
+    const tag = ctx.adapter.hooks.useTagById(tagId) as Tag | undefined;
+    // One tag's chips sit on many cards: each chip is an instance of its own
+    useWastedRenderCheck('TagChip', `${hostId}:${tagId}`, [tag?.label, tag?.color]);
+    if (!tag) return null;
+
+    return <span style={styles.tagChipStyles.chip(tag.color)}>{tag.label}</span>;
+};
+
+const TagChipsBase: React.FC<{ tagIds: ID[]; hostId: string }> = ({ tagIds, hostId }) => {
+    const { TagChip } = useLeaf();
+
+    return (
+        <div style={styles.tagChipStyles.list}>
+            {tagIds.map((tagId) => (
+                <TagChip key={tagId} tagId={tagId} hostId={hostId} />
+            ))}
+        </div>
+    );
+};
+
 // CardItem / CommentItem / DeckItem are built per-adapter (observer or memo) and
 // supplied via LeafComponentsContext — see the leaf factory in the App root.
 
@@ -351,6 +623,16 @@ const CommentsList: React.FC<{ commentIds: ID[] }> = React.memo(({ commentIds })
     return <CommentsListBase commentIds={commentIds} />;
 });
 
+// Same reference memo for checklist levels — relies on stable child-id arrays.
+const SubtasksList: React.FC<{ subtaskIds: ID[] }> = React.memo(({ subtaskIds }) => (
+    <SubtasksListBase subtaskIds={subtaskIds} />
+));
+
+// And for a card's tag chips — a tag rename must not hand the card new tag ids.
+const TagChips: React.FC<{ tagIds: ID[]; hostId: string }> = React.memo(({ tagIds, hostId }) => (
+    <TagChipsBase tagIds={tagIds} hostId={hostId} />
+));
+
 // Info Banner Component
 const InfoBanner: React.FC = () => {
     const [isCollapsed, setIsCollapsed] = useState(true);
@@ -460,6 +742,1167 @@ const InfoBanner: React.FC = () => {
 
 const TEST_COUNT = 10;
 
+// Progress icons of the registry scenarios, as on their toolbar buttons
+const SCENARIO_ICONS: Partial<Record<WorkloadScenario, string>> = {
+    'background-churn': '🔄',
+    'inline-editing': '✏️',
+    'bulk-update': '📦',
+    'structural-edit': '🧱',
+    'deep-toggle': '🌲',
+    'tag-rename': '🏷️',
+    'derived-churn': '🧮',
+    'filter-typing': '🔍',
+    'reorder-churn': '↕️',
+    'undo-redo': '↩️',
+    'optimistic-save': '☁️',
+    scroll: '🖱️',
+    'cold-start': '🧊',
+    'concurrent-input': '⚡',
+    'deck-navigation': '🧭',
+    'realtime-stream': '📡',
+};
+
+// Mock server of the optimistic-save workload: 50-80ms per save, one save in five
+// rejected. A fresh one per benchmark, so every adapter sees the same failures.
+function createOptimisticSaveServer(): MockServer {
+    return createMockServer({ latencyMs: 50, jitterMs: 30, failureRate: 0.2, seed: 7 });
+}
+
+// Reads comment texts through the adapter's hooks in a detached root, outside the
+// app's tree (and its render counters).
+function readCommentTexts(
+    adapter: StoreAdapter,
+    store: unknown,
+    commentIds: ID[],
+): Array<string | undefined> {
+    let texts: Array<string | undefined> = [];
+    const Probe: React.FC = () => {
+        texts = commentIds.map((id) => adapter.hooks.useCommentById(id)?.text);
+        return null;
+    };
+    const root = createRoot(document.createElement('div'));
+    flushSync(() => {
+        root.render(
+            React.createElement(adapter.Provider as any, { store }, React.createElement(Probe)),
+        );
+    });
+    root.unmount();
+    return texts;
+}
+
+// Optimistic-save workload: each round saves a new text to every target comment
+// through the mock server, one comment at a time and without waiting for the
+// answers, then lets every save settle. The actions are the unwrapped ones: a
+// wrapped call would time the server round trip, so each save is timed from the
+// call to the paint of its optimistic text instead. Once the run is over the
+// comments are read back; resolves with the number whose text disagrees with the
+// server's answers (an accepted save's text, else the text from before).
+async function runOptimisticSaveWorkload(
+    actions: Actions,
+    measure: MeasureLatency,
+    runNum: number,
+    commentIds: ID[],
+    server: MockServer,
+    readTexts: (commentIds: ID[]) => Array<string | undefined>,
+): Promise<number> {
+    if (!actions.saveCommentText) return 0;
+    const expected = readTexts(commentIds);
+    for (let round = 0; round < 5; round++) {
+        const text = `Run${runNum}_Saved ${round}`;
+        const saves: Array<Promise<boolean>> = [];
+        for (const commentId of commentIds) {
+            await measure(() => {
+                saves.push(actions.saveCommentText!(commentId, text, server));
+            });
+        }
+        const accepted = await Promise.all(saves);
+        accepted.forEach((ok, i) => {
+            if (ok) expected[i] = text;
+        });
+    }
+    const actual = readTexts(commentIds);
+    return actual.filter((text, i) => text !== expected[i]).length;
+}
+
+// Visibility-update lag of the scroll benchmark. While a probe is installed, the
+// IntersectionObserver notes when a card's visibility changed on screen, and the
+// card, once it has committed the matching `isVisible`, how long that took.
+// Entries still pending when the scroll settles are updates the UI never showed.
+type VisibilityProbe = {
+    pending: Map<ID, { isVisible: boolean; since: number }>;
+    lags: number[];
+};
+let visibilityProbe: VisibilityProbe | null = null;
+
+function noteVisibilityChange(cardId: ID, isVisible: boolean, since: number) {
+    visibilityProbe?.pending.set(cardId, { isVisible, since });
+}
+
+function noteVisibilityCommit(cardId: ID, isVisible: boolean) {
+    const pending = visibilityProbe?.pending.get(cardId);
+    if (!visibilityProbe || !pending || pending.isVisible !== isVisible) return;
+    visibilityProbe.pending.delete(cardId);
+    visibilityProbe.lags.push(performance.now() - pending.since);
+}
+
+// Scrolls `container` to `targetTop` at a constant speed, one step per animation
+// frame; reports each frame's duration. Resolves once the target is reached.
+function scrollAtSpeed(
+    container: HTMLElement,
+    targetTop: number,
+    speedPxPerSec: number,
+    onFrame?: (frameMs: number) => void,
+): Promise<void> {
+    return new Promise((resolve) => {
+        let last = performance.now();
+        const step = (now: number) => {
+            const frameMs = now - last;
+            last = now;
+            onFrame?.(frameMs);
+            const before = container.scrollTop;
+            const remaining = targetTop - before;
+            const delta = Math.min(Math.abs(remaining), (speedPxPerSec * frameMs) / 1000);
+            container.scrollTop = before + Math.sign(remaining) * Math.max(1, delta);
+            // scrollTop stops at the scroll range, which may end short of the target
+            const stuck = container.scrollTop === before;
+            if (Math.abs(targetTop - container.scrollTop) < 1 || stuck) {
+                resolve();
+            } else {
+                requestAnimationFrame(step);
+            }
+        };
+        requestAnimationFrame(step);
+    });
+}
+
+// The deck list's scroll container (see DeckList)
+function getDeckListContainer(): HTMLElement | null {
+    return document.querySelector<HTMLElement>('[data-deck-list]');
+}
+
+// Speeds the scroll workload drives the deck list at, slow to fast (px/s)
+const SCROLL_SPEEDS_PX_PER_S = [1500, 4000, 8000];
+
+type ScrollRunStats = {
+    frameTimes: number[];
+    visibilityLags: number[];
+    missedVisibilityUpdates: number;
+};
+
+// Scroll workload: from the top, scrolls the deck list down (up to 6000px) and
+// back up at each speed, with the IntersectionObserver active, so cards report
+// visibility changes through setCardVisibility as they enter and leave the
+// viewport. Collects the frame times and visibility-update lags of the run.
+async function runScrollWorkload(): Promise<ScrollRunStats> {
+    const container = getDeckListContainer();
+    const stats: ScrollRunStats = {
+        frameTimes: [],
+        visibilityLags: [],
+        missedVisibilityUpdates: 0,
+    };
+    if (!container) return stats;
+    const settle = () => new Promise((resolve) => setTimeout(resolve, 300));
+    container.scrollTop = 0;
+    await settle();
+    visibilityProbe = { pending: new Map(), lags: [] };
+    try {
+        const distance = Math.min(6000, container.scrollHeight - container.clientHeight);
+        for (const speed of SCROLL_SPEEDS_PX_PER_S) {
+            const onFrame = (frameMs: number) => stats.frameTimes.push(frameMs);
+            await scrollAtSpeed(container, distance, speed, onFrame);
+            await scrollAtSpeed(container, 0, speed, onFrame);
+        }
+        await settle();
+        stats.visibilityLags = visibilityProbe.lags;
+        stats.missedVisibilityUpdates = visibilityProbe.pending.size;
+    } finally {
+        visibilityProbe = null;
+    }
+    return stats;
+}
+
+// Summary of the scroll runs stored on the benchmark result
+function summarizeScrollRuns(runs: ScrollRunStats[]): NonNullable<BenchmarkResult['scroll']> {
+    const frameTimes = runs.flatMap((r) => r.frameTimes);
+    const visibilityLags = runs.flatMap((r) => r.visibilityLags);
+    return {
+        frameMsP50: calculatePercentile(frameTimes, 50),
+        frameMsP95: calculatePercentile(frameTimes, 95),
+        frameMsMax: frameTimes.length > 0 ? Math.max(...frameTimes) : 0,
+        visibilityLagMsP50: calculatePercentile(visibilityLags, 50),
+        visibilityLagMsP95: calculatePercentile(visibilityLags, 95),
+        visibilityUpdates: visibilityLags.length,
+        missedVisibilityUpdates: runs.reduce((sum, r) => sum + r.missedVisibilityUpdates, 0),
+    };
+}
+
+// Dataset sizes of the cold-start benchmark, as deck counts: half, the same as and
+// double the app's dataset (30 cards per deck each)
+const COLD_START_DECKS = [25, 50, 100];
+
+type ColdStartSample = NonNullable<BenchmarkResult['coldStart']>[number];
+
+// Heap in use once garbage collection (when exposed, e.g. --js-flags=--expose-gc)
+// has had a chance to run; 0 without performance.memory
+async function getSettledHeapMB(): Promise<number> {
+    if (typeof (window as any).gc === 'function') {
+        (window as any).gc();
+        await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    return getMemoryUsage();
+}
+
+// Cold-start workload: for each size, generates a dataset (untimed), then times
+// adapter.createStore, bindActions and the mount of a fresh deck list in its own
+// root, up to its first commit and the paint after it. The heap is sampled before
+// and after, so index building inside createStore shows up in both time and memory.
+// Each tree is unmounted before the next size.
+async function runColdStartWorkload(adapter: StoreAdapter): Promise<ColdStartSample[]> {
+    const leaf = buildLeafComponents(adapter);
+    const samples: ColdStartSample[] = [];
+    for (const decks of COLD_START_DECKS) {
+        const dataset = generateDataset({ ...APP_DATASET_OPTIONS, decks });
+        const heapBefore = await getSettledHeapMB();
+
+        const start = performance.now();
+        const store = adapter.createStore(dataset);
+        const storeCreated = performance.now();
+        const actions = adapter.bindActions(store);
+        const actionsBound = performance.now();
+
+        // On top of the app, so the browser actually lays out and paints the list
+        const container = document.createElement('div');
+        Object.assign(container.style, {
+            position: 'fixed',
+            inset: '0',
+            zIndex: '1000',
+            background: '#fff',
+        });
+        document.body.appendChild(container);
+        const root = createRoot(container);
+        const mountStart = performance.now();
+        flushSync(() => {
+            root.render(
+                <adapter.Provider store={store}>
+                    <AdapterContext.Provider value={{ adapter, actions }}>
+                        <LeafComponentsContext.Provider value={leaf}>
+                            <DeckList adapter={adapter} />
+                        </LeafComponentsContext.Provider>
+                    </AdapterContext.Provider>
+                </adapter.Provider>,
+            );
+        });
+        const committed = performance.now();
+        // The frame's rAF callbacks run before its paint; the task after them, after it
+        await new Promise((resolve) => requestAnimationFrame(() => setTimeout(resolve, 0)));
+        const painted = performance.now();
+
+        const heapAfter = await getSettledHeapMB();
+        root.unmount();
+        container.remove();
+        samples.push({
+            decks,
+            cards: Object.keys(dataset.entities.cards).length,
+            createStoreMs: storeCreated - start,
+            bindActionsMs: actionsBound - storeCreated,
+            firstCommitMs: committed - mountStart,
+            firstPaintMs: painted - start,
+            heapMB: Math.max(0, heapAfter - heapBefore),
+        });
+    }
+    return samples;
+}
+
+// Per-size medians of the cold-start runs stored on the benchmark result
+function summarizeColdStartRuns(runs: ColdStartSample[][]): ColdStartSample[] {
+    return COLD_START_DECKS.map((decks, i) => {
+        const samples = runs.map((run) => run[i]);
+        const median = (key: keyof ColdStartSample) => calculateMedian(samples.map((s) => s[key]));
+        return {
+            decks,
+            cards: samples[0]?.cards ?? 0,
+            createStoreMs: median('createStoreMs'),
+            bindActionsMs: median('bindActionsMs'),
+            firstCommitMs: median('firstCommitMs'),
+            firstPaintMs: median('firstPaintMs'),
+            heapMB: median('heapMB'),
+        };
+    });
+}
+
+// Shows the deck view sorted by `sortKey` while `run` executes, then restores the
+// previous order; waits two frames so the re-sorted lists are committed first.
+async function withDeckSort<T>(
+    setSortKey: React.Dispatch<React.SetStateAction<CardSortKey | null>>,
+    sortKey: CardSortKey,
+    run: () => Promise<T>,
+): Promise<T> {
+    let previous: CardSortKey | null = null;
+    setSortKey((current) => {
+        previous = current;
+        return sortKey;
+    });
+    await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+    try {
+        return await run();
+    } finally {
+        setSortKey(previous);
+    }
+}
+
+// Runs one benchmark of a registry scenario (see scenarios.ts in @bench/core),
+// with the deck view sorted while it runs when the scenario needs it
+async function runPreparedScenario(
+    prepared: PreparedScenario,
+    adapterName: string,
+    actions: Actions,
+    setSortKey: React.Dispatch<React.SetStateAction<CardSortKey | null>>,
+): Promise<BenchmarkResult> {
+    const { scenario, runs, params, targets } = prepared;
+    const run = () =>
+        benchmarkRunner.runBenchmark(
+            scenario.id,
+            adapterName,
+            actions,
+            (wrappedActions, runNum) => scenario.steps(wrappedActions, { targets, runNum, params }),
+            runs,
+        );
+    return scenario.deckSort ? withDeckSort(setSortKey, scenario.deckSort, run) : run();
+}
+
+// Shows the deck view's card lists through useDeferredValue while `run` executes
+async function withDeferredLists<T>(
+    setDeferredLists: (deferred: boolean) => void,
+    run: () => Promise<T>,
+): Promise<T> {
+    setDeferredLists(true);
+    await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+    try {
+        return await run();
+    } finally {
+        setDeferredLists(false);
+    }
+}
+
+// Concurrent input: each keystroke of comment typing (urgent, measured up to its
+// paint) follows a low-priority batch of card edits dispatched in startTransition,
+// with the deck view sorted by last update so every batch reorders card lists
+const CONCURRENT_KEYSTROKES = 20;
+const CONCURRENT_CARDS_PER_TRANSITION = 10;
+
+type ConcurrentRunStats = {
+    blockGaps: number[]; // main-thread gaps between timer ticks while the run lasted
+    transitions: number;
+    syncTransitionCommits: number;
+};
+
+// The comment the typing goes to and the cards the transitions edit (five from
+// each of the first ten decks)
+// Chained zero-delay timers: each gap is how long the main thread was busy (a
+// store that renders synchronously blocks it for the whole render)
+function startTimerProbe(): { stop(): number[] } {
+    const gaps: number[] = [];
+    let last = performance.now();
+    let timer = setTimeout(function tick() {
+        const now = performance.now();
+        gaps.push(now - last);
+        last = now;
+        timer = setTimeout(tick, 0);
+    }, 0);
+    return {
+        stop() {
+            clearTimeout(timer);
+            return gaps;
+        },
+    };
+}
+
+async function runConcurrentInputWorkload(
+    actions: Actions,
+    wrappedActions: Actions,
+    runNum: number,
+    targets: { commentId: ID; cardIds: ID[] },
+): Promise<ConcurrentRunStats> {
+    const stats: ConcurrentRunStats = { blockGaps: [], transitions: 0, syncTransitionCommits: 0 };
+    const container = getDeckListContainer();
+    // A commit shows up as DOM mutations: the edited titles and the reordered lists
+    const mutations = new MutationObserver(() => {});
+    if (container) {
+        mutations.observe(container, { subtree: true, childList: true, characterData: true });
+    }
+    const probe = startTimerProbe();
+    const base = Date.now() + runNum * CONCURRENT_KEYSTROKES * CONCURRENT_CARDS_PER_TRANSITION;
+    try {
+        for (let i = 0; i < CONCURRENT_KEYSTROKES; i++) {
+            mutations.takeRecords();
+            startTransition(() => {
+                for (let j = 0; j < CONCURRENT_CARDS_PER_TRANSITION; j++) {
+                    const n = i * CONCURRENT_CARDS_PER_TRANSITION + j;
+                    // Unwrapped: the transitions are background work, not measured input
+                    actions.updateCard(targets.cardIds[n % targets.cardIds.length]!, {
+                        title: `Run${runNum} churn ${n}`,
+                        updatedAt: base + n,
+                    });
+                }
+            });
+            // React schedules a transition for later; a store that forces a
+            // synchronous re-render (useSyncExternalStore) commits before the
+            // microtasks queued now have run
+            for (let k = 0; k < 5; k++) await Promise.resolve();
+            stats.transitions++;
+            if (mutations.takeRecords().length > 0) stats.syncTransitionCommits++;
+            await wrappedActions.updateCommentText(
+                targets.commentId,
+                `Run${runNum} concurrent typing ${'x'.repeat(i + 1)}`,
+            );
+        }
+    } finally {
+        stats.blockGaps = probe.stop();
+        mutations.disconnect();
+    }
+    return stats;
+}
+
+// Summary of the concurrent-input runs stored on the benchmark result
+function summarizeConcurrentRuns(
+    runs: ConcurrentRunStats[],
+): NonNullable<BenchmarkResult['concurrent']> {
+    const gaps = runs.flatMap((r) => r.blockGaps);
+    return {
+        blockMsP95: calculatePercentile(gaps, 95),
+        blockMsMax: gaps.length > 0 ? Math.max(...gaps) : 0,
+        longTasks: gaps.filter((gap) => gap > 50).length,
+        transitions: runs.reduce((sum, r) => sum + r.transitions, 0),
+        syncTransitionCommits: runs.reduce((sum, r) => sum + r.syncTransitionCommits, 0),
+    };
+}
+
+// Runs the concurrent-input benchmark with the deck view sorted by last update and
+// its lists deferred; input latency is the result's latency (only keystrokes are
+// measured calls)
+async function runConcurrentInput(
+    adapterName: string,
+    actions: Actions,
+    targets: { commentId: ID; cardIds: ID[] },
+    runs: number,
+    setSortKey: React.Dispatch<React.SetStateAction<CardSortKey | null>>,
+    setDeferredLists: (deferred: boolean) => void,
+): Promise<BenchmarkResult> {
+    const concurrentRuns: ConcurrentRunStats[] = [];
+    const result = await withDeckSort(setSortKey, 'updatedAt', () =>
+        withDeferredLists(setDeferredLists, () =>
+            benchmarkRunner.runBenchmark(
+                'concurrent-input',
+                adapterName,
+                actions,
+                async (wrappedActions, runNum) => {
+                    // The measured first run replaces the warmup's stats
+                    concurrentRuns[runNum] = await runConcurrentInputWorkload(
+                        actions,
+                        wrappedActions,
+                        runNum,
+                        targets,
+                    );
+                },
+                runs,
+            ),
+        ),
+    );
+    result.concurrent = summarizeConcurrentRuns(concurrentRuns);
+    return result;
+}
+
+// Shows the deck view as `view` while `run` executes, then switches back; waits
+// two frames so the view is committed first.
+async function withDeckView<T>(
+    setDeckView: React.Dispatch<React.SetStateAction<DeckView>>,
+    view: DeckView,
+    run: () => Promise<T>,
+): Promise<T> {
+    let previous: DeckView = 'list';
+    setDeckView((current) => {
+        previous = current;
+        return view;
+    });
+    await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+    try {
+        return await run();
+    } finally {
+        setDeckView(previous);
+    }
+}
+
+// Deck navigation: in the single-deck view, each step makes a deck active (its
+// whole tree mounts and subscribes) and then no deck (it unmounts and should
+// unsubscribe), each call measured up to its paint
+const NAVIGATION_STEPS = 20;
+
+type NavigationRunStats = {
+    mountMs: number[];
+    unmountMs: number[];
+    mountedSubscribers: number[]; // right after each mount, when the adapter counts them
+};
+
+async function runDeckNavigationWorkload(
+    actions: Actions,
+    measure: MeasureLatency,
+    runNum: number,
+    deckIds: ID[],
+    readSubscribers: () => number | null,
+): Promise<NavigationRunStats> {
+    const stats: NavigationRunStats = { mountMs: [], unmountMs: [], mountedSubscribers: [] };
+    for (let i = 0; i < NAVIGATION_STEPS; i++) {
+        // Each run moves on to the next decks, so mounts do not reuse the last run's
+        const deckId = deckIds[(runNum * NAVIGATION_STEPS + i) % deckIds.length]!;
+        stats.mountMs.push(await measure(() => actions.setActiveDeck(deckId)));
+        const subscribers = readSubscribers();
+        if (subscribers !== null) stats.mountedSubscribers.push(subscribers);
+        stats.unmountMs.push(await measure(() => actions.setActiveDeck(NO_DECK_ID)));
+    }
+    return stats;
+}
+
+// Summary of the deck-navigation runs stored on the benchmark result
+function summarizeNavigationRuns(
+    runs: NavigationRunStats[],
+    subscribersBefore: number | null,
+    subscribersAfter: number | null,
+): NonNullable<BenchmarkResult['navigation']> {
+    const mountMs = runs.flatMap((r) => r.mountMs);
+    const unmountMs = runs.flatMap((r) => r.unmountMs);
+    const mounted = runs.flatMap((r) => r.mountedSubscribers);
+    return {
+        mountMsP50: calculatePercentile(mountMs, 50),
+        mountMsP95: calculatePercentile(mountMs, 95),
+        unmountMsP50: calculatePercentile(unmountMs, 50),
+        unmountMsP95: calculatePercentile(unmountMs, 95),
+        navigations: mountMs.length,
+        subscribersBefore,
+        subscribersMounted: mounted.length > 0 ? calculatePercentile(mounted, 50) : null,
+        subscribersAfter,
+        leakedSubscribers:
+            subscribersBefore !== null && subscribersAfter !== null
+                ? Math.max(0, subscribersAfter - subscribersBefore)
+                : null,
+    };
+}
+
+// Runs the deck-navigation benchmark in the single-deck view, counting the store's
+// subscribers with no deck shown before and after the runs (null when the adapter
+// has no debugStats); afterwards the deck `restoreDeckId` is the active one again
+async function runDeckNavigation(
+    adapter: StoreAdapter,
+    store: StoreHandle,
+    actions: Actions,
+    deckIds: ID[],
+    restoreDeckId: ID | null,
+    runs: number,
+    setDeckView: React.Dispatch<React.SetStateAction<DeckView>>,
+): Promise<BenchmarkResult> {
+    if (deckIds.length === 0) throw new Error('No decks available for deck-navigation');
+    const readSubscribers = () =>
+        adapter.debugStats ? adapter.debugStats(store).subscribers : null;
+    const settle = () =>
+        new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+    const navigationRuns: NavigationRunStats[] = [];
+    let subscribersBefore: number | null = null;
+    let subscribersAfter: number | null = null;
+    const result = await withDeckView(setDeckView, 'detail', async () => {
+        actions.setActiveDeck(NO_DECK_ID);
+        try {
+            await settle();
+            subscribersBefore = readSubscribers();
+            const benchmark = await benchmarkRunner.runBenchmark(
+                'deck-navigation',
+                adapter.name,
+                actions,
+                async (_wrappedActions, runNum, measure) => {
+                    // The measured first run replaces the warmup's stats
+                    navigationRuns[runNum] = await runDeckNavigationWorkload(
+                        actions,
+                        measure,
+                        runNum,
+                        deckIds,
+                        readSubscribers,
+                    );
+                },
+                runs,
+            );
+            // Unsubscribing may wait for passive effects
+            await settle();
+            subscribersAfter = readSubscribers();
+            return benchmark;
+        } finally {
+            if (restoreDeckId !== null) actions.setActiveDeck(restoreDeckId);
+        }
+    });
+    result.navigation = summarizeNavigationRuns(
+        navigationRuns,
+        subscribersBefore,
+        subscribersAfter,
+    );
+    return result;
+}
+
+// Realtime stream: STREAM_DURATION_MS of server pushes (card edits, new comments,
+// renames and tag toggles on the cards of the first ten decks, see eventStream.ts),
+// most of each second's events arriving in one burst, then a final burst whose
+// settling the run times
+const STREAM_DURATION_MS = 3000;
+const STREAM_RATE_PER_S = 300;
+const STREAM_BURSTINESS = 0.7;
+const STREAM_FINAL_BURST = 200;
+// One frame at 60Hz; a frame that took n of them dropped n - 1
+const FRAME_MS = 1000 / 60;
+// The deck list has settled once it has not changed for this long
+const STREAM_QUIET_MS = 200;
+const STREAM_SETTLE_TIMEOUT_MS = 10000;
+// Streams played so far: each adds its comments under ids of its own
+let streamCount = 0;
+
+type StreamRunStats = {
+    events: number;
+    skipped: number;
+    droppedFrames: number;
+    maxBacklog: number;
+    settleMs: number; // from the final burst to the deck list's last change
+};
+
+async function runRealtimeStreamWorkload(
+    actions: Actions,
+    runNum: number,
+    data: RootState,
+): Promise<StreamRunStats> {
+    const events = generateEventStream(data, STREAM_DURATION_MS, {
+        ratePerSec: STREAM_RATE_PER_S,
+        burstiness: STREAM_BURSTINESS,
+        finalBurst: STREAM_FINAL_BURST,
+        deckIds: data.decksOrder.slice(0, 10),
+        // The same streams on every adapter
+        seed: runNum + 1,
+        idPrefix: `stream${++streamCount}`,
+    });
+    // A commit shows up as DOM mutations of the deck list
+    let lastChange = performance.now();
+    const mutations = new MutationObserver(() => {
+        lastChange = performance.now();
+    });
+    const container = getDeckListContainer();
+    if (container) {
+        mutations.observe(container, { subtree: true, childList: true, characterData: true });
+    }
+    let droppedFrames = 0;
+    let counting = true;
+    let lastFrame = performance.now();
+    const onFrame = (now: number) => {
+        droppedFrames += Math.max(0, Math.round((now - lastFrame) / FRAME_MS) - 1);
+        lastFrame = now;
+        if (counting) requestAnimationFrame(onFrame);
+    };
+    requestAnimationFrame(onFrame);
+    try {
+        const burstAt = performance.now() + STREAM_DURATION_MS;
+        const run = await runEventStream(actions, events);
+        while (
+            performance.now() - lastChange < STREAM_QUIET_MS &&
+            performance.now() - burstAt < STREAM_SETTLE_TIMEOUT_MS
+        ) {
+            await new Promise((resolve) => setTimeout(resolve, STREAM_QUIET_MS / 4));
+        }
+        return {
+            events: events.length,
+            skipped: run.skipped,
+            droppedFrames,
+            maxBacklog: run.maxBacklog,
+            settleMs: Math.max(0, lastChange - burstAt),
+        };
+    } finally {
+        counting = false;
+        mutations.disconnect();
+    }
+}
+
+// Summary of the realtime-stream runs stored on the benchmark result
+function summarizeStreamRuns(runs: StreamRunStats[]): NonNullable<BenchmarkResult['stream']> {
+    const droppedFrames = runs.map((r) => r.droppedFrames);
+    const settleMs = runs.map((r) => r.settleMs);
+    return {
+        events: runs[0]?.events ?? 0,
+        skippedEvents: runs.reduce((sum, r) => sum + r.skipped, 0),
+        droppedFramesP50: calculatePercentile(droppedFrames, 50),
+        droppedFramesMax: droppedFrames.length > 0 ? Math.max(...droppedFrames) : 0,
+        maxBacklog: runs.reduce((max, r) => Math.max(max, r.maxBacklog), 0),
+        settleMsP50: calculatePercentile(settleMs, 50),
+        settleMsMax: settleMs.length > 0 ? Math.max(...settleMs) : 0,
+    };
+}
+
+// Runs the realtime-stream benchmark: each run plays its stream into the store in
+// real time. No single call is measured, so latency reads 0; the result's stream
+// field holds the dropped frames, backlog and settle time
+async function runRealtimeStream(
+    adapterName: string,
+    actions: Actions,
+    data: RootState,
+    runs: number,
+): Promise<BenchmarkResult> {
+    const streamRuns: StreamRunStats[] = [];
+    const result = await benchmarkRunner.runBenchmark(
+        'realtime-stream',
+        adapterName,
+        actions,
+        async (_wrappedActions, runNum) => {
+            // The measured first run replaces the warmup's stats
+            streamRuns[runNum] = await runRealtimeStreamWorkload(actions, runNum, data);
+        },
+        runs,
+    );
+    result.stream = summarizeStreamRuns(streamRuns);
+    return result;
+}
+
+// Tearing check: TEARING_PROBES components read the title of one card while a slow
+// concurrent render of them is interrupted by store writes (each probe render
+// busy-waits, so React yields between probes). A store whose hooks do not give
+// React one consistent snapshot lets probes rendered before a write commit next to
+// probes rendered after it. Each check runs on a fresh store in its own root.
+const TEARING_PROBES = 50;
+const TEARING_PROBE_RENDER_MS = 2;
+const TEARING_PASSES = 5;
+const TEARING_WRITES_PER_PASS = 3;
+
+// Each pass re-renders every probe in a transition, and the store is written
+// between its slices
+const TEARING_CHECKS = [
+    // Plain writes, which React renders before it resumes the transition
+    { id: 'urgent-write', label: 'Urgent write' },
+    // Writes in startTransition of their own, which do not interrupt the pass
+    { id: 'transition-write', label: 'Transition write' },
+] as const;
+
+type TearingCheckId = (typeof TEARING_CHECKS)[number]['id'];
+
+// Values the probes committed, checked once per commit: layout effects of one
+// commit run in a single task, so a microtask queued by the first sees them all
+type TearingRecorder = {
+    values: string[];
+    commits: number;
+    tornCommits: number;
+    lastCommitAt: number;
+    note(index: number, value: string): void;
+};
+
+function createTearingRecorder(): TearingRecorder {
+    let queued = false;
+    const recorder: TearingRecorder = {
+        values: [],
+        commits: 0,
+        tornCommits: 0,
+        lastCommitAt: performance.now(),
+        note(index, value) {
+            recorder.values[index] = value;
+            if (queued) return;
+            queued = true;
+            queueMicrotask(() => {
+                queued = false;
+                recorder.commits++;
+                recorder.lastCommitAt = performance.now();
+                if (new Set(recorder.values).size > 1) recorder.tornCommits++;
+            });
+        },
+    };
+    return recorder;
+}
+
+// `pass` is not read: a new pass makes the memoized probe render again
+const TearingProbeBase: React.FC<{
+    cardId: ID;
+    index: number;
+    pass: number;
+    recorder: TearingRecorder;
+}> = ({ cardId, index, recorder }) => {
+    const ctx = useContext(AdapterContext);
+    if (!ctx) throw new Error('Adapter context not found');
+    const card = ctx.adapter.hooks.useCardById(cardId) as Card | undefined;
+    const title = card?.title ?? '';
+    const until = performance.now() + TEARING_PROBE_RENDER_MS;
+    while (performance.now() < until) {
+        // Slow render, so one pass over the probes spans many of React's time slices
+    }
+    useLayoutEffect(() => {
+        recorder.note(index, title);
+    });
+    return <div>{title}</div>;
+};
+
+// Resolves once no probe has committed for a while (or after timeoutMs)
+async function waitForTearingIdle(recorder: TearingRecorder, timeoutMs = 10000): Promise<void> {
+    const start = performance.now();
+    while (performance.now() - start < timeoutMs) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        if (performance.now() - recorder.lastCommitAt > 200) return;
+    }
+}
+
+async function runTearingCheck(
+    adapter: StoreAdapter,
+    check: TearingCheckId,
+): Promise<TearingCheckResult> {
+    const dataset = generateDataset({ ...APP_DATASET_OPTIONS, decks: 5 });
+    const cardId = Object.keys(dataset.entities.cards)[0]!;
+    const store = adapter.createStore(dataset);
+    const actions = adapter.bindActions(store);
+    const TearingProbe = adapter.observer
+        ? adapter.observer(TearingProbeBase)
+        : React.memo(TearingProbeBase);
+    const recorder = createTearingRecorder();
+
+    const container = document.createElement('div');
+    Object.assign(container.style, { position: 'fixed', left: '-10000px', top: '0' });
+    document.body.appendChild(container);
+    const root = createRoot(container);
+    const render = (pass: number) =>
+        root.render(
+            <adapter.Provider store={store}>
+                <AdapterContext.Provider value={{ adapter, actions }}>
+                    {Array.from({ length: TEARING_PROBES }, (_, i) => (
+                        <TearingProbe
+                            key={i}
+                            cardId={cardId}
+                            index={i}
+                            pass={pass}
+                            recorder={recorder}
+                        />
+                    ))}
+                </AdapterContext.Provider>
+            </adapter.Provider>,
+        );
+    // Time between writes: a pass renders for about TEARING_PROBES * TEARING_PROBE_RENDER_MS
+    const writeGapMs = (TEARING_PROBES * TEARING_PROBE_RENDER_MS) / (TEARING_WRITES_PER_PASS + 1);
+    let lastTitle = '';
+    const write = (title: string) => {
+        actions.updateCard(cardId, { title });
+        lastTitle = title;
+    };
+
+    try {
+        flushSync(() => render(0));
+        await waitForTearingIdle(recorder);
+        recorder.commits = 0;
+        recorder.tornCommits = 0;
+        for (let pass = 1; pass <= TEARING_PASSES; pass++) {
+            startTransition(() => render(pass));
+            for (let i = 0; i < TEARING_WRITES_PER_PASS; i++) {
+                await new Promise((resolve) => setTimeout(resolve, writeGapMs));
+                const title = `Pass ${pass} write ${i}`;
+                if (check === 'urgent-write') write(title);
+                else startTransition(() => write(title));
+            }
+            await waitForTearingIdle(recorder);
+        }
+    } finally {
+        root.unmount();
+        container.remove();
+    }
+    const finalMismatch = recorder.values.some((value) => value !== lastTitle);
+    return {
+        adapter: adapter.name,
+        check,
+        passed: recorder.tornCommits === 0 && !finalMismatch,
+        commits: recorder.commits,
+        tornCommits: recorder.tornCommits,
+        finalMismatch,
+    };
+}
+
+// Every tearing check on each adapter (all by default), one fresh store per check
+async function runTearingChecks(
+    adapterNames: string[] | undefined,
+    setCurrentProgress: (progress: string) => void,
+): Promise<TearingCheckResult[]> {
+    const checked = adapterNames
+        ? adapterNames.map((name) => {
+              const found = adapters.find((a) => a.name === name);
+              if (!found) throw new Error(`Adapter "${name}" not found`);
+              return found;
+          })
+        : adapters;
+    const results: TearingCheckResult[] = [];
+    try {
+        for (const adapter of checked) {
+            for (const check of TEARING_CHECKS) {
+                setCurrentProgress(`🧩 Tearing check: ${check.label} on ${adapter.name}`);
+                results.push(await runTearingCheck(adapter, check.id));
+            }
+        }
+    } finally {
+        setCurrentProgress('');
+    }
+    return results;
+}
+
+// Records the session's action calls while the toolbar's Record is on
+const traceRecorder = createTraceRecorder();
+
+// Replays a recorded session (see traces.ts in @bench/core) through the runner,
+// one measured action per traced call; speed 0 drops the idle time between calls
+async function runTraceReplay(
+    trace: ActionTrace,
+    adapterName: string,
+    actions: Actions,
+    runs: number,
+    speed = 0,
+): Promise<BenchmarkResult> {
+    const replayer = createTraceReplayer(trace);
+    return benchmarkRunner.runBenchmark(
+        'replay',
+        adapterName,
+        actions,
+        async (wrappedActions) => {
+            await replayer.replay(wrappedActions, { speed });
+        },
+        runs,
+    );
+}
+
+// What an app scenario's runner measures with: the adapter on screen, its store
+// and unwrapped actions, and the view state the runs drive
+type AppScenarioContext = {
+    adapter: StoreAdapter;
+    store: StoreHandle;
+    actions: Actions;
+    dataset: RootState;
+    trace?: ActionTrace | null; // the loaded trace, for replay
+    setSortKey: React.Dispatch<React.SetStateAction<CardSortKey | null>>;
+    setDeferredLists: (deferred: boolean) => void;
+    setDeckView: React.Dispatch<React.SetStateAction<DeckView>>;
+    isBenchmarkRunningRef: React.MutableRefObject<boolean>;
+};
+
+type AppScenarioRunner = (
+    prepared: PreparedScenario<any, AppScenarioDefinition>,
+    context: AppScenarioContext,
+) => Promise<BenchmarkResult>;
+
+// Runners of the registry's app scenarios (APP_SCENARIOS in @bench/core), by id
+const APP_SCENARIO_RUNNERS: Partial<Record<WorkloadScenario, AppScenarioRunner>> = {
+    'optimistic-save': async ({ runs, targets }, { adapter, store, actions }) => {
+        const server = createOptimisticSaveServer();
+        let rollbackMismatches = 0;
+        const result = await benchmarkRunner.runBenchmark(
+            'optimistic-save',
+            adapter.name,
+            actions,
+            async (_wrappedActions, runNum, measure) => {
+                rollbackMismatches += await runOptimisticSaveWorkload(
+                    actions,
+                    measure,
+                    runNum,
+                    targets,
+                    server,
+                    (ids) => readCommentTexts(adapter, store, ids),
+                );
+            },
+            runs,
+        );
+        result.rollbackMismatches = rollbackMismatches;
+        return result;
+    },
+    scroll: async ({ runs }, { adapter, actions, isBenchmarkRunningRef }) => {
+        // The IntersectionObserver stays on: its updates are what this measures
+        isBenchmarkRunningRef.current = false;
+        const scrollRuns: ScrollRunStats[] = [];
+        const result = await benchmarkRunner.runBenchmark(
+            'scroll',
+            adapter.name,
+            actions,
+            async (_wrappedActions, runNum) => {
+                // The measured first run replaces the warmup's stats
+                scrollRuns[runNum] = await runScrollWorkload();
+            },
+            runs,
+        );
+        result.scroll = summarizeScrollRuns(scrollRuns);
+        return result;
+    },
+    'cold-start': async ({ runs }, { adapter, actions }) => {
+        // Builds its own stores and trees; the app's store stays untouched
+        const coldStartRuns: ColdStartSample[][] = [];
+        const result = await benchmarkRunner.runBenchmark(
+            'cold-start',
+            adapter.name,
+            actions,
+            async (_wrappedActions, runNum) => {
+                // The measured first run replaces the warmup's samples
+                coldStartRuns[runNum] = await runColdStartWorkload(adapter);
+            },
+            runs,
+        );
+        result.coldStart = summarizeColdStartRuns(coldStartRuns);
+        return result;
+    },
+    'concurrent-input': ({ runs, targets }, context) =>
+        runConcurrentInput(
+            context.adapter.name,
+            context.actions,
+            targets,
+            runs,
+            context.setSortKey,
+            context.setDeferredLists,
+        ),
+    'deck-navigation': ({ runs, targets }, context) =>
+        runDeckNavigation(
+            context.adapter,
+            context.store,
+            context.actions,
+            targets.deckIds,
+            targets.restoreDeckId,
+            runs,
+            context.setDeckView,
+        ),
+    'realtime-stream': ({ runs }, context) =>
+        runRealtimeStream(context.adapter.name, context.actions, context.dataset, runs),
+    replay: async ({ runs, params }, { adapter, actions, trace }) => {
+        if (!trace) throw new Error('No action trace loaded: record or load one first');
+        return runTraceReplay(trace, adapter.name, actions, runs, params.speed);
+    },
+};
+
+// Runs one benchmark of a registry app scenario with its runner
+function runAppScenario(
+    prepared: PreparedScenario<any, AppScenarioDefinition>,
+    context: AppScenarioContext,
+): Promise<BenchmarkResult> {
+    const runner = APP_SCENARIO_RUNNERS[prepared.scenario.id];
+    if (!runner) throw new Error(`No runner for app scenario: ${prepared.scenario.id}`);
+    return runner(prepared, context);
+}
+
+function downloadTrace(trace: ActionTrace) {
+    const blob = new Blob([serializeTrace(trace)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `trace-${new Date(trace.recordedAt).toISOString().replace(/[:.]/g, '-')}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
+
+// Dataset scaling sweep: the app's dataset is re-generated at each size (the deck
+// list still mounts only its first 100 decks) and every adapter runs the selected
+// scenarios against it, so the per-update cost shows how each store scales with
+// the data it holds rather than with what is on screen
+const SWEEP_CARD_COUNTS = [1000, 5000, 20000, 100000];
+const SWEEP_SCENARIOS: WorkloadScenario[] = ['inline-editing', 'deep-toggle'];
+const SWEEP_RUNS = 5;
+
+type SweepOptions = {
+    sizes?: number[]; // approximate card counts
+    scenarios?: WorkloadScenario[];
+    adapters?: string[]; // adapter names; all by default
+    runs?: number;
+};
+
+type SweepControls = {
+    setDatasetCards: (cards: number | null) => void;
+    setAdapterIndex: (index: number) => void;
+    setSortKey: React.Dispatch<React.SetStateAction<CardSortKey | null>>;
+    isBenchmarkRunningRef: React.MutableRefObject<boolean>;
+    setCurrentProgress: (progress: string) => void;
+};
+
+// Waits until the app has re-rendered into the state `check` looks for (the
+// window API is refreshed by the app's effect), then lets it settle
+async function waitForApp(check: () => boolean, timeoutMs = 60000): Promise<void> {
+    const start = performance.now();
+    while (!check()) {
+        if (performance.now() - start > timeoutMs) {
+            throw new Error('Timed out waiting for the app to switch dataset or adapter');
+        }
+        await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+    await new Promise((resolve) => setTimeout(resolve, 200));
+}
+
+async function runScalingSweep(
+    options: SweepOptions,
+    controls: SweepControls,
+): Promise<ScalingSweep> {
+    const windowAny = window as any;
+    const scenarios = (options.scenarios ?? SWEEP_SCENARIOS).map((id) => {
+        const scenario = getScenario(id);
+        if (!scenario) throw new Error(`Unknown scenario: ${id}`);
+        return scenario;
+    });
+    const sweepAdapters = options.adapters
+        ? options.adapters.map((name) => {
+              const found = adapters.find((a) => a.name === name);
+              if (!found) throw new Error(`Adapter "${name}" not found`);
+              return found;
+          })
+        : adapters;
+    const sizes = [...(options.sizes ?? SWEEP_CARD_COUNTS)].sort((a, b) => a - b);
+    const startAdapter = windowAny.__currentAdapter as StoreAdapter | undefined;
+    const startCards = windowAny.__datasetCards as number | null;
+    const cardCounts: number[] = [];
+    const points: ScalingPoint[] = [];
+    try {
+        for (const size of sizes) {
+            const decks = getDatasetDecks(size);
+            controls.setCurrentProgress(`📈 Generating a dataset of ~${size} cards...`);
+            controls.setDatasetCards(size);
+            await waitForApp(
+                () => (windowAny.__currentDataset as RootState).decksOrder.length === decks,
+            );
+            const dataset = windowAny.__currentDataset as RootState;
+            const cards = Object.keys(dataset.entities.cards).length;
+            cardCounts.push(cards);
+            const prepared = scenarios.map((scenario) =>
+                prepareScenario(scenario, dataset, { runs: options.runs ?? SWEEP_RUNS }),
+            );
+            for (const adapter of sweepAdapters) {
+                controls.setAdapterIndex(adapters.indexOf(adapter));
+                await waitForApp(
+                    () =>
+                        windowAny.__currentAdapter === adapter &&
+                        windowAny.__currentDataset === dataset,
+                );
+                for (const run of prepared) {
+                    controls.setCurrentProgress(
+                        `📈 ${cards} cards: ${run.scenario.label} on ${adapter.name}`,
+                    );
+                    // Mark benchmark as running to prevent IntersectionObserver interference
+                    controls.isBenchmarkRunningRef.current = true;
+                    try {
+                        const result = await runPreparedScenario(
+                            run,
+                            adapter.name,
+                            windowAny.__currentActions,
+                            controls.setSortKey,
+                        );
+                        points.push({
+                            adapter: adapter.name,
+                            scenario: run.scenario.id,
+                            cards,
+                            ...getPerUpdateCost(result),
+                        });
+                    } finally {
+                        controls.isBenchmarkRunningRef.current = false;
+                    }
+                }
+            }
+        }
+    } finally {
+        controls.setDatasetCards(startCards);
+        if (startAdapter) controls.setAdapterIndex(adapters.indexOf(startAdapter));
+        controls.setCurrentProgress('');
+    }
+    return { sizes: cardCounts, points, timestamp: Date.now() };
+}
+
 const HeatmapOverlay: React.FC = () => {
     useCounterKey('HeatmapOverlay');
     const [isCollapsed, setIsCollapsed] = useState(false);
@@ -485,6 +1928,8 @@ const HeatmapOverlay: React.FC = () => {
 
     const counts = activeCounter.get();
     const totalRenders = Object.values(counts).reduce((a, b) => a + b, 0);
+    // Renders of entity components that read the same data as their previous render
+    const wasted = activeCounter.getWasted();
 
     return (
         <div style={styles.heatmapOverlayStyles.container}>
@@ -512,17 +1957,49 @@ const HeatmapOverlay: React.FC = () => {
                         <strong style={styles.heatmapOverlayStyles.totalText}>
                             Total: {totalRenders}
                         </strong>
+                        {wasted.renders > 0 && (
+                            <span style={styles.heatmapOverlayStyles.wastedText}>
+                                🗑️ Wasted: {wasted.wasted} of {wasted.renders} entity renders (
+                                {((wasted.wasted / wasted.renders) * 100).toFixed(0)}%)
+                            </span>
+                        )}
                     </div>
                     <div style={styles.heatmapOverlayStyles.list}>
                         {Object.entries(counts).map(([k, v]) => (
                             <div key={k} style={styles.heatmapOverlayStyles.listItem(v)}>
                                 <span style={styles.heatmapOverlayStyles.listItemKey}>{k}:</span>
+                                {(wasted.byComponent[k]?.wasted ?? 0) > 0 && (
+                                    <span
+                                        style={styles.heatmapOverlayStyles.listItemWasted}
+                                        title={`${wasted.byComponent[k]!.wasted} of ${wasted.byComponent[k]!.renders} renders read unchanged data, over ${wasted.byComponent[k]!.instances} instances`}
+                                    >
+                                        🗑️ {wasted.byComponent[k]!.wasted}
+                                    </span>
+                                )}
                                 <span style={styles.heatmapOverlayStyles.listItemValue(v)}>
                                     {v}
                                 </span>
                             </div>
                         ))}
                     </div>
+                    {wasted.topInstances.length > 0 && (
+                        <>
+                            <div style={styles.heatmapOverlayStyles.instancesTitle}>
+                                Most wasted instances
+                            </div>
+                            {wasted.topInstances.slice(0, 5).map((instance) => (
+                                <div
+                                    key={instance.key}
+                                    style={styles.heatmapOverlayStyles.instanceItem}
+                                >
+                                    <span>{instance.key}</span>
+                                    <span>
+                                        {instance.wasted}/{instance.renders}
+                                    </span>
+                                </div>
+                            ))}
+                        </>
+                    )}
                     <div style={styles.heatmapOverlayStyles.legend}>
                         <span style={styles.heatmapOverlayStyles.legendRed}>🔴</span> {'>'}20 |
                         <span style={styles.heatmapOverlayStyles.legendOrange}> 🟡</span> {'>'}10 |
@@ -536,26 +2013,40 @@ const HeatmapOverlay: React.FC = () => {
     );
 };
 
-export const App: React.FC = () => {
+export const App: React.FC<{ fixture?: DatasetFixture; trace?: ActionTrace }> = ({
+    fixture,
+    trace: initialTrace,
+}) => {
     useCounterKey('App');
 
-    // Generate test dataset - full dataset for fair comparison
-    const dataset = useMemo(
-        () =>
-            generateDataset({
-                decks: 50,
-                cardsPerDeck: 30,
-                minCommentsPerCard: 2,
-                maxCommentsPerCard: 2,
-                users: 2000,
-                tags: 50,
-                seed: 42,
-            }),
-        [],
+    // Read adapter and dataset skew from URL params
+    const urlParams = useMemo(() => new URLSearchParams(window.location.search), []);
+    const urlSkew = urlParams.get('skew') as keyof typeof DATASET_SKEW_PRESETS | null;
+
+    // Dataset size in cards (?cards=<n>, changed by the scaling sweep); null keeps
+    // the default deck count
+    const [datasetCards, setDatasetCards] = useState<number | null>(
+        () => Number(urlParams.get('cards')) || null,
     );
 
-    // Read adapter from URL params
-    const urlParams = useMemo(() => new URLSearchParams(window.location.search), []);
+    // Generate test dataset - full dataset for fair comparison. A loaded fixture
+    // (?fixture=<url>) wins; otherwise the fixed epoch keeps it byte-identical per seed.
+    const datasetFixture = useMemo(() => {
+        if (fixture) return fixture;
+        const generator: DataGenOptions = {
+            ...APP_DATASET_OPTIONS,
+            ...(datasetCards ? { decks: getDatasetDecks(datasetCards) } : {}),
+            distributions: (urlSkew && DATASET_SKEW_PRESETS[urlSkew]) || undefined,
+        };
+        return createFixture(generateDataset(generator), generator);
+    }, [fixture, urlSkew, datasetCards]);
+    const dataset = datasetFixture.state;
+
+    // Every result records which dataset it ran against
+    useEffect(() => {
+        benchmarkRunner.setFixtureHash(datasetFixture.hash);
+    }, [datasetFixture]);
+
     const urlAdapter = urlParams.get('adapter');
     const initialAdapterIndex = useMemo(() => {
         if (urlAdapter) {
@@ -585,21 +2076,18 @@ export const App: React.FC = () => {
 
     // Create store and actions for current adapter
     const store = useMemo(() => adapter.createStore(dataset), [adapter, dataset]);
-    const actions = useMemo(() => adapter.bindActions(store), [adapter, store]);
-
-    // Build the entity-reading leaf components for the active adapter: observer()
-    // for MobX (direct observable reads in JSX), plain React.memo otherwise.
-    const leaf = useMemo<LeafComponents>(() => {
-        const wrap = <P extends object>(c: React.ComponentType<P>): React.ComponentType<P> =>
-            adapter.observer
-                ? adapter.observer(c)
-                : (React.memo(c) as unknown as React.ComponentType<P>);
-        return {
-            CardItem: wrap(CardItemBase),
-            CommentItem: wrap(CommentItemBase),
-            DeckItem: wrap(DeckItemBase),
-        };
-    }, [adapter]);
+    const boundActions = useMemo(() => adapter.bindActions(store), [adapter, store]);
+
+    // Recorded session to replay (?trace=<url>, a loaded file or the last recording);
+    // while recording, the app's actions go through the recorder
+    const [trace, setTrace] = useState<ActionTrace | null>(initialTrace ?? null);
+    const [isRecording, setIsRecording] = useState(false);
+    const actions = useMemo(
+        () => (isRecording ? traceRecorder.wrap(boundActions) : boundActions),
+        [boundActions, isRecording],
+    );
+
+    const leaf = useMemo(() => buildLeafComponents(adapter), [adapter]);
 
     // Create Intersection Observer for tracking card visibility
     // Use a ref to track if benchmark is running - this prevents observer from interfering with benchmarks
@@ -609,6 +2097,7 @@ export const App: React.FC = () => {
         const observer = new IntersectionObserver(
             (entries) => {
                 // Skip updates during benchmarks to prevent interference with measurements
+                // (the scroll benchmark keeps the observer on: visibility is what it measures)
                 if (isBenchmarkRunningRef.current) {
                     return;
                 }
@@ -618,6 +2107,9 @@ export const App: React.FC = () => {
                     const cardId = element.dataset.cardId;
                     if (cardId) {
                         const isVisible = entry.isIntersecting;
+                        if (element.dataset.visible !== String(isVisible)) {
+                            noteVisibilityChange(cardId, isVisible, entry.time);
+                        }
                         actions.setCardVisibility(cardId, isVisible);
                     }
                 }
@@ -648,6 +2140,34 @@ export const App: React.FC = () => {
         };
     }, []);
 
+    // Order of the deck view's cards (null: each deck's own order)
+    const [sortKey, setSortKey] = useState<CardSortKey | null>(null);
+    // Card lists rendered through useDeferredValue (the concurrent-input benchmark)
+    const [deferredLists, setDeferredLists] = useState(false);
+    // Every deck or the active deck alone (the deck-navigation benchmark)
+    const [deckView, setDeckView] = useState<DeckView>('list');
+
+    // Programmatic scroll requested by the workload driver's 'scroll' scenario: one
+    // pass down the deck list and back up per bench:scroll event
+    useEffect(() => {
+        const handleBenchScroll = (event: Event) => {
+            const detail = (event as CustomEvent<{ speedPxPerSec?: number; distancePx?: number }>)
+                .detail;
+            const container = getDeckListContainer();
+            if (!container) return;
+            const speed = detail?.speedPxPerSec ?? 3000;
+            const distance = Math.min(
+                detail?.distancePx ?? 1200,
+                container.scrollHeight - container.clientHeight,
+            );
+            void scrollAtSpeed(container, container.scrollTop + distance, speed).then(() =>
+                scrollAtSpeed(container, 0, speed),
+            );
+        };
+        window.addEventListener('bench:scroll', handleBenchScroll);
+        return () => window.removeEventListener('bench:scroll', handleBenchScroll);
+    }, []);
+
     // Expose window API for Puppeteer automation
     useEffect(() => {
         // Set ready flag when app is mounted
@@ -656,7 +2176,17 @@ export const App: React.FC = () => {
         // Expose adapter and actions for tests
         (window as any).__currentAdapter = adapter;
         (window as any).__currentActions = actions;
+        (window as any).__currentStore = store;
+        (window as any).__currentDataset = dataset;
+        (window as any).__datasetCards = datasetCards;
         (window as any).__setAdapterIndex = setAdapterIndex;
+        (window as any).__fixtureHash = datasetFixture.hash;
+        (window as any).__saveFixture = () => serializeFixture(datasetFixture);
+        // Every scenario __runAndReport accepts, with its default runs and parameters
+        (window as any).__scenarios = [
+            ...SCENARIOS,
+            ...APP_SCENARIOS.filter((scenario) => !scenario.manual || trace),
+        ].map(({ id, label, runs, params }) => ({ id, label, runs, params }));
 
         // Throughput probe: synchronous render+commit per update via flushSync, so
         // the measurement is NOT gated by the animation frame / paint cycle. It
@@ -709,6 +2239,7 @@ export const App: React.FC = () => {
         (window as any).__runAndReport = async (
             adapterName?: string,
             scenario?: string,
+            options?: ScenarioOptions,
         ): Promise<any> => {
             // Normalize adapter name (handle different formats)
             let targetAdapter: StoreAdapter | undefined;
@@ -771,17 +2302,15 @@ export const App: React.FC = () => {
                 currentActions = (window as any).__currentActions;
             }
 
-            // Get test data
-            const decksArray = Object.values(dataset.entities.decks);
-            const testDeckIds = dataset.decksOrder || decksArray.map((d) => d.id);
-            const firstDeckId = testDeckIds[0];
-            const cardsArray = Object.values(dataset.entities.cards || {});
-            const firstDeckCards = cardsArray.filter((c) => c.deckId === firstDeckId);
-            const firstCardId = firstDeckCards[0]?.id;
-            const commentsArray = Object.values(dataset.entities.comments || {});
-            const firstCardComments = commentsArray.filter((c) => c.cardId === firstCardId);
-            const commentId = firstCardComments[0]?.id;
-            const cardIds = firstDeckCards.slice(0, 10).map((c) => c.id);
+            // Scenarios pick their targets (and check the dataset has them) before
+            // anything is reset
+            const registered = getScenario(targetScenario);
+            const appScenario = registered ? undefined : getAppScenario(targetScenario);
+            if (!registered && !appScenario) {
+                throw new Error(`Unknown scenario: ${targetScenario}`);
+            }
+            const prepared = registered && prepareScenario(registered, dataset, options);
+            const preparedApp = appScenario && prepareScenario(appScenario, dataset, options);
 
             // Clean up any old benchmark render counter keys to prevent interference
             const windowAny = window as any;
@@ -814,85 +2343,25 @@ export const App: React.FC = () => {
 
             // Now run benchmark - this will create its own runRenderCounter
             let result: BenchmarkResult;
-            switch (targetScenario) {
-                case 'background-churn':
-                    result = await benchmarkRunner.runBenchmark(
-                        'background-churn',
-                        targetAdapter.name,
-                        currentActions,
-                        async (wrappedActions, runNum) => {
-                            // Automatically measure latency for multiple background churn triggers
-                            for (let i = 0; i < 5; i++) {
-                                await wrappedActions.backgroundChurnStart();
-                            }
-                            // Stop background churn (latency is measured automatically)
-                            wrappedActions.backgroundChurnStop();
-                        },
-                        TEST_COUNT,
-                    );
-                    break;
-                case 'inline-editing':
-                    if (!commentId) {
-                        throw new Error('No comment available for inline-editing test');
-                    }
-                    const testComments = Object.values(dataset.entities.comments)
-                        .filter((c) => c.cardId === firstCardId)
-                        .slice(0, 5);
-                    result = await benchmarkRunner.runBenchmark(
-                        'inline-editing',
-                        targetAdapter.name,
-                        currentActions,
-                        async (wrappedActions, runNum) => {
-                            const testCommentId =
-                                testComments[runNum % testComments.length]?.id || commentId;
-                            const runPrefix = `Run${runNum}_`;
-                            const baseTimestamp = Date.now();
-                            for (let j = 0; j < 20; j++) {
-                                // Latency is automatically measured for each action call
-                                await wrappedActions.updateCommentText(
-                                    testCommentId,
-                                    `${runPrefix}Typing update ${j} at ${baseTimestamp + j}`,
-                                );
-                            }
-                        },
-                        TEST_COUNT,
-                    );
-                    break;
-                case 'bulk-update':
-                    if (cardIds.length === 0) {
-                        throw new Error('No cards available for bulk-update test');
-                    }
-                    result = await benchmarkRunner.runBenchmark(
-                        'bulk-update',
-                        targetAdapter.name,
-                        currentActions,
-                        async (wrappedActions, runNum) => {
-                            const startIdx = (runNum * 5) % cardIds.length;
-                            const testCardIds = cardIds
-                                .slice(startIdx, startIdx + 10)
-                                .filter(Boolean);
-                            if (testCardIds.length === 0) return;
-
-                            for (let i = 0; i < 5; i++) {
-                                const tagId = `tag_${(i * 2 + runNum * 3) % 50}`;
-                                const startCardIdx = (i * 2) % Math.max(1, testCardIds.length - 3);
-                                const subset = testCardIds.slice(
-                                    startCardIdx,
-                                    startCardIdx + Math.min(5, testCardIds.length - startCardIdx),
-                                );
-                                if (subset.length > 0) {
-                                    // Latency is automatically measured for each action call
-                                    await wrappedActions.bulkToggleTagOnCards(subset, tagId);
-                                }
-                            }
-                            // Trigger background churn (latency is automatically measured)
-                            await wrappedActions.backgroundChurnStart();
-                        },
-                        TEST_COUNT,
-                    );
-                    break;
-                default:
-                    throw new Error(`Unknown scenario: ${targetScenario}`);
+            if (prepared) {
+                result = await runPreparedScenario(
+                    prepared,
+                    targetAdapter.name,
+                    currentActions,
+                    setSortKey,
+                );
+            } else {
+                result = await runAppScenario(preparedApp!, {
+                    adapter: targetAdapter,
+                    store: (window as any).__currentStore ?? store,
+                    actions: currentActions,
+                    dataset,
+                    trace,
+                    setSortKey,
+                    setDeferredLists,
+                    setDeckView,
+                    isBenchmarkRunningRef,
+                });
             }
 
             // Mark benchmark as complete - allow IntersectionObserver to resume
@@ -908,9 +2377,25 @@ export const App: React.FC = () => {
             delete (window as any).__runAndReport;
             delete (window as any).__currentAdapter;
             delete (window as any).__currentActions;
+            delete (window as any).__currentStore;
+            delete (window as any).__currentDataset;
+            delete (window as any).__datasetCards;
             delete (window as any).__setAdapterIndex;
+            delete (window as any).__fixtureHash;
+            delete (window as any).__saveFixture;
+            delete (window as any).__scenarios;
         };
-    }, [adapter, dataset, actions, adapterIndex, setAdapterIndex]);
+    }, [
+        adapter,
+        dataset,
+        datasetFixture,
+        datasetCards,
+        store,
+        actions,
+        adapterIndex,
+        setAdapterIndex,
+        trace,
+    ]);
 
     // Benchmark results
     const [benchmarkResults, setBenchmarkResults] = useState<BenchmarkResult[]>([]);
@@ -919,6 +2404,69 @@ export const App: React.FC = () => {
     const [isRunning, setIsRunning] = useState(false);
     const [currentProgress, setCurrentProgress] = useState<string>('');
     const [adapterTestResults, setAdapterTestResults] = useState<AdapterTestResult[]>([]);
+    const [scalingSweep, setScalingSweep] = useState<ScalingSweep | null>(null);
+    const [tearingResults, setTearingResults] = useState<TearingCheckResult[]>([]);
+
+    // Sweeps re-generate the dataset, so a loaded fixture (which pins it) rules them out
+    const runSweep = useCallback(
+        async (options: SweepOptions = {}) => {
+            if (fixture) {
+                throw new Error('The scaling sweep re-generates the dataset; drop ?fixture');
+            }
+            const sweep = await runScalingSweep(options, {
+                setDatasetCards,
+                setAdapterIndex,
+                setSortKey,
+                isBenchmarkRunningRef,
+                setCurrentProgress,
+            });
+            setScalingSweep(sweep);
+            return sweep;
+        },
+        [fixture],
+    );
+
+    useEffect(() => {
+        (window as any).__setDatasetCards = setDatasetCards;
+        (window as any).__runSweep = async (options?: SweepOptions) => {
+            const sweep = await runSweep(options);
+            return { ...sweep, fits: summarizeScalingSweep(sweep) };
+        };
+        return () => {
+            delete (window as any).__setDatasetCards;
+            delete (window as any).__runSweep;
+        };
+    }, [runSweep]);
+
+    const handleRunSweep = useCallback(async () => {
+        try {
+            await runSweep();
+        } catch (error) {
+            debugWarn('Scaling sweep failed:', error);
+        }
+    }, [runSweep]);
+
+    // The checks mount their own roots, so the app's adapter and dataset stay as they are
+    const runTearing = useCallback(async (adapterNames?: string[]) => {
+        const results = await runTearingChecks(adapterNames, setCurrentProgress);
+        setTearingResults(results);
+        return results;
+    }, []);
+
+    useEffect(() => {
+        (window as any).__runTearingCheck = runTearing;
+        return () => {
+            delete (window as any).__runTearingCheck;
+        };
+    }, [runTearing]);
+
+    const handleRunTearingCheck = useCallback(async () => {
+        try {
+            await runTearing();
+        } catch (error) {
+            debugWarn('Tearing check failed:', error);
+        }
+    }, [runTearing]);
 
     const Provider = adapter.Provider;
 
@@ -926,8 +2474,84 @@ export const App: React.FC = () => {
         setBenchmarkResults((prev) => [...prev, result]);
     }, []);
 
+    const handleToggleRecording = useCallback(() => {
+        if (traceRecorder.isRecording()) {
+            const recorded = traceRecorder.stop();
+            setIsRecording(false);
+            setTrace(recorded);
+            downloadTrace(recorded);
+        } else {
+            traceRecorder.start(datasetFixture.hash);
+            setIsRecording(true);
+        }
+    }, [datasetFixture]);
+
+    const handleLoadTrace = useCallback((file: File) => {
+        file.text()
+            .then((json) => setTrace(parseTrace(json)))
+            .catch((error) => console.error('Failed to load action trace:', error));
+    }, []);
+
+    // Replays the trace on every adapter, each on a fresh store of the dataset
+    const handleReplayTrace = useCallback(async () => {
+        if (!trace) return;
+        if (trace.fixtureHash && trace.fixtureHash !== datasetFixture.hash) {
+            debugWarn(
+                `Trace was recorded on dataset ${trace.fixtureHash}, replaying on ${datasetFixture.hash}`,
+            );
+        }
+        const windowAny = window as any;
+        try {
+            for (let i = 0; i < adapters.length; i++) {
+                const target = adapters[i];
+                setAdapterIndex(i);
+                await waitForApp(() => windowAny.__currentAdapter === target);
+                setCurrentProgress(
+                    `⏯️ Replaying ${trace.calls.length} calls on ${target.name} (${i + 1}/${adapters.length})...`,
+                );
+                // Mark benchmark as running to prevent IntersectionObserver interference
+                isBenchmarkRunningRef.current = true;
+                try {
+                    const result = await runTraceReplay(
+                        trace,
+                        target.name,
+                        windowAny.__currentActions,
+                        TEST_COUNT,
+                    );
+                    handleBenchmarkComplete(result);
+                } finally {
+                    isBenchmarkRunningRef.current = false;
+                }
+            }
+        } finally {
+            setAdapterIndex(adapterIndex);
+            setCurrentProgress('');
+        }
+    }, [trace, datasetFixture, adapterIndex, handleBenchmarkComplete]);
+
+    useEffect(() => {
+        (window as any).__startRecording = () => {
+            if (!traceRecorder.isRecording()) handleToggleRecording();
+        };
+        (window as any).__stopRecording = () => {
+            if (!traceRecorder.isRecording()) return null;
+            const recorded = traceRecorder.stop();
+            setIsRecording(false);
+            setTrace(recorded);
+            return serializeTrace(recorded);
+        };
+        (window as any).__loadTrace = (json: string) => setTrace(parseTrace(json));
+        return () => {
+            delete (window as any).__startRecording;
+            delete (window as any).__stopRecording;
+            delete (window as any).__loadTrace;
+        };
+    }, [handleToggleRecording]);
+
     const handleClearResults = useCallback(() => {
         setBenchmarkResults([]);
+        setScalingSweep(null);
+        setTearingResults([]);
         benchmarkRunner.clearResults();
         globalRenderCounter.reset();
         setAdapterTestResults([]);
@@ -965,6 +2589,8 @@ export const App: React.FC = () => {
                             ← Back to App
                         </button>
                     </div>
+                    {scalingSweep && <ScalingSweepResults sweep={scalingSweep} />}
+                    {tearingResults.length > 0 && <TearingMatrix results={tearingResults} />}
                     <BenchmarkResults results={benchmarkResults} onClear={handleClearResults} />
                 </div>
             </div>
@@ -1037,6 +2663,20 @@ export const App: React.FC = () => {
                                                         {result.passed ? '✅' : '❌'}{' '}
                                                         {result.adapterName}
                                                     </div>
+                                                    {result.leakCheck !== undefined && (
+                                                        <div
+                                                            style={{
+                                                                marginTop: '4px',
+                                                                fontSize: '11px',
+                                                                color: '#495057',
+                                                            }}
+                                                        >
+                                                            🔌 Leak check:{' '}
+                                                            {result.leakCheck
+                                                                ? `${result.leakCheck.before} → ${result.leakCheck.mounted} → ${result.leakCheck.afterCycles[result.leakCheck.afterCycles.length - 1] ?? result.leakCheck.before} subscribers over ${result.leakCheck.cycles} cycles, ${result.leakCheck.leaked} leaked`
+                                                                : 'no debugStats'}
+                                                        </div>
+                                                    )}
                                                     {result.errors.length > 0 && (
                                                         <div
                                                             style={{
@@ -1105,9 +2745,17 @@ export const App: React.FC = () => {
                                         adapterIndex={adapterIndex}
                                         setAdapterIndex={setAdapterIndex}
                                         actions={actions}
+                                        store={store}
                                         dataset={dataset}
                                         adapters={adapters}
                                         onBenchmarkComplete={handleBenchmarkComplete}
+                                        onRunSweep={handleRunSweep}
+                                        onRunTearingCheck={handleRunTearingCheck}
+                                        isRecording={isRecording}
+                                        onToggleRecording={handleToggleRecording}
+                                        traceCalls={trace ? trace.calls.length : null}
+                                        onLoadTrace={handleLoadTrace}
+                                        onReplayTrace={handleReplayTrace}
                                         onClearResults={handleClearResults}
                                         onShowResults={handleShowResults}
                                         onToggleDebug={handleToggleDebug}
@@ -1116,9 +2764,22 @@ export const App: React.FC = () => {
                                         setCurrentProgress={setCurrentProgress}
                                         setAdapterTestResults={setAdapterTestResults}
                                         isBenchmarkRunningRef={isBenchmarkRunningRef}
+                                        sortKey={sortKey}
+                                        setSortKey={setSortKey}
+                                        setDeferredLists={setDeferredLists}
+                                        deckView={deckView}
+                                        setDeckView={setDeckView}
                                     />
                                     <div style={styles.appLayoutStyles.contentArea}>
-                                        <DeckList adapter={adapter} />
+                                        <DeckSortContext.Provider value={sortKey}>
+                                            <DeferredListsContext.Provider value={deferredLists}>
+                                                {deckView === 'detail' ? (
+                                                    <DeckDetailView />
+                                                ) : (
+                                                    <DeckList adapter={adapter} />
+                                                )}
+                                            </DeferredListsContext.Provider>
+                                        </DeckSortContext.Provider>
                                         <HeatmapOverlay />
                                     </div>
                                 </>
@@ -1138,26 +2799,76 @@ const DeckList: React.FC<{ adapter: StoreAdapter }> = ({ adapter }) => {
     const { DeckItem } = useLeaf();
     const deckIds = adapter.hooks.useDeckIds();
 
-    // Show more items now that we have proper scrollable list
-    const displayedDecks = deckIds.slice(0, 100);
+    // Show more items now that we have proper scrollable list
+    const displayedDecks = deckIds.slice(0, 100);
+
+    return (
+        <div data-deck-list style={styles.deckListStyles.container}>
+            {displayedDecks.map((deckId) => (
+                <DeckItem key={deckId} deckId={deckId} />
+            ))}
+        </div>
+    );
+};
+
+// The active deck alone (picked in the toolbar's deck view select)
+const DeckDetailView: React.FC = () => {
+    const { DeckDetail } = useLeaf();
+    return (
+        <div data-deck-detail style={styles.deckListStyles.container}>
+            <DeckDetail />
+        </div>
+    );
+};
+
+// The active deck with buttons to step through the decks. The deck is keyed by
+// its id, so a step unmounts one deck's tree and mounts the next.
+const DeckDetailBase: React.FC = () => {
+    useCounterKey('DeckDetail');
+    const ctx = useContext(AdapterContext);
+    if (!ctx) throw new Error('Adapter context not found');
+
+    const { DeckItem } = useLeaf();
+    const deckIds = ctx.adapter.hooks.useDeckIds();
+    const activeDeckId = ctx.adapter.hooks.useActiveDeckId();
+    const deck = ctx.adapter.hooks.useDeckById(activeDeckId ?? NO_DECK_ID);
+    const index = deck ? deckIds.indexOf(deck.id) : -1;
+
+    const step = (offset: number) => {
+        const next = deckIds[index === -1 ? 0 : (index + offset + deckIds.length) % deckIds.length];
+        if (next) ctx.actions.setActiveDeck(next);
+    };
 
     return (
-        <div style={styles.deckListStyles.container}>
-            {displayedDecks.map((deckId) => (
-                <DeckItem key={deckId} deckId={deckId} />
-            ))}
-        </div>
+        <>
+            <div style={styles.deckDetailStyles.nav}>
+                <button onClick={() => step(-1)} style={styles.deckDetailStyles.navButton}>
+                    ◀
+                </button>
+                <span style={styles.deckDetailStyles.position}>
+                    {deck ? `Deck ${index + 1} of ${deckIds.length}` : 'No deck selected'}
+                </span>
+                <button onClick={() => step(1)} style={styles.deckDetailStyles.navButton}>
+                    ▶
+                </button>
+            </div>
+            {deck && <DeckItem key={deck.id} deckId={deck.id} />}
+        </>
     );
 };
 
-// DeckItem for ids-based mode - uses useCardIdsByDeckId
+// DeckItem for ids-based mode - lists the deck's cards matching the search query,
+// in the deck's own order or the sort order picked in the toolbar
 const DeckItemBase: React.FC<{ deckId: string }> = ({ deckId }) => {
     useCounterKey('DeckItem');
     const ctx = useContext(AdapterContext);
     if (!ctx) throw new Error('Adapter context not found');
 
+    const { DeckStats } = useLeaf();
     const deck = ctx.adapter.hooks.useDeckById(deckId);
     const cardIds = (ctx.adapter.hooks as any).useCardIdsByDeckId(deckId) as ID[];
+    const filteredCardIds = ctx.adapter.hooks.useFilteredCardIdsByDeckId(deckId);
+    const sortKey = useContext(DeckSortContext);
 
     if (!deck) {
         return (
@@ -1175,25 +2886,92 @@ const DeckItemBase: React.FC<{ deckId: string }> = ({ deckId }) => {
         >
             <div style={styles.deckItemStyles.header}>
                 <strong style={styles.deckItemStyles.title}>{deck.title}</strong>
-                <div style={styles.deckItemStyles.badge}>{cardIds.length} cards</div>
+                <div style={styles.deckItemStyles.badge}>
+                    {filteredCardIds.length === cardIds.length
+                        ? `${cardIds.length} cards`
+                        : `${filteredCardIds.length} / ${cardIds.length} cards`}
+                </div>
             </div>
+            <DeckStats deckId={deckId} ownerId={deck.ownerId} />
             <div>
-                <CardsList cardIds={cardIds} />
+                {sortKey ? (
+                    <SortedCardsList
+                        deckId={deckId}
+                        sortKey={sortKey}
+                        filteredCardIds={
+                            filteredCardIds.length === cardIds.length ? null : filteredCardIds
+                        }
+                    />
+                ) : (
+                    <CardsList cardIds={filteredCardIds} />
+                )}
             </div>
         </div>
     );
 };
 
+// DeckStats reads only derived data (comment count, tag histogram, owner workload),
+// so its render count is the render amplification of those derivations.
+const DeckStatsBase: React.FC<{ deckId: string; ownerId: string }> = ({ deckId, ownerId }) => {
+    useCounterKey('DeckStats');
+    const ctx = useContext(AdapterContext);
+    if (!ctx) throw new Error('Adapter context not found');
+    const { TagChip } = useLeaf();
+
+    const commentCount = ctx.adapter.hooks.useCommentCountByDeckId(deckId);
+    const histogram = ctx.adapter.hooks.useTagHistogramByDeckId(deckId);
+    const ownerWorkload = ctx.adapter.hooks.useAssigneeWorkload(ownerId);
+    const topTags = Object.entries(histogram)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3);
+
+    return (
+        <div style={styles.deckStatsStyles.container}>
+            <span style={styles.deckStatsStyles.item}>💬 {commentCount} comments</span>
+            <span style={styles.deckStatsStyles.item}>👤 owner on {ownerWorkload} cards</span>
+            {topTags.map(([tagId, count]) => (
+                <span key={tagId} style={styles.deckStatsStyles.item}>
+                    <TagChip tagId={tagId} hostId={deckId} /> ×{count}
+                </span>
+            ))}
+        </div>
+    );
+};
+
+// The deck's cards in `sortKey` order, narrowed to the search matches while a
+// query filters some out (`filteredCardIds` is null when nothing is filtered).
+const SortedCardsList: React.FC<{
+    deckId: string;
+    sortKey: CardSortKey;
+    filteredCardIds: ID[] | null;
+}> = ({ deckId, sortKey, filteredCardIds }) => {
+    useCounterKey('SortedCardsList');
+    const ctx = useContext(AdapterContext);
+    if (!ctx) throw new Error('Adapter context not found');
+
+    const sortedCardIds = ctx.adapter.hooks.useSortedCardIdsByDeckId(deckId, sortKey);
+    const cardIds = useMemo(() => {
+        if (!filteredCardIds) return sortedCardIds;
+        const matches = new Set(filteredCardIds);
+        return sortedCardIds.filter((id) => matches.has(id));
+    }, [sortedCardIds, filteredCardIds]);
+
+    return <CardsList cardIds={cardIds} />;
+};
+
 // CardsList for ids-based mode - receives IDs array
 const CardsListBase: React.FC<{ cardIds: ID[] }> = ({ cardIds }) => {
     useCounterKey('CardsList');
     const ctx = useContext(AdapterContext);
     if (!ctx) throw new Error('Adapter context not found');
     const { CardItem } = useLeaf();
+    // Deferred ids only while enabled: a deferred value re-renders once more per change
+    const deferred = useDeferredValue(useContext(DeferredListsContext) ? cardIds : null);
+    const listIds = deferred ?? cardIds;
 
     return (
         <div style={styles.cardsListStyles.container}>
-            {cardIds.map((cardId) => (
+            {listIds.map((cardId) => (
                 <CardItem key={cardId} cardId={cardId} />
             ))}
         </div>
@@ -1205,15 +2983,40 @@ const CardsList: React.FC<{ cardIds: ID[] }> = React.memo(({ cardIds }) => (
     <CardsListBase cardIds={cardIds} />
 ));
 
+// Search box bound to the store's query; its own component so typing only
+// re-renders the box and the filtered lists, not the toolbar.
+const SearchBox: React.FC<{ adapter: StoreAdapter; actions: Actions }> = ({ adapter, actions }) => {
+    useCounterKey('SearchBox');
+    const query = adapter.hooks.useSearchQuery();
+    return (
+        <input
+            type="search"
+            value={query}
+            onChange={(e) => actions.setSearchQuery(e.target.value)}
+            placeholder="🔍 Filter cards..."
+            title="Filter every deck's cards by title, description or comment text"
+            style={styles.toolbarStyles.searchInput}
+        />
+    );
+};
+
 // Toolbar for ids-based mode
 const Toolbar: React.FC<{
     adapter: StoreAdapter;
     adapterIndex: number;
     setAdapterIndex: (i: number) => void;
     actions: any;
+    store: unknown;
     dataset: RootState;
     adapters: StoreAdapter[];
     onBenchmarkComplete: (result: BenchmarkResult) => void;
+    onRunSweep: () => Promise<void>;
+    onRunTearingCheck: () => Promise<void>;
+    isRecording: boolean;
+    onToggleRecording: () => void;
+    traceCalls: number | null; // calls in the loaded trace; null when none is loaded
+    onLoadTrace: (file: File) => void;
+    onReplayTrace: () => Promise<void>;
     onClearResults: () => void;
     onShowResults: () => void;
     onToggleDebug: () => void;
@@ -1222,14 +3025,27 @@ const Toolbar: React.FC<{
     setCurrentProgress: (progress: string) => void;
     setAdapterTestResults?: (results: AdapterTestResult[]) => void;
     isBenchmarkRunningRef: React.MutableRefObject<boolean>;
+    sortKey: CardSortKey | null;
+    setSortKey: React.Dispatch<React.SetStateAction<CardSortKey | null>>;
+    setDeferredLists: (deferred: boolean) => void;
+    deckView: DeckView;
+    setDeckView: React.Dispatch<React.SetStateAction<DeckView>>;
 }> = ({
     adapter,
     adapterIndex,
     setAdapterIndex,
     actions,
+    store,
     dataset,
     adapters,
     onBenchmarkComplete,
+    onRunSweep,
+    onRunTearingCheck,
+    isRecording,
+    onToggleRecording,
+    traceCalls,
+    onLoadTrace,
+    onReplayTrace,
     onClearResults,
     onShowResults,
     onToggleDebug,
@@ -1238,6 +3054,11 @@ const Toolbar: React.FC<{
     setCurrentProgress,
     setAdapterTestResults,
     isBenchmarkRunningRef,
+    sortKey,
+    setSortKey,
+    setDeferredLists,
+    deckView,
+    setDeckView,
 }) => {
     useCounterKey('Toolbar');
     const names = adapters.map((a) => a.name);
@@ -1249,159 +3070,103 @@ const Toolbar: React.FC<{
         [setAdapterIndex],
     );
 
-    // Get benchmark data using hooks for ids-based mode
-    const deckIds = adapter.hooks.useDeckIds();
-    const firstDeckId = deckIds.length > 0 ? deckIds[0] : '';
-    const firstDeckCardIds = (adapter.hooks as any).useCardIdsByDeckId(firstDeckId || '') as ID[];
-    const firstCardId = firstDeckCardIds.length > 0 ? firstDeckCardIds[0] || '' : '';
-    const firstCardCommentIds = firstCardId
-        ? ((adapter.hooks as any).useCommentIdsByCardId(firstCardId) as ID[])
-        : [];
-
-    // Collect cards from first deck for bulk operations
-    const allCardsForBulk = useMemo(() => {
-        return firstDeckCardIds.slice(0, 10).map((cardId) => ({ id: cardId }) as Card);
-    }, [firstDeckCardIds]);
-
-    // Toolbar callbacks for ids-based mode
-    const runUpdateBenchmark = useCallback(async () => {
-        debugLog(`🔄 Starting Update Benchmark for ${adapter.name}...`);
-        // Mark benchmark as running to prevent IntersectionObserver interference
-        isBenchmarkRunningRef.current = true;
-        try {
-            const result = await benchmarkRunner.runBenchmark(
-                'background-churn',
-                adapter.name,
-                actions,
-                async (wrappedActions) => {
-                    // Automatically measure latency for multiple background churn triggers
-                    for (let i = 0; i < 5; i++) {
-                        await wrappedActions.backgroundChurnStart();
-                    }
-                    // Stop background churn (latency is measured automatically)
-                    wrappedActions.backgroundChurnStop();
-                },
-                10,
-            );
-            debugLog(`✅ Update Benchmark Results - ${adapter.name}:`, result);
-            onBenchmarkComplete(result);
-        } finally {
-            // Reset flag after benchmark completes
-            isBenchmarkRunningRef.current = false;
-        }
-    }, [adapter.name, actions, onBenchmarkComplete, isBenchmarkRunningRef]);
-
-    const runInlineEditBenchmark = useCallback(async () => {
-        debugLog(`✏️ Starting Inline Edit Benchmark for ${adapter.name}...`);
-        const availableCommentIds = firstCardCommentIds.slice(0, 5);
-        if (availableCommentIds.length === 0) {
-            debugWarn('No comments available for inline edit benchmark');
-            return;
-        }
-        // Mark benchmark as running to prevent IntersectionObserver interference
-        isBenchmarkRunningRef.current = true;
-        try {
-            const result = await benchmarkRunner.runBenchmark(
-                'inline-editing',
-                adapter.name,
-                actions,
-                async (wrappedActions, runNum) => {
-                    const commentId = availableCommentIds[runNum % availableCommentIds.length];
-                    if (!commentId) return;
-                    const runPrefix = `Run${runNum}_`;
-                    const baseTimestamp = Date.now();
-                    for (let i = 0; i < 20; i++) {
-                        const uniqueTimestamp = baseTimestamp + i;
-                        // Latency is automatically measured for each action call
-                        await wrappedActions.updateCommentText(
-                            commentId,
-                            `${runPrefix}Typing update ${i} at ${uniqueTimestamp}: testing reactivity to frequent state changes`,
-                        );
-                    }
-                },
-                10,
-            );
-            debugLog(`✅ Inline Edit Benchmark Results - ${adapter.name}:`, result);
-            onBenchmarkComplete(result);
-        } finally {
-            // Reset flag after benchmark completes
-            isBenchmarkRunningRef.current = false;
-        }
-    }, [adapter.name, actions, firstCardCommentIds, onBenchmarkComplete, isBenchmarkRunningRef]);
-
-    const runBulkUpdateBenchmark = useCallback(async () => {
-        debugLog(`📦 Starting Bulk Update Benchmark for ${adapter.name}...`);
-
-        // Use more cards to ensure variety - take different subset for different operations
-        const allAvailableCards = allCardsForBulk.slice(0, 15);
-
-        if (allAvailableCards.length === 0) {
-            debugWarn('No cards available for bulk update benchmark');
-            return;
-        }
-
-        // Mark benchmark as running to prevent IntersectionObserver interference
-        isBenchmarkRunningRef.current = true;
-        try {
-            const result = await benchmarkRunner.runBenchmark(
-                'bulk-update',
-                adapter.name,
-                actions,
-                async (wrappedActions, runNum) => {
-                    // Use different cards for each run to ensure variety and fresh operations
-                    const startIdx = (runNum * 5) % allAvailableCards.length;
-                    const cardIds = allAvailableCards
-                        .slice(startIdx, startIdx + 10)
-                        .map((c) => c.id)
-                        .filter(Boolean);
-
-                    if (cardIds.length === 0) return;
-
-                    // Multiple operations to ensure components actually re-render:
-                    // 1. Toggle tags on different subsets of cards with different tags for each step
-                    // 2. Use runNum and iteration index for variety both across and within runs
-                    // 3. This ensures each step creates distinct state changes
-                    for (let i = 0; i < 5; i++) {
-                        // Use different tags for each iteration (varied pattern with runNum offset)
-                        const tagId = `tag_${(i * 2 + runNum * 3) % 50}`; // 50 tags with rotation
-                        // Use different subset of cards for each iteration to ensure variety
-                        // Shift the subset by i to work with different cards each time
-                        const startCardIdx = (i * 2) % Math.max(1, cardIds.length - 3);
-                        const subsetSize = Math.min(5, cardIds.length - startCardIdx);
-                        const cardSubset = cardIds.slice(startCardIdx, startCardIdx + subsetSize);
-
-                        if (cardSubset.length > 0) {
-                            // Latency is automatically measured for each action call
-                            await wrappedActions.bulkToggleTagOnCards(cardSubset, tagId);
-                        }
-                    }
-                    // Trigger card updates (latency is automatically measured)
-                    await wrappedActions.backgroundChurnStart();
-                },
-                10,
-            );
+    // Registry scenarios (see scenarios.ts in @bench/core); a dataset without the
+    // scenario's targets skips it
+    const runScenarioBenchmark = useCallback(
+        async (id: WorkloadScenario) => {
+            const scenario = getScenario(id);
+            if (!scenario) return;
+            const icon = SCENARIO_ICONS[id] ?? '▶️';
+            debugLog(`${icon} Starting ${scenario.label} Benchmark for ${adapter.name}...`);
+            let prepared: PreparedScenario;
+            try {
+                prepared = prepareScenario(scenario, dataset);
+            } catch (error) {
+                debugWarn(`Skipping ${scenario.label} benchmark:`, error);
+                return;
+            }
+            // Mark benchmark as running to prevent IntersectionObserver interference
+            isBenchmarkRunningRef.current = true;
+            try {
+                const result = await runPreparedScenario(
+                    prepared,
+                    adapter.name,
+                    actions,
+                    setSortKey,
+                );
+                debugLog(`✅ ${scenario.label} Benchmark Results - ${adapter.name}:`, result);
+                onBenchmarkComplete(result);
+            } finally {
+                // Reset flag after benchmark completes
+                isBenchmarkRunningRef.current = false;
+            }
+        },
+        [adapter.name, actions, dataset, setSortKey, onBenchmarkComplete, isBenchmarkRunningRef],
+    );
 
-            debugLog(`✅ Bulk Update Benchmark Results - ${adapter.name}:`, result);
-            onBenchmarkComplete(result);
-        } finally {
-            // Reset flag after benchmark completes
-            isBenchmarkRunningRef.current = false;
-        }
-    }, [adapter.name, actions, allCardsForBulk, onBenchmarkComplete, isBenchmarkRunningRef]);
+    // App scenarios of the registry, measured by their runners (APP_SCENARIO_RUNNERS);
+    // a dataset without the scenario's targets skips it
+    const runAppScenarioBenchmark = useCallback(
+        async (id: WorkloadScenario) => {
+            const scenario = getAppScenario(id);
+            if (!scenario) return;
+            const icon = SCENARIO_ICONS[id] ?? '▶️';
+            debugLog(`${icon} Starting ${scenario.label} Benchmark for ${adapter.name}...`);
+            let prepared: PreparedScenario<any, AppScenarioDefinition>;
+            try {
+                prepared = prepareScenario(scenario, dataset);
+            } catch (error) {
+                debugWarn(`Skipping ${scenario.label} benchmark:`, error);
+                return;
+            }
+            // Mark benchmark as running to prevent IntersectionObserver interference
+            isBenchmarkRunningRef.current = true;
+            try {
+                const result = await runAppScenario(prepared, {
+                    adapter,
+                    store,
+                    actions,
+                    dataset,
+                    setSortKey,
+                    setDeferredLists,
+                    setDeckView,
+                    isBenchmarkRunningRef,
+                });
+                debugLog(`✅ ${scenario.label} Benchmark Results - ${adapter.name}:`, result);
+                onBenchmarkComplete(result);
+            } finally {
+                // Reset flag after benchmark completes
+                isBenchmarkRunningRef.current = false;
+            }
+        },
+        [
+            adapter,
+            store,
+            actions,
+            dataset,
+            setSortKey,
+            setDeferredLists,
+            setDeckView,
+            onBenchmarkComplete,
+            isBenchmarkRunningRef,
+        ],
+    );
 
     const runAllBenchmarks = useCallback(async () => {
         debugLog(`🚀 Running all benchmarks for ${adapter.name}...`);
 
-        await runUpdateBenchmark();
-        await new Promise((resolve) => setTimeout(resolve, 500));
-
-        await runInlineEditBenchmark();
-        await new Promise((resolve) => setTimeout(resolve, 500));
-
-        await runBulkUpdateBenchmark();
+        for (const scenario of SCENARIOS) {
+            await runScenarioBenchmark(scenario.id);
+            await new Promise((resolve) => setTimeout(resolve, 500));
+        }
+        for (const scenario of APP_SCENARIOS) {
+            if (scenario.manual) continue;
+            await runAppScenarioBenchmark(scenario.id);
+            await new Promise((resolve) => setTimeout(resolve, 500));
+        }
 
         debugLog(`🎉 All benchmarks completed for ${adapter.name}!`);
-    }, [adapter.name, runUpdateBenchmark, runInlineEditBenchmark, runBulkUpdateBenchmark]);
+    }, [adapter.name, runScenarioBenchmark, runAppScenarioBenchmark]);
 
     const runAllAdaptersAllTests = useCallback(async () => {
         debugLog(`🌍 Starting comprehensive benchmark across all adapters...`);
@@ -1475,19 +3240,25 @@ const Toolbar: React.FC<{
                 // Continue anyway - tests are informational
             }
 
-            // Get test data from dataset (same for all adapters)
-            // RootState has structure: { entities: { decks: Record<ID, Deck>, cards: Record<ID, Card>, ... }, decksOrder: ID[] }
-            const decksArray = Object.values(dataset.entities.decks);
-            const testDeckIds = dataset.decksOrder || decksArray.map((d) => d.id);
-            const firstDeckId = testDeckIds[0];
-            const cardsArray = Object.values(dataset.entities.cards || {});
-            const firstDeckCards = cardsArray.filter((c) => c.deckId === firstDeckId);
-            const firstCardId = firstDeckCards[0]?.id;
-            const commentsArray = Object.values(dataset.entities.comments || {});
-            const firstCardComments = commentsArray.filter((c) => c.cardId === firstCardId);
-            const commentId = firstCardComments[0]?.id;
-            const cardIds = firstDeckCards.slice(0, 10).map((c) => c.id);
-            const tagId = 'tag_0';
+            // Registry scenarios pick their targets once (same for all adapters); a
+            // dataset without a scenario's targets skips it
+            const preparedScenarios: PreparedScenario[] = [];
+            for (const scenario of SCENARIOS) {
+                try {
+                    preparedScenarios.push(prepareScenario(scenario, dataset));
+                } catch (error) {
+                    debugWarn(`Skipping ${scenario.label} benchmark:`, error);
+                }
+            }
+            const preparedAppScenarios: PreparedScenario<any, AppScenarioDefinition>[] = [];
+            for (const scenario of APP_SCENARIOS) {
+                if (scenario.manual) continue;
+                try {
+                    preparedAppScenarios.push(prepareScenario(scenario, dataset));
+                } catch (error) {
+                    debugWarn(`Skipping ${scenario.label} benchmark:`, error);
+                }
+            }
 
             // Run all tests for all adapters
             for (let i = 0; i < adapters.length; i++) {
@@ -1545,134 +3316,48 @@ const Toolbar: React.FC<{
                     });
                 });
 
-                // Mark benchmark as running to prevent IntersectionObserver interference
-                isBenchmarkRunningRef.current = true;
-
-                // Run Update Benchmark
-                setCurrentProgress(
-                    `📦 ${uiAdapter.name} (${adapterProgress}) | 🔄 Running Update Benchmark...`,
-                );
-                debugLog(`  🔄 Running Update Benchmark for ${uiAdapter.name}...`);
-                const updateResult = await benchmarkRunner.runBenchmark(
-                    'background-churn',
-                    uiAdapter.name,
-                    uiActions,
-                    async (wrappedActions, runNum) => {
-                        // Automatically measure latency for multiple background churn triggers
-                        for (let i = 0; i < 5; i++) {
-                            await wrappedActions.backgroundChurnStart();
-                        }
-                        // Stop background churn (latency is measured automatically)
-                        wrappedActions.backgroundChurnStop();
-                    },
-                    10,
-                );
-                onBenchmarkComplete(updateResult);
-                // Reset flag after benchmark completes
-                isBenchmarkRunningRef.current = false;
-                await new Promise((resolve) => setTimeout(resolve, 300));
-
-                // Run Inline Edit Benchmark
-                if (commentId) {
-                    // Get multiple comments for variety across runs
-                    const testComments = Object.values(dataset.entities.comments)
-                        .filter((c) => c.cardId === firstCardId)
-                        .slice(0, 5);
-                    const testCommentIds =
-                        testComments.length > 0
-                            ? testComments.map((c) => c.id)
-                            : commentId
-                              ? [commentId]
-                              : [];
-
+                for (const prepared of preparedScenarios) {
+                    const { label, id } = prepared.scenario;
+                    const icon = SCENARIO_ICONS[id] ?? '▶️';
                     setCurrentProgress(
-                        `📦 ${uiAdapter.name} (${adapterProgress}) | ✏️ Running Inline Edit Benchmark...`,
+                        `📦 ${uiAdapter.name} (${adapterProgress}) | ${icon} Running ${label} Benchmark...`,
                     );
-                    debugLog(`  ✏️ Running Inline Edit Benchmark for ${uiAdapter.name}...`);
-                    const editResult = await benchmarkRunner.runBenchmark(
-                        'inline-editing',
+                    debugLog(`  ${icon} Running ${label} Benchmark for ${uiAdapter.name}...`);
+                    // Mark benchmark as running to prevent IntersectionObserver interference
+                    isBenchmarkRunningRef.current = true;
+                    const scenarioResult = await runPreparedScenario(
+                        prepared,
                         uiAdapter.name,
                         uiActions,
-                        async (wrappedActions, runNum) => {
-                            // Use different comment for each run to ensure fresh data
-                            const testCommentId =
-                                testCommentIds[runNum % testCommentIds.length] || commentId;
-                            // Pre-compute unique timestamps to ensure variety within run
-                            const runPrefix = `Run${runNum}_`;
-                            const baseTimestamp = Date.now();
-
-                            // Latency is automatically measured for each action call
-                            for (let j = 0; j < 20; j++) {
-                                const uniqueTimestamp = baseTimestamp + j;
-                                await wrappedActions.updateCommentText(
-                                    testCommentId,
-                                    `${runPrefix}Typing update ${j} at ${uniqueTimestamp}: testing reactivity to frequent state changes`,
-                                );
-                            }
-                        },
-                        10,
+                        setSortKey,
                     );
-                    onBenchmarkComplete(editResult);
+                    onBenchmarkComplete(scenarioResult);
                     // Reset flag after benchmark completes
                     isBenchmarkRunningRef.current = false;
                     await new Promise((resolve) => setTimeout(resolve, 300));
                 }
 
-                // Run Bulk Update Benchmark
-                if (cardIds.length > 0) {
-                    // Use more cards for variety
-                    const allTestCards = firstDeckCards.slice(0, 15);
-
+                // App scenarios: DOM timings, fresh stores and the mock server
+                const uiStore = (window as any).__currentStore ?? store;
+                for (const prepared of preparedAppScenarios) {
+                    const { label, id } = prepared.scenario;
+                    const icon = SCENARIO_ICONS[id] ?? '▶️';
                     setCurrentProgress(
-                        `📦 ${uiAdapter.name} (${adapterProgress}) | 📦 Running Bulk Update Benchmark...`,
+                        `📦 ${uiAdapter.name} (${adapterProgress}) | ${icon} Running ${label} Benchmark...`,
                     );
-                    debugLog(`  📦 Running Bulk Update Benchmark for ${uiAdapter.name}...`);
-                    const bulkResult = await benchmarkRunner.runBenchmark(
-                        'bulk-update',
-                        uiAdapter.name,
-                        uiActions,
-                        async (wrappedActions, runNum) => {
-                            // Use different cards for each run to ensure variety
-                            const startIdx = (runNum * 5) % allTestCards.length;
-                            const testCardIds = allTestCards
-                                .slice(startIdx, startIdx + 10)
-                                .map((c) => c.id)
-                                .filter(Boolean);
-
-                            if (testCardIds.length === 0) return;
-
-                            // Multiple operations to ensure components actually re-render:
-                            // 1. Toggle tags on different subsets of cards with different tags for each step
-                            // 2. Use runNum and iteration index for variety both across and within runs
-                            // 3. This ensures each step creates distinct state changes
-                            for (let tagI = 0; tagI < 5; tagI++) {
-                                // Use different tags for each iteration (varied pattern with runNum offset)
-                                const testTagId = `tag_${(tagI * 2 + runNum * 3) % 50}`; // 50 tags with rotation
-                                // Use different subset of cards for each iteration to ensure variety
-                                // Shift the subset by tagI to work with different cards each time
-                                const startCardIdx =
-                                    (tagI * 2) % Math.max(1, testCardIds.length - 3);
-                                const subsetSize = Math.min(5, testCardIds.length - startCardIdx);
-                                const cardSubset = testCardIds.slice(
-                                    startCardIdx,
-                                    startCardIdx + subsetSize,
-                                );
-
-                                if (cardSubset.length > 0) {
-                                    // Latency is automatically measured for each action call
-                                    await wrappedActions.bulkToggleTagOnCards(
-                                        cardSubset,
-                                        testTagId,
-                                    );
-                                }
-                            }
-                            // Trigger card updates (latency is automatically measured)
-                            await wrappedActions.backgroundChurnStart();
-                        },
-                        10,
-                    );
-                    onBenchmarkComplete(bulkResult);
-                    // Reset flag after benchmark completes
+                    debugLog(`  ${icon} Running ${label} Benchmark for ${uiAdapter.name}...`);
+                    isBenchmarkRunningRef.current = true;
+                    const appResult = await runAppScenario(prepared, {
+                        adapter: uiAdapter,
+                        store: uiStore,
+                        actions: uiActions,
+                        dataset,
+                        setSortKey,
+                        setDeferredLists,
+                        setDeckView,
+                        isBenchmarkRunningRef,
+                    });
+                    onBenchmarkComplete(appResult);
                     isBenchmarkRunningRef.current = false;
                     await new Promise((resolve) => setTimeout(resolve, 300));
                 }
@@ -1702,6 +3387,10 @@ const Toolbar: React.FC<{
         }
     }, [
         dataset,
+        store,
+        setSortKey,
+        setDeferredLists,
+        setDeckView,
         adapters,
         onBenchmarkComplete,
         onClearResults,
@@ -1794,16 +3483,104 @@ const Toolbar: React.FC<{
     }, [adapters, setIsRunning, setCurrentProgress, setAdapterTestResults]);
 
     const handleRunUpdate = useCallback(() => {
-        handleRunWithLoading(runUpdateBenchmark);
-    }, [handleRunWithLoading, runUpdateBenchmark]);
+        handleRunWithLoading(() => runScenarioBenchmark('background-churn'));
+    }, [handleRunWithLoading, runScenarioBenchmark]);
 
     const handleRunEdit = useCallback(() => {
-        handleRunWithLoading(runInlineEditBenchmark);
-    }, [handleRunWithLoading, runInlineEditBenchmark]);
+        handleRunWithLoading(() => runScenarioBenchmark('inline-editing'));
+    }, [handleRunWithLoading, runScenarioBenchmark]);
 
     const handleRunBulk = useCallback(() => {
-        handleRunWithLoading(runBulkUpdateBenchmark);
-    }, [handleRunWithLoading, runBulkUpdateBenchmark]);
+        handleRunWithLoading(() => runScenarioBenchmark('bulk-update'));
+    }, [handleRunWithLoading, runScenarioBenchmark]);
+
+    const handleRunStructural = useCallback(() => {
+        handleRunWithLoading(() => runScenarioBenchmark('structural-edit'));
+    }, [handleRunWithLoading, runScenarioBenchmark]);
+
+    const handleRunDeepToggle = useCallback(() => {
+        handleRunWithLoading(() => runScenarioBenchmark('deep-toggle'));
+    }, [handleRunWithLoading, runScenarioBenchmark]);
+
+    const handleRunTagRename = useCallback(() => {
+        handleRunWithLoading(() => runScenarioBenchmark('tag-rename'));
+    }, [handleRunWithLoading, runScenarioBenchmark]);
+
+    const handleRunDerivedChurn = useCallback(() => {
+        handleRunWithLoading(() => runScenarioBenchmark('derived-churn'));
+    }, [handleRunWithLoading, runScenarioBenchmark]);
+
+    const handleRunFilterTyping = useCallback(() => {
+        handleRunWithLoading(() => runScenarioBenchmark('filter-typing'));
+    }, [handleRunWithLoading, runScenarioBenchmark]);
+
+    const handleRunReorderChurn = useCallback(() => {
+        handleRunWithLoading(() => runScenarioBenchmark('reorder-churn'));
+    }, [handleRunWithLoading, runScenarioBenchmark]);
+
+    const handleRunUndoRedo = useCallback(() => {
+        handleRunWithLoading(() => runScenarioBenchmark('undo-redo'));
+    }, [handleRunWithLoading, runScenarioBenchmark]);
+
+    const handleRunOptimisticSave = useCallback(() => {
+        handleRunWithLoading(() => runAppScenarioBenchmark('optimistic-save'));
+    }, [handleRunWithLoading, runAppScenarioBenchmark]);
+
+    const handleRunScroll = useCallback(() => {
+        handleRunWithLoading(() => runAppScenarioBenchmark('scroll'));
+    }, [handleRunWithLoading, runAppScenarioBenchmark]);
+
+    const handleRunConcurrentInput = useCallback(() => {
+        handleRunWithLoading(() => runAppScenarioBenchmark('concurrent-input'));
+    }, [handleRunWithLoading, runAppScenarioBenchmark]);
+
+    const handleRunColdStart = useCallback(() => {
+        handleRunWithLoading(() => runAppScenarioBenchmark('cold-start'));
+    }, [handleRunWithLoading, runAppScenarioBenchmark]);
+
+    const handleRunDeckNavigation = useCallback(() => {
+        handleRunWithLoading(() => runAppScenarioBenchmark('deck-navigation'));
+    }, [handleRunWithLoading, runAppScenarioBenchmark]);
+
+    const handleRunRealtimeStream = useCallback(() => {
+        handleRunWithLoading(() => runAppScenarioBenchmark('realtime-stream'));
+    }, [handleRunWithLoading, runAppScenarioBenchmark]);
+
+    const handleRunSweep = useCallback(() => {
+        handleRunWithLoading(onRunSweep);
+    }, [handleRunWithLoading, onRunSweep]);
+
+    const handleRunTearingCheck = useCallback(() => {
+        handleRunWithLoading(onRunTearingCheck);
+    }, [handleRunWithLoading, onRunTearingCheck]);
+
+    const handleRunReplay = useCallback(() => {
+        handleRunWithLoading(onReplayTrace);
+    }, [handleRunWithLoading, onReplayTrace]);
+
+    const traceInputRef = React.useRef<HTMLInputElement>(null);
+    const handleTraceFile = useCallback(
+        (e: React.ChangeEvent<HTMLInputElement>) => {
+            const file = e.target.files?.[0];
+            if (file) onLoadTrace(file);
+            e.target.value = '';
+        },
+        [onLoadTrace],
+    );
+
+    const handleSortChange = useCallback(
+        (e: React.ChangeEvent<HTMLSelectElement>) => {
+            setSortKey((e.target.value || null) as CardSortKey | null);
+        },
+        [setSortKey],
+    );
+
+    const handleDeckViewChange = useCallback(
+        (e: React.ChangeEvent<HTMLSelectElement>) => {
+            setDeckView(e.target.value as DeckView);
+        },
+        [setDeckView],
+    );
 
     const handleRunAll = useCallback(() => {
         handleRunWithLoading(runAllBenchmarks);
@@ -1824,6 +3601,32 @@ const Toolbar: React.FC<{
                         </option>
                     ))}
                 </select>
+                <SearchBox adapter={adapter} actions={actions} />
+                <select
+                    value={sortKey ?? ''}
+                    onChange={handleSortChange}
+                    title="Order of each deck's cards"
+                    style={styles.toolbarStyles.select}
+                >
+                    <option value="">Deck order</option>
+                    {DECK_SORT_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                            {option.label}
+                        </option>
+                    ))}
+                </select>
+                <select
+                    value={deckView}
+                    onChange={handleDeckViewChange}
+                    title="Every deck, or the active deck alone"
+                    style={styles.toolbarStyles.select}
+                >
+                    {DECK_VIEW_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                            {option.label}
+                        </option>
+                    ))}
+                </select>
             </div>
 
             <div style={styles.toolbarStyles.buttonsGroup}>
@@ -1860,10 +3663,153 @@ const Toolbar: React.FC<{
                 >
                     📦 Bulk
                 </button>
+                <button
+                    onClick={handleRunStructural}
+                    disabled={isRunning}
+                    title="Test: Create, move, reorder and delete cards across decks to measure index maintenance"
+                    style={{
+                        ...styles.toolbarStyles.button(styles.colors.button.green, isRunning),
+                        ...styles.toolbarStyles.buttonGreen,
+                    }}
+                >
+                    🧱 Structure
+                </button>
+                <button
+                    onClick={handleRunDeepToggle}
+                    disabled={isRunning}
+                    title="Test: Toggle the deepest nested checklist items to measure recursive subscriptions"
+                    style={{
+                        ...styles.toolbarStyles.button(styles.colors.button.teal, isRunning),
+                        ...styles.toolbarStyles.buttonTeal,
+                    }}
+                >
+                    🌲 Deep
+                </button>
+                <button
+                    onClick={handleRunTagRename}
+                    disabled={isRunning}
+                    title="Test: Rename and recolor the most used tag to measure fan-out to every card carrying it"
+                    style={{
+                        ...styles.toolbarStyles.button(styles.colors.button.indigo, isRunning),
+                        ...styles.toolbarStyles.buttonIndigo,
+                    }}
+                >
+                    🏷️ Tags
+                </button>
+                <button
+                    onClick={handleRunDerivedChurn}
+                    disabled={isRunning}
+                    title="Test: Churn the inputs of deck comment counts, tag histograms and owner workload to measure recomputation and render amplification"
+                    style={{
+                        ...styles.toolbarStyles.button(styles.colors.button.brown, isRunning),
+                        ...styles.toolbarStyles.buttonBrown,
+                    }}
+                >
+                    🧮 Derived
+                </button>
+                <button
+                    onClick={handleRunFilterTyping}
+                    disabled={isRunning}
+                    title="Test: Type a search query keystroke by keystroke (then erase it) to measure filtered-list recomputation latency"
+                    style={{
+                        ...styles.toolbarStyles.button(styles.colors.button.deepOrange, isRunning),
+                        ...styles.toolbarStyles.buttonDeepOrange,
+                    }}
+                >
+                    🔍 Filter
+                </button>
+                <button
+                    onClick={handleRunReorderChurn}
+                    disabled={isRunning}
+                    title="Test: Sort decks by last update and churn updatedAt so card lists keep reordering, to measure sorted-index maintenance and keyed-list reconciliation"
+                    style={{
+                        ...styles.toolbarStyles.button(styles.colors.button.deepPurple, isRunning),
+                        ...styles.toolbarStyles.buttonDeepPurple,
+                    }}
+                >
+                    ↕️ Reorder
+                </button>
+                <button
+                    onClick={handleRunUndoRedo}
+                    disabled={isRunning}
+                    title="Test: Make 50 title edits, then undo them all, to measure undo latency and the heap the history retains"
+                    style={{
+                        ...styles.toolbarStyles.button(styles.colors.button.lightBlue, isRunning),
+                        ...styles.toolbarStyles.buttonLightBlue,
+                    }}
+                >
+                    ↩️ Undo
+                </button>
+                <button
+                    onClick={handleRunOptimisticSave}
+                    disabled={isRunning}
+                    title="Test: Save comments against a local mock server that rejects one save in five, to measure optimistic update latency and check every rollback"
+                    style={{
+                        ...styles.toolbarStyles.button(styles.colors.button.lightGreen, isRunning),
+                        ...styles.toolbarStyles.buttonLightGreen,
+                    }}
+                >
+                    ☁️ Save
+                </button>
+                <button
+                    onClick={handleRunScroll}
+                    disabled={isRunning}
+                    title="Test: Scroll the deck list at three speeds with visibility tracking on, to measure frame times, visibility-update lag and renders"
+                    style={{
+                        ...styles.toolbarStyles.button(styles.colors.button.red, isRunning),
+                        ...styles.toolbarStyles.buttonRed,
+                    }}
+                >
+                    🖱️ Scroll
+                </button>
+                <button
+                    onClick={handleRunColdStart}
+                    disabled={isRunning}
+                    title="Test: Create a store, bind actions and mount the deck list from scratch at three dataset sizes, to measure each step, time to first paint and the heap retained"
+                    style={{
+                        ...styles.toolbarStyles.button(styles.colors.button.blueGrey, isRunning),
+                        ...styles.toolbarStyles.buttonBlueGrey,
+                    }}
+                >
+                    🧊 Cold
+                </button>
+                <button
+                    onClick={handleRunConcurrentInput}
+                    disabled={isRunning}
+                    title="Test: Type into a comment while card edits run in startTransition and card lists render through useDeferredValue, to measure input latency, main-thread blocking and transitions the store commits synchronously"
+                    style={{
+                        ...styles.toolbarStyles.button(styles.colors.button.lime, isRunning),
+                        ...styles.toolbarStyles.buttonLime,
+                    }}
+                >
+                    ⚡ Concurrent
+                </button>
+                <button
+                    onClick={handleRunDeckNavigation}
+                    disabled={isRunning}
+                    title="Test: Step through decks in the single-deck view, mounting and unmounting one deck at a time, to measure mount/unmount cost and store subscribers before, during and after (leaked subscriptions)"
+                    style={{
+                        ...styles.toolbarStyles.button(styles.colors.button.navy, isRunning),
+                        ...styles.toolbarStyles.buttonNavy,
+                    }}
+                >
+                    🧭 Navigate
+                </button>
+                <button
+                    onClick={handleRunRealtimeStream}
+                    disabled={isRunning}
+                    title="Test: Feed a stream of server pushes (card edits, new comments, renames, tag toggles) in bursts into the store for a few seconds, to measure dropped frames, the backlog of events not yet applied and the time to settle after a final burst"
+                    style={{
+                        ...styles.toolbarStyles.button(styles.colors.button.rust, isRunning),
+                        ...styles.toolbarStyles.buttonRust,
+                    }}
+                >
+                    📡 Stream
+                </button>
                 <button
                     onClick={handleRunAll}
                     disabled={isRunning}
-                    title="Run all three tests sequentially: Updates, Edit, and Bulk operations"
+                    title="Run all tests sequentially: Updates, Edit, Bulk, Structure, Deep, Tags, Derived, Filter, Reorder, Undo, Save, Scroll, Cold start, Concurrent, Navigation and Stream operations"
                     style={{
                         ...styles.toolbarStyles.buttonLarge(
                             styles.colors.button.pink,
@@ -1894,6 +3840,75 @@ const Toolbar: React.FC<{
                 >
                     {isRunning ? '⏳ Running All...' : '🌍 All Adapters'}
                 </button>
+                <button
+                    onClick={handleRunSweep}
+                    disabled={isRunning}
+                    title="Re-create the dataset at 1k, 5k, 20k and 100k cards and run Edit and Deep on every adapter, to plot µs and renders per update against store size and fit the slope"
+                    style={{
+                        ...styles.toolbarStyles.button(styles.colors.button.amber, isRunning),
+                        ...styles.toolbarStyles.buttonAmber,
+                    }}
+                >
+                    📈 Sweep
+                </button>
+                <button
+                    onClick={handleRunTearingCheck}
+                    disabled={isRunning}
+                    title="Render many components reading one card in a slow transition while the store is written, on every adapter, and check they all commit the same value"
+                    style={{
+                        ...styles.toolbarStyles.button('#455a64', isRunning),
+                    }}
+                >
+                    🧩 Tearing
+                </button>
+                <button
+                    onClick={onToggleRecording}
+                    disabled={isRunning}
+                    title={
+                        isRecording
+                            ? 'Stop recording and download the trace of every action call made since Record'
+                            : 'Record every action call (edits, scrolling, toggles) with its timing into a trace file'
+                    }
+                    style={{
+                        ...styles.toolbarStyles.button('#d32f2f', isRunning),
+                    }}
+                >
+                    {isRecording ? '⏹️ Stop' : '⏺️ Record'}
+                </button>
+                <button
+                    onClick={handleRunReplay}
+                    disabled={isRunning || isRecording || traceCalls === null}
+                    title={
+                        traceCalls === null
+                            ? 'Record or load a trace to replay it'
+                            : `Replay the loaded trace (${traceCalls} calls) on every adapter`
+                    }
+                    style={{
+                        ...styles.toolbarStyles.button(
+                            '#00897b',
+                            isRunning || isRecording || traceCalls === null,
+                        ),
+                    }}
+                >
+                    ⏯️ Replay
+                </button>
+                <button
+                    onClick={() => traceInputRef.current?.click()}
+                    disabled={isRunning || isRecording}
+                    title="Load a recorded trace file to replay"
+                    style={{
+                        ...styles.toolbarStyles.button('#5d4037', isRunning || isRecording),
+                    }}
+                >
+                    📂 Trace
+                </button>
+                <input
+                    ref={traceInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={handleTraceFile}
+                    style={{ display: 'none' }}
+                />
                 <button
                     onClick={onShowResults}
                     title="View detailed performance results and comparisons"
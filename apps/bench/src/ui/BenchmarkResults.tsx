@@ -1,5 +1,34 @@
 import React from 'react';
+import { comparePairwise, differsSignificantly, SIGNIFICANCE_LEVEL } from '@bench/core';
 import adapterLocData from '@bench/core/src/adapter-loc.json';
+import { bundleSizeData, getAdapterBundleSize } from './bundleSize';
+
+type ConfidenceInterval = {
+    low: number;
+    high: number;
+};
+
+type MainThreadTiming = {
+    longTasks: number;
+    longTaskMs: number;
+    slowEvents: number;
+    eventMsMax: number;
+    longFrames: number;
+    scriptMs: number;
+    styleLayoutMs: number;
+    paintMs: number;
+    observed: string[];
+};
+
+type InstanceRenders = {
+    renders: number;
+    wasted: number;
+};
+
+type WastedRenderReport = InstanceRenders & {
+    byComponent: Record<string, InstanceRenders & { instances: number }>;
+    topInstances: Array<InstanceRenders & { key: string }>;
+};
 
 type BenchmarkMetrics = {
     executionTime: number;
@@ -10,6 +39,8 @@ type BenchmarkMetrics = {
     timestamp: number;
     adapter: string;
     scenario: string;
+    mainThread?: MainThreadTiming;
+    wastedRenders?: WastedRenderReport;
 };
 
 type BenchmarkResult = {
@@ -26,8 +57,68 @@ type BenchmarkResult = {
             p95: number;
             p99: number;
         };
+        mainThread?: MainThreadTiming;
+        wastedRenders?: WastedRenderReport;
+        ci?: {
+            executionTime: ConfidenceInterval;
+            renderCount: ConfidenceInterval;
+            memoryUsage: ConfidenceInterval;
+            fps: ConfidenceInterval;
+            latency: {
+                p50: ConfidenceInterval;
+                p95: ConfidenceInterval;
+                p99: ConfidenceInterval;
+            };
+        };
     };
     timestamp: number;
+    fixtureHash?: string;
+    rollbackMismatches?: number;
+    scroll?: {
+        frameMsP50: number;
+        frameMsP95: number;
+        frameMsMax: number;
+        visibilityLagMsP50: number;
+        visibilityLagMsP95: number;
+        visibilityUpdates: number;
+        missedVisibilityUpdates: number;
+    };
+    coldStart?: Array<{
+        decks: number;
+        cards: number;
+        createStoreMs: number;
+        bindActionsMs: number;
+        firstCommitMs: number;
+        firstPaintMs: number;
+        heapMB: number;
+    }>;
+    concurrent?: {
+        blockMsP95: number;
+        blockMsMax: number;
+        longTasks: number;
+        transitions: number;
+        syncTransitionCommits: number;
+    };
+    navigation?: {
+        mountMsP50: number;
+        mountMsP95: number;
+        unmountMsP50: number;
+        unmountMsP95: number;
+        navigations: number;
+        subscribersBefore: number | null;
+        subscribersMounted: number | null;
+        subscribersAfter: number | null;
+        leakedSubscribers: number | null;
+    };
+    stream?: {
+        events: number;
+        skippedEvents: number;
+        droppedFramesP50: number;
+        droppedFramesMax: number;
+        maxBacklog: number;
+        settleMsP50: number;
+        settleMsMax: number;
+    };
 };
 
 interface BenchmarkResultsProps {
@@ -55,6 +146,79 @@ const darkenHex = (hex: string, percent: number): string => {
     return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
 };
 
+// Where the main thread went during a run
+const describeMainThread = (timing: MainThreadTiming | undefined): string | undefined =>
+    timing &&
+    (timing.observed.length === 0
+        ? 'No main-thread entries: this browser has no longtask, event or LoAF observer'
+        : `Script ${timing.scriptMs.toFixed(1)}ms, style/layout ${timing.styleLayoutMs.toFixed(1)}ms, paint ${timing.paintMs.toFixed(1)}ms in ${timing.longFrames} long frames; ${timing.longTasks} long tasks (${timing.longTaskMs.toFixed(1)}ms); ${timing.slowEvents} slow events (max ${timing.eventMsMax.toFixed(1)}ms)`);
+
+// Which components and instances rendered with unchanged data
+const describeWastedRenders = (report: WastedRenderReport): string =>
+    [
+        ...Object.entries(report.byComponent).map(
+            ([component, stats]) =>
+                `${component}: ${stats.wasted} of ${stats.renders} renders wasted over ${stats.instances} instances`,
+        ),
+        ...(report.topInstances.length > 0
+            ? [
+                  `Most wasted: ${report.topInstances
+                      .slice(0, 5)
+                      .map((instance) => `${instance.key} (${instance.wasted})`)
+                      .join(', ')}`,
+              ]
+            : []),
+    ].join('\n');
+
+const describeCI = (
+    ci: ConfidenceInterval | undefined,
+    decimals: number,
+    unit: string = '',
+): string | undefined =>
+    ci && `95% CI ${ci.low.toFixed(decimals)} – ${ci.high.toFixed(decimals)}${unit}`;
+
+// Execution time tooltip: its interval and where the main thread went
+const describeExecutionTime = (average: BenchmarkResult['average']): string | undefined =>
+    [describeCI(average.ci?.executionTime, 1, 'ms'), describeMainThread(average.mainThread)]
+        .filter(Boolean)
+        .join('\n') || undefined;
+
+type AveragedMetric = 'executionTime' | 'renderCount' | 'memoryUsage' | 'fps';
+
+const TIED_TITLE = `Statistically tied for best: the runs do not differ significantly (Mann–Whitney U, p ≥ ${SIGNIFICANCE_LEVEL})`;
+
+type RankMark = 'best' | 'worst' | 'tied' | null;
+
+// Best/worst marks of one metric across a scenario's results. An adapter is only
+// best (or worst) when its runs differ significantly from every other adapter's;
+// when the best one's cannot be told apart from some others', all of them are
+// marked tied instead.
+const rankMarks = (
+    results: BenchmarkResult[],
+    metric: AveragedMetric,
+): Map<BenchmarkResult, RankMark> => {
+    const marks: RankMark[] = results.map(() => null);
+    const byResult = () => new Map(results.map((r, i) => [r, marks[i]]));
+    if (results.length < 2) return byResult();
+    const samples = results.map((r) => r.runs.map((run) => run[metric]));
+    const averages = results.map((r) => r.average[metric]);
+    const higherIsBetter = metric === 'fps';
+    const best = averages.indexOf(higherIsBetter ? Math.max(...averages) : Math.min(...averages));
+    const worst = averages.indexOf(higherIsBetter ? Math.min(...averages) : Math.max(...averages));
+    const differsFromAll = (index: number) =>
+        samples.every((other, i) => i === index || differsSignificantly(samples[index], other));
+
+    if (differsFromAll(best)) {
+        marks[best] = 'best';
+    } else {
+        samples.forEach((other, i) => {
+            if (i === best || !differsSignificantly(samples[best], other)) marks[i] = 'tied';
+        });
+    }
+    if (worst !== best && differsFromAll(worst)) marks[worst] = 'worst';
+    return byResult();
+};
+
 const BarChart: React.FC<{
     data: { label: string; value: number; color: string }[];
     height?: number;
@@ -240,6 +404,10 @@ const BarChart: React.FC<{
 export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onClear }) => {
     const scenarios = [...new Set(results.map((r) => r.scenario))];
     const adapters = [...new Set(results.map((r) => r.adapter))];
+    // Dataset content hashes; more than one means results are not directly comparable
+    const fixtureHashes = [
+        ...new Set(results.map((r) => r.fixtureHash).filter((h): h is string => !!h)),
+    ];
 
     // Load adapter lines of code data
     const adapterLocMap: Record<string, number> = {};
@@ -255,18 +423,13 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
         resultsByScenario[scenario] = results.filter((r) => r.scenario === scenario);
     });
 
-    const getPerformanceScore = (result: BenchmarkResult): number => {
+    // Score of a result's averages, or of one of its runs
+    const getScore = (metrics: Pick<BenchmarkMetrics, AveragedMetric>): number => {
         const safeAvg = {
-            executionTime: Number.isFinite(result.average.executionTime)
-                ? result.average.executionTime
-                : 0,
-            renderCount: Number.isFinite(result.average.renderCount)
-                ? result.average.renderCount
-                : 0,
-            memoryUsage: Number.isFinite(result.average.memoryUsage)
-                ? result.average.memoryUsage
-                : 0,
-            fps: Number.isFinite(result.average.fps) ? result.average.fps : 0,
+            executionTime: Number.isFinite(metrics.executionTime) ? metrics.executionTime : 0,
+            renderCount: Number.isFinite(metrics.renderCount) ? metrics.renderCount : 0,
+            memoryUsage: Number.isFinite(metrics.memoryUsage) ? metrics.memoryUsage : 0,
+            fps: Number.isFinite(metrics.fps) ? metrics.fps : 0,
         };
         const executionScore = Math.max(0, 100 - safeAvg.executionTime / 10);
         const renderScore = Math.max(0, 100 - safeAvg.renderCount / 10);
@@ -275,6 +438,21 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
         return (executionScore + renderScore + memoryScore + fpsScore) / 4;
     };
 
+    const getPerformanceScore = (result: BenchmarkResult): number => getScore(result.average);
+
+    // The other results of the scenario whose run scores do not differ
+    // significantly from this one's: their order in the table is noise
+    const getScoreTies = (
+        result: BenchmarkResult,
+        scenarioResults: BenchmarkResult[],
+    ): BenchmarkResult[] => {
+        const runScores = result.runs.map(getScore);
+        return scenarioResults.filter(
+            (other) =>
+                other !== result && !differsSignificantly(runScores, other.runs.map(getScore)),
+        );
+    };
+
     const getScoreColor = (score: number): string => {
         if (score >= 80) return '#4CAF50';
         if (score >= 60) return '#FF9800';
@@ -328,6 +506,7 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                 totalResults: results.length,
                 adapters: adapters,
                 scenarios: scenarios,
+                fixtureHashes: fixtureHashes,
                 adapterDescriptions: {
                     'Cnstra + Oimdb (ids-based)':
                         'Reactive collections with CNS (Central Nervous System) - combines Cnstra core with OIMDB reactive indexing',
@@ -365,6 +544,18 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                         context:
                             'Critical for large applications - excessive renders cause UI jank',
                     },
+                    wastedRenders: {
+                        name: 'Wasted Renders',
+                        unit: 'number of renders',
+                        description:
+                            'Renders of entity components (cards, comments, subtasks, tags) that read the same entity data as the same instance’s previous render, from the run with the median count',
+                        interpretation:
+                            'Lower is better. A wasted render is work the store’s subscriptions could have skipped.',
+                        breakdown:
+                            'byComponent per component type, topInstances per `Component:entityId` (`TagChip:cardId:tagId` for tag chips)',
+                        context:
+                            'Separates renders the data required from renders caused by coarse subscriptions or unstable references',
+                    },
                     memoryUsage: {
                         name: 'Memory Usage',
                         unit: 'megabytes (MB)',
@@ -407,6 +598,16 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                         context:
                             'Quick indicator of overall performance, but individual metrics should be analyzed separately',
                     },
+                    bundleSize: {
+                        name: 'Bundle Size',
+                        unit: 'bytes (raw, gzip, brotli)',
+                        description:
+                            "Minified production bundle of the adapter's package and its state library, React external. The package entry exports all of its adapter variants, so variants from one package (listed in sharedWith) report the same bundle",
+                        interpretation:
+                            'Lower is better. Less code for users to download and parse.',
+                        context:
+                            'What choosing the library costs in shipped code, independent of runtime speed',
+                    },
                     linesOfCode: {
                         name: 'Lines of Code',
                         unit: 'LOC',
@@ -424,6 +625,32 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                         'Tests reactivity during rapid user input - measures responsiveness during typing',
                     'bulk-update':
                         'Tests batch operations on multiple entities - measures efficiency of bulk operations',
+                    'structural-edit':
+                        'Tests card create/move/delete across decks - measures relationship index maintenance and ID-array reference stability',
+                    'deep-toggle':
+                        'Tests toggling the deepest items of nested checklists - measures whether a leaf update stays at the leaf or re-renders its ancestors',
+                    'tag-rename':
+                        'Tests renaming/recoloring the most used tag - measures fan-out of one entity update to every card showing it, without re-rendering the cards themselves',
+                    'derived-churn':
+                        'Tests churn on the inputs of per-deck comment counts, tag histograms and owner workload - measures recomputation cost and how many deck stats rows re-render when derived values do or do not change',
+                    'filter-typing':
+                        'Tests typing a search query keystroke by keystroke (then erasing it) - measures per-keystroke latency of re-filtering every deck and how many card lists re-render',
+                    'reorder-churn':
+                        'Tests updatedAt churn with every deck sorted by last update - measures the cost of maintaining sorted card lists and of reconciling keyed lists whose order keeps changing',
+                    'undo-redo':
+                        'Tests 50 title edits followed by 50 undos - measures undo latency next to edit latency, and (as memory) the heap the history retains for undone edits; immutable stores keep snapshots, mutable stores keep patch logs',
+                    scroll: 'Tests scrolling the deck list down and back up at 1500, 4000 and 8000 px/s with the IntersectionObserver active - measures frame times, the lag from a card entering or leaving the viewport to its committed visibility flag (missed updates never committed), and renders',
+                    'optimistic-save':
+                        'Tests comment saves against a local mock server (50-80ms, one in five rejected) - latency is the optimistic update up to its paint, not the round trip; rollbackMismatches counts comments left with a text the server did not accept (should be 0)',
+                    'cold-start':
+                        'Tests creating a store, binding actions and mounting the deck list from scratch at 25, 50 and 100 decks - coldStart holds per-size medians of each step, of the time from createStore to first paint and of the heap retained after initialization, where up-front index building shows up',
+                    'concurrent-input':
+                        'Tests comment typing interleaved with card edits dispatched in startTransition, with card lists rendered through useDeferredValue - latency is the typing only; concurrent holds main-thread blocks (p95/max, long tasks over 50ms) and how many transitions the store committed synchronously (a useSyncExternalStore de-opt) instead of letting React interrupt them',
+                    'deck-navigation':
+                        'Tests stepping through decks in the single-deck view, showing each deck then none - latency is the mount and unmount of one deck; navigation holds mount/unmount p50/p95 and the store subscribers before, while a deck is shown and after the runs (adapter debugStats), where subscribers left after the last unmount leaked',
+                    'realtime-stream':
+                        'Tests a generated stream of server pushes (card edits, new comments, renames, tag toggles) played into the store in real time for 3s at 300 events/s, mostly in bursts, then a final burst of 200 - no call is measured, so latency reads 0; stream holds frames dropped at 60Hz per run (p50/max), the most events due but not yet applied at once, and the time from the final burst until the deck list stopped changing (p50/max)',
+                    replay: 'Replays a recorded session (action trace) call by call - latency is one traced call up to its paint, so the mix of edits, toggles and visibility updates is what a real user produced',
                 },
                 analysisInstructions: {
                     step1: 'Compare by scenario - each scenario tests different usage patterns and may reveal different strengths/weaknesses',
@@ -436,6 +663,32 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                 llmPromptSuggestion:
                     'Analyze these benchmark results and provide: 1) Overall winner identification, 2) Performance comparison by metric, 3) Best use case recommendations for each library, 4) Notable patterns or anomalies, 5) Trade-offs between performance and implementation complexity.',
             },
+            // Mann–Whitney U between every two adapters' runs, per scenario and metric
+            significance: {
+                test: 'Mann-Whitney U, two-sided, normal approximation',
+                alpha: SIGNIFICANCE_LEVEL,
+                scenarios: Object.fromEntries(
+                    scenarios.map((scenario) => {
+                        const scenarioResults = resultsByScenario[scenario] || [];
+                        const samplesOf = (value: (run: BenchmarkMetrics) => number) =>
+                            Object.fromEntries(
+                                scenarioResults.map((r) => [r.adapter, r.runs.map(value)]),
+                            );
+                        return [
+                            scenario,
+                            {
+                                score: comparePairwise(samplesOf(getScore)),
+                                executionTime: comparePairwise(
+                                    samplesOf((run) => run.executionTime),
+                                ),
+                                renderCount: comparePairwise(samplesOf((run) => run.renderCount)),
+                                memoryUsage: comparePairwise(samplesOf((run) => run.memoryUsage)),
+                                fps: comparePairwise(samplesOf((run) => run.fps)),
+                            },
+                        ];
+                    }),
+                ),
+            },
             results: results.map((result) => {
                 // Strip "(ids-based)" suffix to match LOC map keys
                 const baseAdapterName = result.adapter.replace(/ \(ids-based\)$/, '');
@@ -443,9 +696,11 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                     ...result,
                     score: getPerformanceScore(result),
                     linesOfCode: adapterLocMap[baseAdapterName] || null,
+                    bundleSize: getAdapterBundleSize(result.adapter),
                 };
             }),
             adapterLocData: adapterLocData.adapters || {},
+            adapterBundleSizeData: bundleSizeData,
         };
 
         // Create JSON string with pretty formatting
@@ -517,6 +772,20 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                         {results.length} result{results.length !== 1 ? 's' : ''} across{' '}
                         {adapters.length} state manager{adapters.length !== 1 ? 's' : ''}
                     </p>
+                    {fixtureHashes.length > 0 && (
+                        <p
+                            style={{
+                                margin: 0,
+                                color: fixtureHashes.length > 1 ? '#f44336' : '#666',
+                                fontSize: '12px',
+                                fontFamily: 'monospace',
+                                marginBottom: 4,
+                            }}
+                        >
+                            Dataset fixture: {fixtureHashes.join(', ')}
+                            {fixtureHashes.length > 1 && ' (mixed datasets - not comparable)'}
+                        </p>
+                    )}
                     <p
                         style={{
                             margin: 0,
@@ -526,7 +795,9 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                         }}
                     >
                         Results are sorted by overall score. 🏆 marks best performance, ⚠️ marks
-                        worst performance for each metric.
+                        worst performance for each metric, 🤝 adapters statistically tied with the
+                        best (Mann–Whitney U over the runs, p ≥ {SIGNIFICANCE_LEVEL}); hover a value
+                        for its 95% confidence interval.
                     </p>
                 </div>
                 <div style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
@@ -593,6 +864,14 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                     .replace(/-/g, ' ')
                     .replace(/\b\w/g, (l) => l.toUpperCase());
 
+                // Best/worst for each metric within scenario results
+                const marks = {
+                    executionTime: rankMarks(scenarioResults, 'executionTime'),
+                    renderCount: rankMarks(scenarioResults, 'renderCount'),
+                    memoryUsage: rankMarks(scenarioResults, 'memoryUsage'),
+                    fps: rankMarks(scenarioResults, 'fps'),
+                };
+
                 return (
                     <div key={scenario} style={{ marginBottom: 48 }}>
                         <h3
@@ -651,6 +930,17 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                         >
                                             📝 LOC
                                         </th>
+                                        <th
+                                            style={{
+                                                padding: 16,
+                                                textAlign: 'right',
+                                                fontWeight: 700,
+                                                fontSize: '14px',
+                                            }}
+                                            title="Gzipped production bundle of the adapter's package and its state library (React external). Variants from one package share its bundle. Lower is better."
+                                        >
+                                            🗜️ Bundle
+                                        </th>
                                         <th
                                             style={{
                                                 padding: 16,
@@ -684,6 +974,17 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                         >
                                             🎨 Renders
                                         </th>
+                                        <th
+                                            style={{
+                                                padding: 16,
+                                                textAlign: 'right',
+                                                fontWeight: 700,
+                                                fontSize: '14px',
+                                            }}
+                                            title="Entity component renders that read the same data as the instance's previous render. Lower is better."
+                                        >
+                                            🗑️ Wasted
+                                        </th>
                                         <th
                                             style={{
                                                 padding: 16,
@@ -750,43 +1051,21 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                         .map((result, index) => {
                                             const score = getPerformanceScore(result);
 
-                                            // Calculate best/worst for each metric within scenario results
-                                            const executionTimes = scenarioResults.map(
-                                                (r) => r.average.executionTime,
-                                            );
-                                            const renderCounts = scenarioResults.map(
-                                                (r) => r.average.renderCount,
-                                            );
-                                            const memoryUsages = scenarioResults.map(
-                                                (r) => r.average.memoryUsage,
-                                            );
-                                            const fpsValues = scenarioResults.map(
-                                                (r) => r.average.fps,
-                                            );
+                                            const executionMark = marks.executionTime.get(result);
+                                            const rendersMark = marks.renderCount.get(result);
+                                            const memoryMark = marks.memoryUsage.get(result);
+                                            const fpsMark = marks.fps.get(result);
+                                            const scoreTies = getScoreTies(result, scenarioResults);
 
-                                            const isBestExecution =
-                                                result.average.executionTime ===
-                                                Math.min(...executionTimes);
-                                            const isBestRenders =
-                                                result.average.renderCount ===
-                                                Math.min(...renderCounts);
-                                            const isBestMemory =
-                                                result.average.memoryUsage ===
-                                                Math.min(...memoryUsages);
-                                            const isBestFps =
-                                                result.average.fps === Math.max(...fpsValues);
+                                            const isBestExecution = executionMark === 'best';
+                                            const isBestRenders = rendersMark === 'best';
+                                            const isBestMemory = memoryMark === 'best';
+                                            const isBestFps = fpsMark === 'best';
 
-                                            const isWorstExecution =
-                                                result.average.executionTime ===
-                                                Math.max(...executionTimes);
-                                            const isWorstRenders =
-                                                result.average.renderCount ===
-                                                Math.max(...renderCounts);
-                                            const isWorstMemory =
-                                                result.average.memoryUsage ===
-                                                Math.max(...memoryUsages);
-                                            const isWorstFps =
-                                                result.average.fps === Math.min(...fpsValues);
+                                            const isWorstExecution = executionMark === 'worst';
+                                            const isWorstRenders = rendersMark === 'worst';
+                                            const isWorstMemory = memoryMark === 'worst';
+                                            const isWorstFps = fpsMark === 'worst';
 
                                             return (
                                                 <tr
@@ -864,6 +1143,36 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                                             );
                                                         })()}
                                                     </td>
+                                                    <td style={{ padding: 16, textAlign: 'right' }}>
+                                                        {(() => {
+                                                            const size = getAdapterBundleSize(
+                                                                result.adapter,
+                                                            );
+                                                            return size ? (
+                                                                <span
+                                                                    style={{
+                                                                        fontFamily: 'monospace',
+                                                                        fontSize: '14px',
+                                                                        fontWeight: 600,
+                                                                        color: '#607D8B',
+                                                                    }}
+                                                                    title={`${formatBytes(size.rawBytes)} minified, ${formatBytes(size.gzipBytes)} gzip, ${formatBytes(size.brotliBytes)} brotli${size.sharedWith.length > 0 ? `\nWhole ${size.package} package, shared with ${size.sharedWith.join(', ')}` : ''}`}
+                                                                >
+                                                                    {formatBytes(size.gzipBytes)}
+                                                                </span>
+                                                            ) : (
+                                                                <span
+                                                                    style={{
+                                                                        color: '#999',
+                                                                        fontSize: '12px',
+                                                                    }}
+                                                                    title="Run npm run bundle-size"
+                                                                >
+                                                                    —
+                                                                </span>
+                                                            );
+                                                        })()}
+                                                    </td>
                                                     <td style={{ padding: 16, textAlign: 'right' }}>
                                                         <span
                                                             style={{
@@ -881,6 +1190,18 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                                         >
                                                             {formatNumber(score, 0)}
                                                         </span>
+                                                        {scoreTies.length > 0 && (
+                                                            <div
+                                                                style={{
+                                                                    marginTop: 4,
+                                                                    fontSize: '11px',
+                                                                    color: '#607D8B',
+                                                                }}
+                                                                title={`Statistically tied with ${scoreTies.map((r) => r.adapter).join(', ')}: the run scores do not differ significantly, so the order is noise`}
+                                                            >
+                                                                🤝 tied
+                                                            </div>
+                                                        )}
                                                     </td>
                                                     <td
                                                         style={{
@@ -923,6 +1244,17 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                                                         ⚠️
                                                                     </span>
                                                                 )}
+                                                            {executionMark === 'tied' && (
+                                                                <span
+                                                                    style={{
+                                                                        color: '#607D8B',
+                                                                        fontSize: '18px',
+                                                                    }}
+                                                                    title={TIED_TITLE}
+                                                                >
+                                                                    🤝
+                                                                </span>
+                                                            )}
                                                             <span
                                                                 style={{
                                                                     color: isBestExecution
@@ -936,6 +1268,9 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                                                             ? 700
                                                                             : 400,
                                                                 }}
+                                                                title={describeExecutionTime(
+                                                                    result.average,
+                                                                )}
                                                             >
                                                                 {formatNumber(
                                                                     result.average.executionTime,
@@ -984,6 +1319,17 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                                                         ⚠️
                                                                     </span>
                                                                 )}
+                                                            {rendersMark === 'tied' && (
+                                                                <span
+                                                                    style={{
+                                                                        color: '#607D8B',
+                                                                        fontSize: '18px',
+                                                                    }}
+                                                                    title={TIED_TITLE}
+                                                                >
+                                                                    🤝
+                                                                </span>
+                                                            )}
                                                             <span
                                                                 style={{
                                                                     color: isBestRenders
@@ -997,6 +1343,10 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                                                             ? 700
                                                                             : 400,
                                                                 }}
+                                                                title={describeCI(
+                                                                    result.average.ci?.renderCount,
+                                                                    0,
+                                                                )}
                                                             >
                                                                 {formatNumber(
                                                                     result.average.renderCount,
@@ -1005,6 +1355,49 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                                             </span>
                                                         </div>
                                                     </td>
+                                                    <td
+                                                        style={{
+                                                            padding: 16,
+                                                            textAlign: 'right',
+                                                            fontFamily: 'monospace',
+                                                            fontSize: '14px',
+                                                        }}
+                                                    >
+                                                        {(() => {
+                                                            const wasted =
+                                                                result.average.wastedRenders;
+                                                            return wasted ? (
+                                                                <span
+                                                                    style={{
+                                                                        color:
+                                                                            wasted.wasted > 0
+                                                                                ? '#F57C00'
+                                                                                : '#333',
+                                                                    }}
+                                                                    title={describeWastedRenders(
+                                                                        wasted,
+                                                                    )}
+                                                                >
+                                                                    {wasted.wasted} (
+                                                                    {(
+                                                                        (wasted.wasted /
+                                                                            wasted.renders) *
+                                                                        100
+                                                                    ).toFixed(0)}
+                                                                    %)
+                                                                </span>
+                                                            ) : (
+                                                                <span
+                                                                    style={{
+                                                                        color: '#999',
+                                                                        fontSize: '12px',
+                                                                    }}
+                                                                >
+                                                                    —
+                                                                </span>
+                                                            );
+                                                        })()}
+                                                    </td>
                                                     <td
                                                         style={{
                                                             padding: 16,
@@ -1045,6 +1438,17 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                                                         ⚠️
                                                                     </span>
                                                                 )}
+                                                            {memoryMark === 'tied' && (
+                                                                <span
+                                                                    style={{
+                                                                        color: '#607D8B',
+                                                                        fontSize: '18px',
+                                                                    }}
+                                                                    title={TIED_TITLE}
+                                                                >
+                                                                    🤝
+                                                                </span>
+                                                            )}
                                                             <span
                                                                 style={{
                                                                     color: isBestMemory
@@ -1058,6 +1462,11 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                                                             ? 700
                                                                             : 400,
                                                                 }}
+                                                                title={describeCI(
+                                                                    result.average.ci?.memoryUsage,
+                                                                    2,
+                                                                    ' MB',
+                                                                )}
                                                             >
                                                                 {formatBytes(
                                                                     result.average.memoryUsage *
@@ -1107,6 +1516,17 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                                                         ⚠️
                                                                     </span>
                                                                 )}
+                                                            {fpsMark === 'tied' && (
+                                                                <span
+                                                                    style={{
+                                                                        color: '#607D8B',
+                                                                        fontSize: '18px',
+                                                                    }}
+                                                                    title={TIED_TITLE}
+                                                                >
+                                                                    🤝
+                                                                </span>
+                                                            )}
                                                             <span
                                                                 style={{
                                                                     color: isBestFps
@@ -1119,6 +1539,10 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                                                             ? 700
                                                                             : 400,
                                                                 }}
+                                                                title={describeCI(
+                                                                    result.average.ci?.fps,
+                                                                    1,
+                                                                )}
                                                             >
                                                                 {formatNumber(
                                                                     result.average.fps,
@@ -1135,6 +1559,11 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                                             fontSize: '14px',
                                                             color: '#333',
                                                         }}
+                                                        title={describeCI(
+                                                            result.average.ci?.latency.p50,
+                                                            2,
+                                                            'ms',
+                                                        )}
                                                     >
                                                         {formatNumber(
                                                             result.average.latency.p50,
@@ -1149,6 +1578,11 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                                             fontSize: '14px',
                                                             color: '#333',
                                                         }}
+                                                        title={describeCI(
+                                                            result.average.ci?.latency.p95,
+                                                            2,
+                                                            'ms',
+                                                        )}
                                                     >
                                                         {formatNumber(
                                                             result.average.latency.p95,
@@ -1163,6 +1597,11 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                                             fontSize: '14px',
                                                             color: '#333',
                                                         }}
+                                                        title={describeCI(
+                                                            result.average.ci?.latency.p99,
+                                                            2,
+                                                            'ms',
+                                                        )}
                                                     >
                                                         {formatNumber(
                                                             result.average.latency.p99,
@@ -1261,6 +1700,234 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                             minimize overhead when updating many items at once.
                                         </div>
                                     )}
+                                    {scenario === 'structural-edit' && (
+                                        <div style={{ opacity: 0.95 }}>
+                                            Creates 5 cards in one deck, moves each to the head of
+                                            the next deck, reorders one within it, then deletes all
+                                            of them (cascading to their comments, assignments and
+                                            tags). This test measures how each library maintains its
+                                            deck→cards and card→comments indexes under insert and
+                                            remove, and whether untouched decks keep stable ID
+                                            arrays so only the affected lists re-render.
+                                        </div>
+                                    )}
+                                    {scenario === 'deep-toggle' && (
+                                        <div style={{ opacity: 0.95 }}>
+                                            Toggles 10 of the deepest checklist items (three levels
+                                            below their card) and toggles them back. Every level of
+                                            a checklist is its own component subscribed to one
+                                            subtask and one child-id list, so this test measures
+                                            whether a deep update re-renders only the toggled item
+                                            or ripples up through its parents to the card.
+                                        </div>
+                                    )}
+                                    {scenario === 'tag-rename' && (
+                                        <div style={{ opacity: 0.95 }}>
+                                            Renames and recolors the tag carried by the most cards
+                                            five times, then restores it. Each card renders its tags
+                                            as chips subscribed to one tag each, so this test
+                                            measures how a single entity update fans out to every
+                                            chip showing it, and whether the cards themselves stay
+                                            untouched because their tag-id lists did not change.
+                                        </div>
+                                    )}
+                                    {scenario === 'derived-churn' && (
+                                        <div style={{ opacity: 0.95 }}>
+                                            Runs background churn and edits a comment on the first
+                                            card of ten decks, which touches the entities behind
+                                            every deck's derived data without changing it, then
+                                            toggles the most used tag on those cards and back. Each
+                                            deck shows a stats row fed only by derived hooks
+                                            (comment count, tag histogram, owner workload), so this
+                                            test measures what recomputing those derivations costs
+                                            and whether the rows re-render only when a value
+                                            actually changes.
+                                        </div>
+                                    )}
+                                    {scenario === 'filter-typing' && (
+                                        <div style={{ opacity: 0.95 }}>
+                                            Types a card id into the search box one keystroke at a
+                                            time and erases it the same way. Every deck lists only
+                                            the cards whose title, description or comment text
+                                            contains the query, so each keystroke re-filters every
+                                            deck; this test measures the latency of that
+                                            recomputation and whether a deck's card list re-renders
+                                            only when its matches change.
+                                        </div>
+                                    )}
+                                    {scenario === 'reorder-churn' && (
+                                        <div style={{ opacity: 0.95 }}>
+                                            Sorts every deck by last update, runs background churn,
+                                            then bumps the updatedAt of one card per deck at a time
+                                            for ten decks, so each bump moves that card to the top
+                                            of its deck. This test measures what keeping the sorted
+                                            card lists up to date costs each library and how React
+                                            reconciles keyed lists whose order keeps changing.
+                                        </div>
+                                    )}
+                                    {scenario === 'undo-redo' && (
+                                        <div style={{ opacity: 0.95 }}>
+                                            Retitles the first card of ten decks fifty times, then
+                                            undoes every edit, so each run ends with the titles it
+                                            started from. Immutable stores (Redux, Zustand,
+                                            Effector) record a snapshot of entity references per
+                                            edit, while mutable ones (MobX, atomic Effector, OIMDB)
+                                            record patches of the values they overwrote. This test
+                                            measures undo latency next to edit latency, and its
+                                            memory figure is the heap the history retains for the
+                                            undone edits.
+                                        </div>
+                                    )}
+                                    {scenario === 'scroll' && (
+                                        <div style={{ opacity: 0.95 }}>
+                                            Scrolls the deck list down (up to 6000px) and back to
+                                            the top at 1500, 4000 and 8000 px/s, one step per
+                                            animation frame, with the IntersectionObserver left on,
+                                            so every card entering or leaving the viewport goes
+                                            through setCardVisibility. This test measures frame
+                                            times while scrolling and the lag from an observer entry
+                                            to the card committing its new visibility (frame p50 /
+                                            p95 / max, lag p50 / p95, updates and missed updates):
+                                            {(resultsByScenario[scenario] || []).map((result) => (
+                                                <div key={result.adapter}>
+                                                    • {result.adapter}:{' '}
+                                                    {result.scroll
+                                                        ? `${result.scroll.frameMsP50.toFixed(1)} / ${result.scroll.frameMsP95.toFixed(1)} / ${result.scroll.frameMsMax.toFixed(1)}ms, ${result.scroll.visibilityLagMsP50.toFixed(1)} / ${result.scroll.visibilityLagMsP95.toFixed(1)}ms, ${result.scroll.visibilityUpdates} / ${result.scroll.missedVisibilityUpdates}`
+                                                        : 'n/a'}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {scenario === 'cold-start' && (
+                                        <div style={{ opacity: 0.95 }}>
+                                            Generates datasets of 25, 50 and 100 decks (30 cards
+                                            each), then for each one creates a store, binds the
+                                            actions and mounts a fresh deck list in its own root.
+                                            Stores that build indexes up front pay for them here, in
+                                            time and in heap. This test reports per-size medians of
+                                            createStore, bindActions, the first commit of the deck
+                                            list, the time from createStore to first paint, and the
+                                            heap retained after initialization:
+                                            {(resultsByScenario[scenario] || []).map((result) => (
+                                                <div key={result.adapter}>
+                                                    • {result.adapter}:{' '}
+                                                    {result.coldStart
+                                                        ? result.coldStart
+                                                              .map(
+                                                                  (s) =>
+                                                                      `${s.decks} decks: ${s.createStoreMs.toFixed(1)} + ${s.bindActionsMs.toFixed(1)} + ${s.firstCommitMs.toFixed(1)}ms, paint ${s.firstPaintMs.toFixed(1)}ms, ${s.heapMB.toFixed(1)}MB`,
+                                                              )
+                                                              .join('; ')
+                                                        : 'n/a'}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {scenario === 'optimistic-save' && (
+                                        <div style={{ opacity: 0.95 }}>
+                                            Saves a new text to one comment of each of ten decks,
+                                            five rounds in a row, against a local mock server that
+                                            answers after 50-80ms and rejects one save in five. The
+                                            text is applied right away and rolled back when the
+                                            server rejects it. Latency is the optimistic update up
+                                            to its paint, not the round trip; after each run the
+                                            comments are read back and any text that disagrees with
+                                            the server's answers counts as a rollback mismatch:
+                                            {(resultsByScenario[scenario] || []).map((result) => (
+                                                <div key={result.adapter}>
+                                                    • {result.adapter}:{' '}
+                                                    {result.rollbackMismatches ?? 0}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {scenario === 'concurrent-input' && (
+                                        <div style={{ opacity: 0.95 }}>
+                                            Types into a comment while each keystroke follows a
+                                            batch of ten card edits dispatched in startTransition,
+                                            with the decks sorted by last update and their card
+                                            lists rendered through useDeferredValue. React can
+                                            interrupt a transition for the keystroke, unless the
+                                            store forces a synchronous re-render (as
+                                            useSyncExternalStore does), which blocks the main
+                                            thread. This test reports input latency (the latency
+                                            columns), main-thread blocks p95 / max, long tasks and
+                                            synchronously committed transitions:
+                                            {(resultsByScenario[scenario] || []).map((result) => (
+                                                <div key={result.adapter}>
+                                                    • {result.adapter}:{' '}
+                                                    {result.concurrent
+                                                        ? `${result.concurrent.blockMsP95.toFixed(1)} / ${result.concurrent.blockMsMax.toFixed(1)}ms, ${result.concurrent.longTasks} long, ${result.concurrent.syncTransitionCommits} / ${result.concurrent.transitions} sync`
+                                                        : 'n/a'}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {scenario === 'deck-navigation' && (
+                                        <div style={{ opacity: 0.95 }}>
+                                            Switches the deck view to the active deck alone and
+                                            steps through the decks, showing one deck and then none,
+                                            so every step mounts or unmounts a whole deck with the
+                                            subscriptions of its cards. This test reports mount /
+                                            unmount p50 (p95), and the store's subscribers with no
+                                            deck shown, with a deck shown and after the runs;
+                                            subscribers the unmounts did not release leaked:
+                                            {(resultsByScenario[scenario] || []).map((result) => {
+                                                const navigation = result.navigation;
+                                                if (!navigation) {
+                                                    return (
+                                                        <div key={result.adapter}>
+                                                            • {result.adapter}: n/a
+                                                        </div>
+                                                    );
+                                                }
+                                                const subscribers =
+                                                    navigation.subscribersBefore === null
+                                                        ? 'no subscriber counts'
+                                                        : `${navigation.subscribersBefore} → ${navigation.subscribersMounted ?? '-'} → ${navigation.subscribersAfter} subscribers, ${navigation.leakedSubscribers} leaked`;
+                                                return (
+                                                    <div key={result.adapter}>
+                                                        • {result.adapter}:{' '}
+                                                        {`${navigation.mountMsP50.toFixed(1)} (${navigation.mountMsP95.toFixed(1)}) / ${navigation.unmountMsP50.toFixed(1)} (${navigation.unmountMsP95.toFixed(1)})ms, ${subscribers}`}
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                    {scenario === 'realtime-stream' && (
+                                        <div style={{ opacity: 0.95 }}>
+                                            Plays a generated feed of server pushes into the store
+                                            in real time: card edits, new comments, user and tag
+                                            renames and tag toggles on the cards of the first ten
+                                            decks, 300 a second for three seconds with most of each
+                                            second's events in one burst, then a final burst of 200.
+                                            Events are applied as they fall due, in slices that
+                                            leave the browser time to render. This test reports
+                                            dropped frames per run p50 / max, the largest backlog of
+                                            events due but not yet applied, and the time from the
+                                            final burst until the deck list stopped changing p50 /
+                                            max:
+                                            {(resultsByScenario[scenario] || []).map((result) => (
+                                                <div key={result.adapter}>
+                                                    • {result.adapter}:{' '}
+                                                    {result.stream
+                                                        ? `${result.stream.droppedFramesP50} / ${result.stream.droppedFramesMax} dropped, backlog ${result.stream.maxBacklog}, settle ${result.stream.settleMsP50.toFixed(1)} / ${result.stream.settleMsMax.toFixed(1)}ms${result.stream.skippedEvents > 0 ? `, ${result.stream.skippedEvents} skipped` : ''}`
+                                                        : 'n/a'}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {scenario === 'replay' && (
+                                        <div style={{ opacity: 0.95 }}>
+                                            Replays a session recorded in the app (every action call
+                                            a person made while editing, scrolling and toggling, in
+                                            order) on a fresh store of each adapter. The calls run
+                                            back to back without the idle time between them, each
+                                            one waiting for its paint, so this test measures the
+                                            adapters on a real interaction mix instead of a scripted
+                                            one.
+                                        </div>
+                                    )}
                                     {scenario === 'background-churn' && (
                                         <div style={{ opacity: 0.95 }}>
                                             Simulates continuous background updates with multiple
@@ -1326,6 +1993,11 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                         re-renders tracked via render counter (reset before each
                                         run). Lower render counts indicate better optimization and
                                         fewer unnecessary updates.
+                                        <br />• <strong>Wasted:</strong> Renders of cards, comments,
+                                        subtasks and tags whose entity data was unchanged since the
+                                        same instance's previous render, and their share of those
+                                        components' renders. Hover for the components and entity ids
+                                        that wasted the most.
                                         <br />• <strong>Latency:</strong> Time from state update to
                                         complete visual change, measured from update → React flush →
                                         paint completion (double RAF). P50/P95/P99 percentiles
@@ -1335,6 +2007,13 @@ export const BenchmarkResults: React.FC<BenchmarkResultsProps> = ({ results, onC
                                         code required to implement each adapter, including all
                                         boilerplate, selectors, and state management logic. Lower
                                         LOC indicates simpler implementation and easier maintenance.
+                                        <br />• <strong>Bundle:</strong> Gzipped size of the
+                                        adapter's package built on its own with its state library,
+                                        minified for production, React left external
+                                        (scripts/bundle-size.mjs). A package's entry exports all of
+                                        its variants, so the Cnstra + Oimdb variants share one size
+                                        and the MobX variants another. Hover for the raw and brotli
+                                        sizes.
                                         <br />• <strong>Fairness:</strong> Same dataset (seed: 42)
                                         and identical workload for all adapters. Store creation and
                                         initialization happen before measurements. Outlier removal
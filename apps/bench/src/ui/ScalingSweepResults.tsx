@@ -0,0 +1,267 @@
+import React from 'react';
+import { summarizeScalingSweep, type ScalingFit, type ScalingSweep } from '@bench/core';
+
+type Metric = 'usPerUpdate' | 'rendersPerUpdate';
+
+// One color per adapter line, in the order the sweep ran them
+const LINE_COLORS = [
+    '#667eea',
+    '#e91e63',
+    '#ff9800',
+    '#4caf50',
+    '#00bcd4',
+    '#9c27b0',
+    '#795548',
+    '#3f51b5',
+    '#f44336',
+];
+
+const CHART = { width: 440, height: 260, top: 16, right: 16, bottom: 40, left: 56 };
+
+const formatCards = (cards: number): string =>
+    cards >= 1000 ? `${Number((cards / 1000).toFixed(1))}k` : String(cards);
+
+// How a log-log slope reads: ~0 is independent of store size, ~1 grows with it
+const describeSlope = (slope: number): string =>
+    slope < 0.2 ? 'flat' : slope < 0.7 ? 'sublinear' : slope < 1.3 ? 'linear' : 'superlinear';
+
+// One scenario's metric against the dataset size on log-log axes, a line per adapter
+const LogLogChart: React.FC<{
+    sweep: ScalingSweep;
+    scenario: string;
+    metric: Metric;
+    title: string;
+    adapters: string[];
+}> = ({ sweep, scenario, metric, title, adapters }) => {
+    const points = sweep.points.filter((p) => p.scenario === scenario && p[metric] > 0);
+    if (points.length === 0) {
+        return <div style={{ color: '#888', fontSize: 13 }}>{title}: no data</div>;
+    }
+
+    const logX = sweep.sizes.map((size) => Math.log10(size));
+    const logY = points.map((p) => Math.log10(p[metric]));
+    const minX = Math.min(...logX);
+    const maxX = Math.max(...logX);
+    // Whole decades on the y axis, at least one
+    const minY = Math.floor(Math.min(...logY));
+    const maxY = Math.max(Math.ceil(Math.max(...logY)), minY + 1);
+    const plotWidth = CHART.width - CHART.left - CHART.right;
+    const plotHeight = CHART.height - CHART.top - CHART.bottom;
+    const toX = (cards: number) =>
+        CHART.left +
+        (maxX > minX ? ((Math.log10(cards) - minX) / (maxX - minX)) * plotWidth : plotWidth / 2);
+    const toY = (value: number) =>
+        CHART.top + plotHeight - ((Math.log10(value) - minY) / (maxY - minY)) * plotHeight;
+    const decades = Array.from({ length: maxY - minY + 1 }, (_, i) => minY + i);
+
+    return (
+        <div>
+            <div style={{ fontWeight: 600, fontSize: 14, color: '#333', marginBottom: 8 }}>
+                {title}
+            </div>
+            <svg
+                width={CHART.width}
+                height={CHART.height}
+                style={{ background: 'white', borderRadius: 8, border: '1px solid #e9ecef' }}
+            >
+                {decades.map((decade) => (
+                    <g key={decade}>
+                        <line
+                            x1={CHART.left}
+                            x2={CHART.width - CHART.right}
+                            y1={toY(10 ** decade)}
+                            y2={toY(10 ** decade)}
+                            stroke="#eee"
+                        />
+                        <text
+                            x={CHART.left - 8}
+                            y={toY(10 ** decade) + 4}
+                            textAnchor="end"
+                            fontSize={11}
+                            fill="#666"
+                        >
+                            {10 ** decade >= 1 ? 10 ** decade : (10 ** decade).toFixed(-decade)}
+                        </text>
+                    </g>
+                ))}
+                {sweep.sizes.map((size) => (
+                    <text
+                        key={size}
+                        x={toX(size)}
+                        y={CHART.height - CHART.bottom + 18}
+                        textAnchor="middle"
+                        fontSize={11}
+                        fill="#666"
+                    >
+                        {formatCards(size)}
+                    </text>
+                ))}
+                <text
+                    x={CHART.left + plotWidth / 2}
+                    y={CHART.height - 6}
+                    textAnchor="middle"
+                    fontSize={11}
+                    fill="#888"
+                >
+                    cards in store
+                </text>
+                {adapters.map((adapter, i) => {
+                    const series = points
+                        .filter((p) => p.adapter === adapter)
+                        .sort((a, b) => a.cards - b.cards);
+                    if (series.length === 0) return null;
+                    const color = LINE_COLORS[i % LINE_COLORS.length];
+                    return (
+                        <g key={adapter}>
+                            <polyline
+                                points={series
+                                    .map((p) => `${toX(p.cards)},${toY(p[metric])}`)
+                                    .join(' ')}
+                                fill="none"
+                                stroke={color}
+                                strokeWidth={2}
+                            />
+                            {series.map((p) => (
+                                <circle
+                                    key={p.cards}
+                                    cx={toX(p.cards)}
+                                    cy={toY(p[metric])}
+                                    r={3}
+                                    fill={color}
+                                >
+                                    <title>
+                                        {`${adapter}: ${p[metric].toFixed(2)} at ${p.cards} cards`}
+                                    </title>
+                                </circle>
+                            ))}
+                        </g>
+                    );
+                })}
+            </svg>
+        </div>
+    );
+};
+
+const cellStyle: React.CSSProperties = { padding: '10px 14px', fontSize: 13 };
+
+// Slopes of every adapter for one scenario, steepest µs/update first
+const SlopeTable: React.FC<{ fits: ScalingFit[]; adapters: string[] }> = ({ fits, adapters }) => (
+    <table
+        style={{
+            width: '100%',
+            borderCollapse: 'collapse',
+            backgroundColor: 'white',
+            border: '1px solid #e9ecef',
+        }}
+    >
+        <thead>
+            <tr style={{ background: '#f8f9fa', color: '#333' }}>
+                <th style={{ ...cellStyle, textAlign: 'left' }}>📦 Adapter</th>
+                <th
+                    style={{ ...cellStyle, textAlign: 'right' }}
+                    title="Slope of log(µs/update) against log(cards): 0 means the cost of one update does not grow with the store, 1 means it grows linearly"
+                >
+                    µs/update slope
+                </th>
+                <th
+                    style={{ ...cellStyle, textAlign: 'right' }}
+                    title="Slope of log(renders/update) against log(cards)"
+                >
+                    renders/update slope
+                </th>
+                <th
+                    style={{ ...cellStyle, textAlign: 'right' }}
+                    title="Goodness of the µs/update fit (1 = the points lie on the line)"
+                >
+                    r²
+                </th>
+            </tr>
+        </thead>
+        <tbody>
+            {[...fits]
+                .sort((a, b) => b.usSlope - a.usSlope)
+                .map((fit) => (
+                    <tr key={fit.adapter} style={{ borderTop: '1px solid #e9ecef' }}>
+                        <td style={cellStyle}>
+                            <span
+                                style={{
+                                    display: 'inline-block',
+                                    width: 10,
+                                    height: 10,
+                                    borderRadius: 5,
+                                    marginRight: 8,
+                                    background:
+                                        LINE_COLORS[
+                                            adapters.indexOf(fit.adapter) % LINE_COLORS.length
+                                        ],
+                                }}
+                            />
+                            {fit.adapter}
+                        </td>
+                        <td style={{ ...cellStyle, textAlign: 'right' }}>
+                            {fit.usSlope.toFixed(2)} ({describeSlope(fit.usSlope)})
+                        </td>
+                        <td style={{ ...cellStyle, textAlign: 'right' }}>
+                            {fit.rendersSlope.toFixed(2)} ({describeSlope(fit.rendersSlope)})
+                        </td>
+                        <td style={{ ...cellStyle, textAlign: 'right' }}>{fit.usR2.toFixed(2)}</td>
+                    </tr>
+                ))}
+        </tbody>
+    </table>
+);
+
+export const ScalingSweepResults: React.FC<{ sweep: ScalingSweep }> = ({ sweep }) => {
+    const fits = summarizeScalingSweep(sweep);
+    const adapters = [...new Set(sweep.points.map((p) => p.adapter))];
+    const scenarios = [...new Set(sweep.points.map((p) => p.scenario))];
+
+    return (
+        <div style={{ padding: '32px', borderBottom: '1px solid #e9ecef' }}>
+            <h2 style={{ margin: '0 0 8px 0', fontSize: 26, fontWeight: 700, color: '#333' }}>
+                📈 Dataset Scaling Sweep
+            </h2>
+            <p style={{ margin: '0 0 24px 0', fontSize: 14, color: '#666' }}>
+                Per-update cost at {sweep.sizes.map(formatCards).join(', ')} cards (the deck list
+                still mounts its first 100 decks). The slope is fitted on log-log axes: an adapter
+                whose single-entity updates touch the whole store shows a slope near 1.
+            </p>
+            {scenarios.map((scenario) => (
+                <div key={scenario} style={{ marginBottom: 40 }}>
+                    <h3
+                        style={{
+                            margin: '0 0 16px 0',
+                            fontSize: 20,
+                            fontWeight: 700,
+                            color: '#333',
+                            paddingBottom: 8,
+                            borderBottom: '3px solid #667eea',
+                        }}
+                    >
+                        {scenario.replace(/-/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase())}
+                    </h3>
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: 24, marginBottom: 16 }}>
+                        <LogLogChart
+                            sweep={sweep}
+                            scenario={scenario}
+                            metric="usPerUpdate"
+                            title="⏱️ µs per update"
+                            adapters={adapters}
+                        />
+                        <LogLogChart
+                            sweep={sweep}
+                            scenario={scenario}
+                            metric="rendersPerUpdate"
+                            title="🔄 Renders per update"
+                            adapters={adapters}
+                        />
+                    </div>
+                    <SlopeTable
+                        fits={fits.filter((fit) => fit.scenario === scenario)}
+                        adapters={adapters}
+                    />
+                </div>
+            ))}
+        </div>
+    );
+};
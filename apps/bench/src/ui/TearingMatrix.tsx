@@ -0,0 +1,87 @@
+import React from 'react';
+import type { TearingCheckResult } from '@bench/core';
+
+const cellStyle: React.CSSProperties = { padding: '10px 14px', fontSize: 13 };
+
+const formatCheck = (check: string): string =>
+    check.replace(/-/g, ' ').replace(/^\w/, (l) => l.toUpperCase());
+
+// Why a check failed, or how much it saw when it passed
+const describeResult = (result: TearingCheckResult): string =>
+    result.passed
+        ? `No tearing in ${result.commits} commits`
+        : [
+              result.tornCommits > 0 &&
+                  `${result.tornCommits} of ${result.commits} commits showed mixed values`,
+              result.finalMismatch && 'did not settle on the last written value',
+          ]
+              .filter(Boolean)
+              .join('; ');
+
+// Pass/fail of every tearing check, one row per adapter
+export const TearingMatrix: React.FC<{ results: TearingCheckResult[] }> = ({ results }) => {
+    const adapters = [...new Set(results.map((r) => r.adapter))];
+    const checks = [...new Set(results.map((r) => r.check))];
+
+    return (
+        <div style={{ padding: '32px', borderBottom: '1px solid #e9ecef' }}>
+            <h2 style={{ margin: '0 0 8px 0', fontSize: 26, fontWeight: 700, color: '#333' }}>
+                🧩 Tearing Check
+            </h2>
+            <p style={{ margin: '0 0 24px 0', fontSize: 14, color: '#666' }}>
+                Many components read the same card while a slow concurrent render of them is
+                interrupted by store writes. A check fails when one commit showed different values
+                in those components, or when they did not all end on the last write.
+            </p>
+            <table
+                style={{
+                    width: '100%',
+                    borderCollapse: 'collapse',
+                    backgroundColor: 'white',
+                    border: '1px solid #e9ecef',
+                }}
+            >
+                <thead>
+                    <tr style={{ background: '#f8f9fa', color: '#333' }}>
+                        <th style={{ ...cellStyle, textAlign: 'left' }}>📦 Adapter</th>
+                        {checks.map((check) => (
+                            <th key={check} style={{ ...cellStyle, textAlign: 'center' }}>
+                                {formatCheck(check)}
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    {adapters.map((adapter) => (
+                        <tr key={adapter} style={{ borderTop: '1px solid #e9ecef' }}>
+                            <td style={cellStyle}>{adapter}</td>
+                            {checks.map((check) => {
+                                const result = results.find(
+                                    (r) => r.adapter === adapter && r.check === check,
+                                );
+                                return (
+                                    <td
+                                        key={check}
+                                        style={{
+                                            ...cellStyle,
+                                            textAlign: 'center',
+                                            color: !result
+                                                ? '#888'
+                                                : result.passed
+                                                  ? '#2e7d32'
+                                                  : '#c62828',
+                                            fontWeight: 600,
+                                        }}
+                                        title={result ? describeResult(result) : undefined}
+                                    >
+                                        {!result ? '-' : result.passed ? '✅ Pass' : '❌ Fail'}
+                                    </td>
+                                );
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
@@ -1,8 +1,11 @@
 import {
+    bootstrapCI,
     createRenderCounter,
     createFpsMeter,
     type BenchmarkMetrics,
     type BenchmarkResult,
+    type MainThreadTiming,
+    type WastedRenderReport,
 } from '@bench/core';
 
 /**
@@ -10,7 +13,7 @@ import {
  * Note: performance.memory is a non-standard Chrome API
  * Returns 0 if not available (e.g., Firefox, Safari)
  */
-function getMemoryUsage(): number {
+export function getMemoryUsage(): number {
     if ('memory' in performance && (performance as any).memory) {
         const memory = (performance as any).memory;
         const used = memory.usedJSHeapSize;
@@ -25,7 +28,7 @@ function getMemoryUsage(): number {
  * Calculate percentile using linear interpolation for more accurate results
  * Handles edge cases: empty arrays, single values, out-of-range percentiles
  */
-function calculatePercentile(values: number[], percentile: number): number {
+export function calculatePercentile(values: number[], percentile: number): number {
     if (!values || values.length === 0) return 0;
     if (values.length === 1) return values[0];
 
@@ -33,6 +36,11 @@ function calculatePercentile(values: number[], percentile: number): number {
     percentile = Math.max(0, Math.min(100, percentile));
 
     const sorted = [...values].sort((a, b) => a - b);
+    return percentileOfSorted(sorted, percentile);
+}
+
+// calculatePercentile of values already sorted ascending
+function percentileOfSorted(sorted: ArrayLike<number>, percentile: number): number {
     const index = (percentile / 100) * (sorted.length - 1);
     const lowerIndex = Math.floor(index);
     const upperIndex = Math.ceil(index);
@@ -46,6 +54,15 @@ function calculatePercentile(values: number[], percentile: number): number {
     return Number.isFinite(result) ? result : 0;
 }
 
+function mean(values: ArrayLike<number>): number {
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) sum += values[i];
+    return sum / values.length;
+}
+
+// Pooled latencies run into the thousands, and every bootstrap resample sorts them
+const LATENCY_BOOTSTRAP_RESAMPLES = 200;
+
 /**
  * Calculate median (more robust for small samples)
  */
@@ -131,6 +148,124 @@ async function waitForPaintCompletion(doubleRaf: boolean = true): Promise<number
     return performance.now() - waitStart;
 }
 
+// The parts of a long-animation-frame entry read here (not in the DOM lib yet)
+type LongAnimationFrameEntry = PerformanceEntry & {
+    renderStart: number;
+    styleAndLayoutStart: number;
+    paintTime?: number;
+    presentationTime?: number;
+    scripts: Array<{ duration: number; forcedStyleAndLayoutDuration: number }>;
+};
+
+// Slow input events: the Event Timing API reports nothing under its threshold
+const EVENT_DURATION_THRESHOLD_MS = 16;
+
+/**
+ * Observe longtask, event and long-animation-frame entries until stop() and sum
+ * them up. Entry types the browser does not support are left out; null when
+ * there is no PerformanceObserver at all.
+ */
+function startMainThreadProbe(): { stop(): MainThreadTiming } | null {
+    if (typeof PerformanceObserver === 'undefined') return null;
+    const supported = PerformanceObserver.supportedEntryTypes ?? [];
+    const observed = ['longtask', 'event', 'long-animation-frame'].filter((type) =>
+        supported.includes(type),
+    );
+    const timing: MainThreadTiming = {
+        longTasks: 0,
+        longTaskMs: 0,
+        slowEvents: 0,
+        eventMsMax: 0,
+        longFrames: 0,
+        scriptMs: 0,
+        styleLayoutMs: 0,
+        paintMs: 0,
+        observed,
+    };
+
+    const record = (entry: PerformanceEntry) => {
+        if (entry.entryType === 'longtask') {
+            timing.longTasks++;
+            timing.longTaskMs += entry.duration;
+        } else if (entry.entryType === 'event') {
+            timing.slowEvents++;
+            timing.eventMsMax = Math.max(timing.eventMsMax, entry.duration);
+        } else if (entry.entryType === 'long-animation-frame') {
+            // A frame runs scripts, then style and layout from styleAndLayoutStart,
+            // then paint from paintTime until it is presented. Layout a script forced
+            // synchronously counts as style/layout rather than script.
+            const frame = entry as LongAnimationFrameEntry;
+            const end = frame.startTime + frame.duration;
+            const layoutStart = frame.styleAndLayoutStart || end;
+            const paintStart = frame.paintTime || end;
+            const forced = (frame.scripts ?? []).reduce(
+                (sum, script) => sum + (script.forcedStyleAndLayoutDuration || 0),
+                0,
+            );
+            timing.longFrames++;
+            timing.scriptMs += Math.max(0, layoutStart - frame.startTime - forced);
+            timing.styleLayoutMs += Math.max(0, paintStart - layoutStart) + forced;
+            if (frame.presentationTime) {
+                timing.paintMs += Math.max(0, frame.presentationTime - paintStart);
+            }
+        }
+    };
+
+    const observers = observed.map((type) => {
+        const observer = new PerformanceObserver((list) => list.getEntries().forEach(record));
+        observer.observe(
+            type === 'event'
+                ? ({ type, buffered: false, durationThreshold: EVENT_DURATION_THRESHOLD_MS } as any)
+                : { type, buffered: false },
+        );
+        return observer;
+    });
+
+    return {
+        stop() {
+            for (const observer of observers) {
+                // Entries delivered but not yet handed to the callback
+                observer.takeRecords().forEach(record);
+                observer.disconnect();
+            }
+            return timing;
+        },
+    };
+}
+
+// Median of every field of the runs' main-thread timings; undefined when no run
+// had one
+function medianMainThread(timings: MainThreadTiming[]): MainThreadTiming | undefined {
+    if (timings.length === 0) return undefined;
+    const median = (field: Exclude<keyof MainThreadTiming, 'observed'>) =>
+        calculateMedian(timings.map((t) => t[field]));
+    return {
+        longTasks: median('longTasks'),
+        longTaskMs: median('longTaskMs'),
+        slowEvents: median('slowEvents'),
+        eventMsMax: median('eventMsMax'),
+        longFrames: median('longFrames'),
+        scriptMs: median('scriptMs'),
+        styleLayoutMs: median('styleLayoutMs'),
+        paintMs: median('paintMs'),
+        observed: timings[0].observed,
+    };
+}
+
+// The report of the run with the (lower) median number of wasted renders;
+// undefined when no run had one
+function medianWastedRenders(reports: WastedRenderReport[]): WastedRenderReport | undefined {
+    if (reports.length === 0) return undefined;
+    const sorted = [...reports].sort((a, b) => a.wasted - b.wasted);
+    return sorted[Math.floor((sorted.length - 1) / 2)];
+}
+
+// Times `fn` until its updates are painted, like a wrapped action call, and adds
+// the result to the run's latencies. For workloads whose UI latency is not the
+// duration of one action call, e.g. an optimistic save that paints long before
+// the server answers.
+export type MeasureLatency = (fn: () => void | Promise<void>) => Promise<number>;
+
 export interface BenchmarkRunnerOptions {
     debugWarn?: (message: string, ...args: any[]) => void;
     runs?: number;
@@ -143,6 +278,7 @@ export interface BenchmarkRunnerOptions {
     memorySampleDelayMs?: number; // delay between memory samples
     paintWaitCapMs?: number; // cap for subtracting paint scheduling when waiting for paint
     paintWaitNoPaintCapMs?: number; // cap for non-paint wait
+    fixtureHash?: string; // dataset content hash stamped on every result
 }
 
 /**
@@ -163,13 +299,14 @@ export function createBenchmarkRunner<A extends object = any>(
     const memorySampleDelayMs = options.memorySampleDelayMs ?? 10;
     const paintWaitCapMs = options.paintWaitCapMs ?? 34; // ~2 frames at 60Hz
     const paintWaitNoPaintCapMs = options.paintWaitNoPaintCapMs ?? 17; // ~1 frame at 60Hz
+    let fixtureHash = options.fixtureHash;
 
     return {
         async runBenchmark(
             scenario: string,
             adapter: string,
             actions: A, // Actions to wrap with automatic latency measurement
-            workloadFn: (actions: A, runNum: number) => Promise<void>,
+            workloadFn: (actions: A, runNum: number, measure: MeasureLatency) => Promise<void>,
             runs: number = defaultRuns,
         ): Promise<BenchmarkResult> {
             const scenarioResults: BenchmarkMetrics[] = [];
@@ -191,7 +328,10 @@ export function createBenchmarkRunner<A extends object = any>(
                             return original;
                         },
                     });
-                    await workloadFn(warmupActions, 0);
+                    await workloadFn(warmupActions, 0, async (fn) => {
+                        await fn();
+                        return 0;
+                    });
                 } catch (error) {
                     debugWarn('Warmup run failed:', error);
                 }
@@ -222,6 +362,9 @@ export function createBenchmarkRunner<A extends object = any>(
                 // NOTE: FPS meter will be started AFTER workload begins to avoid counting cold frames
                 // Measure memory multiple times and use median (excluded from executionTime)
                 const startMemory = await measureMemoryMedian(memorySamples, 5);
+                // Run boundaries for external profilers: bench-with-server.mjs splits
+                // the garbage collections it traces by these marks
+                performance.mark(`bench:run:${i}:start`);
                 const startTime = performance.now();
 
                 // Helper to measure individual operation latency
@@ -294,7 +437,7 @@ export function createBenchmarkRunner<A extends object = any>(
                     fpsMeter.start();
 
                     // Run workload with automatically wrapped actions
-                    await workloadFn(wrappedActions, i);
+                    await workloadFn(wrappedActions, i, (fn) => measureLatency(fn, true));
                 };
 
                 // Execute workload - render counter is set via global variable so useCounterKey can access it
@@ -313,8 +456,13 @@ export function createBenchmarkRunner<A extends object = any>(
 
                 let measuredFps = 0;
                 let fpsStopped = false;
+                // Started with the workload and stopped once its last paint is done
+                const mainThreadProbe = startMainThreadProbe();
                 try {
                     await workloadWithContext();
+                } catch (error) {
+                    mainThreadProbe?.stop();
+                    throw error;
                 } finally {
                     // Always stop FPS meter if it wasn't stopped yet (handles errors too)
                     if (!fpsStopped) {
@@ -332,6 +480,7 @@ export function createBenchmarkRunner<A extends object = any>(
                 // Wait for React to finish rendering all updates before measuring
                 // This ensures all renders are counted
                 await waitForPaintCompletion(true);
+                const mainThread = mainThreadProbe?.stop();
 
                 // Measure end memory BEFORE stopping measurements to avoid adding delay to executionTime
                 // Measure multiple times and use median for stability
@@ -339,6 +488,7 @@ export function createBenchmarkRunner<A extends object = any>(
 
                 // Now measure end time after all measurements are done
                 const endTime = performance.now();
+                performance.mark(`bench:run:${i}:end`);
 
                 // Calculate actual execution time by subtracting artificial delays
                 const rawExecutionTime = endTime - startTime;
@@ -400,7 +550,10 @@ export function createBenchmarkRunner<A extends object = any>(
                     timestamp: Date.now(),
                     adapter,
                     scenario,
+                    mainThread,
                 };
+                const wastedRenders = runRenderCounter.getWasted();
+                if (wastedRenders.renders > 0) metrics.wastedRenders = wastedRenders;
 
                 scenarioResults.push(metrics);
 
@@ -470,6 +623,34 @@ export function createBenchmarkRunner<A extends object = any>(
                     p95: allLatencies.length >= 2 ? calculatePercentile(allLatencies, 95) : 0,
                     p99: allLatencies.length >= 3 ? calculatePercentile(allLatencies, 99) : 0,
                 },
+                mainThread: medianMainThread(
+                    validResults.flatMap((r) => (r.mainThread ? [r.mainThread] : [])),
+                ),
+                wastedRenders: medianWastedRenders(
+                    validResults.flatMap((r) => (r.wastedRenders ? [r.wastedRenders] : [])),
+                ),
+            };
+
+            // Each interval bootstraps the same statistic its average uses above
+            const averageOf = (sorted: Float64Array) =>
+                useMedian ? percentileOfSorted(sorted, 50) : mean(sorted);
+            const latencyCI = (percentile: number, minSamples: number) =>
+                bootstrapCI(
+                    allLatencies,
+                    (sorted) =>
+                        sorted.length >= minSamples ? percentileOfSorted(sorted, percentile) : 0,
+                    { resamples: LATENCY_BOOTSTRAP_RESAMPLES },
+                );
+            average.ci = {
+                executionTime: bootstrapCI(executionTimes, averageOf),
+                renderCount: bootstrapCI(renderCounts, averageOf),
+                memoryUsage: bootstrapCI(memoryUsages, mean),
+                fps: bootstrapCI(fpsValues, mean),
+                latency: {
+                    p50: latencyCI(50, 1),
+                    p95: latencyCI(95, 2),
+                    p99: latencyCI(99, 3),
+                },
             };
 
             const result: BenchmarkResult = {
@@ -478,12 +659,18 @@ export function createBenchmarkRunner<A extends object = any>(
                 runs: scenarioResults,
                 average,
                 timestamp: Date.now(),
+                fixtureHash,
             };
 
             results.push(result);
             return result;
         },
 
+        // The dataset is only known once the app has generated or loaded it
+        setFixtureHash(hash: string | undefined) {
+            fixtureHash = hash;
+        },
+
         getResults(): BenchmarkResult[] {
             return [...results];
         },
@@ -0,0 +1,45 @@
+export type BundleSize = {
+    rawBytes: number;
+    gzipBytes: number;
+    brotliBytes: number;
+};
+
+export type AdapterBundleSize = BundleSize & {
+    package: string; // directory under packages/adapters
+    // The package's other adapters: its entry exports them all, so they ship in
+    // the same bundle and report the same size
+    sharedWith: string[];
+};
+
+export type BundleSizeData = {
+    packages: Record<string, BundleSize>; // by package
+    adapters: Record<string, string>; // package of every adapter, by display name
+};
+
+// Written by npm run bundle-size and not committed: a glob, so the app still
+// builds before it has run, with no sizes
+const [generated] = Object.values(
+    import.meta.glob<BundleSizeData>('../../../../packages/core/src/adapter-bundle-size.json', {
+        eager: true,
+        import: 'default',
+    }),
+);
+
+export const bundleSizeData: BundleSizeData = generated ?? { packages: {}, adapters: {} };
+const packageSizes = bundleSizeData.packages;
+const adapterPackages = bundleSizeData.adapters;
+
+// Size of the bundle an adapter ships in (npm run bundle-size, keyed by the
+// adapter's display name); null when its package was not measured
+export function getAdapterBundleSize(adapter: string): AdapterBundleSize | null {
+    const pkg = adapterPackages[adapter];
+    const size = pkg !== undefined ? packageSizes[pkg] : undefined;
+    if (!size) return null;
+    return {
+        ...size,
+        package: pkg!,
+        sharedWith: Object.keys(adapterPackages).filter(
+            (name) => name !== adapter && adapterPackages[name] === pkg,
+        ),
+    };
+}
@@ -15,7 +15,14 @@ import {
     useSelectEntityByPkSignal,
     useSelectPksByIndexKeyArrayBasedSignal,
 } from '@oimdb/react';
-import type { StoreAdapter, StoreHandle, ViewModelHooksIdsBased } from '@bench/core';
+import type {
+    StoreAdapter,
+    StoreHandle,
+    ViewModelHooksIdsBased,
+    TagHistogram,
+    CardSortKey,
+    MockServer,
+} from '@bench/core';
 import type {
     RootState,
     ID,
@@ -26,13 +33,94 @@ import type {
     Tag,
     CardAssignment,
     CardTag,
+    Subtask,
 } from '@bench/core';
 
 type AppState = {
     id: 'app';
     activeDeckId: string | null;
+    searchQuery: string;
+};
+
+// Derived data is materialized into its own collections and refreshed by the
+// writes that touch its inputs, so readers subscribe by pk like any entity.
+type DeckStats = {
+    id: ID;
+    commentCount: number;
+    tagHistogram: TagHistogram;
+};
+
+type UserStats = {
+    id: ID;
+    workload: number;
+};
+
+const EMPTY_HISTOGRAM: TagHistogram = {};
+
+function shallowEqualCounts(a: Record<ID, number>, b: Record<ID, number>): boolean {
+    if (a === b) return true;
+    const keys = Object.keys(a);
+    if (keys.length !== Object.keys(b).length) return false;
+    for (const k of keys) if (a[k] !== b[k]) return false;
+    return true;
+}
+
+function shallowEqualIds(a: readonly ID[], b: readonly ID[]): boolean {
+    if (a === b) return true;
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+    return true;
+}
+
+const CARD_SORT_KEYS: readonly CardSortKey[] = ['updatedAt', 'createdAt', 'title'];
+
+// Edits kept for undo; older ones are dropped
+const HISTORY_LIMIT = 500;
+
+// One write of an undoable edit, replayable in both directions
+type Patch = { undo(): void; redo(): void };
+
+type HistoryEntry = {
+    patches: Patch[];
+    // Decks whose derived data (stats, search, sorted lists) the edit affected
+    deckIds: ID[];
 };
 
+// Timestamps newest first, titles A to Z; Array#sort is stable, so ties keep the
+// deck's insertion order
+function compareCards(a: Card, b: Card, sortKey: CardSortKey): number {
+    if (sortKey === 'title') return a.title < b.title ? -1 : a.title > b.title ? 1 : 0;
+    return b[sortKey] - a[sortKey];
+}
+
+// Every subtask pk in the checklist tree under `parentId` (not including it).
+function collectSubtaskPks(
+    subtasksByParent: OIMReactiveCollectionIndexManualArrayBased<string, string, Subtask>,
+    parentId: ID,
+): ID[] {
+    const result: ID[] = [];
+    const pending = [...(subtasksByParent.getPksByKey(parentId) ?? [])];
+    while (pending.length > 0) {
+        const pk = pending.pop()!;
+        result.push(pk);
+        pending.push(...(subtasksByParent.getPksByKey(pk) ?? []));
+    }
+    return result;
+}
+
+// Distinct tag ids behind a card's cardTag pks, in cardTag order.
+function distinctTagIds(
+    cardTagPks: readonly string[],
+    cardTags: OIMReactiveCollection<CardTag, string>,
+): ID[] {
+    const tagIds: ID[] = [];
+    for (const pk of cardTagPks) {
+        const tagId = (cardTags.getOneByPk(pk) as CardTag | undefined)?.tagId;
+        if (tagId && !tagIds.includes(tagId)) tagIds.push(tagId);
+    }
+    return tagIds;
+}
+
 function createCnstraOimdbStore(initialData: RootState, inPlace = false) {
     const queue = new OIMEventQueue({});
 
@@ -72,10 +160,22 @@ function createCnstraOimdbStore(initialData: RootState, inPlace = false) {
             selectPk: (cardTag) => cardTag.id,
             updateEntity: upd<CardTag>(),
         }),
+        subtasks: new OIMReactiveCollection<Subtask, string>(queue, {
+            selectPk: (subtask) => subtask.id,
+            updateEntity: upd<Subtask>(),
+        }),
         appState: new OIMReactiveCollection<AppState, string>(queue, {
             selectPk: (state) => state.id,
             updateEntity: upd<AppState>(),
         }),
+        deckStats: new OIMReactiveCollection<DeckStats, string>(queue, {
+            selectPk: (stats) => stats.id,
+            updateEntity: upd<DeckStats>(),
+        }),
+        userStats: new OIMReactiveCollection<UserStats, string>(queue, {
+            selectPk: (stats) => stats.id,
+            updateEntity: upd<UserStats>(),
+        }),
     };
 
     // Collection-bound reactive indexes (array-based, manual). Each index resolves
@@ -105,9 +205,37 @@ function createCnstraOimdbStore(initialData: RootState, inPlace = false) {
             { collection: collections.users },
         ),
         // cardTag ids grouped by cardId — resolves through the cardTags collection
-        tagsByCard: new OIMReactiveCollectionIndexManualArrayBased<string, string, CardTag>(queue, {
-            collection: collections.cardTags,
+        cardTagsByCard: new OIMReactiveCollectionIndexManualArrayBased<string, string, CardTag>(
+            queue,
+            { collection: collections.cardTags },
+        ),
+        // distinct tag ids grouped by cardId — resolves through the tags collection
+        tagsByCard: new OIMReactiveCollectionIndexManualArrayBased<string, string, Tag>(queue, {
+            collection: collections.tags,
         }),
+        // card ids of a deck matching the search query (all of them while it is
+        // blank) — materialized like the derived stats, see refreshSearch
+        filteredCardsByDeck: new OIMReactiveCollectionIndexManualArrayBased<string, string, Card>(
+            queue,
+            { collection: collections.cards },
+        ),
+        // card ids of a deck in each view order — materialized too, see refreshSorted
+        sortedCardsByDeck: {
+            updatedAt: new OIMReactiveCollectionIndexManualArrayBased<string, string, Card>(queue, {
+                collection: collections.cards,
+            }),
+            createdAt: new OIMReactiveCollectionIndexManualArrayBased<string, string, Card>(queue, {
+                collection: collections.cards,
+            }),
+            title: new OIMReactiveCollectionIndexManualArrayBased<string, string, Card>(queue, {
+                collection: collections.cards,
+            }),
+        },
+        // child subtask ids grouped by parent (card id or subtask id)
+        subtasksByParent: new OIMReactiveCollectionIndexManualArrayBased<string, string, Subtask>(
+            queue,
+            { collection: collections.subtasks },
+        ),
     };
 
     collections.decks.upsertMany(Object.values(initialData.entities.decks));
@@ -117,7 +245,12 @@ function createCnstraOimdbStore(initialData: RootState, inPlace = false) {
     collections.tags.upsertMany(Object.values(initialData.entities.tags));
     collections.cardAssignments.upsertMany(Object.values(initialData.entities.cardAssignments));
     collections.cardTags.upsertMany(Object.values(initialData.entities.cardTags));
-    collections.appState.upsertOne({ id: 'app', activeDeckId: initialData.activeDeckId });
+    collections.subtasks.upsertMany(Object.values(initialData.entities.subtasks));
+    collections.appState.upsertOne({
+        id: 'app',
+        activeDeckId: initialData.activeDeckId,
+        searchQuery: '',
+    });
 
     const groupByKey = <T,>(
         entities: T[],
@@ -168,30 +301,282 @@ function createCnstraOimdbStore(initialData: RootState, inPlace = false) {
         Object.values(initialData.entities.cardTags),
         (ct) => ct.cardId,
         (ct) => ct.id,
-    ).forEach((ids, k) => indexes.tagsByCard.addPks(k, ids));
+    ).forEach((ids, k) => indexes.cardTagsByCard.addPks(k, ids));
+    groupByKey(
+        Object.values(initialData.entities.cardTags),
+        (ct) => ct.cardId,
+        (ct) => ct.tagId,
+    ).forEach((ids, k) => indexes.tagsByCard.addPks(k, [...new Set(ids)]));
+    groupByKey(
+        Object.values(initialData.entities.subtasks),
+        (s) => s.parentId,
+        (s) => s.id,
+    ).forEach((ids, k) => indexes.subtasksByParent.addPks(k, ids));
+
+    // Recomputes the stats of the given decks from the indexes; upserts only the
+    // decks whose values changed, keeping an unchanged histogram's reference.
+    const refreshDeckStats = (deckIds: Iterable<ID>) => {
+        for (const deckId of deckIds) {
+            let commentCount = 0;
+            const histogram: TagHistogram = {};
+            for (const cardId of indexes.cardsByDeck.getPksByKey(deckId) ?? []) {
+                commentCount += indexes.commentsByCard.getPksByKey(cardId)?.length ?? 0;
+                for (const tagId of indexes.tagsByCard.getPksByKey(cardId) ?? []) {
+                    histogram[tagId] = (histogram[tagId] ?? 0) + 1;
+                }
+            }
+            const prev = collections.deckStats.getOneByPk(deckId) as DeckStats | undefined;
+            const sameHistogram = !!prev && shallowEqualCounts(prev.tagHistogram, histogram);
+            if (sameHistogram && prev.commentCount === commentCount) continue;
+            collections.deckStats.upsertOne({
+                id: deckId,
+                commentCount,
+                tagHistogram: sameHistogram ? prev.tagHistogram : histogram,
+            });
+        }
+    };
+    const deckIdsOfCards = (cardIds: ID[]): Set<ID> => {
+        const deckIds = new Set<ID>();
+        for (const cardId of cardIds) {
+            const card = collections.cards.getOneByPk(cardId) as Card | undefined;
+            if (card) deckIds.add(card.deckId);
+        }
+        return deckIds;
+    };
+    // Re-filters the given decks against the current query; sets the pks only for
+    // the decks whose matches changed.
+    const refreshSearch = (deckIds: Iterable<ID>) => {
+        const state = collections.appState.getOneByPk('app') as AppState | undefined;
+        const query = (state?.searchQuery ?? '').trim().toLowerCase();
+        const matches = (cardId: ID): boolean => {
+            const card = collections.cards.getOneByPk(cardId) as Card | undefined;
+            if (!card) return false;
+            if (card.title.toLowerCase().includes(query)) return true;
+            if (card.description.toLowerCase().includes(query)) return true;
+            for (const commentId of indexes.commentsByCard.getPksByKey(cardId) ?? []) {
+                const comment = collections.comments.getOneByPk(commentId) as Comment | undefined;
+                if (comment?.text.toLowerCase().includes(query)) return true;
+            }
+            return false;
+        };
+        for (const deckId of deckIds) {
+            const cardIds: ID[] = [...(indexes.cardsByDeck.getPksByKey(deckId) ?? [])];
+            const next = query ? cardIds.filter(matches) : cardIds;
+            const prev: ID[] = [...(indexes.filteredCardsByDeck.getPksByKey(deckId) ?? [])];
+            if (!shallowEqualIds(prev, next)) indexes.filteredCardsByDeck.setPks(deckId, next);
+        }
+    };
+    // Re-sorts the given decks by the given keys (only the keys whose field a write
+    // touched); sets the pks only for the orders that changed.
+    const refreshSorted = (deckIds: Iterable<ID>, sortKeys = CARD_SORT_KEYS) => {
+        for (const deckId of deckIds) {
+            const cards: Card[] = [];
+            for (const cardId of indexes.cardsByDeck.getPksByKey(deckId) ?? []) {
+                const card = collections.cards.getOneByPk(cardId) as Card | undefined;
+                if (card) cards.push(card);
+            }
+            for (const sortKey of sortKeys) {
+                const index = indexes.sortedCardsByDeck[sortKey];
+                const next = [...cards]
+                    .sort((a, b) => compareCards(a, b, sortKey))
+                    .map((card) => card.id);
+                const prev: ID[] = [...(index.getPksByKey(deckId) ?? [])];
+                if (!shallowEqualIds(prev, next)) index.setPks(deckId, next);
+            }
+        }
+    };
+    const sortKeysOf = (changes: Partial<Card>): CardSortKey[] =>
+        CARD_SORT_KEYS.filter((sortKey) => sortKey in changes);
+    const deckIdOfComment = (commentId: ID): ID | undefined => {
+        const comment = collections.comments.getOneByPk(commentId) as Comment | undefined;
+        const card = comment && (collections.cards.getOneByPk(comment.cardId) as Card | undefined);
+        return card?.deckId;
+    };
+    // Assignments only go away with their card, so workload is adjusted by delta.
+    const adjustUserStats = (userIds: Iterable<ID>, delta: number) => {
+        for (const userId of new Set(userIds)) {
+            const prev = collections.userStats.getOneByPk(userId) as UserStats | undefined;
+            const workload = (prev?.workload ?? 0) + delta;
+            collections.userStats.upsertOne({ id: userId, workload });
+        }
+    };
+
+    // Undo history. An edit first marks the entities and index keys it is going to
+    // write: their values are copied right away (in-place collections mutate the
+    // stored objects) and once more after the edit, for redo. Derived data is not
+    // recorded; a replay recomputes it for the edit's decks, so the search filter
+    // follows the query of the moment.
+    const past: HistoryEntry[] = [];
+    let future: HistoryEntry[] = [];
+    // Marks of the edit being recorded, each returning its patch once the edit is
+    // done; null outside history.record
+    let marks: Array<() => Patch> | null = null;
+    // Set inside history.withoutHistory: edits are applied but not recorded
+    let paused = false;
+    const replay = (entry: HistoryEntry, direction: 'undo' | 'redo') => {
+        if (direction === 'undo') {
+            for (let i = entry.patches.length - 1; i >= 0; i--) entry.patches[i]!.undo();
+        } else {
+            for (const patch of entry.patches) patch.redo();
+        }
+        refreshDeckStats(entry.deckIds);
+        refreshSearch(entry.deckIds);
+        refreshSorted(entry.deckIds);
+        queue.flush();
+    };
+    const history = {
+        record(deckIds: Iterable<ID>, edit: () => void) {
+            if (paused) return edit();
+            const pending: Array<() => Patch> = (marks = []);
+            edit();
+            marks = null;
+            if (pending.length === 0) return;
+            past.push({ patches: pending.map((finish) => finish()), deckIds: [...deckIds] });
+            if (past.length > HISTORY_LIMIT) past.shift();
+            future = [];
+        },
+        entity<T extends object>(collection: OIMReactiveCollection<T, string>, pk: ID) {
+            if (!marks) return;
+            const copy = () => {
+                const entity = collection.getOneByPk(pk) as T | undefined;
+                return entity && { ...entity };
+            };
+            const write = (entity: T | undefined) =>
+                entity ? collection.upsertOne({ ...entity }) : collection.removeOneByPk(pk);
+            const before = copy();
+            marks.push(() => {
+                const after = copy();
+                return { undo: () => write(before), redo: () => write(after) };
+            });
+        },
+        index<T>(index: OIMReactiveCollectionIndexManualArrayBased<string, string, T>, key: ID) {
+            if (!marks) return;
+            const copy = (): ID[] => [...(index.getPksByKey(key) ?? [])];
+            const write = (pks: ID[]) =>
+                pks.length > 0 ? index.setPks(key, pks) : index.clear(key);
+            const before = copy();
+            marks.push(() => {
+                const after = copy();
+                return { undo: () => write(before), redo: () => write(after) };
+            });
+        },
+        // Marks everything deleting the card writes: the card, its comments,
+        // assignments, cardTags and checklist tree, their index keys and the
+        // workload of its assignees.
+        cardTree(cardId: ID) {
+            const card = collections.cards.getOneByPk(cardId) as Card | undefined;
+            if (!card) return;
+            history.entity(collections.cards, cardId);
+            for (const pk of indexes.commentsByCard.getPksByKey(cardId) ?? []) {
+                history.entity(collections.comments, pk);
+            }
+            for (const pk of indexes.assignmentsByCard.getPksByKey(cardId) ?? []) {
+                history.entity(collections.cardAssignments, pk);
+            }
+            for (const pk of indexes.cardTagsByCard.getPksByKey(cardId) ?? []) {
+                history.entity(collections.cardTags, pk);
+            }
+            for (const userId of new Set<ID>(
+                indexes.usersByAssignedCard.getPksByKey(cardId) ?? [],
+            )) {
+                history.entity(collections.userStats, userId);
+            }
+            for (const pk of collectSubtaskPks(indexes.subtasksByParent, cardId)) {
+                history.entity(collections.subtasks, pk);
+                history.index(indexes.subtasksByParent, pk);
+            }
+            history.index(indexes.subtasksByParent, cardId);
+            history.index(indexes.commentsByCard, cardId);
+            history.index(indexes.assignmentsByCard, cardId);
+            history.index(indexes.usersByAssignedCard, cardId);
+            history.index(indexes.cardTagsByCard, cardId);
+            history.index(indexes.tagsByCard, cardId);
+            history.index(indexes.cardsByDeck, card.deckId);
+            history.index(indexes.allCards, 'all');
+        },
+        undo() {
+            const entry = past.pop();
+            if (!entry) return;
+            replay(entry, 'undo');
+            future.push(entry);
+        },
+        redo() {
+            const entry = future.pop();
+            if (!entry) return;
+            replay(entry, 'redo');
+            past.push(entry);
+        },
+        canUndo(): boolean {
+            return past.length > 0;
+        },
+        withoutHistory(write: () => void) {
+            if (paused) return write();
+            paused = true;
+            try {
+                write();
+            } finally {
+                paused = false;
+            }
+        },
+    };
+
+    refreshDeckStats(Object.keys(initialData.entities.decks));
+    refreshSearch(Object.keys(initialData.entities.decks));
+    refreshSorted(Object.keys(initialData.entities.decks));
+    const workloadByUserId = new Map<ID, number>();
+    for (const cardId of Object.keys(initialData.entities.cards)) {
+        for (const userId of new Set<ID>(indexes.usersByAssignedCard.getPksByKey(cardId) ?? [])) {
+            workloadByUserId.set(userId, (workloadByUserId.get(userId) ?? 0) + 1);
+        }
+    }
+    collections.userStats.upsertMany(
+        Array.from(workloadByUserId, ([id, workload]) => ({ id, workload })),
+    );
     queue.flush();
 
     const collaterals = {
         activeDeck: collateral<string>(),
+        searchQuery: collateral<string>(),
         updateCard: collateral<{ id: ID; changes: Partial<Card> }>(),
         updateComment: collateral<{ id: ID; text: string }>(),
         editComment: collateral<{ id: ID; editing: boolean }>(),
         renameUser: collateral<{ id: ID; name: string }>(),
+        updateTag: collateral<{ id: ID; changes: Partial<Tag> }>(),
         bulkTag: collateral<{ cardIds: ID[]; tagId: ID }>(),
         churn: collateral<boolean>(),
         setCardVisibility: collateral<{ cardId: ID; isVisible: boolean }>(),
+        createCard: collateral<Card>(),
+        deleteCard: collateral<ID>(),
+        moveCard: collateral<{ cardId: ID; toDeckId: ID; index: number }>(),
+        toggleSubtask: collateral<ID>(),
+        addComment: collateral<Comment>(),
+        history: collateral<'undo' | 'redo'>(),
     };
 
     const cns = new CNS([
-        neuron({}).dendrite({
-            collateral: collaterals.activeDeck,
-            response: (payload: string) => {
-                const state = collections.appState.getOneByPk('app');
-                if (state?.activeDeckId === payload) return;
-                collections.appState.upsertOne({ id: 'app', activeDeckId: payload });
-                queue.flush();
-            },
-        }),
+        neuron({})
+            .dendrite({
+                collateral: collaterals.activeDeck,
+                response: (payload: string) => {
+                    const state = collections.appState.getOneByPk('app');
+                    if (state?.activeDeckId === payload) return;
+                    collections.appState.upsertOne({
+                        id: 'app',
+                        activeDeckId: payload,
+                    } as AppState);
+                    queue.flush();
+                },
+            })
+            .dendrite({
+                collateral: collaterals.searchQuery,
+                response: (payload: string) => {
+                    const state = collections.appState.getOneByPk('app');
+                    if (state?.searchQuery === payload) return;
+                    collections.appState.upsertOne({ id: 'app', searchQuery: payload } as AppState);
+                    refreshSearch(indexes.decksAll.getPksByKey('all') ?? []);
+                    queue.flush();
+                },
+            }),
         neuron({})
             .dendrite({
                 collateral: collaterals.updateComment,
@@ -200,11 +585,16 @@ function createCnstraOimdbStore(initialData: RootState, inPlace = false) {
                         | Comment
                         | undefined;
                     if (existing?.text === payload.text) return;
-                    collections.comments.upsertOne({
-                        id: payload.id,
-                        text: payload.text,
-                    } as Comment);
-                    queue.flush();
+                    const deckId = deckIdOfComment(payload.id);
+                    history.record(deckId ? [deckId] : [], () => {
+                        history.entity(collections.comments, payload.id);
+                        collections.comments.upsertOne({
+                            id: payload.id,
+                            text: payload.text,
+                        } as Comment);
+                        if (deckId) refreshSearch([deckId]);
+                        queue.flush();
+                    });
                 },
             })
             .dendrite({
@@ -226,46 +616,77 @@ function createCnstraOimdbStore(initialData: RootState, inPlace = false) {
             response: (payload: { id: ID; name: string }) => {
                 const existing = collections.users.getOneByPk(payload.id) as User | undefined;
                 if (existing?.name === payload.name) return;
-                collections.users.upsertOne({ id: payload.id, name: payload.name } as User);
-                queue.flush();
+                history.record([], () => {
+                    history.entity(collections.users, payload.id);
+                    collections.users.upsertOne({ id: payload.id, name: payload.name } as User);
+                    queue.flush();
+                });
+            },
+        }),
+        neuron({}).dendrite({
+            collateral: collaterals.updateTag,
+            response: (payload: { id: ID; changes: Partial<Tag> }) => {
+                if (!collections.tags.getOneByPk(payload.id)) return;
+                history.record([], () => {
+                    history.entity(collections.tags, payload.id);
+                    collections.tags.upsertOne({ id: payload.id, ...payload.changes } as Tag);
+                    queue.flush();
+                });
             },
         }),
         neuron({}).dendrite({
             collateral: collaterals.bulkTag,
             response: (payload: { cardIds: ID[]; tagId: ID }) => {
-                // Get current count from PKs (more efficient than getAll())
-                const allPks = collections.cardTags.getAllPks();
-                let counter = allPks.length;
-                for (let i = 0; i < payload.cardIds.length; i++) {
-                    const cardId = payload.cardIds[i];
-                    const pks = Array.from(indexes.tagsByCard.getPksByKey(cardId) ?? []);
-                    let existingId: string | undefined;
-                    // Optimize: check tagId directly from PKs using index instead of fetching entities
-                    for (let j = 0; j < pks.length; j++) {
-                        const pk = pks[j];
-                        const ct = collections.cardTags.getOneByPk(pk as string) as
-                            | CardTag
-                            | undefined;
-                        if (ct?.tagId === payload.tagId) {
-                            existingId = ct.id;
-                            break;
+                const deckIds = deckIdsOfCards(payload.cardIds);
+                history.record(deckIds, () => {
+                    // Get current count from PKs (more efficient than getAll())
+                    const allPks = collections.cardTags.getAllPks();
+                    let counter = allPks.length;
+                    for (let i = 0; i < payload.cardIds.length; i++) {
+                        const cardId = payload.cardIds[i];
+                        history.index(indexes.cardTagsByCard, cardId);
+                        history.index(indexes.tagsByCard, cardId);
+                        const pks = Array.from(indexes.cardTagsByCard.getPksByKey(cardId) ?? []);
+                        let existingId: string | undefined;
+                        // Optimize: check tagId directly from PKs using index instead of fetching entities
+                        for (let j = 0; j < pks.length; j++) {
+                            const pk = pks[j];
+                            const ct = collections.cardTags.getOneByPk(pk as string) as
+                                | CardTag
+                                | undefined;
+                            if (ct?.tagId === payload.tagId) {
+                                existingId = ct.id;
+                                break;
+                            }
+                        }
+                        if (existingId) {
+                            history.entity(collections.cardTags, existingId);
+                            indexes.cardTagsByCard.removePks(cardId, [existingId]);
+                            collections.cardTags.removeOneByPk(existingId);
+                            // The tag stays if the card carried it more than once.
+                            indexes.tagsByCard.setPks(
+                                cardId,
+                                distinctTagIds(
+                                    indexes.cardTagsByCard.getPksByKey(cardId) ?? [],
+                                    collections.cardTags,
+                                ),
+                            );
+                        } else {
+                            const newCardTag: CardTag = {
+                                id: `cardtag_${counter++}`,
+                                cardId,
+                                tagId: payload.tagId,
+                                createdAt: Date.now(),
+                            };
+                            history.entity(collections.cardTags, newCardTag.id);
+                            collections.cardTags.upsertOne(newCardTag);
+                            indexes.cardTagsByCard.addPks(cardId, [newCardTag.id]);
+                            indexes.tagsByCard.addPks(cardId, [payload.tagId]);
                         }
                     }
-                    if (existingId) {
-                        indexes.tagsByCard.removePks(cardId, [existingId]);
-                        collections.cardTags.removeOneByPk(existingId);
-                    } else {
-                        const newCardTag: CardTag = {
-                            id: `cardtag_${counter++}`,
-                            cardId,
-                            tagId: payload.tagId,
-                            createdAt: Date.now(),
-                        };
-                        collections.cardTags.upsertOne(newCardTag);
-                        indexes.tagsByCard.addPks(cardId, [newCardTag.id]);
-                    }
-                }
-                queue.flush();
+                    refreshDeckStats(deckIds);
+                    queue.flush();
+                });
             },
         }),
         neuron({})
@@ -274,11 +695,18 @@ function createCnstraOimdbStore(initialData: RootState, inPlace = false) {
                 response: (payload: { id: ID; changes: Partial<Card> }) => {
                     const existing = collections.cards.getOneByPk(payload.id) as Card | undefined;
                     if (!existing) return;
-                    collections.cards.upsertOne({
-                        id: payload.id,
-                        ...payload.changes,
-                    } as Card);
-                    queue.flush();
+                    history.record([existing.deckId], () => {
+                        history.entity(collections.cards, payload.id);
+                        collections.cards.upsertOne({
+                            id: payload.id,
+                            ...payload.changes,
+                        } as Card);
+                        if ('title' in payload.changes || 'description' in payload.changes) {
+                            refreshSearch([existing.deckId]);
+                        }
+                        refreshSorted([existing.deckId], sortKeysOf(payload.changes));
+                        queue.flush();
+                    });
                 },
             })
             .dendrite({
@@ -296,6 +724,7 @@ function createCnstraOimdbStore(initialData: RootState, inPlace = false) {
                                 updatedAt: Date.now(),
                             } as Card);
                         }
+                        refreshSorted(deckIdsOfCards(pkArray.slice(0, 100)), ['updatedAt']);
                         queue.flush();
                     }
                 },
@@ -315,6 +744,124 @@ function createCnstraOimdbStore(initialData: RootState, inPlace = false) {
                     queue.flush();
                 },
             }),
+        neuron({})
+            .dendrite({
+                collateral: collaterals.createCard,
+                response: (payload: Card) => {
+                    if (!collections.decks.getOneByPk(payload.deckId)) return;
+                    if (collections.cards.getOneByPk(payload.id)) return;
+                    history.record([payload.deckId], () => {
+                        history.entity(collections.cards, payload.id);
+                        history.index(indexes.cardsByDeck, payload.deckId);
+                        history.index(indexes.allCards, 'all');
+                        collections.cards.upsertOne(payload);
+                        indexes.cardsByDeck.addPks(payload.deckId, [payload.id]);
+                        indexes.allCards.addPks('all', [payload.id]);
+                        refreshSearch([payload.deckId]);
+                        refreshSorted([payload.deckId]);
+                        queue.flush();
+                    });
+                },
+            })
+            .dendrite({
+                collateral: collaterals.deleteCard,
+                response: (cardId: ID) => {
+                    const existing = collections.cards.getOneByPk(cardId) as Card | undefined;
+                    if (!existing) return;
+                    history.record([existing.deckId], () => {
+                        history.cardTree(cardId);
+                        adjustUserStats(indexes.usersByAssignedCard.getPksByKey(cardId) ?? [], -1);
+                        // Cascade through the per-card indexes, then drop their keys.
+                        collections.comments.removeManyByPks([
+                            ...(indexes.commentsByCard.getPksByKey(cardId) ?? []),
+                        ]);
+                        collections.cardAssignments.removeManyByPks([
+                            ...(indexes.assignmentsByCard.getPksByKey(cardId) ?? []),
+                        ]);
+                        collections.cardTags.removeManyByPks([
+                            ...(indexes.cardTagsByCard.getPksByKey(cardId) ?? []),
+                        ]);
+                        const subtaskPks = collectSubtaskPks(indexes.subtasksByParent, cardId);
+                        collections.subtasks.removeManyByPks(subtaskPks);
+                        for (const pk of subtaskPks) indexes.subtasksByParent.clear(pk);
+                        indexes.subtasksByParent.clear(cardId);
+                        indexes.commentsByCard.clear(cardId);
+                        indexes.assignmentsByCard.clear(cardId);
+                        indexes.usersByAssignedCard.clear(cardId);
+                        indexes.cardTagsByCard.clear(cardId);
+                        indexes.tagsByCard.clear(cardId);
+                        indexes.cardsByDeck.removePks(existing.deckId, [cardId]);
+                        indexes.allCards.removePks('all', [cardId]);
+                        collections.cards.removeOneByPk(cardId);
+                        refreshDeckStats([existing.deckId]);
+                        refreshSearch([existing.deckId]);
+                        refreshSorted([existing.deckId]);
+                        queue.flush();
+                    });
+                },
+            })
+            .dendrite({
+                collateral: collaterals.moveCard,
+                response: (payload: { cardId: ID; toDeckId: ID; index: number }) => {
+                    const { cardId, toDeckId, index } = payload;
+                    const existing = collections.cards.getOneByPk(cardId) as Card | undefined;
+                    if (!existing || !collections.decks.getOneByPk(toDeckId)) return;
+                    const fromDeckId = existing.deckId;
+                    const deckIds = new Set([fromDeckId, toDeckId]);
+                    history.record(deckIds, () => {
+                        history.entity(collections.cards, cardId);
+                        for (const deckId of deckIds) history.index(indexes.cardsByDeck, deckId);
+                        indexes.cardsByDeck.removePks(fromDeckId, [cardId]);
+                        const toPks = [...(indexes.cardsByDeck.getPksByKey(toDeckId) ?? [])];
+                        toPks.splice(Math.max(0, Math.min(index, toPks.length)), 0, cardId);
+                        indexes.cardsByDeck.setPks(toDeckId, toPks);
+                        if (fromDeckId !== toDeckId) {
+                            collections.cards.upsertOne({ id: cardId, deckId: toDeckId } as Card);
+                            refreshDeckStats([fromDeckId, toDeckId]);
+                        }
+                        refreshSearch(deckIds);
+                        refreshSorted(deckIds);
+                        queue.flush();
+                    });
+                },
+            }),
+        neuron({}).dendrite({
+            collateral: collaterals.toggleSubtask,
+            response: (subtaskId: ID) => {
+                const existing = collections.subtasks.getOneByPk(subtaskId) as
+                    | Subtask
+                    | undefined;
+                if (!existing) return;
+                history.record([], () => {
+                    history.entity(collections.subtasks, subtaskId);
+                    collections.subtasks.upsertOne({
+                        id: subtaskId,
+                        done: !existing.done,
+                    } as Subtask);
+                    queue.flush();
+                });
+            },
+        }),
+        neuron({}).dendrite({
+            collateral: collaterals.addComment,
+            // A server push, so not recorded for undo
+            response: (payload: Comment) => {
+                const card = collections.cards.getOneByPk(payload.cardId) as Card | undefined;
+                if (!card || collections.comments.getOneByPk(payload.id)) return;
+                collections.comments.upsertOne(payload);
+                indexes.commentsByCard.addPks(payload.cardId, [payload.id]);
+                refreshDeckStats([card.deckId]);
+                refreshSearch([card.deckId]);
+                queue.flush();
+            },
+        }),
+        neuron({}).dendrite({
+            collateral: collaterals.history,
+            response: (direction: 'undo' | 'redo') => {
+                if (direction === 'undo') history.undo();
+                else history.redo();
+            },
+        }),
     ]);
 
     return {
@@ -324,6 +871,16 @@ function createCnstraOimdbStore(initialData: RootState, inPlace = false) {
         decksOrder: initialData.decksOrder,
         queue,
         collaterals,
+        history,
+        derived: {
+            refreshDeckStats,
+            deckIdsOfCards,
+            adjustUserStats,
+            refreshSearch,
+            refreshSorted,
+            sortKeysOf,
+            deckIdOfComment,
+        },
     };
 }
 
@@ -352,6 +909,29 @@ function useStore(): CnstraOimdbStore {
     return useContext(CnstraStoreContext)!;
 }
 
+// Handlers subscribed to a store's collections and indexes, for debugStats. Counted
+// per key: an entity's pk in its collection, and for the indexes every key a
+// reader may pass ('all', deck, card and subtask ids), including the keys that
+// have no entry yet, like a card without comments.
+function countSubscribers(store: CnstraOimdbStore): number {
+    const { collections, indexes } = store;
+    const { sortedCardsByDeck, ...keyedIndexes } = indexes;
+    const indexKeys = [
+        'all',
+        ...collections.decks.getAllPks(),
+        ...collections.cards.getAllPks(),
+        ...collections.subtasks.getAllPks(),
+    ];
+    let subscribers = 0;
+    for (const collection of Object.values(collections)) {
+        for (const pk of collection.getAllPks()) subscribers += collection.getHandlerCount(pk);
+    }
+    for (const index of [...Object.values(keyedIndexes), ...Object.values(sortedCardsByDeck)]) {
+        for (const key of indexKeys) subscribers += index.getHandlerCount(key);
+    }
+    return subscribers;
+}
+
 function createHooks(): ViewModelHooksIdsBased {
     return {
         useDeckIds(): ID[] {
@@ -374,15 +954,39 @@ function createHooks(): ViewModelHooksIdsBased {
             const { collections } = useStore();
             return useSelectEntityByPk(collections.users, id) as User | undefined;
         },
+        useTagById(id: ID): Tag | undefined {
+            const { collections } = useStore();
+            return useSelectEntityByPk(collections.tags, id) as Tag | undefined;
+        },
+        useSubtaskById(id: ID): Subtask | undefined {
+            const { collections } = useStore();
+            return useSelectEntityByPk(collections.subtasks, id) as Subtask | undefined;
+        },
         useActiveDeckId(): ID | null {
             const { collections } = useStore();
             const state = useSelectEntityByPk(collections.appState, 'app') as AppState | undefined;
             return state?.activeDeckId ?? null;
         },
+        useSearchQuery(): string {
+            const { collections } = useStore();
+            const state = useSelectEntityByPk(collections.appState, 'app') as AppState | undefined;
+            return state?.searchQuery ?? '';
+        },
         useCardIdsByDeckId(deckId: ID): ID[] {
             const { indexes } = useStore();
             return useSelectPksByIndexKeyArrayBased(indexes.cardsByDeck, deckId) as ID[];
         },
+        useFilteredCardIdsByDeckId(deckId: ID): ID[] {
+            const { indexes } = useStore();
+            return useSelectPksByIndexKeyArrayBased(indexes.filteredCardsByDeck, deckId) as ID[];
+        },
+        useSortedCardIdsByDeckId(deckId: ID, sortKey: CardSortKey): ID[] {
+            const { indexes } = useStore();
+            return useSelectPksByIndexKeyArrayBased(
+                indexes.sortedCardsByDeck[sortKey],
+                deckId,
+            ) as ID[];
+        },
         useCommentIdsByCardId(cardId: ID): ID[] {
             const { indexes } = useStore();
             return useSelectPksByIndexKeyArrayBased(indexes.commentsByCard, cardId) as ID[];
@@ -395,6 +999,31 @@ function createHooks(): ViewModelHooksIdsBased {
             const { indexes } = useStore();
             return useSelectPksByIndexKeyArrayBased(indexes.tagsByCard, cardId) as ID[];
         },
+        useChildIdsByParentId(parentId: ID): ID[] {
+            const { indexes } = useStore();
+            return useSelectPksByIndexKeyArrayBased(indexes.subtasksByParent, parentId) as ID[];
+        },
+        useCommentCountByDeckId(deckId: ID): number {
+            const { collections } = useStore();
+            const stats = useSelectEntityByPk(collections.deckStats, deckId) as
+                | DeckStats
+                | undefined;
+            return stats?.commentCount ?? 0;
+        },
+        useTagHistogramByDeckId(deckId: ID): TagHistogram {
+            const { collections } = useStore();
+            const stats = useSelectEntityByPk(collections.deckStats, deckId) as
+                | DeckStats
+                | undefined;
+            return stats?.tagHistogram ?? EMPTY_HISTOGRAM;
+        },
+        useAssigneeWorkload(userId: ID): number {
+            const { collections } = useStore();
+            const stats = useSelectEntityByPk(collections.userStats, userId) as
+                | UserStats
+                | undefined;
+            return stats?.workload ?? 0;
+        },
     };
 }
 
@@ -424,6 +1053,14 @@ function createSignalHooks(): ViewModelHooksIdsBased {
             const { collections } = useStore();
             return useSelectEntityByPkSignal(collections.users, id) as User | undefined;
         },
+        useTagById(id: ID): Tag | undefined {
+            const { collections } = useStore();
+            return useSelectEntityByPkSignal(collections.tags, id) as Tag | undefined;
+        },
+        useSubtaskById(id: ID): Subtask | undefined {
+            const { collections } = useStore();
+            return useSelectEntityByPkSignal(collections.subtasks, id) as Subtask | undefined;
+        },
         useActiveDeckId(): ID | null {
             const { collections } = useStore();
             const state = useSelectEntityByPkSignal(collections.appState, 'app') as
@@ -431,10 +1068,31 @@ function createSignalHooks(): ViewModelHooksIdsBased {
                 | undefined;
             return state?.activeDeckId ?? null;
         },
+        useSearchQuery(): string {
+            const { collections } = useStore();
+            const state = useSelectEntityByPkSignal(collections.appState, 'app') as
+                | AppState
+                | undefined;
+            return state?.searchQuery ?? '';
+        },
         useCardIdsByDeckId(deckId: ID): ID[] {
             const { indexes } = useStore();
             return useSelectPksByIndexKeyArrayBasedSignal(indexes.cardsByDeck, deckId) as ID[];
         },
+        useFilteredCardIdsByDeckId(deckId: ID): ID[] {
+            const { indexes } = useStore();
+            return useSelectPksByIndexKeyArrayBasedSignal(
+                indexes.filteredCardsByDeck,
+                deckId,
+            ) as ID[];
+        },
+        useSortedCardIdsByDeckId(deckId: ID, sortKey: CardSortKey): ID[] {
+            const { indexes } = useStore();
+            return useSelectPksByIndexKeyArrayBasedSignal(
+                indexes.sortedCardsByDeck[sortKey],
+                deckId,
+            ) as ID[];
+        },
         useCommentIdsByCardId(cardId: ID): ID[] {
             const { indexes } = useStore();
             return useSelectPksByIndexKeyArrayBasedSignal(indexes.commentsByCard, cardId) as ID[];
@@ -450,6 +1108,34 @@ function createSignalHooks(): ViewModelHooksIdsBased {
             const { indexes } = useStore();
             return useSelectPksByIndexKeyArrayBasedSignal(indexes.tagsByCard, cardId) as ID[];
         },
+        useChildIdsByParentId(parentId: ID): ID[] {
+            const { indexes } = useStore();
+            return useSelectPksByIndexKeyArrayBasedSignal(
+                indexes.subtasksByParent,
+                parentId,
+            ) as ID[];
+        },
+        useCommentCountByDeckId(deckId: ID): number {
+            const { collections } = useStore();
+            const stats = useSelectEntityByPkSignal(collections.deckStats, deckId) as
+                | DeckStats
+                | undefined;
+            return stats?.commentCount ?? 0;
+        },
+        useTagHistogramByDeckId(deckId: ID): TagHistogram {
+            const { collections } = useStore();
+            const stats = useSelectEntityByPkSignal(collections.deckStats, deckId) as
+                | DeckStats
+                | undefined;
+            return stats?.tagHistogram ?? EMPTY_HISTOGRAM;
+        },
+        useAssigneeWorkload(userId: ID): number {
+            const { collections } = useStore();
+            const stats = useSelectEntityByPkSignal(collections.userStats, userId) as
+                | UserStats
+                | undefined;
+            return stats?.workload ?? 0;
+        },
     };
 }
 
@@ -457,12 +1143,34 @@ const actions = (store: CnstraOimdbStore) => ({
     setActiveDeck(id: ID) {
         store.cns.stimulate(store.collaterals.activeDeck.createSignal(id));
     },
+    setSearchQuery(query: string) {
+        store.cns.stimulate(store.collaterals.searchQuery.createSignal(query));
+    },
     updateCard(cardId: ID, changes: Partial<Card>) {
         store.cns.stimulate(store.collaterals.updateCard.createSignal({ id: cardId, changes }));
     },
     updateCommentText(commentId: ID, text: string) {
         store.cns.stimulate(store.collaterals.updateComment.createSignal({ id: commentId, text }));
     },
+    async saveCommentText(commentId: ID, text: string, server: MockServer) {
+        const readText = () =>
+            (store.collections.comments.getOneByPk(commentId) as Comment | undefined)?.text;
+        const writeText = (value: string) =>
+            store.cns.stimulate(
+                store.collaterals.updateComment.createSignal({ id: commentId, text: value }),
+            );
+        const previous = readText();
+        if (previous === undefined) return false;
+        writeText(text);
+        try {
+            await server.request('comments/save', { id: commentId, text });
+            return true;
+        } catch {
+            // Roll back unless a later edit replaced the optimistic text
+            if (readText() === text) writeText(previous);
+            return false;
+        }
+    },
     setCommentEditing(commentId: ID, isEditing: boolean) {
         store.cns.stimulate(
             store.collaterals.editComment.createSignal({ id: commentId, editing: isEditing }),
@@ -471,6 +1179,16 @@ const actions = (store: CnstraOimdbStore) => ({
     renameUser(userId: ID, name: string) {
         store.cns.stimulate(store.collaterals.renameUser.createSignal({ id: userId, name }));
     },
+    renameTag(tagId: ID, label: string) {
+        store.cns.stimulate(
+            store.collaterals.updateTag.createSignal({ id: tagId, changes: { label } }),
+        );
+    },
+    recolorTag(tagId: ID, color: string) {
+        store.cns.stimulate(
+            store.collaterals.updateTag.createSignal({ id: tagId, changes: { color } }),
+        );
+    },
     bulkToggleTagOnCards(cardIds: ID[], tagId: ID) {
         store.cns.stimulate(store.collaterals.bulkTag.createSignal({ cardIds, tagId }));
     },
@@ -485,6 +1203,34 @@ const actions = (store: CnstraOimdbStore) => ({
             store.collaterals.setCardVisibility.createSignal({ cardId, isVisible }),
         );
     },
+    createCard(card: Card) {
+        store.cns.stimulate(store.collaterals.createCard.createSignal(card));
+    },
+    deleteCard(cardId: ID) {
+        store.cns.stimulate(store.collaterals.deleteCard.createSignal(cardId));
+    },
+    moveCard(cardId: ID, toDeckId: ID, index: number) {
+        store.cns.stimulate(store.collaterals.moveCard.createSignal({ cardId, toDeckId, index }));
+    },
+    toggleSubtask(subtaskId: ID) {
+        store.cns.stimulate(store.collaterals.toggleSubtask.createSignal(subtaskId));
+    },
+    addComment(comment: Comment) {
+        store.cns.stimulate(store.collaterals.addComment.createSignal(comment));
+    },
+    undo() {
+        store.cns.stimulate(store.collaterals.history.createSignal('undo'));
+    },
+    redo() {
+        store.cns.stimulate(store.collaterals.history.createSignal('redo'));
+    },
+    canUndo() {
+        return store.history.canUndo();
+    },
+    // Edits are stimulated synchronously, so they run while recording is paused
+    withoutHistory(write: () => void) {
+        store.history.withoutHistory(write);
+    },
 });
 
 function createCnstraOimdbAdapter(): StoreAdapter {
@@ -498,6 +1244,9 @@ function createCnstraOimdbAdapter(): StoreAdapter {
         bindActions(storeHandle: StoreHandle) {
             return actions(storeHandle as CnstraOimdbStore);
         },
+        debugStats(storeHandle: StoreHandle) {
+            return { subscribers: countSubscribers(storeHandle as CnstraOimdbStore) };
+        },
     };
 }
 
@@ -517,6 +1266,9 @@ function createCnstraOimdbInPlaceAdapter(): StoreAdapter {
         bindActions(storeHandle: StoreHandle) {
             return actions(storeHandle as CnstraOimdbStore);
         },
+        debugStats(storeHandle: StoreHandle) {
+            return { subscribers: countSubscribers(storeHandle as CnstraOimdbStore) };
+        },
     };
 }
 
@@ -526,22 +1278,60 @@ export const cnstraOimdbInPlaceAdapter = createCnstraOimdbInPlaceAdapter();
 // orchestration). Same store + same useSyncExternalStore hooks. Used to isolate
 // the cnstra-orchestration cost from the React-binding cost.
 const pureActions = (store: CnstraOimdbStore) => {
-    const { collections, indexes, queue } = store;
+    const { collections, indexes, queue, derived, history } = store;
+    const writeCommentText = (commentId: ID, text: string) => {
+        const e = collections.comments.getOneByPk(commentId) as Comment | undefined;
+        if (e?.text === text) return;
+        const deckId = derived.deckIdOfComment(commentId);
+        history.record(deckId ? [deckId] : [], () => {
+            history.entity(collections.comments, commentId);
+            collections.comments.upsertOne({ id: commentId, text } as Comment);
+            if (deckId) derived.refreshSearch([deckId]);
+            queue.flush();
+        });
+    };
     return {
         setActiveDeck(id: ID) {
-            collections.appState.upsertOne({ id: 'app', activeDeckId: id });
+            collections.appState.upsertOne({ id: 'app', activeDeckId: id } as AppState);
             queue.flush();
         },
-        updateCard(cardId: ID, changes: Partial<Card>) {
-            if (!collections.cards.getOneByPk(cardId)) return;
-            collections.cards.upsertOne({ id: cardId, ...changes } as Card);
+        setSearchQuery(query: string) {
+            const state = collections.appState.getOneByPk('app') as AppState | undefined;
+            if (state?.searchQuery === query) return;
+            collections.appState.upsertOne({ id: 'app', searchQuery: query } as AppState);
+            derived.refreshSearch(indexes.decksAll.getPksByKey('all') ?? []);
             queue.flush();
         },
+        updateCard(cardId: ID, changes: Partial<Card>) {
+            const e = collections.cards.getOneByPk(cardId) as Card | undefined;
+            if (!e) return;
+            history.record([e.deckId], () => {
+                history.entity(collections.cards, cardId);
+                collections.cards.upsertOne({ id: cardId, ...changes } as Card);
+                if ('title' in changes || 'description' in changes) {
+                    derived.refreshSearch([e.deckId]);
+                }
+                derived.refreshSorted([e.deckId], derived.sortKeysOf(changes));
+                queue.flush();
+            });
+        },
         updateCommentText(commentId: ID, text: string) {
-            const e = collections.comments.getOneByPk(commentId) as Comment | undefined;
-            if (e?.text === text) return;
-            collections.comments.upsertOne({ id: commentId, text } as Comment);
-            queue.flush();
+            writeCommentText(commentId, text);
+        },
+        async saveCommentText(commentId: ID, text: string, server: MockServer) {
+            const readText = () =>
+                (collections.comments.getOneByPk(commentId) as Comment | undefined)?.text;
+            const previous = readText();
+            if (previous === undefined) return false;
+            writeCommentText(commentId, text);
+            try {
+                await server.request('comments/save', { id: commentId, text });
+                return true;
+            } catch {
+                // Roll back unless a later edit replaced the optimistic text
+                if (readText() === text) writeCommentText(commentId, previous);
+                return false;
+            }
         },
         setCommentEditing(commentId: ID, isEditing: boolean) {
             const e = collections.comments.getOneByPk(commentId) as Comment | undefined;
@@ -552,37 +1342,79 @@ const pureActions = (store: CnstraOimdbStore) => {
         renameUser(userId: ID, name: string) {
             const e = collections.users.getOneByPk(userId) as User | undefined;
             if (e?.name === name) return;
-            collections.users.upsertOne({ id: userId, name } as User);
-            queue.flush();
+            history.record([], () => {
+                history.entity(collections.users, userId);
+                collections.users.upsertOne({ id: userId, name } as User);
+                queue.flush();
+            });
+        },
+        renameTag(tagId: ID, label: string) {
+            if (!collections.tags.getOneByPk(tagId)) return;
+            history.record([], () => {
+                history.entity(collections.tags, tagId);
+                collections.tags.upsertOne({ id: tagId, label } as Tag);
+                queue.flush();
+            });
+        },
+        recolorTag(tagId: ID, color: string) {
+            if (!collections.tags.getOneByPk(tagId)) return;
+            history.record([], () => {
+                history.entity(collections.tags, tagId);
+                collections.tags.upsertOne({ id: tagId, color } as Tag);
+                queue.flush();
+            });
         },
         bulkToggleTagOnCards(cardIds: ID[], tagId: ID) {
-            let counter = collections.cardTags.getAllPks().length;
-            for (const cardId of cardIds) {
-                const pks = Array.from(indexes.tagsByCard.getPksByKey(cardId) ?? []);
-                let existingId: string | undefined;
-                for (const pk of pks) {
-                    const ct = collections.cardTags.getOneByPk(pk as string) as CardTag | undefined;
-                    if (ct?.tagId === tagId) {
-                        existingId = ct.id;
-                        break;
+            const deckIds = derived.deckIdsOfCards(cardIds);
+            history.record(deckIds, () => {
+                let counter = collections.cardTags.getAllPks().length;
+                for (const cardId of cardIds) {
+                    history.index(indexes.cardTagsByCard, cardId);
+                    history.index(indexes.tagsByCard, cardId);
+                    const pks = Array.from(indexes.cardTagsByCard.getPksByKey(cardId) ?? []);
+                    let existingId: string | undefined;
+                    for (const pk of pks) {
+                        const ct = collections.cardTags.getOneByPk(pk as string) as
+                            CardTag | undefined;
+                        if (ct?.tagId === tagId) {
+                            existingId = ct.id;
+                            break;
+                        }
+                    }
+                    if (existingId) {
+                        history.entity(collections.cardTags, existingId);
+                        indexes.cardTagsByCard.removePks(cardId, [existingId]);
+                        collections.cardTags.removeOneByPk(existingId);
+                        indexes.tagsByCard.setPks(
+                            cardId,
+                            distinctTagIds(
+                                indexes.cardTagsByCard.getPksByKey(cardId) ?? [],
+                                collections.cardTags,
+                            ),
+                        );
+                    } else {
+                        const nt: CardTag = {
+                            id: `cardtag_${counter++}`,
+                            cardId,
+                            tagId,
+                            createdAt: Date.now(),
+                        };
+                        history.entity(collections.cardTags, nt.id);
+                        collections.cardTags.upsertOne(nt);
+                        indexes.cardTagsByCard.addPks(cardId, [nt.id]);
+                        indexes.tagsByCard.addPks(cardId, [tagId]);
                     }
                 }
-                if (existingId) {
-                    indexes.tagsByCard.removePks(cardId, [existingId]);
-                    collections.cardTags.removeOneByPk(existingId);
-                } else {
-                    const nt: CardTag = { id: `cardtag_${counter++}`, cardId, tagId, createdAt: Date.now() };
-                    collections.cardTags.upsertOne(nt);
-                    indexes.tagsByCard.addPks(cardId, [nt.id]);
-                }
-            }
-            queue.flush();
+                derived.refreshDeckStats(deckIds);
+                queue.flush();
+            });
         },
         backgroundChurnStart() {
             const pkArray = indexes.allCards.getPksByKey('all');
             for (let i = 0; i < pkArray.length && i < 100; i++) {
                 collections.cards.upsertOne({ id: pkArray[i], updatedAt: Date.now() } as Card);
             }
+            derived.refreshSorted(derived.deckIdsOfCards(pkArray.slice(0, 100)), ['updatedAt']);
             queue.flush();
         },
         backgroundChurnStop() {},
@@ -592,6 +1424,104 @@ const pureActions = (store: CnstraOimdbStore) => {
             collections.cards.upsertOne({ id: cardId, isVisible } as Card);
             queue.flush();
         },
+        createCard(card: Card) {
+            if (!collections.decks.getOneByPk(card.deckId)) return;
+            if (collections.cards.getOneByPk(card.id)) return;
+            history.record([card.deckId], () => {
+                history.entity(collections.cards, card.id);
+                history.index(indexes.cardsByDeck, card.deckId);
+                history.index(indexes.allCards, 'all');
+                collections.cards.upsertOne(card);
+                indexes.cardsByDeck.addPks(card.deckId, [card.id]);
+                indexes.allCards.addPks('all', [card.id]);
+                derived.refreshSearch([card.deckId]);
+                derived.refreshSorted([card.deckId]);
+                queue.flush();
+            });
+        },
+        deleteCard(cardId: ID) {
+            const e = collections.cards.getOneByPk(cardId) as Card | undefined;
+            if (!e) return;
+            history.record([e.deckId], () => {
+                history.cardTree(cardId);
+                derived.adjustUserStats(indexes.usersByAssignedCard.getPksByKey(cardId) ?? [], -1);
+                collections.comments.removeManyByPks([
+                    ...(indexes.commentsByCard.getPksByKey(cardId) ?? []),
+                ]);
+                collections.cardAssignments.removeManyByPks([
+                    ...(indexes.assignmentsByCard.getPksByKey(cardId) ?? []),
+                ]);
+                collections.cardTags.removeManyByPks([
+                    ...(indexes.cardTagsByCard.getPksByKey(cardId) ?? []),
+                ]);
+                const subtaskPks = collectSubtaskPks(indexes.subtasksByParent, cardId);
+                collections.subtasks.removeManyByPks(subtaskPks);
+                for (const pk of subtaskPks) indexes.subtasksByParent.clear(pk);
+                indexes.subtasksByParent.clear(cardId);
+                indexes.commentsByCard.clear(cardId);
+                indexes.assignmentsByCard.clear(cardId);
+                indexes.usersByAssignedCard.clear(cardId);
+                indexes.cardTagsByCard.clear(cardId);
+                indexes.tagsByCard.clear(cardId);
+                indexes.cardsByDeck.removePks(e.deckId, [cardId]);
+                indexes.allCards.removePks('all', [cardId]);
+                collections.cards.removeOneByPk(cardId);
+                derived.refreshDeckStats([e.deckId]);
+                derived.refreshSearch([e.deckId]);
+                derived.refreshSorted([e.deckId]);
+                queue.flush();
+            });
+        },
+        moveCard(cardId: ID, toDeckId: ID, index: number) {
+            const e = collections.cards.getOneByPk(cardId) as Card | undefined;
+            if (!e || !collections.decks.getOneByPk(toDeckId)) return;
+            const deckIds = new Set([e.deckId, toDeckId]);
+            history.record(deckIds, () => {
+                history.entity(collections.cards, cardId);
+                for (const deckId of deckIds) history.index(indexes.cardsByDeck, deckId);
+                indexes.cardsByDeck.removePks(e.deckId, [cardId]);
+                const toPks = [...(indexes.cardsByDeck.getPksByKey(toDeckId) ?? [])];
+                toPks.splice(Math.max(0, Math.min(index, toPks.length)), 0, cardId);
+                indexes.cardsByDeck.setPks(toDeckId, toPks);
+                if (e.deckId !== toDeckId) {
+                    collections.cards.upsertOne({ id: cardId, deckId: toDeckId } as Card);
+                    derived.refreshDeckStats([e.deckId, toDeckId]);
+                }
+                derived.refreshSearch(deckIds);
+                derived.refreshSorted(deckIds);
+                queue.flush();
+            });
+        },
+        toggleSubtask(subtaskId: ID) {
+            const e = collections.subtasks.getOneByPk(subtaskId) as Subtask | undefined;
+            if (!e) return;
+            history.record([], () => {
+                history.entity(collections.subtasks, subtaskId);
+                collections.subtasks.upsertOne({ id: subtaskId, done: !e.done } as Subtask);
+                queue.flush();
+            });
+        },
+        addComment(comment: Comment) {
+            const card = collections.cards.getOneByPk(comment.cardId) as Card | undefined;
+            if (!card || collections.comments.getOneByPk(comment.id)) return;
+            collections.comments.upsertOne(comment);
+            indexes.commentsByCard.addPks(comment.cardId, [comment.id]);
+            derived.refreshDeckStats([card.deckId]);
+            derived.refreshSearch([card.deckId]);
+            queue.flush();
+        },
+        undo() {
+            history.undo();
+        },
+        redo() {
+            history.redo();
+        },
+        canUndo() {
+            return history.canUndo();
+        },
+        withoutHistory(write: () => void) {
+            history.withoutHistory(write);
+        },
     };
 };
 
@@ -606,6 +1536,9 @@ function createOimdbPureAdapter(): StoreAdapter {
         bindActions(storeHandle: StoreHandle) {
             return pureActions(storeHandle as CnstraOimdbStore);
         },
+        debugStats(storeHandle: StoreHandle) {
+            return { subscribers: countSubscribers(storeHandle as CnstraOimdbStore) };
+        },
     };
 }
 
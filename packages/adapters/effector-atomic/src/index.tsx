@@ -1,7 +1,23 @@
 import React, { createContext, useContext } from 'react';
-import { createStore, createEvent, type Store, type EventCallable } from 'effector';
+import {
+    createStore,
+    createEvent,
+    combine,
+    clearNode,
+    type Store,
+    type EventCallable,
+    type Node,
+    type Unit,
+} from 'effector';
 import { useUnit, useStoreMap } from 'effector-react';
-import type { StoreAdapter, StoreHandle, ViewModelHooksIdsBased } from '@bench/core';
+import type {
+    StoreAdapter,
+    StoreHandle,
+    ViewModelHooksIdsBased,
+    TagHistogram,
+    CardSortKey,
+    MockServer,
+} from '@bench/core';
 import type {
     RootState,
     ID,
@@ -9,7 +25,9 @@ import type {
     Card,
     Comment,
     User,
+    Tag,
     CardTag,
+    Subtask,
 } from '@bench/core';
 
 // ---------------------------------------------------------------------------
@@ -25,6 +43,9 @@ import type {
 // This adapter exists alongside the idiomatic one specifically so the comparison
 // can't be accused of handicapping Effector: even its maximally-granular form is
 // measured here.
+//
+// With no single state value to snapshot, undo history is a log of the writes
+// each edit made (atom values and bookkeeping map entries, before and after).
 // ---------------------------------------------------------------------------
 
 type Atom<T> = { store: Store<T>; set: EventCallable<T> };
@@ -37,6 +58,31 @@ function atom<T>(initial: T): Atom<T> {
 
 type IndexMap = Record<ID, ID[]>;
 
+// One write of an undoable edit, replayable in both directions
+type Patch = { undo(): void; redo(): void };
+
+type History = {
+    past: Patch[][];
+    future: Patch[][];
+    // Writes of the edit being recorded; null outside recordEdit
+    pending: Patch[] | null;
+    // Set inside withoutHistory: edits are applied but not recorded
+    paused: boolean;
+};
+
+// Edits kept for undo; older ones are dropped
+const HISTORY_LIMIT = 500;
+
+// Distinct tag ids behind a card's cardTag ids, in cardTag order.
+function distinctTagIds(cardTagIds: ID[], cardTags: Map<ID, CardTag>): ID[] {
+    const tagIds: ID[] = [];
+    for (const id of cardTagIds) {
+        const tagId = cardTags.get(id)?.tagId;
+        if (tagId && !tagIds.includes(tagId)) tagIds.push(tagId);
+    }
+    return tagIds;
+}
+
 function createAtomicEffectorStore(initialData: RootState) {
     // Atomic stores for the entities that actually mutate in the workloads.
     const cardAtoms = new Map<ID, Atom<Card>>();
@@ -51,17 +97,28 @@ function createAtomicEffectorStore(initialData: RootState) {
     for (const user of Object.values(initialData.entities.users)) {
         userAtoms.set(user.id, atom(user));
     }
+    const subtaskAtoms = new Map<ID, Atom<Subtask>>();
+    for (const subtask of Object.values(initialData.entities.subtasks)) {
+        subtaskAtoms.set(subtask.id, atom(subtask));
+    }
+    const tagAtoms = new Map<ID, Atom<Tag>>();
+    for (const tag of Object.values(initialData.entities.tags)) {
+        tagAtoms.set(tag.id, atom(tag));
+    }
 
-    // Per-card list of cardTag ids — the one relationship that mutates.
+    // Per-card list of distinct tag ids — the one relationship that mutates.
     const tagByCardAtoms = new Map<ID, Atom<ID[]>>();
-    // cardTags kept as a plain map purely for action bookkeeping (no view reads it).
+    // cardTags (and each card's cardTag ids) kept as plain maps purely for action
+    // bookkeeping (no view reads them).
     const cardTags = new Map<ID, CardTag>(
         Object.entries(initialData.entities.cardTags) as [ID, CardTag][],
     );
 
     const activeDeck = atom<ID | null>(initialData.activeDeckId);
+    const searchQuery = atom('');
 
-    // Static, immutable lookups (never change in the workloads).
+    // Decks never change in the workloads; the relationship indexes below only
+    // change under structural edits (create/delete/move card).
     const decks = new Map<ID, Deck>(
         Object.entries(initialData.entities.decks) as [ID, Deck][],
     );
@@ -84,28 +141,66 @@ function createAtomicEffectorStore(initialData: RootState) {
         seen.add(userId);
         (userIdsByCardId[cardId] ??= []).push(userId);
     }
+    const childIdsByParentId: IndexMap = {};
+    for (const subtask of subtaskAtoms.values()) {
+        const { parentId, id } = subtask.store.getState();
+        (childIdsByParentId[parentId] ??= []).push(id);
+    }
     // One tag-list atom per card (so every card id resolves to a stable store).
     const cardTagIdsByCardId: IndexMap = {};
     for (const cardTag of cardTags.values()) {
         (cardTagIdsByCardId[cardTag.cardId] ??= []).push(cardTag.id);
     }
     for (const cardId of cardAtoms.keys()) {
-        tagByCardAtoms.set(cardId, atom<ID[]>(cardTagIdsByCardId[cardId] ?? []));
+        const tagIds = distinctTagIds(cardTagIdsByCardId[cardId] ?? EMPTY_ID_ARRAY, cardTags);
+        tagByCardAtoms.set(cardId, atom<ID[]>(tagIds.filter((tagId) => tagAtoms.has(tagId))));
     }
+    const cardIdsByDeckIdAtom = atom<IndexMap>(cardIdsByDeckId);
+    const commentIdsByCardIdAtom = atom<IndexMap>(commentIdsByCardId);
+    const userIdsByCardIdAtom = atom<IndexMap>(userIdsByCardId);
 
     return {
         cardAtoms,
         commentAtoms,
         userAtoms,
+        subtaskAtoms,
+        tagAtoms,
         tagByCardAtoms,
         cardTags,
+        cardTagIdsByCardId,
         activeDeck,
+        searchQuery,
         decks,
         decksOrder: initialData.decksOrder,
         // structural indexes as stores → live per-key subscriptions in hooks (parity)
-        cardIdsByDeckId: createStore<IndexMap>(cardIdsByDeckId),
-        commentIdsByCardId: createStore<IndexMap>(commentIdsByCardId),
-        userIdsByCardId: createStore<IndexMap>(userIdsByCardId),
+        cardIdsByDeckId: cardIdsByDeckIdAtom,
+        commentIdsByCardId: commentIdsByCardIdAtom,
+        userIdsByCardId: userIdsByCardIdAtom,
+        childIdsByParentId: atom<IndexMap>(childIdsByParentId),
+        // Derived data
+        deckComments: combine({
+            cardIdsByDeckId: cardIdsByDeckIdAtom.store,
+            commentIdsByCardId: commentIdsByCardIdAtom.store,
+        }),
+        workloadByUserId: userIdsByCardIdAtom.store.map((index) => {
+            const workload: Record<ID, number> = {};
+            for (const cardId in index) {
+                for (const userId of index[cardId]) {
+                    workload[userId] = (workload[userId] ?? 0) + 1;
+                }
+            }
+            return workload;
+        }),
+        // Per-deck histogram stores, combined over that deck's tag-list atoms and
+        // rebuilt when the deck's card list changes (see deckHistogramStore).
+        deckHistograms: new Map<ID, { cardIds: ID[]; store: Store<TagHistogram> }>(),
+        // Per-deck search results, combined over that deck's card and comment atoms
+        // and the query; rebuilt like the histograms (see deckSearchStore).
+        normalizedQuery: searchQuery.store.map((query) => query.trim().toLowerCase()),
+        deckSearches: new Map<ID, { cardIds: ID[]; store: Store<ID[]> }>(),
+        // Per-deck sorted card lists, one per sort key in use (see deckSortStore).
+        deckSorts: new Map<string, { cardIds: ID[]; store: Store<ID[]> }>(),
+        history: { past: [], future: [], pending: null, paused: false } as History,
     };
 }
 
@@ -128,6 +223,127 @@ function useStore(): AtomicEffectorStore {
     return s;
 }
 
+function shallowEqualCounts(a: Record<ID, number>, b: Record<ID, number>): boolean {
+    if (a === b) return true;
+    const keys = Object.keys(a);
+    if (keys.length !== Object.keys(b).length) return false;
+    for (const k of keys) if (a[k] !== b[k]) return false;
+    return true;
+}
+
+// A tag toggle on one card only wakes the histogram of that card's deck.
+function deckHistogramStore(
+    store: AtomicEffectorStore,
+    deckId: ID,
+    cardIds: ID[],
+): Store<TagHistogram> {
+    const cached = store.deckHistograms.get(deckId);
+    if (cached?.cardIds === cardIds) return cached.store;
+    if (cached) clearNode(cached.store);
+    const tagLists: Store<ID[]>[] = [];
+    for (const cardId of cardIds) {
+        const a = store.tagByCardAtoms.get(cardId);
+        if (a) tagLists.push(a.store);
+    }
+    const histogram = combine(tagLists, (lists) => {
+        const counts: TagHistogram = {};
+        for (const tagIds of lists) {
+            for (const tagId of tagIds) counts[tagId] = (counts[tagId] ?? 0) + 1;
+        }
+        return counts;
+    });
+    store.deckHistograms.set(deckId, { cardIds, store: histogram });
+    return histogram;
+}
+
+function shallowEqualIds(a: ID[], b: ID[]): boolean {
+    if (a === b) return true;
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+    return true;
+}
+
+// Typing wakes every deck's search store, an edit only the one of the edited
+// card's deck. A card's comments change only with structural edits and comment
+// pushes, which also replace the deck's card list, so the comment layout is read
+// once per build.
+function deckSearchStore(store: AtomicEffectorStore, deckId: ID, cardIds: ID[]): Store<ID[]> {
+    const cached = store.deckSearches.get(deckId);
+    if (cached?.cardIds === cardIds) return cached.store;
+    if (cached) clearNode(cached.store);
+    const commentIndex = store.commentIdsByCardId.store.getState();
+    const cardStores: Store<Card>[] = [];
+    const commentStores: Store<Comment>[][] = [];
+    for (const cardId of cardIds) {
+        const a = store.cardAtoms.get(cardId);
+        if (!a) continue;
+        cardStores.push(a.store);
+        const comments: Store<Comment>[] = [];
+        for (const commentId of commentIndex[cardId] ?? EMPTY_ID_ARRAY) {
+            const c = store.commentAtoms.get(commentId);
+            if (c) comments.push(c.store);
+        }
+        commentStores.push(comments);
+    }
+    // One flat combine: [query, ...cards, ...comments of card 0, ...comments of card 1, ...]
+    const search = combine(
+        [store.normalizedQuery, ...cardStores, ...commentStores.flat()] as Store<unknown>[],
+        (values) => {
+            const query = values[0] as string;
+            const cards = values.slice(1, cardStores.length + 1) as Card[];
+            if (!query) return cards.map((card) => card.id);
+            const matches: ID[] = [];
+            let offset = cardStores.length + 1;
+            cards.forEach((card, i) => {
+                const count = commentStores[i].length;
+                const comments = values.slice(offset, offset + count) as Comment[];
+                offset += count;
+                if (
+                    card.title.toLowerCase().includes(query) ||
+                    card.description.toLowerCase().includes(query) ||
+                    comments.some((comment) => comment.text.toLowerCase().includes(query))
+                ) {
+                    matches.push(card.id);
+                }
+            });
+            return matches;
+        },
+    );
+    store.deckSearches.set(deckId, { cardIds, store: search });
+    return search;
+}
+
+// Timestamps newest first, titles A to Z; Array#sort is stable, so ties keep the
+// deck's insertion order
+function compareCards(a: Card, b: Card, sortKey: CardSortKey): number {
+    if (sortKey === 'title') return a.title < b.title ? -1 : a.title > b.title ? 1 : 0;
+    return b[sortKey] - a[sortKey];
+}
+
+// Re-sorted when one of the deck's card atoms changes; rebuilt like the
+// histograms when the deck's card list changes.
+function deckSortStore(
+    store: AtomicEffectorStore,
+    deckId: ID,
+    sortKey: CardSortKey,
+    cardIds: ID[],
+): Store<ID[]> {
+    const cacheKey = `${sortKey}:${deckId}`;
+    const cached = store.deckSorts.get(cacheKey);
+    if (cached?.cardIds === cardIds) return cached.store;
+    if (cached) clearNode(cached.store);
+    const cardStores: Store<Card>[] = [];
+    for (const cardId of cardIds) {
+        const a = store.cardAtoms.get(cardId);
+        if (a) cardStores.push(a.store);
+    }
+    const sorted = combine(cardStores, (cards) =>
+        [...cards].sort((a, b) => compareCards(a, b, sortKey)).map((card) => card.id),
+    );
+    store.deckSorts.set(cacheKey, { cardIds, store: sorted });
+    return sorted;
+}
+
 function createHooks(): ViewModelHooksIdsBased {
     return {
         useDeckIds(): ID[] {
@@ -150,35 +366,161 @@ function createHooks(): ViewModelHooksIdsBased {
             const a = useStore().userAtoms.get(id);
             return useUnit(a ? a.store : EMPTY_USER_STORE);
         },
+        useTagById(id: ID): Tag | undefined {
+            const a = useStore().tagAtoms.get(id);
+            return useUnit(a ? a.store : (EMPTY_USER_STORE as unknown as Store<Tag | undefined>));
+        },
+        useSubtaskById(id: ID): Subtask | undefined {
+            const a = useStore().subtaskAtoms.get(id);
+            return useUnit(
+                a ? a.store : (EMPTY_USER_STORE as unknown as Store<Subtask | undefined>),
+            );
+        },
         useActiveDeckId(): ID | null {
             return useUnit(useStore().activeDeck.store);
         },
+        useSearchQuery(): string {
+            return useUnit(useStore().searchQuery.store);
+        },
         useCardIdsByDeckId(deckId: ID): ID[] {
             return useStoreMap({
-                store: useStore().cardIdsByDeckId,
+                store: useStore().cardIdsByDeckId.store,
                 keys: [deckId],
                 fn: (idx, [id]) => idx[id] ?? EMPTY_ID_ARRAY,
             });
         },
         useCommentIdsByCardId(cardId: ID): ID[] {
             return useStoreMap({
-                store: useStore().commentIdsByCardId,
+                store: useStore().commentIdsByCardId.store,
                 keys: [cardId],
                 fn: (idx, [id]) => idx[id] ?? EMPTY_ID_ARRAY,
             });
         },
         useAssigneeIdsByCardId(cardId: ID): ID[] {
             return useStoreMap({
-                store: useStore().userIdsByCardId,
+                store: useStore().userIdsByCardId.store,
                 keys: [cardId],
                 fn: (idx, [id]) => idx[id] ?? EMPTY_ID_ARRAY,
             });
         },
+        useChildIdsByParentId(parentId: ID): ID[] {
+            return useStoreMap({
+                store: useStore().childIdsByParentId.store,
+                keys: [parentId],
+                fn: (idx, [id]) => idx[id] ?? EMPTY_ID_ARRAY,
+            });
+        },
         useTagIdsByCardId(cardId: ID): ID[] {
             const a = useStore().tagByCardAtoms.get(cardId);
             return useUnit(a ? a.store : (EMPTY_USER_STORE as unknown as Store<ID[]>)) ?? EMPTY_ID_ARRAY;
         },
+        useFilteredCardIdsByDeckId(deckId: ID): ID[] {
+            const store = useStore();
+            const cardIds = useStoreMap({
+                store: store.cardIdsByDeckId.store,
+                keys: [deckId],
+                fn: (idx, [id]) => idx[id] ?? EMPTY_ID_ARRAY,
+            });
+            const matches = useStoreMap({
+                store: deckSearchStore(store, deckId, cardIds),
+                keys: [],
+                fn: (ids) => ids,
+                // Keep the previous list while the matching ids are unchanged
+                updateFilter: (next, prev) => !shallowEqualIds(next, prev),
+            });
+            // Same reference as the deck's card list while nothing is filtered out
+            return shallowEqualIds(matches, cardIds) ? cardIds : matches;
+        },
+        useSortedCardIdsByDeckId(deckId: ID, sortKey: CardSortKey): ID[] {
+            const store = useStore();
+            const cardIds = useStoreMap({
+                store: store.cardIdsByDeckId.store,
+                keys: [deckId],
+                fn: (idx, [id]) => idx[id] ?? EMPTY_ID_ARRAY,
+            });
+            return useStoreMap({
+                store: deckSortStore(store, deckId, sortKey, cardIds),
+                keys: [],
+                fn: (ids) => ids,
+                // Keep the previous list while the order is unchanged
+                updateFilter: (next, prev) => !shallowEqualIds(next, prev),
+            });
+        },
+        useCommentCountByDeckId(deckId: ID): number {
+            return useStoreMap({
+                store: useStore().deckComments,
+                keys: [deckId],
+                fn: ({ cardIdsByDeckId, commentIdsByCardId }, [id]) => {
+                    let count = 0;
+                    for (const cardId of cardIdsByDeckId[id] ?? EMPTY_ID_ARRAY) {
+                        count += commentIdsByCardId[cardId]?.length ?? 0;
+                    }
+                    return count;
+                },
+            });
+        },
+        useTagHistogramByDeckId(deckId: ID): TagHistogram {
+            const store = useStore();
+            const cardIds = useStoreMap({
+                store: store.cardIdsByDeckId.store,
+                keys: [deckId],
+                fn: (idx, [id]) => idx[id] ?? EMPTY_ID_ARRAY,
+            });
+            return useStoreMap({
+                store: deckHistogramStore(store, deckId, cardIds),
+                keys: [],
+                fn: (histogram) => histogram,
+                // Keep the previous histogram while the counts are unchanged
+                updateFilter: (next, prev) => !shallowEqualCounts(next, prev),
+            });
+        },
+        useAssigneeWorkload(userId: ID): number {
+            return useStoreMap({
+                store: useStore().workloadByUserId,
+                keys: [userId],
+                fn: (workload, [id]) => workload[id] ?? 0,
+            });
+        },
+    };
+}
+
+// Runs one edit; the writes it makes through setAtom/setEntry/setIndexEntry become
+// one undo entry.
+function recordEdit(store: AtomicEffectorStore, edit: () => void) {
+    const { history } = store;
+    if (history.paused) return edit();
+    const patches: Patch[] = (history.pending = []);
+    edit();
+    history.pending = null;
+    if (patches.length === 0) return;
+    history.past.push(patches);
+    if (history.past.length > HISTORY_LIMIT) history.past.shift();
+    history.future = [];
+}
+
+function setAtom<T>(store: AtomicEffectorStore, a: Atom<T>, next: T) {
+    const prev = a.store.getState();
+    store.history.pending?.push({ undo: () => a.set(prev), redo: () => a.set(next) });
+    a.set(next);
+}
+
+// Sets a map entry, or deletes it when `next` is undefined
+function setEntry<V>(store: AtomicEffectorStore, map: Map<ID, V>, key: ID, next: V | undefined) {
+    const prev = map.get(key);
+    const write = (value: V | undefined) =>
+        value === undefined ? map.delete(key) : map.set(key, value);
+    store.history.pending?.push({ undo: () => write(prev), redo: () => write(next) });
+    write(next);
+}
+
+function setIndexEntry(store: AtomicEffectorStore, index: IndexMap, key: ID, next?: ID[]) {
+    const prev = index[key];
+    const write = (value: ID[] | undefined) => {
+        if (value === undefined) delete index[key];
+        else index[key] = value;
     };
+    store.history.pending?.push({ undo: () => write(prev), redo: () => write(next) });
+    write(next);
 }
 
 const actions = (store: AtomicEffectorStore) => ({
@@ -186,10 +528,14 @@ const actions = (store: AtomicEffectorStore) => ({
         store.activeDeck.set(id);
     },
 
+    setSearchQuery(query: string) {
+        store.searchQuery.set(query);
+    },
+
     updateCard(cardId: ID, changes: Partial<Card>) {
         const a = store.cardAtoms.get(cardId);
         if (!a) return;
-        a.set({ ...a.store.getState(), ...changes });
+        recordEdit(store, () => setAtom(store, a, { ...a.store.getState(), ...changes }));
     },
 
     updateCommentText(commentId: ID, text: string) {
@@ -197,7 +543,30 @@ const actions = (store: AtomicEffectorStore) => ({
         if (!a) return;
         const prev = a.store.getState();
         if (prev.text === text) return;
-        a.set({ ...prev, text });
+        recordEdit(store, () => setAtom(store, a, { ...prev, text }));
+    },
+
+    async saveCommentText(commentId: ID, text: string, server: MockServer) {
+        // Looked up on every read: deleting the card drops the atom meanwhile
+        const readText = () => store.commentAtoms.get(commentId)?.store.getState().text;
+        const writeText = (value: string) => {
+            const a = store.commentAtoms.get(commentId);
+            if (!a) return;
+            const prev = a.store.getState();
+            if (prev.text === value) return;
+            recordEdit(store, () => setAtom(store, a, { ...prev, text: value }));
+        };
+        const previous = readText();
+        if (previous === undefined) return false;
+        writeText(text);
+        try {
+            await server.request('comments/save', { id: commentId, text });
+            return true;
+        } catch {
+            // Roll back unless a later edit replaced the optimistic text
+            if (readText() === text) writeText(previous);
+            return false;
+        }
     },
 
     setCommentEditing(commentId: ID, isEditing: boolean) {
@@ -213,36 +582,61 @@ const actions = (store: AtomicEffectorStore) => ({
         if (!a) return;
         const prev = a.store.getState();
         if (prev.name === name) return;
-        a.set({ ...prev, name });
+        recordEdit(store, () => setAtom(store, a, { ...prev, name }));
+    },
+
+    renameTag(tagId: ID, label: string) {
+        const a = store.tagAtoms.get(tagId);
+        if (!a) return;
+        const prev = a.store.getState();
+        if (prev.label === label) return;
+        recordEdit(store, () => setAtom(store, a, { ...prev, label }));
+    },
+
+    recolorTag(tagId: ID, color: string) {
+        const a = store.tagAtoms.get(tagId);
+        if (!a) return;
+        const prev = a.store.getState();
+        if (prev.color === color) return;
+        recordEdit(store, () => setAtom(store, a, { ...prev, color }));
     },
 
     bulkToggleTagOnCards(cardIds: ID[], tagId: ID) {
         let counter = store.cardTags.size;
-        for (const cardId of cardIds) {
-            const tagAtom = store.tagByCardAtoms.get(cardId);
-            if (!tagAtom) continue;
-            const existingTagIds = tagAtom.store.getState();
-            let existingId: ID | undefined;
-            for (const ctId of existingTagIds) {
-                if (store.cardTags.get(ctId)?.tagId === tagId) {
-                    existingId = ctId;
-                    break;
+        recordEdit(store, () => {
+            for (const cardId of cardIds) {
+                const tagAtom = store.tagByCardAtoms.get(cardId);
+                if (!tagAtom) continue;
+                const existingTagIds = store.cardTagIdsByCardId[cardId] ?? EMPTY_ID_ARRAY;
+                let existingId: ID | undefined;
+                for (const ctId of existingTagIds) {
+                    if (store.cardTags.get(ctId)?.tagId === tagId) {
+                        existingId = ctId;
+                        break;
+                    }
+                }
+                if (existingId) {
+                    setEntry(store, store.cardTags, existingId, undefined);
+                    const next = existingTagIds.filter((id) => id !== existingId);
+                    setIndexEntry(store, store.cardTagIdsByCardId, cardId, next);
+                    // The tag stays if the card carried it more than once.
+                    setAtom(store, tagAtom, distinctTagIds(next, store.cardTags));
+                } else {
+                    const newCardTag: CardTag = {
+                        id: `cardtag_${counter++}`,
+                        cardId,
+                        tagId,
+                        createdAt: Date.now(),
+                    };
+                    setEntry(store, store.cardTags, newCardTag.id, newCardTag);
+                    setIndexEntry(store, store.cardTagIdsByCardId, cardId, [
+                        ...existingTagIds,
+                        newCardTag.id,
+                    ]);
+                    setAtom(store, tagAtom, [...tagAtom.store.getState(), tagId]);
                 }
             }
-            if (existingId) {
-                store.cardTags.delete(existingId);
-                tagAtom.set(existingTagIds.filter((id) => id !== existingId));
-            } else {
-                const newCardTag: CardTag = {
-                    id: `cardtag_${counter++}`,
-                    cardId,
-                    tagId,
-                    createdAt: Date.now(),
-                };
-                store.cardTags.set(newCardTag.id, newCardTag);
-                tagAtom.set([...existingTagIds, newCardTag.id]);
-            }
-        }
+        });
     },
 
     backgroundChurnStart() {
@@ -262,8 +656,156 @@ const actions = (store: AtomicEffectorStore) => ({
         if (prev.isVisible === isVisible) return;
         a.set({ ...prev, isVisible });
     },
+
+    createCard(card: Card) {
+        if (!store.decks.has(card.deckId) || store.cardAtoms.has(card.id)) return;
+        recordEdit(store, () => {
+            // Atoms first, so the id resolves to a store by the time the index lists it
+            // (undo replays the writes backwards, so it drops the id first).
+            setEntry(store, store.cardAtoms, card.id, atom(card));
+            setEntry(store, store.tagByCardAtoms, card.id, atom<ID[]>([]));
+            const index = store.cardIdsByDeckId.store.getState();
+            setAtom(store, store.cardIdsByDeckId, {
+                ...index,
+                [card.deckId]: [...(index[card.deckId] ?? EMPTY_ID_ARRAY), card.id],
+            });
+        });
+    },
+
+    deleteCard(cardId: ID) {
+        const cardAtom = store.cardAtoms.get(cardId);
+        if (!cardAtom) return;
+        recordEdit(store, () => {
+            const { deckId } = cardAtom.store.getState();
+            const cardIndex = store.cardIdsByDeckId.store.getState();
+            setAtom(store, store.cardIdsByDeckId, {
+                ...cardIndex,
+                [deckId]: (cardIndex[deckId] ?? EMPTY_ID_ARRAY).filter((id) => id !== cardId),
+            });
+            const commentIndex = { ...store.commentIdsByCardId.store.getState() };
+            for (const id of commentIndex[cardId] ?? EMPTY_ID_ARRAY) {
+                setEntry(store, store.commentAtoms, id, undefined);
+            }
+            delete commentIndex[cardId];
+            setAtom(store, store.commentIdsByCardId, commentIndex);
+            // No assignment entities here — the card->users index is all there is.
+            const userIndex = { ...store.userIdsByCardId.store.getState() };
+            delete userIndex[cardId];
+            setAtom(store, store.userIdsByCardId, userIndex);
+            for (const id of store.cardTagIdsByCardId[cardId] ?? EMPTY_ID_ARRAY) {
+                setEntry(store, store.cardTags, id, undefined);
+            }
+            setIndexEntry(store, store.cardTagIdsByCardId, cardId, undefined);
+            setEntry(store, store.tagByCardAtoms, cardId, undefined);
+            const childIndex = { ...store.childIdsByParentId.store.getState() };
+            if (childIndex[cardId]) {
+                const pending = [...childIndex[cardId]!];
+                delete childIndex[cardId];
+                while (pending.length > 0) {
+                    const id = pending.pop()!;
+                    pending.push(...(childIndex[id] ?? EMPTY_ID_ARRAY));
+                    delete childIndex[id];
+                    setEntry(store, store.subtaskAtoms, id, undefined);
+                }
+                setAtom(store, store.childIdsByParentId, childIndex);
+            }
+            setEntry(store, store.cardAtoms, cardId, undefined);
+        });
+    },
+
+    moveCard(cardId: ID, toDeckId: ID, index: number) {
+        const cardAtom = store.cardAtoms.get(cardId);
+        if (!cardAtom || !store.decks.has(toDeckId)) return;
+        const prev = cardAtom.store.getState();
+        const cardIndex = store.cardIdsByDeckId.store.getState();
+        const fromIds = (cardIndex[prev.deckId] ?? EMPTY_ID_ARRAY).filter((id) => id !== cardId);
+        // Reordering within one deck reuses the filtered copy.
+        const toIds =
+            prev.deckId === toDeckId ? fromIds : [...(cardIndex[toDeckId] ?? EMPTY_ID_ARRAY)];
+        toIds.splice(Math.max(0, Math.min(index, toIds.length)), 0, cardId);
+        recordEdit(store, () => {
+            setAtom(store, store.cardIdsByDeckId, {
+                ...cardIndex,
+                [prev.deckId]: fromIds,
+                [toDeckId]: toIds,
+            });
+            if (prev.deckId !== toDeckId) setAtom(store, cardAtom, { ...prev, deckId: toDeckId });
+        });
+    },
+
+    toggleSubtask(subtaskId: ID) {
+        const a = store.subtaskAtoms.get(subtaskId);
+        if (!a) return;
+        const prev = a.store.getState();
+        recordEdit(store, () => setAtom(store, a, { ...prev, done: !prev.done }));
+    },
+
+    addComment(comment: Comment) {
+        const cardAtom = store.cardAtoms.get(comment.cardId);
+        if (!cardAtom || store.commentAtoms.has(comment.id)) return;
+        // A server push, so plain writes outside recordEdit
+        store.commentAtoms.set(comment.id, atom(comment));
+        const commentIndex = store.commentIdsByCardId.store.getState();
+        store.commentIdsByCardId.set({
+            ...commentIndex,
+            [comment.cardId]: [...(commentIndex[comment.cardId] ?? EMPTY_ID_ARRAY), comment.id],
+        });
+        // A copy of the deck's card list, so its search store is rebuilt over the new
+        // comment (see deckSearchStore)
+        const { deckId } = cardAtom.store.getState();
+        const cardIndex = store.cardIdsByDeckId.store.getState();
+        store.cardIdsByDeckId.set({
+            ...cardIndex,
+            [deckId]: [...(cardIndex[deckId] ?? EMPTY_ID_ARRAY)],
+        });
+    },
+
+    undo() {
+        const patches = store.history.past.pop();
+        if (!patches) return;
+        for (let i = patches.length - 1; i >= 0; i--) patches[i]!.undo();
+        store.history.future.push(patches);
+    },
+
+    redo() {
+        const patches = store.history.future.pop();
+        if (!patches) return;
+        for (const patch of patches) patch.redo();
+        store.history.past.push(patches);
+    },
+
+    canUndo() {
+        return store.history.past.length > 0;
+    },
+    withoutHistory(write: () => void) {
+        const { history } = store;
+        if (history.paused) return write();
+        history.paused = true;
+        try {
+            write();
+        } finally {
+            history.paused = false;
+        }
+    },
 });
 
+// Watchers reachable from the given units: effector-react's hooks subscribe with
+// createWatch, whose nodes are the only ones in this graph without an op (stores,
+// events, maps and combines all carry one)
+function countWatchers(units: Iterable<Unit<unknown>>): number {
+    const seen = new Set<Node>();
+    const pending = [...units].map((unit) => (unit as unknown as { graphite: Node }).graphite);
+    let watchers = 0;
+    while (pending.length > 0) {
+        const node = pending.pop()!;
+        if (seen.has(node)) continue;
+        seen.add(node);
+        if (!node.meta.op) watchers++;
+        pending.push(...node.next);
+    }
+    return watchers;
+}
+
 function createAtomicEffectorAdapter(): StoreAdapter {
     return {
         name: 'Effector (atomic stores)',
@@ -275,6 +817,29 @@ function createAtomicEffectorAdapter(): StoreAdapter {
         bindActions(storeHandle: StoreHandle) {
             return actions(storeHandle as AtomicEffectorStore);
         },
+        debugStats(storeHandle: StoreHandle) {
+            const store = storeHandle as AtomicEffectorStore;
+            // Every atom; the derived per-deck stores hang off them
+            const units: Unit<unknown>[] = [
+                store.activeDeck.store,
+                store.searchQuery.store,
+                store.cardIdsByDeckId.store,
+                store.commentIdsByCardId.store,
+                store.userIdsByCardId.store,
+                store.childIdsByParentId.store,
+            ];
+            for (const atoms of [
+                store.cardAtoms,
+                store.commentAtoms,
+                store.userAtoms,
+                store.subtaskAtoms,
+                store.tagAtoms,
+                store.tagByCardAtoms,
+            ] as Map<ID, Atom<unknown>>[]) {
+                for (const a of atoms.values()) units.push(a.store);
+            }
+            return { subscribers: countWatchers(units) };
+        },
     };
 }
 
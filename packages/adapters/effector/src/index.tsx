@@ -1,7 +1,23 @@
 import React, { createContext, useContext } from 'react';
-import { createStore, createEvent } from 'effector';
+import {
+    createStore,
+    createEvent,
+    combine,
+    sample,
+    type Node,
+    type StoreValue,
+    type StoreWritable,
+    type Unit,
+} from 'effector';
 import { useUnit, useStoreMap } from 'effector-react';
-import type { StoreAdapter, StoreHandle, ViewModelHooksIdsBased } from '@bench/core';
+import type {
+    StoreAdapter,
+    StoreHandle,
+    ViewModelHooksIdsBased,
+    TagHistogram,
+    CardSortKey,
+    MockServer,
+} from '@bench/core';
 import type {
     RootState,
     ID,
@@ -12,6 +28,7 @@ import type {
     Tag,
     CardAssignment,
     CardTag,
+    Subtask,
 } from '@bench/core';
 
 // ---------------------------------------------------------------------------
@@ -26,10 +43,21 @@ import type {
 //
 // This version keeps entities in plain stores and maintains relationship
 // indexes the way a performance-conscious Effector developer would:
-//   - deck->cards, card->comments, card->users are structural and never change
-//     in the workloads, so they are built once at init and read by key.
-//   - card->cardTags is the only relationship that mutates (bulk tag toggle),
-//     so it is updated incrementally, touching only the affected cards.
+//   - deck->cards, card->comments, card->users are built once at init and read
+//     by key; only structural edits (create/delete/move card) touch them, and
+//     only for the affected decks and cards.
+//   - card->cardTags and card->tags (distinct tag ids, what chips render) also
+//     mutate under bulk tag toggle and are likewise updated incrementally,
+//     touching only the affected cards.
+//   - parent->subtasks (card or subtask -> child subtasks) is structural too;
+//     toggling a subtask only replaces that subtask entity.
+//   - derived data (deck comment counts, deck tag histograms, user workload) are
+//     `combine`/`map` stores over those indexes, so entity field edits never
+//     reach them; readers filter unchanged results in `useStoreMap`.
+//   - the search filter and the sorted card lists are `combine`s over the
+//     entities they read; readers keep the previous id list while it is equal.
+//   - undo history entries are the values of every entity and index store before
+//     an edit; all of them are immutable, so an entry costs one small object.
 // Individual entity fields (comment text, card visibility, user name, ...) are
 // read per-key via `useStoreMap`, so a single mutation only re-renders the
 // components bound to that key.
@@ -42,6 +70,8 @@ function buildIndexes(initialData: RootState): {
     commentIdsByCardId: IndexMap;
     userIdsByCardId: IndexMap;
     cardTagIdsByCardId: IndexMap;
+    tagIdsByCardId: IndexMap;
+    subtaskIdsByParentId: IndexMap;
 } {
     const cardIdsByDeckId: IndexMap = {};
     for (const card of Object.values(initialData.entities.cards)) {
@@ -66,11 +96,39 @@ function buildIndexes(initialData: RootState): {
     }
 
     const cardTagIdsByCardId: IndexMap = {};
+    const tagIdsByCardId: IndexMap = {};
     for (const cardTag of Object.values(initialData.entities.cardTags)) {
-        (cardTagIdsByCardId[cardTag.cardId] ??= []).push(cardTag.id);
+        const { cardId, tagId } = cardTag;
+        (cardTagIdsByCardId[cardId] ??= []).push(cardTag.id);
+        // A card may carry the same tag twice; the tag index keeps it once.
+        if (!tagId || !initialData.entities.tags[tagId]) continue;
+        const tagIds = (tagIdsByCardId[cardId] ??= []);
+        if (!tagIds.includes(tagId)) tagIds.push(tagId);
+    }
+
+    const subtaskIdsByParentId: IndexMap = {};
+    for (const subtask of Object.values(initialData.entities.subtasks)) {
+        (subtaskIdsByParentId[subtask.parentId] ??= []).push(subtask.id);
     }
 
-    return { cardIdsByDeckId, commentIdsByCardId, userIdsByCardId, cardTagIdsByCardId };
+    return {
+        cardIdsByDeckId,
+        commentIdsByCardId,
+        userIdsByCardId,
+        cardTagIdsByCardId,
+        tagIdsByCardId,
+        subtaskIdsByParentId,
+    };
+}
+
+// Distinct tag ids behind a card's cardTag ids, in cardTag order.
+function distinctTagIds(cardTagIds: ID[], cardTags: Record<ID, CardTag>): ID[] {
+    const tagIds: ID[] = [];
+    for (const id of cardTagIds) {
+        const tagId = cardTags[id]?.tagId;
+        if (tagId && !tagIds.includes(tagId)) tagIds.push(tagId);
+    }
+    return tagIds;
 }
 
 type BulkToggleTagPayload = {
@@ -78,8 +136,29 @@ type BulkToggleTagPayload = {
     toRemove: ID[];
     // cardId -> next list of cardTag ids (only for affected cards)
     cardTagIdsByCard: IndexMap;
+    // cardId -> next list of distinct tag ids (only for affected cards)
+    tagIdsByCard: IndexMap;
+};
+
+type DeleteCardPayload = {
+    card: Card;
+    commentIds: ID[];
+    assignmentIds: ID[];
+    cardTagIds: ID[];
+    // Every subtask in the card's checklist tree, at any depth
+    subtaskIds: ID[];
+};
+
+type MoveCardPayload = {
+    cardId: ID;
+    fromDeckId: ID;
+    toDeckId: ID;
+    index: number;
 };
 
+// Edits kept for undo; older ones are dropped
+const HISTORY_LIMIT = 500;
+
 function createEffectorStore(initialData: RootState) {
     const indexes = buildIndexes(initialData);
 
@@ -93,29 +172,97 @@ function createEffectorStore(initialData: RootState) {
         initialData.entities.cardAssignments,
     );
     const $cardTags = createStore<Record<ID, CardTag>>(initialData.entities.cardTags);
+    const $subtasks = createStore<Record<ID, Subtask>>(initialData.entities.subtasks);
     const $activeDeckId = createStore<ID | null>(initialData.activeDeckId);
+    const $searchQuery = createStore('');
     const $decksOrder = createStore<ID[]>(initialData.decksOrder);
 
     // Relationship index stores
-    // Structural indexes — built once, never change in the workloads.
+    // Structural indexes — built once, touched only by create/delete/move card.
     const $cardIdsByDeckId = createStore<IndexMap>(indexes.cardIdsByDeckId);
     const $commentIdsByCardId = createStore<IndexMap>(indexes.commentIdsByCardId);
     const $userIdsByCardId = createStore<IndexMap>(indexes.userIdsByCardId);
+    const $childIdsByParentId = createStore<IndexMap>(indexes.subtaskIdsByParentId);
     // Mutated by bulk tag toggle — updated incrementally.
-    const $tagIdsByCardId = createStore<IndexMap>(indexes.cardTagIdsByCardId);
+    const $cardTagIdsByCardId = createStore<IndexMap>(indexes.cardTagIdsByCardId);
+    const $tagIdsByCardId = createStore<IndexMap>(indexes.tagIdsByCardId);
+
+    // Derived stores — recomputed only when one of their source indexes changes.
+    const $deckComments = combine({
+        cardIdsByDeckId: $cardIdsByDeckId,
+        commentIdsByCardId: $commentIdsByCardId,
+    });
+    const $deckTags = combine({
+        cardIdsByDeckId: $cardIdsByDeckId,
+        tagIdsByCardId: $tagIdsByCardId,
+    });
+    const $workloadByUserId = $userIdsByCardId.map((index) => {
+        const workload: Record<ID, number> = {};
+        for (const cardId in index) {
+            for (const userId of index[cardId]) {
+                workload[userId] = (workload[userId] ?? 0) + 1;
+            }
+        }
+        return workload;
+    });
+    const $deckCards = combine({
+        cardIdsByDeckId: $cardIdsByDeckId,
+        cards: $cards,
+    });
+    const $deckSearch = combine({
+        cardIdsByDeckId: $cardIdsByDeckId,
+        cards: $cards,
+        comments: $comments,
+        commentIdsByCardId: $commentIdsByCardId,
+        query: $searchQuery.map((query) => query.trim().toLowerCase()),
+    });
+
+    // Undo history over every store an edit writes
+    const historyStores = {
+        decks: $decks,
+        cards: $cards,
+        comments: $comments,
+        users: $users,
+        tags: $tags,
+        cardAssignments: $cardAssignments,
+        cardTags: $cardTags,
+        subtasks: $subtasks,
+        cardIdsByDeckId: $cardIdsByDeckId,
+        commentIdsByCardId: $commentIdsByCardId,
+        userIdsByCardId: $userIdsByCardId,
+        childIdsByParentId: $childIdsByParentId,
+        cardTagIdsByCardId: $cardTagIdsByCardId,
+        tagIdsByCardId: $tagIdsByCardId,
+    };
+    const $snapshot = combine(historyStores);
+    type Snapshot = StoreValue<typeof $snapshot>;
+    type History = { past: Snapshot[]; future: Snapshot[] };
+    const $history = createStore<History>({ past: [], future: [] });
 
     // Events
     const setActiveDeckEvent = createEvent<ID>();
+    const setSearchQueryEvent = createEvent<string>();
     const updateCommentTextEvent = createEvent<{ id: ID; text: string }>();
     const setCommentEditingEvent = createEvent<{ id: ID; isEditing: boolean }>();
     const renameUserEvent = createEvent<{ id: ID; name: string }>();
+    const updateTagEvent = createEvent<{ id: ID; changes: Partial<Tag> }>();
     const bulkToggleTagEvent = createEvent<BulkToggleTagPayload>();
     const updateCardEvent = createEvent<{ id: ID; changes: Partial<Card> }>();
     const bulkUpdateCardsEvent = createEvent<Array<{ id: ID; changes: Partial<Card> }>>();
     const setCardVisibilityEvent = createEvent<{ cardId: ID; isVisible: boolean }>();
+    const createCardEvent = createEvent<Card>();
+    const deleteCardEvent = createEvent<DeleteCardPayload>();
+    const moveCardEvent = createEvent<MoveCardPayload>();
+    const toggleSubtaskEvent = createEvent<ID>();
+    const addCommentEvent = createEvent<Comment>();
+    const pushHistoryEvent = createEvent<Snapshot>();
+    const undoEvent = createEvent();
+    const redoEvent = createEvent();
+    const travelEvent = createEvent<{ history: History; snapshot: Snapshot }>();
 
     // Reducers — each touches only the entity it owns.
     $activeDeckId.on(setActiveDeckEvent, (_, id) => id);
+    $searchQuery.on(setSearchQueryEvent, (_, query) => query);
 
     $comments.on(updateCommentTextEvent, (comments, { id, text }) => {
         const existing = comments[id];
@@ -135,12 +282,26 @@ function createEffectorStore(initialData: RootState) {
         return { ...users, [id]: { ...existing, id, name } as User };
     });
 
+    // Renaming/recoloring a tag replaces one entity; every chip bound to it
+    // re-renders, the card->tags index does not change.
+    $tags.on(updateTagEvent, (tags, { id, changes }) => {
+        const existing = tags[id];
+        if (!existing) return tags;
+        return { ...tags, [id]: { ...existing, ...changes } };
+    });
+
     $cards.on(setCardVisibilityEvent, (cards, { cardId, isVisible }) => {
         const existing = cards[cardId];
         if (!existing || existing.isVisible === isVisible) return cards;
         return { ...cards, [cardId]: { ...existing, isVisible } };
     });
 
+    $subtasks.on(toggleSubtaskEvent, (subtasks, id) => {
+        const existing = subtasks[id];
+        if (!existing) return subtasks;
+        return { ...subtasks, [id]: { ...existing, done: !existing.done } };
+    });
+
     $cards.on(updateCardEvent, (cards, { id, changes }) => {
         const existing = cards[id];
         if (!existing) return cards;
@@ -160,7 +321,7 @@ function createEffectorStore(initialData: RootState) {
     });
 
     // Bulk tag toggle updates only the cardTags entity store and the affected
-    // entries of the card->cardTags index. No global rebuild.
+    // entries of the card->cardTags and card->tags indexes. No global rebuild.
     $cardTags.on(bulkToggleTagEvent, (cardTags, { toAdd, toRemove }) => {
         if (toAdd.length === 0 && toRemove.length === 0) return cardTags;
         const updated = { ...cardTags };
@@ -169,12 +330,133 @@ function createEffectorStore(initialData: RootState) {
         return updated;
     });
 
-    $tagIdsByCardId.on(bulkToggleTagEvent, (index, { cardTagIdsByCard }) => {
+    $cardTagIdsByCardId.on(bulkToggleTagEvent, (index, { cardTagIdsByCard }) => {
         const cardIds = Object.keys(cardTagIdsByCard);
         if (cardIds.length === 0) return index;
         return { ...index, ...cardTagIdsByCard };
     });
 
+    $tagIdsByCardId.on(bulkToggleTagEvent, (index, { tagIdsByCard }) => {
+        const cardIds = Object.keys(tagIdsByCard);
+        if (cardIds.length === 0) return index;
+        return { ...index, ...tagIdsByCard };
+    });
+
+    // Structural edits — each store drops or inserts only the keys it owns.
+    $cards.on(createCardEvent, (cards, card) => ({ ...cards, [card.id]: card }));
+    $cardIdsByDeckId.on(createCardEvent, (index, card) => ({
+        ...index,
+        [card.deckId]: [...(index[card.deckId] ?? EMPTY_ID_ARRAY), card.id],
+    }));
+
+    // Server push: not an edit, so no history entry
+    $comments.on(addCommentEvent, (comments, comment) => ({ ...comments, [comment.id]: comment }));
+    $commentIdsByCardId.on(addCommentEvent, (index, comment) => ({
+        ...index,
+        [comment.cardId]: [...(index[comment.cardId] ?? EMPTY_ID_ARRAY), comment.id],
+    }));
+
+    $cards.on(deleteCardEvent, (cards, { card }) => {
+        const updated = { ...cards };
+        delete updated[card.id];
+        return updated;
+    });
+    $comments.on(deleteCardEvent, (comments, { commentIds }) => {
+        if (commentIds.length === 0) return comments;
+        const updated = { ...comments };
+        for (const id of commentIds) delete updated[id];
+        return updated;
+    });
+    $cardAssignments.on(deleteCardEvent, (assignments, { assignmentIds }) => {
+        if (assignmentIds.length === 0) return assignments;
+        const updated = { ...assignments };
+        for (const id of assignmentIds) delete updated[id];
+        return updated;
+    });
+    $cardTags.on(deleteCardEvent, (cardTags, { cardTagIds }) => {
+        if (cardTagIds.length === 0) return cardTags;
+        const updated = { ...cardTags };
+        for (const id of cardTagIds) delete updated[id];
+        return updated;
+    });
+    $cardIdsByDeckId.on(deleteCardEvent, (index, { card }) => ({
+        ...index,
+        [card.deckId]: (index[card.deckId] ?? EMPTY_ID_ARRAY).filter((id) => id !== card.id),
+    }));
+    for (const $index of [
+        $commentIdsByCardId,
+        $userIdsByCardId,
+        $cardTagIdsByCardId,
+        $tagIdsByCardId,
+    ]) {
+        $index.on(deleteCardEvent, (index, { card }) => {
+            if (!(card.id in index)) return index;
+            const updated = { ...index };
+            delete updated[card.id];
+            return updated;
+        });
+    }
+    $subtasks.on(deleteCardEvent, (subtasks, { subtaskIds }) => {
+        if (subtaskIds.length === 0) return subtasks;
+        const updated = { ...subtasks };
+        for (const id of subtaskIds) delete updated[id];
+        return updated;
+    });
+    $childIdsByParentId.on(deleteCardEvent, (index, { card, subtaskIds }) => {
+        if (subtaskIds.length === 0 && !(card.id in index)) return index;
+        const updated = { ...index };
+        delete updated[card.id];
+        for (const id of subtaskIds) delete updated[id];
+        return updated;
+    });
+
+    $cards.on(moveCardEvent, (cards, { cardId, toDeckId }) => {
+        const existing = cards[cardId];
+        if (!existing || existing.deckId === toDeckId) return cards;
+        return { ...cards, [cardId]: { ...existing, deckId: toDeckId } };
+    });
+    $cardIdsByDeckId.on(moveCardEvent, (index, { cardId, fromDeckId, toDeckId, index: at }) => {
+        const fromIds = (index[fromDeckId] ?? EMPTY_ID_ARRAY).filter((id) => id !== cardId);
+        // Reordering within one deck reuses the filtered copy.
+        const toIds = fromDeckId === toDeckId ? fromIds : [...(index[toDeckId] ?? EMPTY_ID_ARRAY)];
+        toIds.splice(Math.max(0, Math.min(at, toIds.length)), 0, cardId);
+        return { ...index, [fromDeckId]: fromIds, [toDeckId]: toIds };
+    });
+
+    $history.on(pushHistoryEvent, ({ past }, snapshot) => ({
+        past: [...past, snapshot].slice(-HISTORY_LIMIT),
+        future: [],
+    }));
+    // Undo and redo move the current values onto the other stack and restore the top
+    // entry into every store.
+    sample({
+        clock: undoEvent,
+        source: { history: $history, current: $snapshot },
+        filter: ({ history }) => history.past.length > 0,
+        fn: ({ history: { past, future }, current }) => ({
+            history: { past: past.slice(0, -1), future: [...future, current] },
+            snapshot: past[past.length - 1]!,
+        }),
+        target: travelEvent,
+    });
+    sample({
+        clock: redoEvent,
+        source: { history: $history, current: $snapshot },
+        filter: ({ history }) => history.future.length > 0,
+        fn: ({ history: { past, future }, current }) => ({
+            history: { past: [...past, current], future: future.slice(0, -1) },
+            snapshot: future[future.length - 1]!,
+        }),
+        target: travelEvent,
+    });
+    $history.on(travelEvent, (_, { history }) => history);
+    for (const key of Object.keys(historyStores) as Array<keyof Snapshot>) {
+        (historyStores[key] as StoreWritable<unknown>).on(
+            travelEvent,
+            (_, { snapshot }) => snapshot[key],
+        );
+    }
+
     return {
         stores: {
             decks: $decks,
@@ -184,22 +466,43 @@ function createEffectorStore(initialData: RootState) {
             tags: $tags,
             cardAssignments: $cardAssignments,
             cardTags: $cardTags,
+            subtasks: $subtasks,
             activeDeckId: $activeDeckId,
+            searchQuery: $searchQuery,
             decksOrder: $decksOrder,
             cardIdsByDeckId: $cardIdsByDeckId,
             commentIdsByCardId: $commentIdsByCardId,
             userIdsByCardId: $userIdsByCardId,
+            cardTagIdsByCardId: $cardTagIdsByCardId,
             tagIdsByCardId: $tagIdsByCardId,
+            childIdsByParentId: $childIdsByParentId,
+            deckComments: $deckComments,
+            deckTags: $deckTags,
+            workloadByUserId: $workloadByUserId,
+            deckCards: $deckCards,
+            deckSearch: $deckSearch,
+            snapshot: $snapshot,
+            history: $history,
         },
         events: {
             setActiveDeck: setActiveDeckEvent,
+            setSearchQuery: setSearchQueryEvent,
             updateCommentText: updateCommentTextEvent,
             setCommentEditing: setCommentEditingEvent,
             renameUser: renameUserEvent,
+            updateTag: updateTagEvent,
             bulkToggleTag: bulkToggleTagEvent,
             updateCard: updateCardEvent,
             bulkUpdateCards: bulkUpdateCardsEvent,
             setCardVisibility: setCardVisibilityEvent,
+            createCard: createCardEvent,
+            deleteCard: deleteCardEvent,
+            moveCard: moveCardEvent,
+            toggleSubtask: toggleSubtaskEvent,
+            addComment: addCommentEvent,
+            pushHistory: pushHistoryEvent,
+            undo: undoEvent,
+            redo: redoEvent,
         },
     };
 }
@@ -211,6 +514,40 @@ const EffectorStoreContext = createContext<EffectorStore | null>(null);
 // Stable empty array - avoids creating a new array reference on every render
 const EMPTY_ID_ARRAY: ID[] = [];
 
+function shallowEqualIds(a: ID[], b: ID[]): boolean {
+    if (a === b) return true;
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+    return true;
+}
+
+// Timestamps newest first, titles A to Z; Array#sort is stable, so ties keep the
+// deck's insertion order
+function compareCards(a: Card, b: Card, sortKey: CardSortKey): number {
+    if (sortKey === 'title') return a.title < b.title ? -1 : a.title > b.title ? 1 : 0;
+    return b[sortKey] - a[sortKey];
+}
+
+// Stores whose edits are applied without recording them (see withoutHistory)
+const unrecordedStores = new WeakSet<EffectorStore>();
+
+// Runs one edit; if it changed any store the history covers, their previous values
+// become an undo entry.
+function recordEdit(store: EffectorStore, edit: () => void) {
+    if (unrecordedStores.has(store)) return edit();
+    const before = store.stores.snapshot.getState();
+    edit();
+    if (store.stores.snapshot.getState() !== before) store.events.pushHistory(before);
+}
+
+function shallowEqualCounts(a: Record<ID, number>, b: Record<ID, number>): boolean {
+    if (a === b) return true;
+    const keys = Object.keys(a);
+    if (keys.length !== Object.keys(b).length) return false;
+    for (const k of keys) if (a[k] !== b[k]) return false;
+    return true;
+}
+
 const EffectorProvider: React.FC<{ store: StoreHandle; children?: React.ReactNode }> = ({
     store,
     children,
@@ -257,9 +594,26 @@ function createHooks(): ViewModelHooksIdsBased {
                 fn: (users, [userId]) => users[userId],
             });
         },
+        useTagById(id: ID): Tag | undefined {
+            return useStoreMap({
+                store: useStore().stores.tags,
+                keys: [id],
+                fn: (tags, [tagId]) => tags[tagId],
+            });
+        },
+        useSubtaskById(id: ID): Subtask | undefined {
+            return useStoreMap({
+                store: useStore().stores.subtasks,
+                keys: [id],
+                fn: (subtasks, [subtaskId]) => subtasks[subtaskId],
+            });
+        },
         useActiveDeckId(): ID | null {
             return useUnit(useStore().stores.activeDeckId);
         },
+        useSearchQuery(): string {
+            return useUnit(useStore().stores.searchQuery);
+        },
         useCardIdsByDeckId(deckId: ID): ID[] {
             return useStoreMap({
                 store: useStore().stores.cardIdsByDeckId,
@@ -288,6 +642,83 @@ function createHooks(): ViewModelHooksIdsBased {
                 fn: (index, [id]) => index[id] ?? EMPTY_ID_ARRAY,
             });
         },
+        useChildIdsByParentId(parentId: ID): ID[] {
+            return useStoreMap({
+                store: useStore().stores.childIdsByParentId,
+                keys: [parentId],
+                fn: (index, [id]) => index[id] ?? EMPTY_ID_ARRAY,
+            });
+        },
+        useFilteredCardIdsByDeckId(deckId: ID): ID[] {
+            return useStoreMap({
+                store: useStore().stores.deckSearch,
+                keys: [deckId],
+                fn: ({ cardIdsByDeckId, cards, comments, commentIdsByCardId, query }, [id]) => {
+                    const cardIds = cardIdsByDeckId[id] ?? EMPTY_ID_ARRAY;
+                    if (!query) return cardIds;
+                    return cardIds.filter((cardId) => {
+                        const card = cards[cardId];
+                        if (!card) return false;
+                        if (card.title.toLowerCase().includes(query)) return true;
+                        if (card.description.toLowerCase().includes(query)) return true;
+                        return (commentIdsByCardId[cardId] ?? EMPTY_ID_ARRAY).some((commentId) =>
+                            comments[commentId]?.text.toLowerCase().includes(query),
+                        );
+                    });
+                },
+                // Keep the previous list while the matching ids are unchanged
+                updateFilter: (next, prev) => !shallowEqualIds(next, prev),
+            });
+        },
+        useSortedCardIdsByDeckId(deckId: ID, sortKey: CardSortKey): ID[] {
+            return useStoreMap({
+                store: useStore().stores.deckCards,
+                keys: [deckId, sortKey],
+                fn: ({ cardIdsByDeckId, cards }, [id, key]) =>
+                    (cardIdsByDeckId[id] ?? EMPTY_ID_ARRAY)
+                        .filter((cardId) => cards[cardId])
+                        .sort((a, b) => compareCards(cards[a]!, cards[b]!, key)),
+                // Keep the previous list while the order is unchanged
+                updateFilter: (next, prev) => !shallowEqualIds(next, prev),
+            });
+        },
+        useCommentCountByDeckId(deckId: ID): number {
+            return useStoreMap({
+                store: useStore().stores.deckComments,
+                keys: [deckId],
+                fn: ({ cardIdsByDeckId, commentIdsByCardId }, [id]) => {
+                    let count = 0;
+                    for (const cardId of cardIdsByDeckId[id] ?? EMPTY_ID_ARRAY) {
+                        count += commentIdsByCardId[cardId]?.length ?? 0;
+                    }
+                    return count;
+                },
+            });
+        },
+        useTagHistogramByDeckId(deckId: ID): TagHistogram {
+            return useStoreMap({
+                store: useStore().stores.deckTags,
+                keys: [deckId],
+                fn: ({ cardIdsByDeckId, tagIdsByCardId }, [id]) => {
+                    const histogram: TagHistogram = {};
+                    for (const cardId of cardIdsByDeckId[id] ?? EMPTY_ID_ARRAY) {
+                        for (const tagId of tagIdsByCardId[cardId] ?? EMPTY_ID_ARRAY) {
+                            histogram[tagId] = (histogram[tagId] ?? 0) + 1;
+                        }
+                    }
+                    return histogram;
+                },
+                // Keep the previous histogram while the counts are unchanged
+                updateFilter: (next, prev) => !shallowEqualCounts(next, prev),
+            });
+        },
+        useAssigneeWorkload(userId: ID): number {
+            return useStoreMap({
+                store: useStore().stores.workloadByUserId,
+                keys: [userId],
+                fn: (workload, [id]) => workload[id] ?? 0,
+            });
+        },
     };
 }
 
@@ -296,12 +727,33 @@ const actions = (store: EffectorStore) => ({
         store.events.setActiveDeck(id);
     },
 
+    setSearchQuery(query: string) {
+        store.events.setSearchQuery(query);
+    },
+
     updateCard(cardId: ID, changes: Partial<Card>) {
-        store.events.updateCard({ id: cardId, changes });
+        recordEdit(store, () => store.events.updateCard({ id: cardId, changes }));
     },
 
     updateCommentText(commentId: ID, text: string) {
-        store.events.updateCommentText({ id: commentId, text });
+        recordEdit(store, () => store.events.updateCommentText({ id: commentId, text }));
+    },
+
+    async saveCommentText(commentId: ID, text: string, server: MockServer) {
+        const readText = () => store.stores.comments.getState()[commentId]?.text;
+        const writeText = (value: string) =>
+            recordEdit(store, () => store.events.updateCommentText({ id: commentId, text: value }));
+        const previous = readText();
+        if (previous === undefined) return false;
+        writeText(text);
+        try {
+            await server.request('comments/save', { id: commentId, text });
+            return true;
+        } catch {
+            // Roll back unless a later edit replaced the optimistic text
+            if (readText() === text) writeText(previous);
+            return false;
+        }
     },
 
     setCommentEditing(commentId: ID, isEditing: boolean) {
@@ -309,20 +761,30 @@ const actions = (store: EffectorStore) => ({
     },
 
     renameUser(userId: ID, name: string) {
-        store.events.renameUser({ id: userId, name });
+        recordEdit(store, () => store.events.renameUser({ id: userId, name }));
+    },
+
+    renameTag(tagId: ID, label: string) {
+        recordEdit(store, () => store.events.updateTag({ id: tagId, changes: { label } }));
+    },
+
+    recolorTag(tagId: ID, color: string) {
+        recordEdit(store, () => store.events.updateTag({ id: tagId, changes: { color } }));
     },
 
     bulkToggleTagOnCards(cardIds: ID[], tagId: ID) {
         const cardTags = store.stores.cardTags.getState();
-        const tagIdsByCard = store.stores.tagIdsByCardId.getState();
+        const cardTagIdsByCardId = store.stores.cardTagIdsByCardId.getState();
+        const tagIdsByCardId = store.stores.tagIdsByCardId.getState();
         let counter = Object.keys(cardTags).length;
 
         const toAdd: CardTag[] = [];
         const toRemove: ID[] = [];
         const cardTagIdsByCard: IndexMap = {};
+        const tagIdsByCard: IndexMap = {};
 
         for (const cardId of cardIds) {
-            const existingTagIds = tagIdsByCard[cardId] ?? EMPTY_ID_ARRAY;
+            const existingTagIds = cardTagIdsByCardId[cardId] ?? EMPTY_ID_ARRAY;
             // Find an existing cardTag for this (cardId, tagId) pair using the
             // per-card index — O(tags per card), not O(all cardTags).
             let existingId: ID | undefined;
@@ -335,6 +797,8 @@ const actions = (store: EffectorStore) => ({
             if (existingId) {
                 toRemove.push(existingId);
                 cardTagIdsByCard[cardId] = existingTagIds.filter((id) => id !== existingId);
+                // The tag stays if the card carried it more than once.
+                tagIdsByCard[cardId] = distinctTagIds(cardTagIdsByCard[cardId], cardTags);
             } else {
                 const newCardTag: CardTag = {
                     id: `cardtag_${counter++}`,
@@ -344,10 +808,13 @@ const actions = (store: EffectorStore) => ({
                 };
                 toAdd.push(newCardTag);
                 cardTagIdsByCard[cardId] = [...existingTagIds, newCardTag.id];
+                tagIdsByCard[cardId] = [...(tagIdsByCardId[cardId] ?? EMPTY_ID_ARRAY), tagId];
             }
         }
 
-        store.events.bulkToggleTag({ toAdd, toRemove, cardTagIdsByCard });
+        recordEdit(store, () =>
+            store.events.bulkToggleTag({ toAdd, toRemove, cardTagIdsByCard, tagIdsByCard }),
+        );
     },
 
     backgroundChurnStart() {
@@ -367,8 +834,99 @@ const actions = (store: EffectorStore) => ({
     setCardVisibility(cardId: ID, isVisible: boolean) {
         store.events.setCardVisibility({ cardId, isVisible });
     },
+
+    createCard(card: Card) {
+        const { decks, cards } = store.stores;
+        if (!decks.getState()[card.deckId] || cards.getState()[card.id]) return;
+        recordEdit(store, () => store.events.createCard(card));
+    },
+
+    deleteCard(cardId: ID) {
+        const card = store.stores.cards.getState()[cardId];
+        if (!card) return;
+        // Assignments have no per-card id index (card->users holds user ids),
+        // so collect them by cardId.
+        const assignments = store.stores.cardAssignments.getState();
+        const assignmentIds: ID[] = [];
+        for (const id in assignments) {
+            if (assignments[id]!.cardId === cardId) assignmentIds.push(id);
+        }
+        const childIdsByParentId = store.stores.childIdsByParentId.getState();
+        const subtaskIds: ID[] = [];
+        const pending = [...(childIdsByParentId[cardId] ?? EMPTY_ID_ARRAY)];
+        while (pending.length > 0) {
+            const id = pending.pop()!;
+            subtaskIds.push(id);
+            pending.push(...(childIdsByParentId[id] ?? EMPTY_ID_ARRAY));
+        }
+        recordEdit(store, () =>
+            store.events.deleteCard({
+                card,
+                commentIds: store.stores.commentIdsByCardId.getState()[cardId] ?? EMPTY_ID_ARRAY,
+                assignmentIds,
+                cardTagIds: store.stores.cardTagIdsByCardId.getState()[cardId] ?? EMPTY_ID_ARRAY,
+                subtaskIds,
+            }),
+        );
+    },
+
+    moveCard(cardId: ID, toDeckId: ID, index: number) {
+        const card = store.stores.cards.getState()[cardId];
+        if (!card || !store.stores.decks.getState()[toDeckId]) return;
+        recordEdit(store, () =>
+            store.events.moveCard({ cardId, fromDeckId: card.deckId, toDeckId, index }),
+        );
+    },
+
+    toggleSubtask(subtaskId: ID) {
+        recordEdit(store, () => store.events.toggleSubtask(subtaskId));
+    },
+
+    addComment(comment: Comment) {
+        const { cards, comments } = store.stores;
+        if (!cards.getState()[comment.cardId] || comments.getState()[comment.id]) return;
+        store.events.addComment(comment);
+    },
+
+    undo() {
+        store.events.undo();
+    },
+
+    redo() {
+        store.events.redo();
+    },
+
+    canUndo() {
+        return store.stores.history.getState().past.length > 0;
+    },
+    withoutHistory(write: () => void) {
+        if (unrecordedStores.has(store)) return write();
+        unrecordedStores.add(store);
+        try {
+            write();
+        } finally {
+            unrecordedStores.delete(store);
+        }
+    },
 });
 
+// Watchers reachable from the given units: effector-react's hooks subscribe with
+// createWatch, whose nodes are the only ones in this graph without an op (stores,
+// events, maps and combines all carry one)
+function countWatchers(units: Iterable<Unit<unknown>>): number {
+    const seen = new Set<Node>();
+    const pending = [...units].map((unit) => (unit as unknown as { graphite: Node }).graphite);
+    let watchers = 0;
+    while (pending.length > 0) {
+        const node = pending.pop()!;
+        if (seen.has(node)) continue;
+        seen.add(node);
+        if (!node.meta.op) watchers++;
+        pending.push(...node.next);
+    }
+    return watchers;
+}
+
 function createEffectorAdapter(): StoreAdapter {
     return {
         name: 'Effector (ids-based)',
@@ -380,6 +938,10 @@ function createEffectorAdapter(): StoreAdapter {
         bindActions(storeHandle: StoreHandle) {
             return actions(storeHandle as EffectorStore);
         },
+        debugStats(storeHandle: StoreHandle) {
+            const { stores } = storeHandle as EffectorStore;
+            return { subscribers: countWatchers(Object.values(stores)) };
+        },
     };
 }
 
@@ -1,7 +1,30 @@
 import React, { createContext, useContext } from 'react';
-import { observable, runInAction, type ObservableMap, type IObservableValue } from 'mobx';
+import {
+    observable,
+    computed,
+    comparer,
+    runInAction,
+    observe,
+    getAtom,
+    getObserverTree,
+    isBoxedObservable,
+    isObservableArray,
+    isObservableMap,
+    isObservableObject,
+    type ObservableMap,
+    type IDepTreeNode,
+    type IObservableValue,
+    type IComputedValue,
+} from 'mobx';
 import { useObserver, observer } from 'mobx-react-lite';
-import type { StoreAdapter, StoreHandle, ViewModelHooksIdsBased } from '@bench/core';
+import type {
+    StoreAdapter,
+    StoreHandle,
+    ViewModelHooksIdsBased,
+    TagHistogram,
+    CardSortKey,
+    MockServer,
+} from '@bench/core';
 import type {
     RootState,
     ID,
@@ -12,6 +35,7 @@ import type {
     Tag,
     CardAssignment,
     CardTag,
+    Subtask,
 } from '@bench/core';
 
 // ---------------------------------------------------------------------------
@@ -24,19 +48,102 @@ import type {
 // `useObserver(...)` from mobx-react-lite to make just that read reactive — the
 // canonical way to consume MobX from plain function components.
 //
-// Like the other adapters, structural relationship indexes (deck->cards,
-// card->comments, card->users) never change in the workloads and are built once;
-// the card->cardTags index is the only one mutated (bulk tag toggle) and is
-// updated incrementally for affected cards only.
+// Like the other adapters, relationship indexes (deck->cards, card->comments,
+// card->users, card->cardTags, card->tags, parent->subtasks) are built once and
+// then updated incrementally for the affected keys only (bulk tag toggle,
+// structural create/delete/move).
+//
+// Derived data (deck comment counts, deck tag histograms, user workload) are
+// `computed`s over those indexes, created lazily per key and cached by MobX
+// while observed.
+//
+// Undo history is a log of the writes each edit made, collected by `observe`
+// listeners on the maps: a map change carries its old value, so every write
+// comes with its inverse.
 // ---------------------------------------------------------------------------
 
 type IndexMap = Record<ID, ID[]>;
 
+// One write of an undoable edit, replayable in both directions
+type Patch = { undo(): void; redo(): void };
+
+type History = {
+    past: Patch[][];
+    future: Patch[][];
+    // Writes of the edit being recorded; null outside recordEdit
+    pending: Patch[] | null;
+    // Set inside withoutHistory: edits are applied but not recorded
+    paused: boolean;
+};
+
+// Edits kept for undo; older ones are dropped
+const HISTORY_LIMIT = 500;
+
+function createHistory(): History {
+    return { past: [], future: [], pending: null, paused: false };
+}
+
+// Logs every add/update/delete on `map` made while an edit is being recorded.
+function recordMapWrites<V>(history: History, map: ObservableMap<ID, V>) {
+    observe(map, (change) => {
+        if (!history.pending) return;
+        const key = change.name;
+        const prev = change.type === 'add' ? undefined : change.oldValue;
+        const next = change.type === 'delete' ? undefined : change.newValue;
+        const write = (value: V | undefined) =>
+            value === undefined ? map.delete(key) : map.set(key, value);
+        history.pending.push({ undo: () => write(prev), redo: () => write(next) });
+    });
+}
+
+// Runs one edit as an action; the writes it makes become one undo entry.
+function recordEdit(history: History, edit: () => void) {
+    if (history.paused) return runInAction(edit);
+    const patches: Patch[] = (history.pending = []);
+    runInAction(edit);
+    history.pending = null;
+    if (patches.length === 0) return;
+    history.past.push(patches);
+    if (history.past.length > HISTORY_LIMIT) history.past.shift();
+    history.future = [];
+}
+
+function undoEdit(history: History) {
+    const patches = history.past.pop();
+    if (!patches) return;
+    runInAction(() => {
+        for (let i = patches.length - 1; i >= 0; i--) patches[i]!.undo();
+    });
+    history.future.push(patches);
+}
+
+function redoEdit(history: History) {
+    const patches = history.future.pop();
+    if (!patches) return;
+    runInAction(() => {
+        for (const patch of patches) patch.redo();
+    });
+    history.past.push(patches);
+}
+
+// Runs `write` with recordEdit paused, so its edits are applied but not recorded.
+function withoutHistory(history: History, write: () => void) {
+    if (history.paused) return write();
+    history.paused = true;
+    try {
+        write();
+    } finally {
+        history.paused = false;
+    }
+}
+
 function buildIndexes(initialData: RootState): {
     cardIdsByDeckId: IndexMap;
     commentIdsByCardId: IndexMap;
     userIdsByCardId: IndexMap;
     cardTagIdsByCardId: IndexMap;
+    tagIdsByCardId: IndexMap;
+    subtaskIdsByParentId: IndexMap;
 } {
     const cardIdsByDeckId: IndexMap = {};
     for (const card of Object.values(initialData.entities.cards)) {
@@ -61,11 +168,186 @@ function buildIndexes(initialData: RootState): {
     }
 
     const cardTagIdsByCardId: IndexMap = {};
+    const tagIdsByCardId: IndexMap = {};
     for (const cardTag of Object.values(initialData.entities.cardTags)) {
-        (cardTagIdsByCardId[cardTag.cardId] ??= []).push(cardTag.id);
+        const { cardId, tagId } = cardTag;
+        (cardTagIdsByCardId[cardId] ??= []).push(cardTag.id);
+        // A card may carry the same tag twice; the tag index keeps it once.
+        if (!tagId || !initialData.entities.tags[tagId]) continue;
+        const tagIds = (tagIdsByCardId[cardId] ??= []);
+        if (!tagIds.includes(tagId)) tagIds.push(tagId);
+    }
+
+    const subtaskIdsByParentId: IndexMap = {};
+    for (const subtask of Object.values(initialData.entities.subtasks)) {
+        (subtaskIdsByParentId[subtask.parentId] ??= []).push(subtask.id);
     }
 
-    return { cardIdsByDeckId, commentIdsByCardId, userIdsByCardId, cardTagIdsByCardId };
+    return {
+        cardIdsByDeckId,
+        commentIdsByCardId,
+        userIdsByCardId,
+        cardTagIdsByCardId,
+        tagIdsByCardId,
+        subtaskIdsByParentId,
+    };
+}
+
+// Distinct tag ids behind a card's cardTag ids, in cardTag order.
+function distinctTagIds(cardTagIds: ID[], cardTags: ObservableMap<ID, CardTag>): ID[] {
+    const tagIds: ID[] = [];
+    for (const id of cardTagIds) {
+        const tagId = cardTags.get(id)?.tagId;
+        if (tagId && !tagIds.includes(tagId)) tagIds.push(tagId);
+    }
+    return tagIds;
+}
+
+// Returns a new array with `id` inserted at `index` (clamped), leaving `ids` intact
+// so the index map entry gets a new reference.
+function insertAt(ids: ID[], id: ID, index: number): ID[] {
+    const next = ids.slice();
+    next.splice(Math.max(0, Math.min(index, next.length)), 0, id);
+    return next;
+}
+
+// All subtask ids in the checklist tree under `parentId` (not including it).
+function collectSubtaskIds(childIdsByParentId: ObservableMap<ID, ID[]>, parentId: ID): ID[] {
+    const result: ID[] = [];
+    const pending = [...(childIdsByParentId.get(parentId) ?? [])];
+    while (pending.length > 0) {
+        const id = pending.pop()!;
+        result.push(id);
+        pending.push(...(childIdsByParentId.get(id) ?? []));
+    }
+    return result;
+}
+
+// Timestamps newest first, titles A to Z; Array#sort is stable, so ties keep the
+// deck's insertion order
+function compareCards(a: Card, b: Card, sortKey: CardSortKey): number {
+    if (sortKey === 'title') return a.title < b.title ? -1 : a.title > b.title ? 1 : 0;
+    return b[sortKey] - a[sortKey];
+}
+
+type DerivationSources = {
+    cardIdsByDeckId: ObservableMap<ID, ID[]>;
+    commentIdsByCardId: ObservableMap<ID, ID[]>;
+    userIdsByCardId: ObservableMap<ID, ID[]>;
+    tagIdsByCardId: ObservableMap<ID, ID[]>;
+    cards: ObservableMap<ID, Card>;
+    comments: ObservableMap<ID, Comment>;
+    searchQuery: IObservableValue<string>;
+};
+
+// One computed per deck / user, shared by every reader of that key.
+function createDerivations(sources: DerivationSources) {
+    const commentCounts = new Map<ID, IComputedValue<number>>();
+    const histograms = new Map<ID, IComputedValue<TagHistogram>>();
+    const workloads = new Map<ID, IComputedValue<number>>();
+    const searches = new Map<ID, IComputedValue<ID[]>>();
+    const sorts = new Map<string, IComputedValue<ID[]>>();
+    const normalizedQuery = computed(() => sources.searchQuery.get().trim().toLowerCase());
+    // Workload of every user at once: one pass per card->users index change.
+    const workloadByUserId = computed(() => {
+        const workload: Record<ID, number> = {};
+        for (const userIds of sources.userIdsByCardId.values()) {
+            for (const userId of userIds) workload[userId] = (workload[userId] ?? 0) + 1;
+        }
+        return workload;
+    });
+
+    return {
+        commentCount(deckId: ID): number {
+            let c = commentCounts.get(deckId);
+            if (!c) {
+                c = computed(() => {
+                    let count = 0;
+                    for (const cardId of sources.cardIdsByDeckId.get(deckId) ?? []) {
+                        count += sources.commentIdsByCardId.get(cardId)?.length ?? 0;
+                    }
+                    return count;
+                });
+                commentCounts.set(deckId, c);
+            }
+            return c.get();
+        },
+        tagHistogram(deckId: ID): TagHistogram {
+            let c = histograms.get(deckId);
+            if (!c) {
+                c = computed(
+                    () => {
+                        const histogram: TagHistogram = {};
+                        for (const cardId of sources.cardIdsByDeckId.get(deckId) ?? []) {
+                            for (const tagId of sources.tagIdsByCardId.get(cardId) ?? []) {
+                                histogram[tagId] = (histogram[tagId] ?? 0) + 1;
+                            }
+                        }
+                        return histogram;
+                    },
+                    // Keep the previous histogram while the counts are unchanged
+                    { equals: comparer.shallow },
+                );
+                histograms.set(deckId, c);
+            }
+            return c.get();
+        },
+        assigneeWorkload(userId: ID): number {
+            let c = workloads.get(userId);
+            if (!c) {
+                c = computed(() => workloadByUserId.get()[userId] ?? 0);
+                workloads.set(userId, c);
+            }
+            return c.get();
+        },
+        filteredCardIds(deckId: ID): ID[] {
+            let c = searches.get(deckId);
+            if (!c) {
+                c = computed(
+                    () => {
+                        const cardIds = sources.cardIdsByDeckId.get(deckId) ?? EMPTY_ID_ARRAY;
+                        const query = normalizedQuery.get();
+                        if (!query) return cardIds;
+                        return cardIds.filter((cardId) => {
+                            const card = sources.cards.get(cardId);
+                            if (!card) return false;
+                            if (card.title.toLowerCase().includes(query)) return true;
+                            if (card.description.toLowerCase().includes(query)) return true;
+                            return (sources.commentIdsByCardId.get(cardId) ?? []).some((id) =>
+                                sources.comments.get(id)?.text.toLowerCase().includes(query),
+                            );
+                        });
+                    },
+                    // Keep the previous list while the matching ids are unchanged
+                    { equals: comparer.shallow },
+                );
+                searches.set(deckId, c);
+            }
+            return c.get();
+        },
+        sortedCardIds(deckId: ID, sortKey: CardSortKey): ID[] {
+            const cacheKey = `${sortKey}:${deckId}`;
+            let c = sorts.get(cacheKey);
+            if (!c) {
+                c = computed(
+                    () => {
+                        const cards: Card[] = [];
+                        for (const cardId of sources.cardIdsByDeckId.get(deckId) ?? []) {
+                            const card = sources.cards.get(cardId);
+                            if (card) cards.push(card);
+                        }
+                        return cards
+                            .sort((a, b) => compareCards(a, b, sortKey))
+                            .map((card) => card.id);
+                    },
+                    // Keep the previous list while the order is unchanged
+                    { equals: comparer.shallow },
+                );
+                sorts.set(cacheKey, c);
+            }
+            return c.get();
+        },
+    };
 }
 
 function createMobxStore(initialData: RootState) {
@@ -90,8 +372,13 @@ function createMobxStore(initialData: RootState) {
         initialData.entities.cardTags,
         shallow,
     );
+    const subtasks: ObservableMap<ID, Subtask> = observable.map(
+        initialData.entities.subtasks,
+        shallow,
+    );
 
     const activeDeckId: IObservableValue<ID | null> = observable.box(initialData.activeDeckId);
+    const searchQuery: IObservableValue<string> = observable.box('');
 
     // Relationship indexes — all observable (live per-key subscriptions in hooks),
     // for parity with the other adapters (every CardItem hook is a real subscription).
@@ -107,10 +394,34 @@ function createMobxStore(initialData: RootState) {
         indexes.userIdsByCardId,
         shallow,
     );
-    const tagIdsByCardId: ObservableMap<ID, ID[]> = observable.map(
+    const cardTagIdsByCardId: ObservableMap<ID, ID[]> = observable.map(
         indexes.cardTagIdsByCardId,
         shallow,
     );
+    const tagIdsByCardId: ObservableMap<ID, ID[]> = observable.map(indexes.tagIdsByCardId, shallow);
+    const childIdsByParentId: ObservableMap<ID, ID[]> = observable.map(
+        indexes.subtaskIdsByParentId,
+        shallow,
+    );
+
+    const history = createHistory();
+    for (const map of [
+        cards,
+        comments,
+        users,
+        tags,
+        cardAssignments,
+        cardTags,
+        subtasks,
+        cardIdsByDeckId,
+        commentIdsByCardId,
+        userIdsByCardId,
+        cardTagIdsByCardId,
+        tagIdsByCardId,
+        childIdsByParentId,
+    ] as ObservableMap<ID, unknown>[]) {
+        recordMapWrites(history, map);
+    }
 
     return {
         cards,
@@ -120,12 +431,26 @@ function createMobxStore(initialData: RootState) {
         tags,
         cardAssignments,
         cardTags,
+        subtasks,
         activeDeckId,
+        searchQuery,
         decksOrder: initialData.decksOrder,
         cardIdsByDeckId,
         commentIdsByCardId,
         userIdsByCardId,
+        cardTagIdsByCardId,
         tagIdsByCardId,
+        childIdsByParentId,
+        history,
+        derived: createDerivations({
+            cardIdsByDeckId,
+            commentIdsByCardId,
+            userIdsByCardId,
+            tagIdsByCardId,
+            cards,
+            comments,
+            searchQuery,
+        }),
     };
 }
 
@@ -170,10 +495,22 @@ function createHooks(): ViewModelHooksIdsBased {
             const store = useStore();
             return useObserver(() => store.users.get(id));
         },
+        useTagById(id: ID): Tag | undefined {
+            const store = useStore();
+            return useObserver(() => store.tags.get(id));
+        },
+        useSubtaskById(id: ID): Subtask | undefined {
+            const store = useStore();
+            return useObserver(() => store.subtasks.get(id));
+        },
         useActiveDeckId(): ID | null {
             const store = useStore();
             return useObserver(() => store.activeDeckId.get());
         },
+        useSearchQuery(): string {
+            const store = useStore();
+            return useObserver(() => store.searchQuery.get());
+        },
         useCardIdsByDeckId(deckId: ID): ID[] {
             const store = useStore();
             return useObserver(() => store.cardIdsByDeckId.get(deckId) ?? EMPTY_ID_ARRAY);
@@ -190,6 +527,30 @@ function createHooks(): ViewModelHooksIdsBased {
             const store = useStore();
             return useObserver(() => store.tagIdsByCardId.get(cardId) ?? EMPTY_ID_ARRAY);
         },
+        useChildIdsByParentId(parentId: ID): ID[] {
+            const store = useStore();
+            return useObserver(() => store.childIdsByParentId.get(parentId) ?? EMPTY_ID_ARRAY);
+        },
+        useFilteredCardIdsByDeckId(deckId: ID): ID[] {
+            const store = useStore();
+            return useObserver(() => store.derived.filteredCardIds(deckId));
+        },
+        useSortedCardIdsByDeckId(deckId: ID, sortKey: CardSortKey): ID[] {
+            const store = useStore();
+            return useObserver(() => store.derived.sortedCardIds(deckId, sortKey));
+        },
+        useCommentCountByDeckId(deckId: ID): number {
+            const store = useStore();
+            return useObserver(() => store.derived.commentCount(deckId));
+        },
+        useTagHistogramByDeckId(deckId: ID): TagHistogram {
+            const store = useStore();
+            return useObserver(() => store.derived.tagHistogram(deckId));
+        },
+        useAssigneeWorkload(userId: ID): number {
+            const store = useStore();
+            return useObserver(() => store.derived.assigneeWorkload(userId));
+        },
     };
 }
 
@@ -198,8 +559,12 @@ const actions = (store: MobxStore) => ({
         runInAction(() => store.activeDeckId.set(id));
     },
 
+    setSearchQuery(query: string) {
+        runInAction(() => store.searchQuery.set(query));
+    },
+
     updateCard(cardId: ID, changes: Partial<Card>) {
-        runInAction(() => {
+        recordEdit(store.history, () => {
             const existing = store.cards.get(cardId);
             if (!existing) return;
             store.cards.set(cardId, { ...existing, ...changes });
@@ -207,13 +572,35 @@ const actions = (store: MobxStore) => ({
     },
 
     updateCommentText(commentId: ID, text: string) {
-        runInAction(() => {
+        recordEdit(store.history, () => {
             const existing = store.comments.get(commentId);
             if (existing && existing.text === text) return;
             store.comments.set(commentId, { ...(existing as Comment), id: commentId, text });
         });
     },
 
+    async saveCommentText(commentId: ID, text: string, server: MockServer) {
+        const readText = () => store.comments.get(commentId)?.text;
+        const writeText = (value: string) =>
+            recordEdit(store.history, () => {
+                const existing = store.comments.get(commentId);
+                if (!existing || existing.text === value) return;
+                store.comments.set(commentId, { ...existing, text: value });
+            });
+        const previous = readText();
+        if (previous === undefined) return false;
+        writeText(text);
+        try {
+            await server.request('comments/save', { id: commentId, text });
+            return true;
+        } catch {
+            // Roll back unless a later edit replaced the optimistic text; the write
+            // runs in its own action, after the await
+            if (readText() === text) writeText(previous);
+            return false;
+        }
+    },
+
     setCommentEditing(commentId: ID, isEditing: boolean) {
         runInAction(() => {
             const existing = store.comments.get(commentId);
@@ -227,18 +614,34 @@ const actions = (store: MobxStore) => ({
     },
 
     renameUser(userId: ID, name: string) {
-        runInAction(() => {
+        recordEdit(store.history, () => {
             const existing = store.users.get(userId);
             if (existing && existing.name === name) return;
             store.users.set(userId, { ...(existing as User), id: userId, name });
         });
     },
 
+    renameTag(tagId: ID, label: string) {
+        recordEdit(store.history, () => {
+            const existing = store.tags.get(tagId);
+            if (!existing || existing.label === label) return;
+            store.tags.set(tagId, { ...existing, label });
+        });
+    },
+
+    recolorTag(tagId: ID, color: string) {
+        recordEdit(store.history, () => {
+            const existing = store.tags.get(tagId);
+            if (!existing || existing.color === color) return;
+            store.tags.set(tagId, { ...existing, color });
+        });
+    },
+
     bulkToggleTagOnCards(cardIds: ID[], tagId: ID) {
-        runInAction(() => {
+        recordEdit(store.history, () => {
             let counter = store.cardTags.size;
             for (const cardId of cardIds) {
-                const existingTagIds = store.tagIdsByCardId.get(cardId) ?? EMPTY_ID_ARRAY;
+                const existingTagIds = store.cardTagIdsByCardId.get(cardId) ?? EMPTY_ID_ARRAY;
                 // Find existing cardTag for this (cardId, tagId) via the per-card
                 // index — O(tags-per-card), not O(all cardTags).
                 let existingId: ID | undefined;
@@ -250,10 +653,10 @@ const actions = (store: MobxStore) => ({
                 }
                 if (existingId) {
                     store.cardTags.delete(existingId);
-                    store.tagIdsByCardId.set(
-                        cardId,
-                        existingTagIds.filter((id) => id !== existingId),
-                    );
+                    const next = existingTagIds.filter((id) => id !== existingId);
+                    store.cardTagIdsByCardId.set(cardId, next);
+                    // The tag stays if the card carried it more than once.
+                    store.tagIdsByCardId.set(cardId, distinctTagIds(next, store.cardTags));
                 } else {
                     const newCardTag: CardTag = {
                         id: `cardtag_${counter++}`,
@@ -262,12 +665,89 @@ const actions = (store: MobxStore) => ({
                         createdAt: Date.now(),
                     };
                     store.cardTags.set(newCardTag.id, newCardTag);
-                    store.tagIdsByCardId.set(cardId, [...existingTagIds, newCardTag.id]);
+                    store.cardTagIdsByCardId.set(cardId, [...existingTagIds, newCardTag.id]);
+                    const tagIds = store.tagIdsByCardId.get(cardId) ?? EMPTY_ID_ARRAY;
+                    store.tagIdsByCardId.set(cardId, [...tagIds, tagId]);
                 }
             }
         });
     },
 
+    createCard(card: Card) {
+        recordEdit(store.history, () => {
+            if (!store.decks.has(card.deckId) || store.cards.has(card.id)) return;
+            store.cards.set(card.id, card);
+            const cardIds = store.cardIdsByDeckId.get(card.deckId) ?? EMPTY_ID_ARRAY;
+            store.cardIdsByDeckId.set(card.deckId, [...cardIds, card.id]);
+        });
+    },
+
+    deleteCard(cardId: ID) {
+        recordEdit(store.history, () => {
+            const card = store.cards.get(cardId);
+            if (!card) return;
+            for (const id of store.commentIdsByCardId.get(cardId) ?? EMPTY_ID_ARRAY) {
+                store.comments.delete(id);
+            }
+            for (const id of store.cardTagIdsByCardId.get(cardId) ?? EMPTY_ID_ARRAY) {
+                store.cardTags.delete(id);
+            }
+            for (const [id, assignment] of store.cardAssignments) {
+                if (assignment.cardId === cardId) store.cardAssignments.delete(id);
+            }
+            for (const id of collectSubtaskIds(store.childIdsByParentId, cardId)) {
+                store.subtasks.delete(id);
+                store.childIdsByParentId.delete(id);
+            }
+            store.childIdsByParentId.delete(cardId);
+            store.commentIdsByCardId.delete(cardId);
+            store.userIdsByCardId.delete(cardId);
+            store.cardTagIdsByCardId.delete(cardId);
+            store.tagIdsByCardId.delete(cardId);
+            const cardIds = store.cardIdsByDeckId.get(card.deckId);
+            if (cardIds) {
+                store.cardIdsByDeckId.set(
+                    card.deckId,
+                    cardIds.filter((id) => id !== cardId),
+                );
+            }
+            store.cards.delete(cardId);
+        });
+    },
+
+    moveCard(cardId: ID, toDeckId: ID, index: number) {
+        recordEdit(store.history, () => {
+            const card = store.cards.get(cardId);
+            if (!card || !store.decks.has(toDeckId)) return;
+            const fromIds = store.cardIdsByDeckId.get(card.deckId) ?? EMPTY_ID_ARRAY;
+            store.cardIdsByDeckId.set(
+                card.deckId,
+                fromIds.filter((id) => id !== cardId),
+            );
+            const toIds = store.cardIdsByDeckId.get(toDeckId) ?? EMPTY_ID_ARRAY;
+            store.cardIdsByDeckId.set(toDeckId, insertAt(toIds, cardId, index));
+            if (card.deckId !== toDeckId) store.cards.set(cardId, { ...card, deckId: toDeckId });
+        });
+    },
+
+    toggleSubtask(subtaskId: ID) {
+        recordEdit(store.history, () => {
+            const existing = store.subtasks.get(subtaskId);
+            if (!existing) return;
+            store.subtasks.set(subtaskId, { ...existing, done: !existing.done });
+        });
+    },
+
+    addComment(comment: Comment) {
+        // A server push: an action, but not a recorded edit
+        runInAction(() => {
+            if (!store.cards.has(comment.cardId) || store.comments.has(comment.id)) return;
+            store.comments.set(comment.id, comment);
+            const commentIds = store.commentIdsByCardId.get(comment.cardId) ?? EMPTY_ID_ARRAY;
+            store.commentIdsByCardId.set(comment.cardId, [...commentIds, comment.id]);
+        });
+    },
+
     backgroundChurnStart() {
         runInAction(() => {
             let count = 0;
@@ -286,8 +766,47 @@ const actions = (store: MobxStore) => ({
             store.cards.set(cardId, { ...existing, isVisible });
         });
     },
+
+    undo() {
+        undoEdit(store.history);
+    },
+
+    redo() {
+        redoEdit(store.history);
+    },
+
+    canUndo() {
+        return store.history.past.length > 0;
+    },
+
+    withoutHistory(write: () => void) {
+        withoutHistory(store.history, write);
+    },
 });
 
+// Observers (reactions of useObserver hooks and observer() components, computeds
+// in use) of a store's maps, map entries and boxes; for deep maps, of the entries'
+// fields too, so this serves both variants. One reaction reading several of them
+// counts once per observable, like a subscription per key elsewhere.
+function countObservers(store: object): number {
+    const atoms: IDepTreeNode[] = [];
+    for (const value of Object.values(store)) {
+        if (isBoxedObservable(value)) atoms.push(getAtom(value));
+        if (!isObservableMap(value)) continue;
+        atoms.push(getAtom(value));
+        for (const [key, entry] of value) {
+            atoms.push(getAtom(value, key));
+            if (!isObservableObject(entry)) continue;
+            for (const field of Object.keys(entry)) {
+                atoms.push(getAtom(entry, field));
+                const fieldValue = (entry as Record<string, unknown>)[field];
+                if (isObservableArray(fieldValue)) atoms.push(getAtom(fieldValue));
+            }
+        }
+    }
+    return atoms.reduce((sum, atom) => sum + (getObserverTree(atom).observers?.length ?? 0), 0);
+}
+
 function createMobxAdapter(): StoreAdapter {
     return {
         name: 'MobX (ids-based)',
@@ -299,6 +818,9 @@ function createMobxAdapter(): StoreAdapter {
         bindActions(storeHandle: StoreHandle) {
             return actions(storeHandle as MobxStore);
         },
+        debugStats(storeHandle: StoreHandle) {
+            return { subscribers: countObservers(storeHandle as MobxStore) };
+        },
     };
 }
 
@@ -322,8 +844,11 @@ function createMobxDeepStore(initialData: RootState) {
     const decks: ObservableMap<ID, Deck> = observable.map(initialData.entities.decks);
     const comments: ObservableMap<ID, Comment> = observable.map(initialData.entities.comments);
     const users: ObservableMap<ID, User> = observable.map(initialData.entities.users);
+    const tags: ObservableMap<ID, Tag> = observable.map(initialData.entities.tags);
     const cardTags: ObservableMap<ID, CardTag> = observable.map(initialData.entities.cardTags);
+    const subtasks: ObservableMap<ID, Subtask> = observable.map(initialData.entities.subtasks);
     const activeDeckId: IObservableValue<ID | null> = observable.box(initialData.activeDeckId);
+    const searchQuery: IObservableValue<string> = observable.box('');
     const shallow = { deep: false } as const;
     const cardIdsByDeckId: ObservableMap<ID, ID[]> = observable.map(
         indexes.cardIdsByDeckId,
@@ -337,26 +862,74 @@ function createMobxDeepStore(initialData: RootState) {
         indexes.userIdsByCardId,
         shallow,
     );
-    const tagIdsByCardId: ObservableMap<ID, ID[]> = observable.map(
+    const cardTagIdsByCardId: ObservableMap<ID, ID[]> = observable.map(
         indexes.cardTagIdsByCardId,
         shallow,
     );
+    const tagIdsByCardId: ObservableMap<ID, ID[]> = observable.map(indexes.tagIdsByCardId, shallow);
+    const childIdsByParentId: ObservableMap<ID, ID[]> = observable.map(
+        indexes.subtaskIdsByParentId,
+        shallow,
+    );
+    // Map writes are logged like in the shallow store; in-place field writes have no
+    // map-level change, so the actions log those themselves (see assignFields).
+    const history = createHistory();
+    for (const map of [
+        cards,
+        comments,
+        cardTags,
+        subtasks,
+        cardIdsByDeckId,
+        commentIdsByCardId,
+        userIdsByCardId,
+        cardTagIdsByCardId,
+        tagIdsByCardId,
+        childIdsByParentId,
+    ] as ObservableMap<ID, unknown>[]) {
+        recordMapWrites(history, map);
+    }
     return {
         cards,
         decks,
         comments,
         users,
+        tags,
         cardTags,
+        subtasks,
         activeDeckId,
+        searchQuery,
         decksOrder: initialData.decksOrder,
         cardIdsByDeckId,
         commentIdsByCardId,
         userIdsByCardId,
+        cardTagIdsByCardId,
         tagIdsByCardId,
+        childIdsByParentId,
+        history,
+        derived: createDerivations({
+            cardIdsByDeckId,
+            commentIdsByCardId,
+            userIdsByCardId,
+            tagIdsByCardId,
+            cards,
+            comments,
+            searchQuery,
+        }),
     };
 }
 
 type MobxDeepStore = ReturnType<typeof createMobxDeepStore>;
+
+// Writes fields of an entity in place, logging their previous values for undo.
+function assignFields<T extends object>(history: History, target: T, changes: Partial<T>) {
+    const prev: Partial<T> = {};
+    for (const key in changes) prev[key] = target[key];
+    history.pending?.push({
+        undo: () => Object.assign(target, prev),
+        redo: () => Object.assign(target, changes),
+    });
+    Object.assign(target, changes);
+}
 const MobxDeepStoreContext = createContext<MobxDeepStore | null>(null);
 const MobxDeepProvider: React.FC<{ store: StoreHandle; children?: React.ReactNode }> = ({
     store,
@@ -393,9 +966,18 @@ function createDeepHooks(): ViewModelHooksIdsBased {
         useUserById(id: ID): User | undefined {
             return useDeepStore().users.get(id);
         },
+        useTagById(id: ID): Tag | undefined {
+            return useDeepStore().tags.get(id);
+        },
+        useSubtaskById(id: ID): Subtask | undefined {
+            return useDeepStore().subtasks.get(id);
+        },
         useActiveDeckId(): ID | null {
             return useDeepStore().activeDeckId.get();
         },
+        useSearchQuery(): string {
+            return useDeepStore().searchQuery.get();
+        },
         useCardIdsByDeckId(deckId: ID): ID[] {
             return useDeepStore().cardIdsByDeckId.get(deckId) ?? EMPTY_ID_ARRAY;
         },
@@ -408,6 +990,24 @@ function createDeepHooks(): ViewModelHooksIdsBased {
         useTagIdsByCardId(cardId: ID): ID[] {
             return useDeepStore().tagIdsByCardId.get(cardId) ?? EMPTY_ID_ARRAY;
         },
+        useChildIdsByParentId(parentId: ID): ID[] {
+            return useDeepStore().childIdsByParentId.get(parentId) ?? EMPTY_ID_ARRAY;
+        },
+        useFilteredCardIdsByDeckId(deckId: ID): ID[] {
+            return useDeepStore().derived.filteredCardIds(deckId);
+        },
+        useSortedCardIdsByDeckId(deckId: ID, sortKey: CardSortKey): ID[] {
+            return useDeepStore().derived.sortedCardIds(deckId, sortKey);
+        },
+        useCommentCountByDeckId(deckId: ID): number {
+            return useDeepStore().derived.commentCount(deckId);
+        },
+        useTagHistogramByDeckId(deckId: ID): TagHistogram {
+            return useDeepStore().derived.tagHistogram(deckId);
+        },
+        useAssigneeWorkload(userId: ID): number {
+            return useDeepStore().derived.assigneeWorkload(userId);
+        },
     };
 }
 
@@ -415,20 +1015,43 @@ const deepActions = (store: MobxDeepStore) => ({
     setActiveDeck(id: ID) {
         runInAction(() => store.activeDeckId.set(id));
     },
+    setSearchQuery(query: string) {
+        runInAction(() => store.searchQuery.set(query));
+    },
     updateCard(cardId: ID, changes: Partial<Card>) {
-        runInAction(() => {
+        recordEdit(store.history, () => {
             const c = store.cards.get(cardId);
             if (!c) return;
-            Object.assign(c, changes); // in-place mutation — no new object
+            assignFields(store.history, c, changes); // in-place mutation — no new object
         });
     },
     updateCommentText(commentId: ID, text: string) {
-        runInAction(() => {
+        recordEdit(store.history, () => {
             const c = store.comments.get(commentId);
             if (!c || c.text === text) return;
-            c.text = text;
+            assignFields(store.history, c, { text });
         });
     },
+    async saveCommentText(commentId: ID, text: string, server: MockServer) {
+        const readText = () => store.comments.get(commentId)?.text;
+        const writeText = (value: string) =>
+            recordEdit(store.history, () => {
+                const c = store.comments.get(commentId);
+                if (!c || c.text === value) return;
+                assignFields(store.history, c, { text: value });
+            });
+        const previous = readText();
+        if (previous === undefined) return false;
+        writeText(text);
+        try {
+            await server.request('comments/save', { id: commentId, text });
+            return true;
+        } catch {
+            // Roll back unless a later edit replaced the optimistic text
+            if (readText() === text) writeText(previous);
+            return false;
+        }
+    },
     setCommentEditing(commentId: ID, isEditing: boolean) {
         runInAction(() => {
             const c = store.comments.get(commentId);
@@ -437,17 +1060,31 @@ const deepActions = (store: MobxDeepStore) => ({
         });
     },
     renameUser(userId: ID, name: string) {
-        runInAction(() => {
+        recordEdit(store.history, () => {
             const u = store.users.get(userId);
             if (!u || u.name === name) return;
-            u.name = name;
+            assignFields(store.history, u, { name });
+        });
+    },
+    renameTag(tagId: ID, label: string) {
+        recordEdit(store.history, () => {
+            const t = store.tags.get(tagId);
+            if (!t || t.label === label) return;
+            assignFields(store.history, t, { label }); // in-place
+        });
+    },
+    recolorTag(tagId: ID, color: string) {
+        recordEdit(store.history, () => {
+            const t = store.tags.get(tagId);
+            if (!t || t.color === color) return;
+            assignFields(store.history, t, { color }); // in-place
         });
     },
     bulkToggleTagOnCards(cardIds: ID[], tagId: ID) {
-        runInAction(() => {
+        recordEdit(store.history, () => {
             let counter = store.cardTags.size;
             for (const cardId of cardIds) {
-                const existingTagIds = store.tagIdsByCardId.get(cardId) ?? EMPTY_ID_ARRAY;
+                const existingTagIds = store.cardTagIdsByCardId.get(cardId) ?? EMPTY_ID_ARRAY;
                 let existingId: ID | undefined;
                 for (const ctId of existingTagIds) {
                     if (store.cardTags.get(ctId)?.tagId === tagId) {
@@ -457,10 +1094,10 @@ const deepActions = (store: MobxDeepStore) => ({
                 }
                 if (existingId) {
                     store.cardTags.delete(existingId);
-                    store.tagIdsByCardId.set(
-                        cardId,
-                        existingTagIds.filter((id) => id !== existingId),
-                    );
+                    const next = existingTagIds.filter((id) => id !== existingId);
+                    store.cardTagIdsByCardId.set(cardId, next);
+                    // The tag stays if the card carried it more than once.
+                    store.tagIdsByCardId.set(cardId, distinctTagIds(next, store.cardTags));
                 } else {
                     const newCardTag: CardTag = {
                         id: `cardtag_${counter++}`,
@@ -469,11 +1106,80 @@ const deepActions = (store: MobxDeepStore) => ({
                         createdAt: Date.now(),
                     };
                     store.cardTags.set(newCardTag.id, newCardTag);
-                    store.tagIdsByCardId.set(cardId, [...existingTagIds, newCardTag.id]);
+                    store.cardTagIdsByCardId.set(cardId, [...existingTagIds, newCardTag.id]);
+                    const tagIds = store.tagIdsByCardId.get(cardId) ?? EMPTY_ID_ARRAY;
+                    store.tagIdsByCardId.set(cardId, [...tagIds, tagId]);
                 }
             }
         });
     },
+    createCard(card: Card) {
+        recordEdit(store.history, () => {
+            if (!store.decks.has(card.deckId) || store.cards.has(card.id)) return;
+            store.cards.set(card.id, card);
+            const cardIds = store.cardIdsByDeckId.get(card.deckId) ?? EMPTY_ID_ARRAY;
+            store.cardIdsByDeckId.set(card.deckId, [...cardIds, card.id]);
+        });
+    },
+    deleteCard(cardId: ID) {
+        recordEdit(store.history, () => {
+            const card = store.cards.get(cardId);
+            if (!card) return;
+            for (const id of store.commentIdsByCardId.get(cardId) ?? EMPTY_ID_ARRAY) {
+                store.comments.delete(id);
+            }
+            for (const id of store.cardTagIdsByCardId.get(cardId) ?? EMPTY_ID_ARRAY) {
+                store.cardTags.delete(id);
+            }
+            // No assignment entities in this store — the card->users index is all there is.
+            for (const id of collectSubtaskIds(store.childIdsByParentId, cardId)) {
+                store.subtasks.delete(id);
+                store.childIdsByParentId.delete(id);
+            }
+            store.childIdsByParentId.delete(cardId);
+            store.commentIdsByCardId.delete(cardId);
+            store.userIdsByCardId.delete(cardId);
+            store.cardTagIdsByCardId.delete(cardId);
+            store.tagIdsByCardId.delete(cardId);
+            const cardIds = store.cardIdsByDeckId.get(card.deckId);
+            if (cardIds) {
+                store.cardIdsByDeckId.set(
+                    card.deckId,
+                    cardIds.filter((id) => id !== cardId),
+                );
+            }
+            store.cards.delete(cardId);
+        });
+    },
+    moveCard(cardId: ID, toDeckId: ID, index: number) {
+        recordEdit(store.history, () => {
+            const card = store.cards.get(cardId);
+            if (!card || !store.decks.has(toDeckId)) return;
+            const fromIds = store.cardIdsByDeckId.get(card.deckId) ?? EMPTY_ID_ARRAY;
+            store.cardIdsByDeckId.set(
+                card.deckId,
+                fromIds.filter((id) => id !== cardId),
+            );
+            const toIds = store.cardIdsByDeckId.get(toDeckId) ?? EMPTY_ID_ARRAY;
+            store.cardIdsByDeckId.set(toDeckId, insertAt(toIds, cardId, index));
+            assignFields(store.history, card, { deckId: toDeckId }); // in-place
+        });
+    },
+    toggleSubtask(subtaskId: ID) {
+        recordEdit(store.history, () => {
+            const s = store.subtasks.get(subtaskId);
+            if (!s) return;
+            assignFields(store.history, s, { done: !s.done }); // in-place
+        });
+    },
+    addComment(comment: Comment) {
+        runInAction(() => {
+            if (!store.cards.has(comment.cardId) || store.comments.has(comment.id)) return;
+            store.comments.set(comment.id, comment);
+            const commentIds = store.commentIdsByCardId.get(comment.cardId) ?? EMPTY_ID_ARRAY;
+            store.commentIdsByCardId.set(comment.cardId, [...commentIds, comment.id]);
+        });
+    },
     backgroundChurnStart() {
         runInAction(() => {
             let count = 0;
@@ -493,6 +1199,18 @@ const deepActions = (store: MobxDeepStore) => ({
             c.isVisible = isVisible;
         });
     },
+    undo() {
+        undoEdit(store.history);
+    },
+    redo() {
+        redoEdit(store.history);
+    },
+    canUndo() {
+        return store.history.past.length > 0;
+    },
+    withoutHistory(write: () => void) {
+        withoutHistory(store.history, write);
+    },
 });
 
 function createMobxDeepAdapter(): StoreAdapter {
@@ -506,6 +1224,9 @@ function createMobxDeepAdapter(): StoreAdapter {
         bindActions(storeHandle: StoreHandle) {
             return deepActions(storeHandle as MobxDeepStore);
         },
+        debugStats(storeHandle: StoreHandle) {
+            return { subscribers: countObservers(storeHandle as MobxDeepStore) };
+        },
         // Canonical MobX reactivity: wrap entity-reading leaf components in observer()
         // so direct observable reads in their JSX are tracked (no snapshot needed).
         observer: observer as <P extends object>(
@@ -16,6 +16,7 @@ function createSimpleStore(initial: RootState) {
             listeners.add(l);
             return () => listeners.delete(l);
         },
+        listenerCount: () => listeners.size,
     };
 }
 
@@ -246,6 +247,9 @@ export const placeholderAdapter: StoreAdapter = {
     bindActions(storeHandle: StoreHandle) {
         return actions(storeHandle as SimpleStore);
     },
+    debugStats(storeHandle: StoreHandle) {
+        return { subscribers: (storeHandle as SimpleStore).listenerCount() };
+    },
 };
 
 export default placeholderAdapter;
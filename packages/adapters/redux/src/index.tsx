@@ -1,13 +1,30 @@
-import React, { useMemo } from 'react';
+import React, { useContext, useMemo } from 'react';
 import {
     configureStore,
     createSlice,
     createEntityAdapter,
     createSelector,
+    createAction,
+    combineReducers,
     PayloadAction,
+    type UnknownAction,
 } from '@reduxjs/toolkit';
-import { Provider, useSelector, batch } from 'react-redux';
-import type { StoreAdapter, StoreHandle, ViewModelHooksIdsBased } from '@bench/core';
+import {
+    Provider,
+    ReactReduxContext,
+    useSelector,
+    batch,
+    shallowEqual,
+    type Subscription,
+} from 'react-redux';
+import type {
+    StoreAdapter,
+    StoreHandle,
+    ViewModelHooksIdsBased,
+    TagHistogram,
+    CardSortKey,
+    MockServer,
+} from '@bench/core';
 import type {
     RootState,
     ID,
@@ -18,6 +35,7 @@ import type {
     Tag,
     CardAssignment,
     CardTag,
+    Subtask,
 } from '@bench/core';
 
 // Extended entity types for Redux store
@@ -27,7 +45,9 @@ type CardWithCommentIds = Card & {
     userIds?: ID[];
     cardTagIds?: ID[];
     tagIds?: ID[];
+    subtaskIds?: ID[];
 };
+type SubtaskWithChildIds = Subtask & { childIds: ID[] };
 
 // Entity adapters
 const decksAdapter = createEntityAdapter<DeckWithCardIds>();
@@ -37,6 +57,7 @@ const usersAdapter = createEntityAdapter<User>();
 const tagsAdapter = createEntityAdapter<Tag>();
 const cardAssignmentsAdapter = createEntityAdapter<CardAssignment>();
 const cardTagsAdapter = createEntityAdapter<CardTag>();
+const subtasksAdapter = createEntityAdapter<SubtaskWithChildIds>();
 
 // Slices
 const decksSlice = createSlice({
@@ -52,6 +73,22 @@ const decksSlice = createSlice({
                 deck.cardIds = action.payload.cardIds;
             }
         },
+        insertCardId: (
+            state,
+            action: PayloadAction<{ deckId: ID; cardId: ID; index?: number }>,
+        ) => {
+            const deck = state.entities[action.payload.deckId];
+            if (deck) {
+                const { cardId, index = deck.cardIds.length } = action.payload;
+                deck.cardIds.splice(Math.max(0, Math.min(index, deck.cardIds.length)), 0, cardId);
+            }
+        },
+        removeCardId: (state, action: PayloadAction<{ deckId: ID; cardId: ID }>) => {
+            const deck = state.entities[action.payload.deckId];
+            if (deck) {
+                deck.cardIds = deck.cardIds.filter((id) => id !== action.payload.cardId);
+            }
+        },
     },
     extraReducers: (builder) => {
         // When cards are set, update cardIds in decks
@@ -88,6 +125,8 @@ const cardsSlice = createSlice({
     initialState: cardsAdapter.getInitialState(),
     reducers: {
         setCards: cardsAdapter.setAll,
+        addCard: cardsAdapter.addOne,
+        removeCard: cardsAdapter.removeOne,
         updateCard: cardsAdapter.updateOne,
         bulkUpdateCards: (
             state,
@@ -198,6 +237,17 @@ const cardsSlice = createSlice({
                 }
             }
         });
+        // When subtasks are set, update subtaskIds (top-level checklist items) in cards
+        builder.addCase('subtasks/setSubtasks', (state, action) => {
+            if (!('payload' in action)) return;
+            const subtasks = action.payload as Subtask[];
+            for (const subtask of subtasks) {
+                const card = state.entities[subtask.parentId];
+                if (card) {
+                    (card.subtaskIds ??= []).push(subtask.id);
+                }
+            }
+        });
     },
 });
 
@@ -206,7 +256,9 @@ const commentsSlice = createSlice({
     initialState: commentsAdapter.getInitialState(),
     reducers: {
         setComments: commentsAdapter.setAll,
+        addComment: commentsAdapter.addOne,
         updateComment: commentsAdapter.updateOne,
+        bulkRemoveComments: commentsAdapter.removeMany,
     },
 });
 
@@ -224,6 +276,7 @@ const tagsSlice = createSlice({
     initialState: tagsAdapter.getInitialState(),
     reducers: {
         setTags: tagsAdapter.setAll,
+        updateTag: tagsAdapter.updateOne,
     },
 });
 
@@ -232,6 +285,7 @@ const cardAssignmentsSlice = createSlice({
     initialState: cardAssignmentsAdapter.getInitialState(),
     reducers: {
         setCardAssignments: cardAssignmentsAdapter.setAll,
+        bulkRemoveCardAssignments: cardAssignmentsAdapter.removeMany,
     },
 });
 
@@ -247,34 +301,129 @@ const cardTagsSlice = createSlice({
     },
 });
 
+const subtasksSlice = createSlice({
+    name: 'subtasks',
+    initialState: subtasksAdapter.getInitialState(),
+    reducers: {
+        // Builds childIds for nested subtasks; card-level children go to cards (see cardsSlice)
+        setSubtasks: (state, action: PayloadAction<Subtask[]>) => {
+            subtasksAdapter.setAll(
+                state,
+                action.payload.map((subtask): SubtaskWithChildIds => ({
+                    ...subtask,
+                    childIds: [],
+                })),
+            );
+            for (const subtask of action.payload) {
+                state.entities[subtask.parentId]?.childIds.push(subtask.id);
+            }
+        },
+        toggleSubtask: (state, action: PayloadAction<ID>) => {
+            const subtask = state.entities[action.payload];
+            if (subtask) {
+                subtask.done = !subtask.done;
+            }
+        },
+        bulkRemoveSubtasks: subtasksAdapter.removeMany,
+    },
+});
+
 const appSlice = createSlice({
     name: 'app',
     initialState: {
         activeDeckId: null as ID | null,
         decksOrder: [] as ID[],
+        searchQuery: '',
     },
     reducers: {
         setActiveDeck: (state, action) => {
             state.activeDeckId = action.payload;
         },
+        setSearchQuery: (state, action: PayloadAction<string>) => {
+            state.searchQuery = action.payload;
+        },
         setDecksOrder: (state, action) => {
             state.decksOrder = action.payload;
         },
     },
 });
 
+const dataReducer = combineReducers({
+    decks: decksSlice.reducer,
+    cards: cardsSlice.reducer,
+    comments: commentsSlice.reducer,
+    users: usersSlice.reducer,
+    tags: tagsSlice.reducer,
+    cardAssignments: cardAssignmentsSlice.reducer,
+    cardTags: cardTagsSlice.reducer,
+    subtasks: subtasksSlice.reducer,
+    app: appSlice.reducer,
+});
+
+type DataState = ReturnType<typeof dataReducer>;
+// What an undo entry restores: every slice but `app` (UI state)
+type EntitiesSnapshot = Omit<DataState, 'app'>;
+type HistoryState = { past: EntitiesSnapshot[]; future: EntitiesSnapshot[] };
+type UndoableState = DataState & { history: HistoryState };
+
+// Edits kept for undo; older ones are dropped
+const HISTORY_LIMIT = 500;
+
+const historyActions = {
+    push: createAction<EntitiesSnapshot>('history/push'),
+    undo: createAction('history/undo'),
+    redo: createAction('history/redo'),
+};
+
+function entitiesOf(state: DataState): EntitiesSnapshot {
+    const { decks, cards, comments, users, tags, cardAssignments, cardTags, subtasks } = state;
+    return { decks, cards, comments, users, tags, cardAssignments, cardTags, subtasks };
+}
+
+function sameEntities(a: EntitiesSnapshot, b: EntitiesSnapshot): boolean {
+    return (Object.keys(a) as Array<keyof EntitiesSnapshot>).every((key) => a[key] === b[key]);
+}
+
+// Root reducer with undo history. Entries are snapshots of the entity slices:
+// cheap to keep, since consecutive snapshots share every untouched slice and entity.
+function undoableReducer(state: UndoableState | undefined, action: UnknownAction): UndoableState {
+    if (!state) return { ...dataReducer(undefined, action), history: { past: [], future: [] } };
+    const { history, ...data } = state;
+    if (historyActions.push.match(action)) {
+        const past = [...history.past, action.payload].slice(-HISTORY_LIMIT);
+        return { ...state, history: { past, future: [] } };
+    }
+    if (historyActions.undo.match(action)) {
+        const previous = history.past[history.past.length - 1];
+        if (!previous) return state;
+        return {
+            ...state,
+            ...previous,
+            history: {
+                past: history.past.slice(0, -1),
+                future: [...history.future, entitiesOf(data)],
+            },
+        };
+    }
+    if (historyActions.redo.match(action)) {
+        const next = history.future[history.future.length - 1];
+        if (!next) return state;
+        return {
+            ...state,
+            ...next,
+            history: {
+                past: [...history.past, entitiesOf(data)],
+                future: history.future.slice(0, -1),
+            },
+        };
+    }
+    const next = dataReducer(data, action);
+    return next === data ? state : { ...next, history };
+}
+
 function createReduxStore(initialData: RootState) {
     const store = configureStore({
-        reducer: {
-            decks: decksSlice.reducer,
-            cards: cardsSlice.reducer,
-            comments: commentsSlice.reducer,
-            users: usersSlice.reducer,
-            tags: tagsSlice.reducer,
-            cardAssignments: cardAssignmentsSlice.reducer,
-            cardTags: cardTagsSlice.reducer,
-            app: appSlice.reducer,
-        },
+        reducer: undoableReducer,
         middleware: (getDefaultMiddleware) =>
             getDefaultMiddleware({
                 serializableCheck: false,
@@ -299,6 +448,7 @@ function createReduxStore(initialData: RootState) {
                         userIds: [],
                         cardTagIds: [],
                         tagIds: [],
+                        subtaskIds: [],
                     }),
                 ),
             ),
@@ -319,6 +469,9 @@ function createReduxStore(initialData: RootState) {
             payload: Object.values(initialData.entities.cardTags),
             meta: { tags: initialData.entities.tags },
         });
+        store.dispatch(
+            subtasksSlice.actions.setSubtasks(Object.values(initialData.entities.subtasks)),
+        );
         store.dispatch(appSlice.actions.setActiveDeck(initialData.activeDeckId));
         store.dispatch(appSlice.actions.setDecksOrder(initialData.decksOrder));
     });
@@ -329,10 +482,95 @@ function createReduxStore(initialData: RootState) {
 type ReduxStore = ReturnType<typeof createReduxStore>;
 type RootReduxState = ReturnType<ReduxStore['getState']>;
 
+// Stores whose edits are applied without recording them (see withoutHistory)
+const unrecordedStores = new WeakSet<ReduxStore>();
+
+// Runs one edit (any number of dispatches) and records a single undo entry if it
+// changed the entity slices.
+function recordEdit(store: ReduxStore, edit: () => void) {
+    if (unrecordedStores.has(store)) return edit();
+    const before = entitiesOf(store.getState());
+    edit();
+    if (!sameEntities(before, entitiesOf(store.getState()))) {
+        store.dispatch(historyActions.push(before));
+    }
+}
+
+// `query` is already trimmed and lower-cased
+function cardMatchesQuery(
+    card: CardWithCommentIds | undefined,
+    comments: Record<ID, Comment | undefined>,
+    query: string,
+): boolean {
+    if (!card) return false;
+    if (card.title.toLowerCase().includes(query)) return true;
+    if (card.description.toLowerCase().includes(query)) return true;
+    return card.commentIds.some((id) => comments[id]?.text.toLowerCase().includes(query));
+}
+
+// Timestamps newest first, titles A to Z; Array#sort is stable, so ties keep the
+// deck's insertion order
+function compareCards(a: Card, b: Card, sortKey: CardSortKey): number {
+    if (sortKey === 'title') return a.title < b.title ? -1 : a.title > b.title ? 1 : 0;
+    return b[sortKey] - a[sortKey];
+}
+
+// Workload of every user at once: one pass over the cards table per cards change,
+// shared by all useAssigneeWorkload subscribers.
+const selectWorkloadByUserId = createSelector(
+    [(state: RootReduxState) => state.cards.entities],
+    (cards) => {
+        const workload: Record<ID, number> = {};
+        for (const cardId in cards) {
+            for (const userId of cards[cardId]?.userIds ?? []) {
+                workload[userId] = (workload[userId] ?? 0) + 1;
+            }
+        }
+        return workload;
+    },
+);
+
+// The Provider's subscription per store: every useSelector subscribes through it
+// as a nested listener (see debugStats)
+const providerSubscriptions = new WeakMap<ReduxStore, Subscription>();
+
+// Listeners on each store's own subscribe, counted as they subscribe and
+// unsubscribe (redux keeps its listener map private) for debugStats
+const listenerCounts = new WeakMap<ReduxStore, number>();
+
+function countListeners(store: ReduxStore): ReduxStore {
+    const subscribe = store.subscribe;
+    listenerCounts.set(store, 0);
+    store.subscribe = (listener) => {
+        listenerCounts.set(store, (listenerCounts.get(store) ?? 0) + 1);
+        const unsubscribe = subscribe(listener);
+        let subscribed = true;
+        return () => {
+            if (subscribed) {
+                subscribed = false;
+                listenerCounts.set(store, (listenerCounts.get(store) ?? 0) - 1);
+            }
+            unsubscribe();
+        };
+    };
+    return store;
+}
+
+const ProviderSubscription: React.FC<{ store: ReduxStore }> = ({ store }) => {
+    const context = useContext(ReactReduxContext);
+    if (context) providerSubscriptions.set(store, context.subscription);
+    return null;
+};
+
 const ReduxProvider: React.FC<{ store: StoreHandle; children?: React.ReactNode }> = ({
     store,
     children,
-}) => <Provider store={store as ReduxStore}>{children}</Provider>;
+}) => (
+    <Provider store={store as ReduxStore}>
+        <ProviderSubscription store={store as ReduxStore} />
+        {children}
+    </Provider>
+);
 
 function createHooks(): ViewModelHooksIdsBased {
     return {
@@ -351,9 +589,18 @@ function createHooks(): ViewModelHooksIdsBased {
         useUserById(id: ID): User | undefined {
             return useSelector((state: RootReduxState) => state.users.entities[id]);
         },
+        useTagById(id: ID): Tag | undefined {
+            return useSelector((state: RootReduxState) => state.tags.entities[id]);
+        },
+        useSubtaskById(id: ID): Subtask | undefined {
+            return useSelector((state: RootReduxState) => state.subtasks.entities[id]);
+        },
         useActiveDeckId(): ID | null {
             return useSelector((state: RootReduxState) => state.app.activeDeckId);
         },
+        useSearchQuery(): string {
+            return useSelector((state: RootReduxState) => state.app.searchQuery);
+        },
         useCardIdsByDeckId(deckId: ID): ID[] {
             // Read cardIds directly from deck object
             // Use createSelector to memoize and return same reference if cardIds array doesn't change
@@ -426,6 +673,124 @@ function createHooks(): ViewModelHooksIdsBased {
             );
             return useSelector(selectTagIds);
         },
+        useChildIdsByParentId(parentId: ID): ID[] {
+            // A parent is either a card (subtaskIds) or a subtask (childIds)
+            const EMPTY_ARRAY: ID[] = useMemo(() => [], []); // Stable empty array reference
+            const selectChildIds = useMemo(
+                () =>
+                    createSelector(
+                        [
+                            (state: RootReduxState) =>
+                                state.cards.entities[parentId]?.subtaskIds ??
+                                state.subtasks.entities[parentId]?.childIds,
+                        ],
+                        (childIds) => childIds ?? EMPTY_ARRAY,
+                    ),
+                [parentId, EMPTY_ARRAY],
+            );
+            return useSelector(selectChildIds);
+        },
+        useFilteredCardIdsByDeckId(deckId: ID): ID[] {
+            // Recomputed on any card/comment change; resultEqualityCheck hands back the
+            // previous array while the matching ids stay the same
+            const EMPTY_ARRAY: ID[] = useMemo(() => [], []); // Stable empty array reference
+            const selectFilteredCardIds = useMemo(
+                () =>
+                    createSelector(
+                        [
+                            (state: RootReduxState) => state.decks.entities[deckId]?.cardIds,
+                            (state: RootReduxState) => state.cards.entities,
+                            (state: RootReduxState) => state.comments.entities,
+                            (state: RootReduxState) => state.app.searchQuery,
+                        ],
+                        (cardIds, cards, comments, searchQuery) => {
+                            const query = searchQuery.trim().toLowerCase();
+                            if (!cardIds) return EMPTY_ARRAY;
+                            if (!query) return cardIds;
+                            return cardIds.filter((id) =>
+                                cardMatchesQuery(cards[id], comments, query),
+                            );
+                        },
+                        { memoizeOptions: { resultEqualityCheck: shallowEqual } },
+                    ),
+                [deckId, EMPTY_ARRAY],
+            );
+            return useSelector(selectFilteredCardIds);
+        },
+        useSortedCardIdsByDeckId(deckId: ID, sortKey: CardSortKey): ID[] {
+            // Re-sorted on any card change; resultEqualityCheck hands back the previous
+            // array while the order stays the same
+            const EMPTY_ARRAY: ID[] = useMemo(() => [], []); // Stable empty array reference
+            const selectSortedCardIds = useMemo(
+                () =>
+                    createSelector(
+                        [
+                            (state: RootReduxState) => state.decks.entities[deckId]?.cardIds,
+                            (state: RootReduxState) => state.cards.entities,
+                        ],
+                        (cardIds, cards) => {
+                            if (!cardIds) return EMPTY_ARRAY;
+                            return cardIds
+                                .filter((id) => cards[id])
+                                .sort((a, b) => compareCards(cards[a]!, cards[b]!, sortKey));
+                        },
+                        { memoizeOptions: { resultEqualityCheck: shallowEqual } },
+                    ),
+                [deckId, sortKey, EMPTY_ARRAY],
+            );
+            return useSelector(selectSortedCardIds);
+        },
+        useCommentCountByDeckId(deckId: ID): number {
+            // The result is a number, so useSelector drops recomputations that don't change it
+            const selectCommentCount = useMemo(
+                () =>
+                    createSelector(
+                        [
+                            (state: RootReduxState) => state.decks.entities[deckId]?.cardIds,
+                            (state: RootReduxState) => state.cards.entities,
+                        ],
+                        (cardIds, cards) => {
+                            let count = 0;
+                            for (const cardId of cardIds ?? []) {
+                                count += cards[cardId]?.commentIds.length ?? 0;
+                            }
+                            return count;
+                        },
+                    ),
+                [deckId],
+            );
+            return useSelector(selectCommentCount);
+        },
+        useTagHistogramByDeckId(deckId: ID): TagHistogram {
+            // resultEqualityCheck keeps the previous histogram when a recomputation
+            // yields the same counts (e.g. an unrelated card in the table changed)
+            const selectHistogram = useMemo(
+                () =>
+                    createSelector(
+                        [
+                            (state: RootReduxState) => state.decks.entities[deckId]?.cardIds,
+                            (state: RootReduxState) => state.cards.entities,
+                        ],
+                        (cardIds, cards) => {
+                            const histogram: TagHistogram = {};
+                            for (const cardId of cardIds ?? []) {
+                                for (const tagId of cards[cardId]?.tagIds ?? []) {
+                                    histogram[tagId] = (histogram[tagId] ?? 0) + 1;
+                                }
+                            }
+                            return histogram;
+                        },
+                        { memoizeOptions: { resultEqualityCheck: shallowEqual } },
+                    ),
+                [deckId],
+            );
+            return useSelector(selectHistogram);
+        },
+        useAssigneeWorkload(userId: ID): number {
+            return useSelector(
+                (state: RootReduxState) => selectWorkloadByUserId(state)[userId] ?? 0,
+            );
+        },
     };
 }
 
@@ -433,13 +798,45 @@ const actions = (store: ReduxStore) => ({
     setActiveDeck(id: ID) {
         store.dispatch(appSlice.actions.setActiveDeck(id));
     },
+    setSearchQuery(query: string) {
+        store.dispatch(appSlice.actions.setSearchQuery(query));
+    },
 
     updateCard(cardId: ID, changes: Partial<Card>) {
-        store.dispatch(cardsSlice.actions.updateCard({ id: cardId, changes }));
+        recordEdit(store, () => {
+            store.dispatch(cardsSlice.actions.updateCard({ id: cardId, changes }));
+        });
     },
 
     updateCommentText(commentId: ID, text: string) {
-        store.dispatch(commentsSlice.actions.updateComment({ id: commentId, changes: { text } }));
+        recordEdit(store, () => {
+            store.dispatch(
+                commentsSlice.actions.updateComment({ id: commentId, changes: { text } }),
+            );
+        });
+    },
+    async saveCommentText(commentId: ID, text: string, server: MockServer) {
+        const readText = () => store.getState().comments.entities[commentId]?.text;
+        const writeText = (value: string) =>
+            recordEdit(store, () => {
+                store.dispatch(
+                    commentsSlice.actions.updateComment({
+                        id: commentId,
+                        changes: { text: value },
+                    }),
+                );
+            });
+        const previous = readText();
+        if (previous === undefined) return false;
+        writeText(text);
+        try {
+            await server.request('comments/save', { id: commentId, text });
+            return true;
+        } catch {
+            // Roll back unless a later edit replaced the optimistic text
+            if (readText() === text) writeText(previous);
+            return false;
+        }
     },
     setCommentEditing(commentId: ID, isEditing: boolean) {
         store.dispatch(
@@ -450,7 +847,19 @@ const actions = (store: ReduxStore) => ({
         );
     },
     renameUser(userId: ID, name: string) {
-        store.dispatch(usersSlice.actions.updateUser({ id: userId, changes: { name } }));
+        recordEdit(store, () => {
+            store.dispatch(usersSlice.actions.updateUser({ id: userId, changes: { name } }));
+        });
+    },
+    renameTag(tagId: ID, label: string) {
+        recordEdit(store, () => {
+            store.dispatch(tagsSlice.actions.updateTag({ id: tagId, changes: { label } }));
+        });
+    },
+    recolorTag(tagId: ID, color: string) {
+        recordEdit(store, () => {
+            store.dispatch(tagsSlice.actions.updateTag({ id: tagId, changes: { color } }));
+        });
     },
 
     bulkToggleTagOnCards(cardIds: ID[], tagId: ID) {
@@ -502,16 +911,122 @@ const actions = (store: ReduxStore) => ({
             });
         }
 
+        recordEdit(store, () =>
+            batch(() => {
+                if (toRemove.length > 0) {
+                    store.dispatch(cardTagsSlice.actions.bulkRemoveCardTags(toRemove));
+                }
+                if (toAdd.length > 0) {
+                    store.dispatch(cardTagsSlice.actions.bulkAddCardTags(toAdd));
+                }
+                if (cardUpdates.length > 0) {
+                    store.dispatch(cardsSlice.actions.bulkUpdateCards(cardUpdates));
+                }
+            }),
+        );
+    },
+
+    createCard(card: Card) {
+        const state = store.getState();
+        if (!state.decks.entities[card.deckId] || state.cards.entities[card.id]) return;
+        recordEdit(store, () =>
+            batch(() => {
+                store.dispatch(
+                    cardsSlice.actions.addCard({
+                        ...card,
+                        commentIds: [],
+                        userIds: [],
+                        cardTagIds: [],
+                        tagIds: [],
+                        subtaskIds: [],
+                    }),
+                );
+                store.dispatch(
+                    decksSlice.actions.insertCardId({ deckId: card.deckId, cardId: card.id }),
+                );
+            }),
+        );
+    },
+
+    deleteCard(cardId: ID) {
+        const state = store.getState();
+        const card = state.cards.entities[cardId];
+        if (!card) return;
+        // Assignments are indexed by userId on the card, so find their ids by cardId.
+        const assignmentIds = state.cardAssignments.ids.filter(
+            (id) => state.cardAssignments.entities[id]?.cardId === cardId,
+        );
+        // Collect the whole checklist tree under the card
+        const subtaskIds: ID[] = [];
+        const pending = [...(card.subtaskIds ?? [])];
+        while (pending.length > 0) {
+            const id = pending.pop()!;
+            subtaskIds.push(id);
+            pending.push(...(state.subtasks.entities[id]?.childIds ?? []));
+        }
+        recordEdit(store, () =>
+            batch(() => {
+                store.dispatch(decksSlice.actions.removeCardId({ deckId: card.deckId, cardId }));
+                store.dispatch(cardsSlice.actions.removeCard(cardId));
+                if (card.commentIds.length > 0) {
+                    store.dispatch(commentsSlice.actions.bulkRemoveComments(card.commentIds));
+                }
+                if (assignmentIds.length > 0) {
+                    store.dispatch(
+                        cardAssignmentsSlice.actions.bulkRemoveCardAssignments(assignmentIds),
+                    );
+                }
+                if (card.cardTagIds && card.cardTagIds.length > 0) {
+                    store.dispatch(cardTagsSlice.actions.bulkRemoveCardTags(card.cardTagIds));
+                }
+                if (subtaskIds.length > 0) {
+                    store.dispatch(subtasksSlice.actions.bulkRemoveSubtasks(subtaskIds));
+                }
+            }),
+        );
+    },
+
+    moveCard(cardId: ID, toDeckId: ID, index: number) {
+        const state = store.getState();
+        const card = state.cards.entities[cardId];
+        if (!card || !state.decks.entities[toDeckId]) return;
+        recordEdit(store, () =>
+            batch(() => {
+                store.dispatch(decksSlice.actions.removeCardId({ deckId: card.deckId, cardId }));
+                store.dispatch(
+                    decksSlice.actions.insertCardId({ deckId: toDeckId, cardId, index }),
+                );
+                if (card.deckId !== toDeckId) {
+                    store.dispatch(
+                        cardsSlice.actions.updateCard({
+                            id: cardId,
+                            changes: { deckId: toDeckId },
+                        }),
+                    );
+                }
+            }),
+        );
+    },
+
+    toggleSubtask(subtaskId: ID) {
+        recordEdit(store, () => {
+            store.dispatch(subtasksSlice.actions.toggleSubtask(subtaskId));
+        });
+    },
+
+    addComment(comment: Comment) {
+        const state = store.getState();
+        const card = state.cards.entities[comment.cardId];
+        if (!card || state.comments.entities[comment.id]) return;
+        // A server push, so not recorded for undo
         batch(() => {
-            if (toRemove.length > 0) {
-                store.dispatch(cardTagsSlice.actions.bulkRemoveCardTags(toRemove));
-            }
-            if (toAdd.length > 0) {
-                store.dispatch(cardTagsSlice.actions.bulkAddCardTags(toAdd));
-            }
-            if (cardUpdates.length > 0) {
-                store.dispatch(cardsSlice.actions.bulkUpdateCards(cardUpdates));
-            }
+            store.dispatch(commentsSlice.actions.addComment(comment));
+            store.dispatch(
+                cardsSlice.actions.updateCard({
+                    id: card.id,
+                    changes: { commentIds: [...card.commentIds, comment.id] },
+                }),
+            );
         });
     },
 
@@ -537,12 +1052,33 @@ const actions = (store: ReduxStore) => ({
     setCardVisibility(cardId: ID, isVisible: boolean) {
         store.dispatch(cardsSlice.actions.setCardVisibility({ cardId, isVisible }));
     },
+
+    undo() {
+        store.dispatch(historyActions.undo());
+    },
+    redo() {
+        store.dispatch(historyActions.redo());
+    },
+    canUndo() {
+        return store.getState().history.past.length > 0;
+    },
+    withoutHistory(write: () => void) {
+        if (unrecordedStores.has(store)) return write();
+        unrecordedStores.add(store);
+        try {
+            write();
+        } finally {
+            unrecordedStores.delete(store);
+        }
+    },
 });
 
 function createReduxAdapter(): StoreAdapter {
     return {
         name: 'Redux Toolkit (ids-based)',
-        createStore: createReduxStore,
+        createStore(initial: RootState) {
+            return countListeners(createReduxStore(initial));
+        },
         Provider: ReduxProvider,
         get hooks() {
             return createHooks();
@@ -550,6 +1086,13 @@ function createReduxAdapter(): StoreAdapter {
         bindActions(storeHandle: StoreHandle) {
             return actions(storeHandle as ReduxStore);
         },
+        debugStats(storeHandle: StoreHandle) {
+            const subscription = providerSubscriptions.get(storeHandle as ReduxStore);
+            return {
+                subscribers: subscription?.getListeners().get().length ?? 0,
+                listeners: listenerCounts.get(storeHandle as ReduxStore) ?? 0,
+            };
+        },
     };
 }
 
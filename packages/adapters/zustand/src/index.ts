@@ -1,7 +1,14 @@
 import React, { createContext, useContext } from 'react';
 import { createStore as createZustandStore, type StoreApi } from 'zustand/vanilla';
 import { useStore as useZustand } from 'zustand';
-import type { StoreAdapter, StoreHandle, ViewModelHooksIdsBased } from '@bench/core';
+import type {
+    StoreAdapter,
+    StoreHandle,
+    ViewModelHooksIdsBased,
+    TagHistogram,
+    CardSortKey,
+    MockServer,
+} from '@bench/core';
 import type {
     RootState,
     ID,
@@ -12,6 +19,7 @@ import type {
     Tag,
     CardTag,
     CardAssignment,
+    Subtask,
 } from '@bench/core';
 
 // Extended entity types for Zustand store
@@ -21,22 +29,47 @@ type CardWithIndexes = Card & {
     userIds: ID[];
     cardTagIds: ID[];
     tagIds: ID[];
+    subtaskIds: ID[];
+};
+type SubtaskWithChildIds = Subtask & { childIds: ID[] };
+
+type ZustandEntities = {
+    users: Record<ID, User>;
+    comments: Record<ID, Comment>;
+    cards: Record<ID, CardWithIndexes>;
+    decks: Record<ID, DeckWithCardIds>;
+    tags: Record<ID, Tag>;
+    cardAssignments: Record<ID, CardAssignment>;
+    cardTags: Record<ID, CardTag>;
+    subtasks: Record<ID, SubtaskWithChildIds>;
 };
 
 type ZustandState = Omit<RootState, 'entities'> & {
-    entities: {
-        users: Record<ID, User>;
-        comments: Record<ID, Comment>;
-        cards: Record<ID, CardWithIndexes>;
-        decks: Record<ID, DeckWithCardIds>;
-        tags: Record<ID, Tag>;
-        cardAssignments: Record<ID, CardAssignment>;
-        cardTags: Record<ID, CardTag>;
-    };
+    searchQuery: string;
+    entities: ZustandEntities;
+    // Undo history: previous `entities` objects, sharing every table an edit left alone
+    history: { past: ZustandEntities[]; future: ZustandEntities[] };
 };
 
 type ZStore = StoreApi<ZustandState>;
 
+// Edits kept for undo; older ones are dropped
+const HISTORY_LIMIT = 500;
+
+// Stores whose edits are applied without recording them (see withoutHistory)
+const unrecordedStores = new WeakSet<ZStore>();
+
+// Applies one undoable edit; if it replaced `entities`, the previous object goes
+// on the undo stack and the redo stack is cleared.
+function recordEdit(store: ZStore, edit: (s: ZustandState) => ZustandState) {
+    store.setState((s) => {
+        const next = edit(s);
+        if (next.entities === s.entities || unrecordedStores.has(store)) return next;
+        const past = [...s.history.past, s.entities].slice(-HISTORY_LIMIT);
+        return { ...next, history: { past, future: [] } };
+    });
+}
+
 const Ctx = createContext<ZStore | null>(null);
 
 const Provider: React.FC<{ store: StoreHandle; children?: React.ReactNode }> = ({
@@ -58,6 +91,52 @@ function shallowEqualStrings(a: string[] | undefined, b: string[] | undefined):
     return true;
 }
 
+function shallowEqualCounts(a: Record<ID, number>, b: Record<ID, number>): boolean {
+    if (a === b) return true;
+    const keys = Object.keys(a);
+    if (keys.length !== Object.keys(b).length) return false;
+    for (const k of keys) if (a[k] !== b[k]) return false;
+    return true;
+}
+
+// `query` is already trimmed and lower-cased
+function cardMatchesQuery(
+    card: CardWithIndexes | undefined,
+    comments: Record<ID, Comment>,
+    query: string,
+): boolean {
+    if (!card) return false;
+    if (card.title.toLowerCase().includes(query)) return true;
+    if (card.description.toLowerCase().includes(query)) return true;
+    return card.commentIds.some((id) => comments[id]?.text.toLowerCase().includes(query));
+}
+
+// Timestamps newest first, titles A to Z; Array#sort is stable, so ties keep the
+// deck's insertion order
+function compareCards(a: Card, b: Card, sortKey: CardSortKey): number {
+    if (sortKey === 'title') return a.title < b.title ? -1 : a.title > b.title ? 1 : 0;
+    return b[sortKey] - a[sortKey];
+}
+
+// Workload of every user, computed once per cards table (tables are replaced on
+// every card change) and shared by all useAssigneeWorkload subscribers.
+const workloadByCards = new WeakMap<ZustandState['entities']['cards'], Record<ID, number>>();
+
+function selectWorkload(s: ZustandState): Record<ID, number> {
+    const cards = s.entities.cards;
+    let workload = workloadByCards.get(cards);
+    if (!workload) {
+        workload = {};
+        for (const cardId in cards) {
+            for (const userId of cards[cardId].userIds) {
+                workload[userId] = (workload[userId] ?? 0) + 1;
+            }
+        }
+        workloadByCards.set(cards, workload);
+    }
+    return workload;
+}
+
 // Helper to build extended entities with indexes from RootState
 function buildExtendedEntities(initialData: RootState): ZustandState['entities'] {
     // Build cardIdsByDeckId first
@@ -124,6 +203,15 @@ function buildExtendedEntities(initialData: RootState): ZustandState['entities']
         }
     }
 
+    // Build subtask child lists (parent is a card or another subtask)
+    const subtaskIdsByParentId: Record<ID, ID[]> = {};
+    for (const subtask of Object.values(initialData.entities.subtasks)) {
+        if (!subtaskIdsByParentId[subtask.parentId]) {
+            subtaskIdsByParentId[subtask.parentId] = [];
+        }
+        subtaskIdsByParentId[subtask.parentId].push(subtask.id);
+    }
+
     // Build extended decks with cardIds
     const decks: Record<ID, DeckWithCardIds> = {};
     for (const deck of Object.values(initialData.entities.decks)) {
@@ -142,6 +230,16 @@ function buildExtendedEntities(initialData: RootState): ZustandState['entities']
             userIds: userIdsByCardId[card.id] || [],
             cardTagIds: cardTagIdsByCardId[card.id] || [],
             tagIds: tagIdsByCardId[card.id] || [],
+            subtaskIds: subtaskIdsByParentId[card.id] || [],
+        };
+    }
+
+    // Build extended subtasks with childIds
+    const subtasks: Record<ID, SubtaskWithChildIds> = {};
+    for (const subtask of Object.values(initialData.entities.subtasks)) {
+        subtasks[subtask.id] = {
+            ...subtask,
+            childIds: subtaskIdsByParentId[subtask.id] || [],
         };
     }
 
@@ -153,6 +251,7 @@ function buildExtendedEntities(initialData: RootState): ZustandState['entities']
         tags: initialData.entities.tags,
         cardAssignments: initialData.entities.cardAssignments,
         cardTags: initialData.entities.cardTags,
+        subtasks,
     };
 }
 
@@ -187,10 +286,24 @@ function createHooks(): ViewModelHooksIdsBased {
             return useZustand(store, (s: ZustandState) => s.entities.users[id]);
         },
 
+        useTagById(id: ID): Tag | undefined {
+            const store = useZStore();
+            return useZustand(store, (s: ZustandState) => s.entities.tags[id]);
+        },
+
+        useSubtaskById(id: ID): Subtask | undefined {
+            const store = useZStore();
+            return useZustand(store, (s: ZustandState) => s.entities.subtasks[id]);
+        },
+
         useActiveDeckId(): ID | null {
             const store = useZStore();
             return useZustand(store, (s: ZustandState) => s.activeDeckId);
         },
+        useSearchQuery(): string {
+            const store = useZStore();
+            return useZustand(store, (s: ZustandState) => s.searchQuery);
+        },
         useCardIdsByDeckId(deckId: ID): ID[] {
             const store = useZStore();
             return useZustand(
@@ -223,6 +336,75 @@ function createHooks(): ViewModelHooksIdsBased {
                 shallowEqualStrings,
             );
         },
+        useChildIdsByParentId(parentId: ID): ID[] {
+            const store = useZStore();
+            return useZustand(
+                store,
+                (s: ZustandState) =>
+                    s.entities.cards[parentId]?.subtaskIds ??
+                    s.entities.subtasks[parentId]?.childIds ??
+                    [],
+                shallowEqualStrings,
+            );
+        },
+        useFilteredCardIdsByDeckId(deckId: ID): ID[] {
+            const store = useZStore();
+            return useZustand(
+                store,
+                (s: ZustandState) => {
+                    const cardIds = s.entities.decks[deckId]?.cardIds ?? [];
+                    const query = s.searchQuery.trim().toLowerCase();
+                    if (!query) return cardIds;
+                    return cardIds.filter((id) =>
+                        cardMatchesQuery(s.entities.cards[id], s.entities.comments, query),
+                    );
+                },
+                shallowEqualStrings,
+            );
+        },
+        useSortedCardIdsByDeckId(deckId: ID, sortKey: CardSortKey): ID[] {
+            const store = useZStore();
+            return useZustand(
+                store,
+                (s: ZustandState) => {
+                    const cards = s.entities.cards;
+                    return (s.entities.decks[deckId]?.cardIds ?? [])
+                        .filter((id) => cards[id])
+                        .sort((a, b) => compareCards(cards[a]!, cards[b]!, sortKey));
+                },
+                shallowEqualStrings,
+            );
+        },
+        useCommentCountByDeckId(deckId: ID): number {
+            const store = useZStore();
+            return useZustand(store, (s: ZustandState) => {
+                let count = 0;
+                for (const cardId of s.entities.decks[deckId]?.cardIds ?? []) {
+                    count += s.entities.cards[cardId]?.commentIds.length ?? 0;
+                }
+                return count;
+            });
+        },
+        useTagHistogramByDeckId(deckId: ID): TagHistogram {
+            const store = useZStore();
+            return useZustand(
+                store,
+                (s: ZustandState) => {
+                    const histogram: TagHistogram = {};
+                    for (const cardId of s.entities.decks[deckId]?.cardIds ?? []) {
+                        for (const tagId of s.entities.cards[cardId]?.tagIds ?? []) {
+                            histogram[tagId] = (histogram[tagId] ?? 0) + 1;
+                        }
+                    }
+                    return histogram;
+                },
+                shallowEqualCounts,
+            );
+        },
+        useAssigneeWorkload(userId: ID): number {
+            const store = useZStore();
+            return useZustand(store, (s: ZustandState) => selectWorkload(s)[userId] ?? 0);
+        },
     };
 }
 
@@ -230,9 +412,12 @@ const actions = (store: ZStore) => ({
     setActiveDeck(id: ID) {
         store.setState((s) => ({ ...s, activeDeckId: id }));
     },
+    setSearchQuery(query: string) {
+        store.setState((s) => ({ ...s, searchQuery: query }));
+    },
 
     updateCard(cardId: ID, changes: Partial<Card>) {
-        store.setState((s) => {
+        recordEdit(store, (s) => {
             const existing = s.entities.cards[cardId];
             if (!existing) return s;
             return {
@@ -246,7 +431,7 @@ const actions = (store: ZStore) => ({
     },
 
     updateCommentText(commentId: ID, text: string) {
-        store.setState((s) => {
+        recordEdit(store, (s) => {
             const existing = s.entities.comments[commentId];
             if (!existing) return s;
             return {
@@ -258,9 +443,38 @@ const actions = (store: ZStore) => ({
             };
         });
     },
+    async saveCommentText(commentId: ID, text: string, server: MockServer) {
+        const readText = () => store.getState().entities.comments[commentId]?.text;
+        const writeText = (value: string) =>
+            recordEdit(store, (s) => {
+                const existing = s.entities.comments[commentId];
+                if (!existing) return s;
+                return {
+                    ...s,
+                    entities: {
+                        ...s.entities,
+                        comments: {
+                            ...s.entities.comments,
+                            [commentId]: { ...existing, text: value },
+                        },
+                    },
+                };
+            });
+        const previous = readText();
+        if (previous === undefined) return false;
+        writeText(text);
+        try {
+            await server.request('comments/save', { id: commentId, text });
+            return true;
+        } catch {
+            // Roll back unless a later edit replaced the optimistic text
+            if (readText() === text) writeText(previous);
+            return false;
+        }
+    },
 
     renameUser(userId: ID, name: string) {
-        store.setState((s) => {
+        recordEdit(store, (s) => {
             const user = s.entities.users[userId];
             if (!user) return s;
             return {
@@ -273,6 +487,34 @@ const actions = (store: ZStore) => ({
         });
     },
 
+    renameTag(tagId: ID, label: string) {
+        recordEdit(store, (s) => {
+            const tag = s.entities.tags[tagId];
+            if (!tag) return s;
+            return {
+                ...s,
+                entities: {
+                    ...s.entities,
+                    tags: { ...s.entities.tags, [tagId]: { ...tag, label } },
+                },
+            };
+        });
+    },
+
+    recolorTag(tagId: ID, color: string) {
+        recordEdit(store, (s) => {
+            const tag = s.entities.tags[tagId];
+            if (!tag) return s;
+            return {
+                ...s,
+                entities: {
+                    ...s.entities,
+                    tags: { ...s.entities.tags, [tagId]: { ...tag, color } },
+                },
+            };
+        });
+    },
+
     setCommentEditing(commentId: ID, isEditing: boolean) {
         store.setState((s) => {
             const existing = s.entities.comments[commentId];
@@ -291,7 +533,7 @@ const actions = (store: ZStore) => ({
     },
 
     bulkToggleTagOnCards(cardIds: ID[], tagId: ID) {
-        store.setState((s) => {
+        recordEdit(store, (s) => {
             const cardTags = { ...s.entities.cardTags };
             const cards = { ...s.entities.cards };
             let counter = Object.keys(cardTags).length;
@@ -338,6 +580,127 @@ const actions = (store: ZStore) => ({
         });
     },
 
+    createCard(card: Card) {
+        recordEdit(store, (s) => {
+            const deck = s.entities.decks[card.deckId];
+            if (!deck || s.entities.cards[card.id]) return s;
+            return {
+                ...s,
+                entities: {
+                    ...s.entities,
+                    cards: {
+                        ...s.entities.cards,
+                        [card.id]: {
+                            ...card,
+                            commentIds: [],
+                            userIds: [],
+                            cardTagIds: [],
+                            tagIds: [],
+                            subtaskIds: [],
+                        },
+                    },
+                    decks: {
+                        ...s.entities.decks,
+                        [deck.id]: { ...deck, cardIds: [...deck.cardIds, card.id] },
+                    },
+                },
+            };
+        });
+    },
+
+    deleteCard(cardId: ID) {
+        recordEdit(store, (s) => {
+            const card = s.entities.cards[cardId];
+            if (!card) return s;
+            const cards = { ...s.entities.cards };
+            delete cards[cardId];
+            const comments = { ...s.entities.comments };
+            for (const id of card.commentIds) delete comments[id];
+            const cardTags = { ...s.entities.cardTags };
+            for (const id of card.cardTagIds) delete cardTags[id];
+            const subtasks = { ...s.entities.subtasks };
+            const pending = [...card.subtaskIds];
+            while (pending.length > 0) {
+                const id = pending.pop()!;
+                const subtask = subtasks[id];
+                if (!subtask) continue;
+                pending.push(...subtask.childIds);
+                delete subtasks[id];
+            }
+            // Assignments have no per-card id list, so find them by cardId.
+            const cardAssignments = { ...s.entities.cardAssignments };
+            for (const id in cardAssignments) {
+                if (cardAssignments[id]!.cardId === cardId) delete cardAssignments[id];
+            }
+            const deck = s.entities.decks[card.deckId];
+            const decks = deck
+                ? {
+                      ...s.entities.decks,
+                      [deck.id]: { ...deck, cardIds: deck.cardIds.filter((id) => id !== cardId) },
+                  }
+                : s.entities.decks;
+            return {
+                ...s,
+                entities: {
+                    ...s.entities,
+                    cards,
+                    comments,
+                    cardTags,
+                    cardAssignments,
+                    subtasks,
+                    decks,
+                },
+            };
+        });
+    },
+
+    moveCard(cardId: ID, toDeckId: ID, index: number) {
+        recordEdit(store, (s) => {
+            const card = s.entities.cards[cardId];
+            const toDeck = s.entities.decks[toDeckId];
+            if (!card || !toDeck) return s;
+            const decks = { ...s.entities.decks };
+            const fromDeck = decks[card.deckId];
+            if (fromDeck) {
+                decks[fromDeck.id] = {
+                    ...fromDeck,
+                    cardIds: fromDeck.cardIds.filter((id) => id !== cardId),
+                };
+            }
+            const cardIds = [...decks[toDeckId]!.cardIds];
+            cardIds.splice(Math.max(0, Math.min(index, cardIds.length)), 0, cardId);
+            decks[toDeckId] = { ...decks[toDeckId]!, cardIds };
+            return {
+                ...s,
+                entities: {
+                    ...s.entities,
+                    decks,
+                    cards:
+                        card.deckId === toDeckId
+                            ? s.entities.cards
+                            : { ...s.entities.cards, [cardId]: { ...card, deckId: toDeckId } },
+                },
+            };
+        });
+    },
+
+    toggleSubtask(subtaskId: ID) {
+        recordEdit(store, (s) => {
+            const existing = s.entities.subtasks[subtaskId];
+            if (!existing) return s;
+            return {
+                ...s,
+                entities: {
+                    ...s.entities,
+                    subtasks: {
+                        ...s.entities.subtasks,
+                        [subtaskId]: { ...existing, done: !existing.done },
+                    },
+                },
+            };
+        });
+    },
+
     backgroundChurnStart() {
         store.setState((s) => {
             const cards = { ...s.entities.cards };
@@ -365,18 +728,97 @@ const actions = (store: ZStore) => ({
             };
         });
     },
+    addComment(comment: Comment) {
+        // A server push, so outside recordEdit
+        store.setState((s) => {
+            const card = s.entities.cards[comment.cardId];
+            if (!card || s.entities.comments[comment.id]) return s;
+            return {
+                ...s,
+                entities: {
+                    ...s.entities,
+                    comments: { ...s.entities.comments, [comment.id]: comment },
+                    cards: {
+                        ...s.entities.cards,
+                        [card.id]: { ...card, commentIds: [...card.commentIds, comment.id] },
+                    },
+                },
+            };
+        });
+    },
+
+    undo() {
+        store.setState((s) => {
+            const { past, future } = s.history;
+            if (past.length === 0) return s;
+            return {
+                ...s,
+                entities: past[past.length - 1]!,
+                history: { past: past.slice(0, -1), future: [...future, s.entities] },
+            };
+        });
+    },
+    redo() {
+        store.setState((s) => {
+            const { past, future } = s.history;
+            if (future.length === 0) return s;
+            return {
+                ...s,
+                entities: future[future.length - 1]!,
+                history: { past: [...past, s.entities], future: future.slice(0, -1) },
+            };
+        });
+    },
+    canUndo() {
+        return store.getState().history.past.length > 0;
+    },
+    withoutHistory(write: () => void) {
+        if (unrecordedStores.has(store)) return write();
+        unrecordedStores.add(store);
+        try {
+            write();
+        } finally {
+            unrecordedStores.delete(store);
+        }
+    },
 });
 
+// Listeners of each store, counted as they subscribe and unsubscribe (zustand
+// keeps its listener set private) for debugStats
+const subscriberCounts = new WeakMap<ZStore, number>();
+
+function countSubscribers(store: ZStore): ZStore {
+    const subscribe = store.subscribe;
+    subscriberCounts.set(store, 0);
+    store.subscribe = (listener) => {
+        subscriberCounts.set(store, (subscriberCounts.get(store) ?? 0) + 1);
+        const unsubscribe = subscribe(listener);
+        let subscribed = true;
+        return () => {
+            if (subscribed) {
+                subscribed = false;
+                subscriberCounts.set(store, (subscriberCounts.get(store) ?? 0) - 1);
+            }
+            unsubscribe();
+        };
+    };
+    return store;
+}
+
 function createZustandAdapter(): StoreAdapter {
     return {
         name: 'Zustand (ids-based)',
         createStore(initial: RootState) {
             const entities = buildExtendedEntities(initial);
-            return createZustandStore<ZustandState>(() => ({
-                entities,
-                decksOrder: initial.decksOrder,
-                activeDeckId: initial.activeDeckId,
-            }));
+            return countSubscribers(
+                createZustandStore<ZustandState>(() => ({
+                    entities,
+                    decksOrder: initial.decksOrder,
+                    activeDeckId: initial.activeDeckId,
+                    searchQuery: '',
+                    history: { past: [], future: [] },
+                })),
+            );
         },
         Provider,
         get hooks() {
@@ -385,6 +827,9 @@ function createZustandAdapter(): StoreAdapter {
         bindActions(storeHandle: StoreHandle) {
             return actions(storeHandle as ZStore);
         },
+        debugStats(storeHandle: StoreHandle) {
+            return { subscribers: subscriberCounts.get(storeHandle as ZStore) ?? 0 };
+        },
     };
 }
 
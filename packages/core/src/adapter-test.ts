@@ -3,19 +3,52 @@
  * Tests basic functionality of adapters to ensure they work correctly
  */
 
-import type { StoreAdapter, RootState, ID, Tag, Comment, Card, User, Deck } from './index';
+import type {
+    StoreAdapter,
+    StoreHandle,
+    RootState,
+    ID,
+    Tag,
+    Comment,
+    Card,
+    User,
+    Deck,
+    CardSortKey,
+} from './index';
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import { flushSync } from 'react-dom';
 import { generateDataset } from './dataGen';
+import { createMockServer } from './mockServer';
 import { useRenderCount } from './useRenderCount';
 
 export interface AdapterTestResult {
     adapterName: string;
     passed: boolean;
     errors: string[];
+    // Subscription leak check (null when the adapter has no debugStats)
+    leakCheck?: LeakCheckResult | null;
 }
 
+/**
+ * Subscription leak check of one adapter: its debugStats counts (subscribers plus
+ * listeners) while a tree of readers is mounted and unmounted again and again,
+ * and while that tree's Provider is switched from one store to another, as App
+ * does when it re-creates its store and drops the old one.
+ */
+export interface LeakCheckResult {
+    cycles: number;
+    before: number; // nothing mounted yet
+    mounted: number; // with the readers mounted
+    afterCycles: number[]; // after each unmount
+    afterSwitch: number; // left on the previous store once the readers moved on
+    leaked: number; // growth over the cycles plus what the switch left behind
+    errors: string[];
+}
+
+// Mount/unmount cycles of the leak check
+const LEAK_CHECK_CYCLES = 20;
+
 export async function testAdapter(adapter: StoreAdapter): Promise<AdapterTestResult> {
     const errors: string[] = [];
     const adapterName = adapter.name;
@@ -52,6 +85,7 @@ export async function testAdapter(adapter: StoreAdapter): Promise<AdapterTestRes
             minCommentsPerCard: 3,
             maxCommentsPerCard: 5,
             seed: 42,
+            subtaskCardsPerDeck: 1,
         });
 
         // Test 1: Create store
@@ -101,7 +135,16 @@ export async function testAdapter(adapter: StoreAdapter): Promise<AdapterTestRes
                 'useCommentIdsByCardId',
                 'useAssigneeIdsByCardId',
                 'useTagIdsByCardId',
+                'useTagById',
+                'useSubtaskById',
+                'useChildIdsByParentId',
                 'useActiveDeckId',
+                'useSearchQuery',
+                'useFilteredCardIdsByDeckId',
+                'useSortedCardIdsByDeckId',
+                'useCommentCountByDeckId',
+                'useTagHistogramByDeckId',
+                'useAssigneeWorkload',
             ];
             for (const hookName of requiredHooks) {
                 if (typeof (hooks as any)[hookName] !== 'function') {
@@ -902,10 +945,772 @@ export async function testAdapter(adapter: StoreAdapter): Promise<AdapterTestRes
             );
         }
 
+        // Helpers of the tests below: one value read through `hooks` in a probe tree on
+        // the store
+        const read = <T>(fn: () => T): T => withProvider(store, fn);
+        // Mounts `Probe` under the adapter's Provider until the returned unmount is called
+        const mount = (Probe: React.FC): (() => void) => {
+            const root = createRoot(document.createElement('div'));
+            flushSync(() => {
+                root.render(
+                    React.createElement(adapter.Provider, { store }, React.createElement(Probe)),
+                );
+            });
+            return () => flushSync(() => root.unmount());
+        };
+
+        // Test 16: Structural edits - createCard / moveCard / deleteCard keep the
+        // deck->cards and card->comments indexes in sync, and leave untouched decks'
+        // ID arrays referentially stable
+        try {
+            const [deckA, deckB, deckC] = dataset.decksOrder;
+            const readCardIds = (deckId: ID) => read(() => hooks.useCardIdsByDeckId(deckId));
+            const readCard = (cardId: ID) => read(() => hooks.useCardById(cardId));
+
+            if (deckA && deckB && deckC) {
+                const untouchedBefore = readCardIds(deckC);
+                const newCardId = 'card_structural_test';
+                const now = Date.now();
+                actions.createCard({
+                    id: newCardId,
+                    deckId: deckA,
+                    title: 'Structural test card',
+                    description: '',
+                    authorId: Object.keys(dataset.entities.users)[0] ?? '',
+                    createdAt: now,
+                    updatedAt: now,
+                });
+                const afterCreate = readCardIds(deckA);
+                if (afterCreate[afterCreate.length - 1] !== newCardId) {
+                    errors.push('createCard did not append the new card to its deck');
+                }
+                if (readCard(newCardId)?.title !== 'Structural test card') {
+                    errors.push('createCard: useCardById did not return the new card');
+                }
+
+                actions.moveCard(newCardId, deckB, 0);
+                if (readCardIds(deckB)[0] !== newCardId) {
+                    errors.push('moveCard did not insert the card at index 0 of the target deck');
+                }
+                if (readCardIds(deckA).includes(newCardId)) {
+                    errors.push('moveCard did not remove the card from the source deck');
+                }
+                if (readCard(newCardId)?.deckId !== deckB) {
+                    errors.push('moveCard did not update card.deckId');
+                }
+                if (readCardIds(deckC) !== untouchedBefore) {
+                    errors.push(
+                        'Card IDs array of an untouched deck changed reference after createCard/moveCard',
+                    );
+                }
+
+                // Delete a pre-existing card that has comments (and a checklist) to
+                // exercise the cascade
+                const victimId = untouchedBefore[0];
+                if (victimId) {
+                    const commentIds = read(() => hooks.useCommentIdsByCardId(victimId));
+                    const subtaskIds = read(() => hooks.useChildIdsByParentId(victimId));
+                    actions.deleteCard(victimId);
+                    actions.deleteCard(newCardId);
+                    if (readCardIds(deckC).includes(victimId)) {
+                        errors.push('deleteCard did not remove the card from its deck');
+                    }
+                    if (readCardIds(deckB).includes(newCardId)) {
+                        errors.push('deleteCard did not remove a created card from its deck');
+                    }
+                    if (readCard(victimId)) {
+                        errors.push('deleteCard: useCardById still returns the deleted card');
+                    }
+                    const remainingCommentIds = read(() => hooks.useCommentIdsByCardId(victimId));
+                    const orphan = read(() => hooks.useCommentById(commentIds[0] ?? ''));
+                    if (remainingCommentIds.length > 0 || orphan) {
+                        errors.push('deleteCard did not cascade to the card comments');
+                    }
+                    const remainingSubtaskIds = read(() => hooks.useChildIdsByParentId(victimId));
+                    const orphanSubtask = read(() => hooks.useSubtaskById(subtaskIds[0] ?? ''));
+                    if (remainingSubtaskIds.length > 0 || orphanSubtask) {
+                        errors.push('deleteCard did not cascade to the card subtasks');
+                    }
+                }
+            }
+        } catch (error) {
+            errors.push(
+                `Structural edit test failed: ${error instanceof Error ? error.message : String(error)}`,
+            );
+        }
+
+        // Test 17: Nested subtasks - walk a checklist from its card down to a leaf,
+        // toggle the leaf, and check that neither its parent's child IDs nor its
+        // sibling change reference (deep toggles must not ripple up the tree)
+        try {
+            const rootCardId = Object.values(dataset.entities.subtasks).find(
+                (s) => dataset.entities.cards[s.parentId]?.deckId === dataset.decksOrder[0],
+            )?.parentId;
+            const readChildIds = (parentId: ID) =>
+                read(() => hooks.useChildIdsByParentId(parentId));
+            const readSubtask = (subtaskId: ID) => read(() => hooks.useSubtaskById(subtaskId));
+
+            if (rootCardId) {
+                const expectedRootChildren = Object.values(dataset.entities.subtasks)
+                    .filter((s) => s.parentId === rootCardId)
+                    .map((s) => s.id);
+                const rootChildren = readChildIds(rootCardId);
+                if (rootChildren.join(',') !== expectedRootChildren.join(',')) {
+                    errors.push(
+                        `useChildIdsByParentId(card) returned [${rootChildren.join(', ')}], expected [${expectedRootChildren.join(', ')}]`,
+                    );
+                }
+
+                let parentId: ID = rootCardId;
+                let childIds = rootChildren;
+                while (childIds.length > 0) {
+                    const next = readChildIds(childIds[0]!);
+                    if (next.length === 0) break;
+                    parentId = childIds[0]!;
+                    childIds = next;
+                }
+                const [leafId, siblingId] = childIds;
+                if (parentId === rootCardId) {
+                    errors.push('useChildIdsByParentId did not return nested subtask children');
+                }
+                if (leafId) {
+                    const before = readSubtask(leafId)?.done;
+                    const siblingBefore = siblingId ? readSubtask(siblingId) : undefined;
+                    actions.toggleSubtask(leafId);
+                    if (readSubtask(leafId)?.done !== !before) {
+                        errors.push('toggleSubtask did not flip done on a nested subtask');
+                    }
+                    if (readChildIds(parentId) !== childIds) {
+                        errors.push("toggleSubtask changed the parent's child IDs array reference");
+                    }
+                    if (siblingId && readSubtask(siblingId) !== siblingBefore) {
+                        errors.push('toggleSubtask changed the sibling subtask reference');
+                    }
+                }
+            } else {
+                errors.push('Test dataset has no subtasks');
+            }
+        } catch (error) {
+            errors.push(
+                `Nested subtask test failed: ${error instanceof Error ? error.message : String(error)}`,
+            );
+        }
+
+        // Test 18: Tag fan-out - useTagIdsByCardId returns distinct tag IDs that resolve
+        // through useTagById, and renameTag / recolorTag reach every card carrying the
+        // tag without touching the card->tags index or other tags
+        try {
+            const readTagIds = (cardId: ID) => read(() => hooks.useTagIdsByCardId(cardId));
+            const readTag = (tagId: ID) => read(() => hooks.useTagById(tagId));
+
+            const tagIdsByCard = new Map<ID, ID[]>();
+            const carriersByTag = new Map<ID, ID[]>();
+            for (const deckId of dataset.decksOrder) {
+                for (const cardId of read(() => hooks.useCardIdsByDeckId(deckId))) {
+                    const tagIds = readTagIds(cardId);
+                    tagIdsByCard.set(cardId, tagIds);
+                    if (new Set(tagIds).size !== tagIds.length) {
+                        errors.push(`useTagIdsByCardId(${cardId}) returned duplicate tag IDs`);
+                    }
+                    for (const tagId of tagIds) {
+                        if (!readTag(tagId)) {
+                            errors.push(`useTagIdsByCardId returned ${tagId}, not a tag ID`);
+                        }
+                        const carriers = carriersByTag.get(tagId) ?? [];
+                        carriers.push(cardId);
+                        carriersByTag.set(tagId, carriers);
+                    }
+                }
+            }
+
+            // The most widely used tag gives the largest fan-out
+            let tagId: ID | undefined;
+            let carriers: ID[] = [];
+            for (const [id, cardIds] of carriersByTag) {
+                if (cardIds.length > carriers.length) {
+                    tagId = id;
+                    carriers = cardIds;
+                }
+            }
+            const otherTagId = Object.keys(dataset.entities.tags).find((id) => id !== tagId);
+            if (tagId) {
+                const otherBefore = otherTagId ? readTag(otherTagId) : undefined;
+                actions.renameTag(tagId, 'Renamed tag');
+                actions.recolorTag(tagId, '#123456');
+                const tag = readTag(tagId);
+                if (tag?.label !== 'Renamed tag' || tag?.color !== '#123456') {
+                    errors.push(
+                        `renameTag/recolorTag did not update tag: got "${tag?.label}" / "${tag?.color}"`,
+                    );
+                }
+                for (const cardId of carriers) {
+                    if (readTagIds(cardId) !== tagIdsByCard.get(cardId)) {
+                        errors.push(`renameTag changed the tag IDs array reference of ${cardId}`);
+                        break;
+                    }
+                }
+                if (otherTagId && readTag(otherTagId) !== otherBefore) {
+                    errors.push('renameTag changed the reference of an unrelated tag');
+                }
+            } else {
+                errors.push('No card in the test dataset carries a tag');
+            }
+        } catch (error) {
+            errors.push(
+                `Tag fan-out test failed: ${error instanceof Error ? error.message : String(error)}`,
+            );
+        }
+
+        // Test 19: Derived data - comment count, tag histogram and assignee workload
+        // match the underlying ID arrays, keep their reference under churn that only
+        // touches their inputs' entities, and follow tag toggles and deletes
+        try {
+            const expectedForDeck = (deckId: ID) => {
+                let commentCount = 0;
+                const histogram: Record<ID, number> = {};
+                for (const cardId of read(() => hooks.useCardIdsByDeckId(deckId))) {
+                    commentCount += read(() => hooks.useCommentIdsByCardId(cardId)).length;
+                    for (const tagId of read(() => hooks.useTagIdsByCardId(cardId))) {
+                        histogram[tagId] = (histogram[tagId] ?? 0) + 1;
+                    }
+                }
+                return { commentCount, histogram };
+            };
+            const sameCounts = (a: Record<ID, number>, b: Record<ID, number>) =>
+                Object.keys(a).length === Object.keys(b).length &&
+                Object.keys(a).every((k) => a[k] === b[k]);
+            const expectedWorkload = (userId: ID) => {
+                let workload = 0;
+                for (const deckId of dataset.decksOrder) {
+                    for (const cardId of read(() => hooks.useCardIdsByDeckId(deckId))) {
+                        if (read(() => hooks.useAssigneeIdsByCardId(cardId)).includes(userId)) {
+                            workload++;
+                        }
+                    }
+                }
+                return workload;
+            };
+
+            // Skip the decks the structural test edited
+            const deckId = dataset.decksOrder[5];
+            const cardIds = deckId ? read(() => hooks.useCardIdsByDeckId(deckId)) : [];
+            const cardId = cardIds.find(
+                (id) => read(() => hooks.useAssigneeIdsByCardId(id)).length > 0,
+            );
+            if (deckId && cardId) {
+                const expected = expectedForDeck(deckId);
+                const count = read(() => hooks.useCommentCountByDeckId(deckId));
+                const histogram = read(() => hooks.useTagHistogramByDeckId(deckId));
+                if (count !== expected.commentCount) {
+                    errors.push(
+                        `useCommentCountByDeckId returned ${count}, expected ${expected.commentCount}`,
+                    );
+                }
+                if (!sameCounts(histogram, expected.histogram)) {
+                    errors.push('useTagHistogramByDeckId does not match the cards tag IDs');
+                }
+                const userId = read(() => hooks.useAssigneeIdsByCardId(cardId))[0]!;
+                const workload = read(() => hooks.useAssigneeWorkload(userId));
+                const expectedUserWorkload = expectedWorkload(userId);
+                if (workload !== expectedUserWorkload) {
+                    errors.push(
+                        `useAssigneeWorkload returned ${workload}, expected ${expectedUserWorkload}`,
+                    );
+                }
+
+                // Churn on the inputs' entities: a mounted reader keeps its values (and
+                // the histogram reference) and is not re-rendered
+                const commentId = read(() => hooks.useCommentIdsByCardId(cardId))[0];
+                let probeRenders = 0;
+                let probeCount: number | undefined;
+                let probeHistogram: Record<ID, number> | undefined;
+                const DerivedProbe: React.FC = () => {
+                    probeRenders++;
+                    probeCount = hooks.useCommentCountByDeckId(deckId);
+                    probeHistogram = hooks.useTagHistogramByDeckId(deckId);
+                    hooks.useAssigneeWorkload(userId);
+                    return null;
+                };
+                const unmount = mount(DerivedProbe);
+                const mountedHistogram = probeHistogram;
+                const rendersBefore = probeRenders;
+                actions.backgroundChurnStart();
+                actions.backgroundChurnStop();
+                actions.updateCard(cardId, { title: 'Derived churn' });
+                if (commentId) actions.updateCommentText(commentId, 'Derived churn');
+                if (typeof requestAnimationFrame !== 'undefined') {
+                    await new Promise((resolve) => requestAnimationFrame(resolve));
+                }
+                await new Promise((resolve) => setTimeout(resolve, 50));
+                const churnRenders = probeRenders - rendersBefore;
+                unmount();
+                if (probeHistogram !== mountedHistogram) {
+                    errors.push('Tag histogram changed reference under churn that kept its counts');
+                }
+                if (probeCount !== count) {
+                    errors.push('Comment count changed under churn that kept the comments');
+                }
+                if (churnRenders > 0) {
+                    errors.push(
+                        `Derived hooks re-rendered ${churnRenders} times under churn that kept their values`,
+                    );
+                }
+
+                // Toggling a tag moves the histogram, toggling it back restores the counts
+                const tagId = Object.keys(dataset.entities.tags)[0]!;
+                const had = read(() => hooks.useTagIdsByCardId(cardId)).includes(tagId);
+                actions.bulkToggleTagOnCards([cardId], tagId);
+                const toggled = read(() => hooks.useTagHistogramByDeckId(deckId));
+                if ((toggled[tagId] ?? 0) !== (histogram[tagId] ?? 0) + (had ? -1 : 1)) {
+                    errors.push('useTagHistogramByDeckId did not follow bulkToggleTagOnCards');
+                }
+                actions.bulkToggleTagOnCards([cardId], tagId);
+                const restored = read(() => hooks.useTagHistogramByDeckId(deckId));
+                if (!sameCounts(restored, histogram)) {
+                    errors.push('useTagHistogramByDeckId did not restore after toggling back');
+                }
+
+                // Deleting a card drops its comments from the count and its assignees' workload
+                const cardComments = read(() => hooks.useCommentIdsByCardId(cardId)).length;
+                actions.deleteCard(cardId);
+                if (read(() => hooks.useCommentCountByDeckId(deckId)) !== count - cardComments) {
+                    errors.push('useCommentCountByDeckId did not follow deleteCard');
+                }
+                if (read(() => hooks.useAssigneeWorkload(userId)) !== workload - 1) {
+                    errors.push('useAssigneeWorkload did not follow deleteCard');
+                }
+            } else {
+                errors.push('No card with assignees in the test deck');
+            }
+        } catch (error) {
+            errors.push(
+                `Derived data test failed: ${error instanceof Error ? error.message : String(error)}`,
+            );
+        }
+
+        // Test 20: Search filter - useFilteredCardIdsByDeckId matches title, description
+        // and comment text case-insensitively, returns every card for a blank query and
+        // keeps its reference under churn that keeps the matches
+        try {
+            const sameIds = (a: ID[], b: ID[]) =>
+                a.length === b.length && a.every((id, i) => id === b[i]);
+            const filtered = (id: ID) => read(() => hooks.useFilteredCardIdsByDeckId(id));
+
+            const deckId = dataset.decksOrder[6];
+            const otherDeckId = dataset.decksOrder[7];
+            const cardIds = deckId ? read(() => hooks.useCardIdsByDeckId(deckId)) : [];
+            const [commentCardId, titleCardId, churnCardId] = cardIds;
+            const commentId = commentCardId
+                ? read(() => hooks.useCommentIdsByCardId(commentCardId))[0]
+                : undefined;
+            if (deckId && otherDeckId && commentId && titleCardId && churnCardId) {
+                if (!sameIds(filtered(deckId), cardIds)) {
+                    errors.push('useFilteredCardIdsByDeckId did not return every card when blank');
+                }
+
+                const originalText = read(() => hooks.useCommentById(commentId))!.text;
+                actions.updateCommentText(commentId, 'Found the zqxj marker');
+                actions.setSearchQuery('  ZQXJ ');
+                if (read(() => hooks.useSearchQuery()) !== '  ZQXJ ') {
+                    errors.push('setSearchQuery did not update useSearchQuery');
+                }
+                if (!sameIds(filtered(deckId), [commentCardId])) {
+                    errors.push('useFilteredCardIdsByDeckId did not match on comment text');
+                }
+                if (filtered(otherDeckId).length !== 0) {
+                    errors.push('useFilteredCardIdsByDeckId matched cards without the query');
+                }
+                actions.updateCard(titleCardId, { title: 'A zqxj title' });
+                if (!sameIds(filtered(deckId), [commentCardId, titleCardId])) {
+                    errors.push('useFilteredCardIdsByDeckId did not follow a card title edit');
+                }
+
+                // Churn that keeps the matches: a mounted reader keeps the reference
+                // and is not re-rendered
+                const churnCommentId = read(() => hooks.useCommentIdsByCardId(churnCardId))[0];
+                let probeRenders = 0;
+                let probeIds: ID[] | undefined;
+                const FilterProbe: React.FC = () => {
+                    probeRenders++;
+                    probeIds = hooks.useFilteredCardIdsByDeckId(deckId);
+                    return null;
+                };
+                const unmount = mount(FilterProbe);
+                const mountedIds = probeIds;
+                const rendersBefore = probeRenders;
+                actions.backgroundChurnStart();
+                actions.backgroundChurnStop();
+                actions.updateCard(churnCardId, { title: 'Filter churn' });
+                if (churnCommentId) actions.updateCommentText(churnCommentId, 'Filter churn');
+                if (typeof requestAnimationFrame !== 'undefined') {
+                    await new Promise((resolve) => requestAnimationFrame(resolve));
+                }
+                await new Promise((resolve) => setTimeout(resolve, 50));
+                const churnRenders = probeRenders - rendersBefore;
+                unmount();
+                if (probeIds !== mountedIds) {
+                    errors.push('Filtered card IDs changed reference under churn that kept them');
+                }
+                if (churnRenders > 0) {
+                    errors.push(
+                        `Filtered card IDs re-rendered ${churnRenders} times under churn that kept them`,
+                    );
+                }
+
+                // Editing the matching comment away drops its card; clearing the query
+                // brings every card back
+                actions.updateCommentText(commentId, originalText);
+                if (!sameIds(filtered(deckId), [titleCardId])) {
+                    errors.push('useFilteredCardIdsByDeckId did not follow a comment text edit');
+                }
+                actions.setSearchQuery('');
+                if (!sameIds(filtered(deckId), cardIds)) {
+                    errors.push('useFilteredCardIdsByDeckId did not reset with the query cleared');
+                }
+            } else {
+                errors.push('Not enough cards with comments in the search test deck');
+            }
+        } catch (error) {
+            errors.push(
+                `Search filter test failed: ${error instanceof Error ? error.message : String(error)}`,
+            );
+        }
+
+        // Test 21: Sorted views - useSortedCardIdsByDeckId orders by each sort key (ties
+        // in deck order), follows edits of the sorted field and structural edits, and
+        // keeps its reference when churn touches only other fields
+        try {
+            const sameIds = (a: ID[], b: ID[]) =>
+                a.length === b.length && a.every((id, i) => id === b[i]);
+            const sorted = (id: ID, sortKey: CardSortKey) =>
+                read(() => hooks.useSortedCardIdsByDeckId(id, sortKey));
+            const expectedOrder = (id: ID, sortKey: CardSortKey) =>
+                read(() => hooks.useCardIdsByDeckId(id))
+                    .map((cardId) => read(() => hooks.useCardById(cardId))!)
+                    .sort((a, b) =>
+                        sortKey === 'title'
+                            ? a.title < b.title
+                                ? -1
+                                : a.title > b.title
+                                  ? 1
+                                  : 0
+                            : b[sortKey] - a[sortKey],
+                    )
+                    .map((card) => card.id);
+            const sortKeys: CardSortKey[] = ['updatedAt', 'createdAt', 'title'];
+
+            const deckId = dataset.decksOrder[8];
+            const cardIds = deckId ? read(() => hooks.useCardIdsByDeckId(deckId)) : [];
+            if (deckId && cardIds.length >= 3) {
+                for (const sortKey of sortKeys) {
+                    if (!sameIds(sorted(deckId, sortKey), expectedOrder(deckId, sortKey))) {
+                        errors.push(`useSortedCardIdsByDeckId is not ordered by ${sortKey}`);
+                    }
+                }
+
+                // Bumping updatedAt moves the card to the top of the updatedAt order
+                const byUpdate = sorted(deckId, 'updatedAt');
+                const oldest = byUpdate[byUpdate.length - 1]!;
+                const newest = read(() => hooks.useCardById(byUpdate[0]!))!.updatedAt;
+                actions.updateCard(oldest, { updatedAt: newest + 1000 });
+                if (sorted(deckId, 'updatedAt')[0] !== oldest) {
+                    errors.push('useSortedCardIdsByDeckId did not follow an updatedAt edit');
+                }
+                actions.updateCard(oldest, { title: '~ last by title' });
+                const byTitle = sorted(deckId, 'title');
+                if (byTitle[byTitle.length - 1] !== oldest) {
+                    errors.push('useSortedCardIdsByDeckId did not follow a title edit');
+                }
+
+                // Churn on updatedAt only: mounted readers of the other orders keep their
+                // references and are not re-rendered
+                let probeRenders = 0;
+                let probeByTitle: ID[] | undefined;
+                let probeByCreation: ID[] | undefined;
+                const SortProbe: React.FC = () => {
+                    probeRenders++;
+                    probeByTitle = hooks.useSortedCardIdsByDeckId(deckId, 'title');
+                    probeByCreation = hooks.useSortedCardIdsByDeckId(deckId, 'createdAt');
+                    return null;
+                };
+                const unmount = mount(SortProbe);
+                const mountedByTitle = probeByTitle;
+                const mountedByCreation = probeByCreation;
+                const rendersBefore = probeRenders;
+                actions.backgroundChurnStart();
+                actions.backgroundChurnStop();
+                actions.updateCard(cardIds[0]!, { updatedAt: newest + 2000 });
+                if (typeof requestAnimationFrame !== 'undefined') {
+                    await new Promise((resolve) => requestAnimationFrame(resolve));
+                }
+                await new Promise((resolve) => setTimeout(resolve, 50));
+                const churnRenders = probeRenders - rendersBefore;
+                unmount();
+                if (probeByTitle !== mountedByTitle || probeByCreation !== mountedByCreation) {
+                    errors.push('Sorted card IDs changed reference under updatedAt churn');
+                }
+                if (churnRenders > 0) {
+                    errors.push(
+                        `Sorted card IDs re-rendered ${churnRenders} times under churn that kept the order`,
+                    );
+                }
+
+                // A created card joins every order; deleting it removes it again
+                const now = newest + 3000;
+                const createdId = `card_sorted_test_${Date.now()}`;
+                actions.createCard({
+                    id: createdId,
+                    deckId,
+                    title: '! first by title',
+                    description: '',
+                    authorId: Object.keys(dataset.entities.users)[0] || 'user_0',
+                    createdAt: now,
+                    updatedAt: now,
+                });
+                for (const sortKey of sortKeys) {
+                    if (sorted(deckId, sortKey)[0] !== createdId) {
+                        errors.push(`Created card is not first in the ${sortKey} order`);
+                    }
+                }
+                actions.deleteCard(createdId);
+                if (sorted(deckId, 'title').includes(createdId)) {
+                    errors.push('Deleted card is still in the sorted card IDs');
+                }
+            } else {
+                errors.push('Not enough cards in the sorted views test deck');
+            }
+        } catch (error) {
+            errors.push(
+                `Sorted views test failed: ${error instanceof Error ? error.message : String(error)}`,
+            );
+        }
+
+        // Test 22: Undo/redo - undoing a run of edits restores every touched value in
+        // reverse order, redo re-applies them, and a new edit clears the redo stack
+        if (actions.undo && actions.redo && actions.canUndo) {
+            try {
+                const deckId = dataset.decksOrder[9];
+                const toDeckId = dataset.decksOrder[10];
+                const cardIds = deckId ? read(() => hooks.useCardIdsByDeckId(deckId)) : [];
+                const userId = Object.keys(dataset.entities.users)[0];
+                const tagId = Object.keys(dataset.entities.tags)[0];
+                const subtaskId = Object.keys(dataset.entities.subtasks)[0];
+                if (deckId && toDeckId && cardIds.length >= 3 && userId && tagId && subtaskId) {
+                    const [editedId, movedId, deletedId] = cardIds as [ID, ID, ID];
+                    const snapshot = () => ({
+                        title: read(() => hooks.useCardById(editedId))?.title,
+                        userName: read(() => hooks.useUserById(userId))?.name,
+                        tagColor: read(() => hooks.useTagById(tagId))?.color,
+                        subtaskDone: read(() => hooks.useSubtaskById(subtaskId))?.done,
+                        deckCards: read(() => hooks.useCardIdsByDeckId(deckId)).join(','),
+                        toDeckCards: read(() => hooks.useCardIdsByDeckId(toDeckId)).join(','),
+                        deletedComments: read(() => hooks.useCommentIdsByCardId(deletedId)).join(
+                            ',',
+                        ),
+                        commentCount: read(() => hooks.useCommentCountByDeckId(deckId)),
+                    });
+                    const before = snapshot();
+
+                    const edits: Array<() => void> = [
+                        () => actions.updateCard(editedId, { title: 'Undo test title' }),
+                        () => actions.renameUser(userId, 'Undo test user'),
+                        () => actions.recolorTag(tagId, '#010203'),
+                        () => actions.toggleSubtask(subtaskId),
+                        () => actions.moveCard(movedId, toDeckId, 0),
+                        () => actions.deleteCard(deletedId),
+                    ];
+                    for (const edit of edits) edit();
+                    const after = snapshot();
+                    if (!actions.canUndo()) {
+                        errors.push('canUndo is false after recorded edits');
+                    }
+
+                    for (let i = 0; i < edits.length; i++) actions.undo();
+                    const undone = snapshot();
+                    for (const key of Object.keys(before) as Array<keyof typeof before>) {
+                        if (undone[key] !== before[key]) {
+                            errors.push(`Undo did not restore ${key}`);
+                        }
+                    }
+
+                    for (let i = 0; i < edits.length; i++) actions.redo();
+                    const redone = snapshot();
+                    for (const key of Object.keys(after) as Array<keyof typeof after>) {
+                        if (redone[key] !== after[key]) {
+                            errors.push(`Redo did not re-apply ${key}`);
+                        }
+                    }
+
+                    // A new edit after an undo drops the undone entry
+                    actions.undo();
+                    actions.updateCard(editedId, { title: 'Undo test branch' });
+                    actions.redo();
+                    if (read(() => hooks.useCardIdsByDeckId(deckId)).includes(deletedId)) {
+                        if (read(() => hooks.useCardById(editedId))?.title !== 'Undo test branch') {
+                            errors.push('Redo after a new edit replayed a discarded entry');
+                        }
+                    } else {
+                        errors.push('Redo after a new edit re-applied the discarded delete');
+                    }
+
+                    // A server push is no undo entry: undo skips it to the edit before
+                    if (actions.withoutHistory) {
+                        actions.withoutHistory(() =>
+                            actions.updateCard(editedId, { title: 'Undo test push' }),
+                        );
+                        actions.undo();
+                        if (read(() => hooks.useCardById(editedId))?.title !== after.title) {
+                            errors.push('An edit inside withoutHistory was recorded');
+                        }
+                    } else {
+                        errors.push('withoutHistory is missing on an adapter with undo');
+                    }
+                } else {
+                    errors.push('Not enough data in the undo/redo test deck');
+                }
+            } catch (error) {
+                errors.push(
+                    `Undo/redo test failed: ${error instanceof Error ? error.message : String(error)}`,
+                );
+            }
+        }
+
+        // Test 23: Optimistic save - saveCommentText shows the text before the server
+        // answers, keeps it when the save is accepted, rolls it back when rejected, and
+        // leaves a newer edit alone when an older save fails
+        if (actions.saveCommentText) {
+            try {
+                const readText = (commentId: ID) =>
+                    read(() => hooks.useCommentById(commentId)?.text);
+                const server = createMockServer({ latencyMs: 5 });
+                // Earlier tests delete cards, and their comments with them
+                const commentId = Object.keys(dataset.entities.comments).find(
+                    (id) => readText(id) !== undefined,
+                );
+                const original = commentId ? readText(commentId) : undefined;
+                if (commentId && original !== undefined) {
+                    const accepted = actions.saveCommentText(commentId, 'Saved text', server);
+                    if (readText(commentId) !== 'Saved text') {
+                        errors.push('saveCommentText did not apply the text optimistically');
+                    }
+                    if (!(await accepted) || readText(commentId) !== 'Saved text') {
+                        errors.push('saveCommentText lost a save the server accepted');
+                    }
+
+                    server.configure({ failureRate: 1 });
+                    const rejected = actions.saveCommentText(commentId, 'Rejected text', server);
+                    if (readText(commentId) !== 'Rejected text') {
+                        errors.push('saveCommentText did not apply the text before the response');
+                    }
+                    if ((await rejected) || readText(commentId) !== 'Saved text') {
+                        errors.push('saveCommentText did not roll back a rejected save');
+                    }
+
+                    // A failing save must not overwrite an edit made while it was in flight
+                    const overtaken = actions.saveCommentText(commentId, 'Overtaken text', server);
+                    actions.updateCommentText(commentId, 'Newer text');
+                    await overtaken;
+                    if (readText(commentId) !== 'Newer text') {
+                        errors.push('A rejected save rolled back a newer edit');
+                    }
+
+                    const requests = server.stats().requests;
+                    const missing = await actions.saveCommentText(
+                        'comment_missing',
+                        'Nothing to save',
+                        server,
+                    );
+                    if (missing || server.stats().requests !== requests) {
+                        errors.push('saveCommentText sent a save for an unknown comment');
+                    }
+                    actions.updateCommentText(commentId, original);
+                } else {
+                    errors.push('No comment for the optimistic save test');
+                }
+            } catch (error) {
+                errors.push(
+                    `Optimistic save test failed: ${error instanceof Error ? error.message : String(error)}`,
+                );
+            }
+        }
+
+        // Test 24: Leak check - mounting and unmounting readers, and moving them to
+        // another store, leaves no subscriptions behind
+        let leakCheck: LeakCheckResult | null = null;
+        try {
+            leakCheck = await checkAdapterLeaks(adapter);
+            if (leakCheck) errors.push(...leakCheck.errors);
+        } catch (error) {
+            errors.push(
+                `Leak check failed: ${error instanceof Error ? error.message : String(error)}`,
+            );
+        }
+
+        // Test 25: Server push - addComment appends the comment to its card, where the
+        // deck's comment count and the search filter see it, and ignores a known id
+        // or an unknown card
+        if (actions.addComment) {
+            try {
+                // Skip the decks the earlier tests edited
+                const deckId = dataset.decksOrder[8];
+                const cardId = deckId ? read(() => hooks.useCardIdsByDeckId(deckId))[0] : undefined;
+                if (deckId && cardId) {
+                    const before = read(() => hooks.useCommentIdsByCardId(cardId));
+                    const count = read(() => hooks.useCommentCountByDeckId(deckId));
+                    const comment: Comment = {
+                        id: 'comment_pushed',
+                        cardId,
+                        authorId: '',
+                        createdAt: Date.now(),
+                        text: 'A pushed qvzk comment',
+                    };
+                    actions.addComment(comment);
+                    const after = read(() => hooks.useCommentIdsByCardId(cardId));
+                    if (after.length !== before.length + 1 || after[before.length] !== comment.id) {
+                        errors.push('addComment did not append the comment to its card');
+                    }
+                    if (read(() => hooks.useCommentById(comment.id))?.text !== comment.text) {
+                        errors.push('addComment did not store the comment');
+                    }
+                    if (read(() => hooks.useCommentCountByDeckId(deckId)) !== count + 1) {
+                        errors.push('useCommentCountByDeckId did not count a pushed comment');
+                    }
+                    actions.setSearchQuery('qvzk');
+                    if (!read(() => hooks.useFilteredCardIdsByDeckId(deckId)).includes(cardId)) {
+                        errors.push('useFilteredCardIdsByDeckId did not match a pushed comment');
+                    }
+                    actions.setSearchQuery('');
+
+                    actions.addComment({ ...comment, text: 'Pushed twice' });
+                    actions.addComment({
+                        ...comment,
+                        id: 'comment_orphan',
+                        cardId: 'card_missing',
+                    });
+                    if (
+                        read(() => hooks.useCommentIdsByCardId(cardId)).length !== after.length ||
+                        read(() => hooks.useCommentById(comment.id))?.text !== comment.text
+                    ) {
+                        errors.push('addComment replaced a comment already in the store');
+                    }
+                    if (read(() => hooks.useCommentById('comment_orphan'))) {
+                        errors.push('addComment added a comment to an unknown card');
+                    }
+                } else {
+                    errors.push('No card for the server push test');
+                }
+            } catch (error) {
+                errors.push(
+                    `Server push test failed: ${error instanceof Error ? error.message : String(error)}`,
+                );
+            }
+        }
+
         return {
             adapterName,
             passed: errors.length === 0,
             errors,
+            leakCheck,
         };
     } catch (error) {
         errors.push(`Unexpected error: ${error instanceof Error ? error.message : String(error)}`);
@@ -913,6 +1718,147 @@ export async function testAdapter(adapter: StoreAdapter): Promise<AdapterTestRes
     }
 }
 
+// Readers of the leak check: the first `deckCount` decks down to each card's
+// comments, tags, assignees and checklist, through the hooks the app's components
+// use (wrapped in the adapter's observer, if it has one, like the app's leaves)
+function createLeakProbeTree(adapter: StoreAdapter, deckCount: number): React.ComponentType {
+    const hooks = adapter.hooks;
+    const wrap = <P extends object>(c: React.FC<P>): React.ComponentType<P> =>
+        adapter.observer ? adapter.observer(c) : c;
+    const h = React.createElement;
+
+    const CommentProbe = wrap<{ commentId: ID }>(({ commentId }) => {
+        hooks.useCommentById(commentId);
+        return null;
+    });
+    const CardProbe = wrap<{ cardId: ID }>(({ cardId }) => {
+        hooks.useCardById(cardId);
+        hooks.useTagIdsByCardId(cardId);
+        hooks.useAssigneeIdsByCardId(cardId);
+        hooks.useChildIdsByParentId(cardId);
+        const commentIds = hooks.useCommentIdsByCardId(cardId);
+        return h(
+            React.Fragment,
+            null,
+            commentIds.map((commentId) => h(CommentProbe, { key: commentId, commentId })),
+        );
+    });
+    const DeckProbe = wrap<{ deckId: ID }>(({ deckId }) => {
+        hooks.useDeckById(deckId);
+        hooks.useCommentCountByDeckId(deckId);
+        hooks.useTagHistogramByDeckId(deckId);
+        const cardIds = hooks.useFilteredCardIdsByDeckId(deckId);
+        return h(
+            React.Fragment,
+            null,
+            cardIds.map((cardId) => h(CardProbe, { key: cardId, cardId })),
+        );
+    });
+    return wrap(() => {
+        hooks.useActiveDeckId();
+        hooks.useSearchQuery();
+        const deckIds = hooks.useDeckIds().slice(0, deckCount);
+        return h(
+            React.Fragment,
+            null,
+            deckIds.map((deckId) => h(DeckProbe, { key: deckId, deckId })),
+        );
+    });
+}
+
+/**
+ * Mounts and unmounts a tree of readers on a fresh store `cycles` times, then
+ * switches one mounted tree to a second store, and fails (errors) when the
+ * store's debugStats counts end up above where they started. Resolves with null
+ * for an adapter without debugStats.
+ */
+export async function checkAdapterLeaks(
+    adapter: StoreAdapter,
+    options: { cycles?: number; decks?: number } = {},
+): Promise<LeakCheckResult | null> {
+    if (!adapter.debugStats || typeof document === 'undefined') return null;
+    const debugStats = adapter.debugStats;
+    const cycles = options.cycles ?? LEAK_CHECK_CYCLES;
+    const dataset = generateDataset({
+        decks: 20,
+        cardsPerDeck: 10,
+        minCommentsPerCard: 1,
+        maxCommentsPerCard: 3,
+        seed: 42,
+        subtaskCardsPerDeck: 1,
+    });
+    const count = (store: StoreHandle) => {
+        const stats = debugStats(store);
+        return stats.subscribers + (stats.listeners ?? 0);
+    };
+    const Tree = createLeakProbeTree(adapter, options.decks ?? 10);
+    const render = (root: ReturnType<typeof createRoot>, store: unknown) => {
+        flushSync(() => {
+            root.render(
+                React.createElement(adapter.Provider as any, { store }, React.createElement(Tree)),
+            );
+        });
+    };
+    // Lets subscriptions made or dropped in effects settle
+    const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    const store = adapter.createStore(dataset);
+    const before = count(store);
+    let mounted = before;
+    const afterCycles: number[] = [];
+    for (let i = 0; i < cycles; i++) {
+        const root = createRoot(document.createElement('div'));
+        render(root, store);
+        await settle();
+        if (i === 0) mounted = count(store);
+        root.unmount();
+        await settle();
+        afterCycles.push(count(store));
+    }
+
+    // The same root re-rendered with a second store: the readers stay mounted and
+    // must let go of the first store as they subscribe to the second
+    const nextStore = adapter.createStore(dataset);
+    const root = createRoot(document.createElement('div'));
+    render(root, store);
+    await settle();
+    render(root, nextStore);
+    await settle();
+    const afterSwitch = count(store);
+    const switched = count(nextStore);
+    root.unmount();
+    await settle();
+
+    const last = afterCycles[afterCycles.length - 1] ?? before;
+    const errors: string[] = [];
+    if (mounted <= before) {
+        errors.push('debugStats counted no subscribers while readers were mounted');
+    }
+    if (last > before) {
+        errors.push(
+            `Subscribers grew from ${before} to ${last} over ${cycles} mount/unmount cycles`,
+        );
+    }
+    // The cycles' own leftovers are already counted above
+    if (afterSwitch > last) {
+        errors.push(
+            `${afterSwitch - last} subscribers left on the previous store after switching stores`,
+        );
+    }
+    if (mounted > before && switched <= before) {
+        errors.push('Readers did not subscribe to the new store after switching stores');
+    }
+    return {
+        cycles,
+        before,
+        mounted,
+        afterCycles,
+        afterSwitch,
+        leaked: Math.max(0, last - before) + Math.max(0, afterSwitch - last),
+        errors,
+    };
+}
+
 /**
  * Test all adapters and return results
  */
@@ -10,36 +10,118 @@ import type {
     NormalizedEntities,
     CardAssignment,
     CardTag,
+    Subtask,
 } from './types';
+import type { MockServer } from './mockServer';
 
 export type StoreHandle = unknown;
 
+// tagId -> number of cards in a deck carrying that tag
+export type TagHistogram = Record<ID, number>;
+
+// Card orderings of the deck view: timestamps newest first, titles A to Z
+// (plain string comparison). Ties keep the deck's insertion order.
+export type CardSortKey = 'updatedAt' | 'createdAt' | 'title';
+
 export type ViewModelHooksIdsBased = {
     useDeckIds(): ID[];
     useDeckById(id: ID): Deck | undefined;
     useCardById(id: ID): Card | undefined;
     useCommentById(id: ID): Comment | undefined;
     useUserById(id: ID): User | undefined;
+    useTagById(id: ID): Tag | undefined;
+    useSubtaskById(id: ID): Subtask | undefined;
     // Methods returning ID arrays
     useCardIdsByDeckId(deckId: ID): ID[];
     useCommentIdsByCardId(cardId: ID): ID[];
     useAssigneeIdsByCardId(cardId: ID): ID[];
+    // Distinct tag ids (not cardTag ids) on the card, in the order they were attached
     useTagIdsByCardId(cardId: ID): ID[];
+    // Direct subtask children of a card or of another subtask, in creation order
+    useChildIdsByParentId(parentId: ID): ID[];
     useActiveDeckId(): ID | null;
+    useSearchQuery(): string;
+    // Cards of the deck whose title, description or comment text contains the search
+    // query (case-insensitive); every card of the deck while the query is blank. Keeps
+    // its reference while the matching ids are unchanged.
+    useFilteredCardIdsByDeckId(deckId: ID): ID[];
+    // The deck's cards ordered by `sortKey`. Keeps its reference while the order is
+    // unchanged, e.g. when churn rewrites `updatedAt` but the view sorts by title.
+    useSortedCardIdsByDeckId(deckId: ID, sortKey: CardSortKey): ID[];
+    // Derived data: each adapter computes these with its own idiom (selectors,
+    // computeds, derived stores...). Results must keep their reference while the
+    // derived value is unchanged, even when inputs of the derivation change.
+    useCommentCountByDeckId(deckId: ID): number;
+    useTagHistogramByDeckId(deckId: ID): TagHistogram;
+    useAssigneeWorkload(userId: ID): number; // cards the user is assigned to
 };
 
 export type ViewModelHooks = ViewModelHooksIdsBased;
 
 export type Actions = {
     setActiveDeck(id: ID): void;
+    setSearchQuery(query: string): void;
     updateCard(cardId: ID, changes: Partial<Card>): void;
     updateCommentText(commentId: ID, text: string): void;
     setCommentEditing(commentId: ID, isEditing: boolean): void;
     renameUser(userId: ID, name: string): void;
+    // Tag edits fan out to every card carrying the tag; the card->tags index is unchanged
+    renameTag(tagId: ID, label: string): void;
+    recolorTag(tagId: ID, color: string): void;
     bulkToggleTagOnCards(cardIds: ID[], tagId: ID): void;
     backgroundChurnStart(): void;
     backgroundChurnStop(): void;
     setCardVisibility(cardId: ID, isVisible: boolean): void;
+    // Structural edits: these exercise index maintenance (deck -> cards, card -> comments/...)
+    createCard(card: Card): void; // appended to the end of card.deckId
+    deleteCard(cardId: ID): void; // cascades to the card's comments, assignments, cardTags and subtask tree
+    moveCard(cardId: ID, toDeckId: ID, index: number): void;
+    toggleSubtask(subtaskId: ID): void;
+    /**
+     * Optional server push of a new comment (see eventStream.ts): appended to the
+     * end of comment.cardId's comments. A no-op for an unknown card or a comment id
+     * already in the store. Not an edit of the user's, so never an undo entry.
+     */
+    addComment?(comment: Comment): void;
+    /**
+     * Optional undo history. Every call of an entity edit that changes data is one
+     * entry: updateCard, updateCommentText, renameUser, renameTag, recolorTag,
+     * bulkToggleTagOnCards, the structural edits and toggleSubtask. UI state (active
+     * deck, search query, comment editing, visibility) and background churn are not
+     * recorded, nor are edits made inside withoutHistory. A new entry clears the redo
+     * stack. Undoing an edit may also revert unrecorded writes made since: stores
+     * that snapshot their state restore all of it, stores that patch records in place
+     * only write back the records it touched.
+     */
+    undo?(): void;
+    redo?(): void;
+    canUndo?(): boolean;
+    /**
+     * Runs `write` with recording paused: the entity edits it calls are applied but
+     * are never undo entries, and leave the redo stack alone. For server pushes (see
+     * eventStream.ts), which are not edits of the user's. Required of adapters with
+     * undo; calls may nest.
+     */
+    withoutHistory?(write: () => void): void;
+    /**
+     * Optional async variant of updateCommentText that saves to a mock server (see
+     * mockServer.ts): the text is applied optimistically, as updateCommentText, and
+     * the text read before is written back when the server rejects it, unless a
+     * later edit replaced the optimistic text first (that edit owns it now). Resolves
+     * true when the server accepted the text; false, without a request, for an
+     * unknown comment.
+     */
+    saveCommentText?(commentId: ID, text: string, server: MockServer): Promise<boolean>;
+};
+
+// Live subscription counters of one store (see StoreAdapter.debugStats)
+export type AdapterDebugStats = {
+    // Subscriptions the mounted readers (hooks, observer components) hold on the
+    // store; back where it was once the components that took them unmount
+    subscribers: number;
+    // Listeners on the store's own subscribe API when readers do not subscribe
+    // through it directly (a Provider's root subscription, say); omitted otherwise
+    listeners?: number;
 };
 
 export type StoreAdapter = {
@@ -57,6 +139,14 @@ export type StoreAdapter = {
      * the adapter). Must be a stable function reference.
      */
     observer?: <P extends object>(c: React.ComponentType<P>) => React.ComponentType<P>;
+    /**
+     * Optional debug counters of a store made by createStore, read by the deck
+     * navigation scenario before and after it mounts and unmounts deck views, and
+     * by the leak check of the adapter tests: subscribers or listeners left over
+     * once the components are gone leaked. Counting may walk the store, so it is
+     * not meant for hot paths.
+     */
+    debugStats?(store: StoreHandle): AdapterDebugStats;
 };
 
 export type Dataset = RootState;
@@ -68,7 +158,18 @@ export type WorkloadScenario =
     | 'inline-editing'
     | 'background-churn'
     | 'fan-out-update'
-    | 'bulk-update';
+    | 'bulk-update'
+    | 'structural-edit'
+    | 'deep-toggle'
+    | 'tag-rename'
+    | 'derived-churn'
+    | 'reorder-churn'
+    | 'undo-redo'
+    | 'optimistic-save'
+    | 'replay'
+    | 'concurrent-input'
+    | 'deck-navigation'
+    | 'realtime-stream';
 
 export type WorkloadDriver = {
     run(scenario: WorkloadScenario, opts?: Record<string, unknown>): Promise<void>;
@@ -111,4 +212,5 @@ export type {
     NormalizedEntities,
     CardAssignment,
     CardTag,
+    Subtask,
 };
@@ -8,10 +8,13 @@ import type {
     Tag,
     CardAssignment,
     CardTag,
+    Subtask,
     ID,
 } from './types';
 
-class Mulberry32 {
+// Seeded PRNG (mulberry32): the same seed gives the same sequence of [0, 1) floats.
+// Every seeded stream in core draws from it, so they cannot drift apart.
+export class Mulberry32 {
     private state: number;
     constructor(seed: number) {
         this.state = seed >>> 0;
@@ -28,6 +31,27 @@ const pick = <T>(rng: Mulberry32, arr: T[]): T => arr[Math.floor(rng.next() * ar
 
 const makeId = (prefix: string, n: number) => `${prefix}_${n}`;
 
+/**
+ * How a relation picks its target among `n` candidates. Rank 0 is always the
+ * hottest entity (user_0, tag_0, or the minimum comment count), so workloads that
+ * default to `user_0` / `tag_0` hit the skewed end.
+ *  - uniform: every candidate equally likely (the original behaviour)
+ *  - zipf:    P(rank k) ∝ 1 / (k + 1)^exponent
+ *  - hot-set: `share` of draws land uniformly on the first `size` candidates,
+ *             the rest uniformly on the remainder
+ */
+export type Distribution =
+    | { kind: 'uniform' }
+    | { kind: 'zipf'; exponent: number }
+    | { kind: 'hot-set'; size: number; share: number };
+
+export type DatasetDistributions = {
+    authors?: Distribution; // card + comment authors over users
+    assignees?: Distribution; // card assignees over users
+    tags?: Distribution; // card tags over tags
+    commentCounts?: Distribution; // over [minCommentsPerCard, maxCommentsPerCard]
+};
+
 export type DataGenOptions = {
     decks?: number; // default 1000
     cardsPerDeck?: number; // default 10
@@ -36,8 +60,66 @@ export type DataGenOptions = {
     users?: number; // default ~2000
     tags?: number; // default 50
     seed?: number; // default 42
+    epoch?: number; // ms timestamp all dates derive from; default Date.now() (non-deterministic)
+    distributions?: DatasetDistributions; // default uniform for every relation
+    subtaskCardsPerDeck?: number; // first N cards of each deck get a checklist tree; default 0
+    subtaskBranching?: number; // children per checklist node; default 2
+    subtaskDepth?: number; // checklist nesting levels below the card; default 3
+};
+
+// Ready-made skew profiles for the relations that drive fan-out (authors,
+// assignees) and bulk tag toggles.
+export const DATASET_SKEW_PRESETS: Record<'uniform' | 'zipf' | 'hot-set', DatasetDistributions> = {
+    uniform: {},
+    zipf: {
+        authors: { kind: 'zipf', exponent: 1.1 },
+        assignees: { kind: 'zipf', exponent: 1.1 },
+        tags: { kind: 'zipf', exponent: 1.1 },
+        commentCounts: { kind: 'zipf', exponent: 1.5 },
+    },
+    'hot-set': {
+        authors: { kind: 'hot-set', size: 10, share: 0.8 },
+        assignees: { kind: 'hot-set', size: 10, share: 0.8 },
+        tags: { kind: 'hot-set', size: 5, share: 0.8 },
+    },
 };
 
+// Returns a seeded index sampler over [0, n). Uniform consumes exactly one draw
+// per sample, so datasets generated without `distributions` are unchanged.
+function createSampler(rng: Mulberry32, n: number, dist: Distribution = { kind: 'uniform' }) {
+    switch (dist.kind) {
+        case 'uniform':
+            return () => Math.floor(rng.next() * n);
+        case 'zipf': {
+            // Cumulative weights, sampled by binary search: O(log n) per draw
+            const cdf = new Float64Array(n);
+            let total = 0;
+            for (let k = 0; k < n; k++) {
+                total += 1 / Math.pow(k + 1, dist.exponent);
+                cdf[k] = total;
+            }
+            return () => {
+                const target = rng.next() * total;
+                let lo = 0;
+                let hi = n - 1;
+                while (lo < hi) {
+                    const mid = (lo + hi) >>> 1;
+                    if (cdf[mid]! < target) lo = mid + 1;
+                    else hi = mid;
+                }
+                return lo;
+            };
+        }
+        case 'hot-set': {
+            const size = Math.max(1, Math.min(dist.size, n));
+            return () =>
+                rng.next() < dist.share || size === n
+                    ? Math.floor(rng.next() * size)
+                    : size + Math.floor(rng.next() * (n - size));
+        }
+    }
+}
+
 export function generateDataset(opts: DataGenOptions = {}): RootState {
     const {
         decks = 1000,
@@ -47,9 +129,22 @@ export function generateDataset(opts: DataGenOptions = {}): RootState {
         users = 2000,
         tags = 50,
         seed = 42,
+        epoch = Date.now(),
+        distributions = {},
+        subtaskCardsPerDeck = 0,
+        subtaskBranching = 2,
+        subtaskDepth = 3,
     } = opts;
 
     const rng = new Mulberry32(seed);
+    const pickAuthor = createSampler(rng, users, distributions.authors);
+    const pickAssignee = createSampler(rng, users, distributions.assignees);
+    const pickTag = createSampler(rng, tags, distributions.tags);
+    const pickCommentCount = createSampler(
+        rng,
+        maxCommentsPerCard - minCommentsPerCard + 1,
+        distributions.commentCounts,
+    );
 
     const usersMap: Record<ID, User> = {};
     for (let i = 0; i < users; i++) {
@@ -62,7 +157,7 @@ export function generateDataset(opts: DataGenOptions = {}): RootState {
     }
 
     const tagsMap: Record<ID, Tag> = {};
-    const baseTime = Date.now() - Math.floor(rng.next() * 1000 * 60 * 60 * 24 * 365);
+    const baseTime = epoch - Math.floor(rng.next() * 1000 * 60 * 60 * 24 * 365);
     for (let i = 0; i < tags; i++) {
         const id = makeId('tag', i);
         const createdAt = baseTime + i * 1000 * 60;
@@ -80,12 +175,32 @@ export function generateDataset(opts: DataGenOptions = {}): RootState {
     const commentsMap: Record<ID, Comment> = {};
     const cardAssignmentsMap: Record<ID, CardAssignment> = {};
     const cardTagsMap: Record<ID, CardTag> = {};
+    const subtasksMap: Record<ID, Subtask> = {};
     const decksOrder: ID[] = [];
 
     let commentCounter = 0;
     let cardCounter = 0;
     let assignmentCounter = 0;
     let cardTagCounter = 0;
+    let subtaskCounter = 0;
+
+    // Checklists draw from their own stream so enabling them leaves every other
+    // entity identical to a dataset generated without them.
+    const subtaskRng = new Mulberry32(seed ^ 0x5eed5ab7);
+    const addSubtasks = (parentId: ID, level: number, createdAt: number) => {
+        if (level > subtaskDepth) return;
+        for (let b = 0; b < subtaskBranching; b++) {
+            const id = makeId('subtask', subtaskCounter++);
+            subtasksMap[id] = {
+                id,
+                parentId,
+                title: `Subtask ${id}`,
+                done: subtaskRng.next() < 0.3,
+                createdAt,
+            };
+            addSubtasks(id, level + 1, createdAt);
+        }
+    };
 
     for (let d = 0; d < decks; d++) {
         const deckId = makeId('deck', d);
@@ -94,8 +209,8 @@ export function generateDataset(opts: DataGenOptions = {}): RootState {
 
         for (let c = 0; c < cardsPerDeck; c++) {
             const cardId = makeId('card', cardCounter++);
-            const authorId = makeId('user', Math.floor(rng.next() * users));
-            const createdAt = Date.now() - Math.floor(rng.next() * 1000 * 60 * 60 * 24 * 365);
+            const authorId = makeId('user', pickAuthor());
+            const createdAt = epoch - Math.floor(rng.next() * 1000 * 60 * 60 * 24 * 365);
             const updatedAt = createdAt + Math.floor(rng.next() * 1000 * 60 * 60 * 24 * 30);
 
             // Create normalized card
@@ -113,7 +228,7 @@ export function generateDataset(opts: DataGenOptions = {}): RootState {
             const assigneeCount = Math.floor(rng.next() * 3);
             for (let a = 0; a < assigneeCount; a++) {
                 const assignmentId = makeId('assignment', assignmentCounter++);
-                const userId = makeId('user', Math.floor(rng.next() * users));
+                const userId = makeId('user', pickAssignee());
                 cardAssignmentsMap[assignmentId] = {
                     id: assignmentId,
                     cardId,
@@ -126,7 +241,7 @@ export function generateDataset(opts: DataGenOptions = {}): RootState {
             const tagCount = Math.floor(rng.next() * 3);
             for (let t = 0; t < tagCount; t++) {
                 const cardTagId = makeId('cardtag', cardTagCounter++);
-                const tagId = makeId('tag', Math.floor(rng.next() * tags));
+                const tagId = makeId('tag', pickTag());
                 cardTagsMap[cardTagId] = {
                     id: cardTagId,
                     cardId,
@@ -136,12 +251,10 @@ export function generateDataset(opts: DataGenOptions = {}): RootState {
             }
 
             // Create comments
-            const perCardComments =
-                Math.floor(rng.next() * (maxCommentsPerCard - minCommentsPerCard + 1)) +
-                minCommentsPerCard;
+            const perCardComments = pickCommentCount() + minCommentsPerCard;
             for (let k = 0; k < perCardComments; k++) {
                 const commentId = makeId('comment', commentCounter++);
-                const author = makeId('user', Math.floor(rng.next() * users));
+                const author = makeId('user', pickAuthor());
                 commentsMap[commentId] = {
                     id: commentId,
                     authorId: author,
@@ -150,13 +263,15 @@ export function generateDataset(opts: DataGenOptions = {}): RootState {
                     text: `Comment ${commentId} on ${cardId}`,
                 };
             }
+
+            if (c < subtaskCardsPerDeck) addSubtasks(cardId, 1, createdAt);
         }
 
         decksMap[deckId] = {
             id: deckId,
             title: `Deck ${d}`,
             ownerId: makeId('user', Math.floor(rng.next() * users)),
-            createdAt: Date.now() - Math.floor(rng.next() * 1000 * 60 * 60 * 24 * 365),
+            createdAt: epoch - Math.floor(rng.next() * 1000 * 60 * 60 * 24 * 365),
         };
     }
 
@@ -168,6 +283,7 @@ export function generateDataset(opts: DataGenOptions = {}): RootState {
         tags: tagsMap,
         cardAssignments: cardAssignmentsMap,
         cardTags: cardTagsMap,
+        subtasks: subtasksMap,
     };
 
     const dataset: RootState = {
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { Actions } from './adapter';
+import { generateDataset } from './dataGen';
+import { applyStreamOp, generateEventStream, type StreamOp } from './eventStream';
+
+const data = generateDataset({
+    decks: 10,
+    cardsPerDeck: 10,
+    minCommentsPerCard: 1,
+    maxCommentsPerCard: 3,
+    users: 20,
+    tags: 10,
+    seed: 42,
+    epoch: 0,
+});
+
+describe('generateEventStream', () => {
+    it('gives the same stream for the same seed', () => {
+        const options = { ratePerSec: 300, burstiness: 0.5, finalBurst: 20, seed: 9 };
+        const first = generateEventStream(data, 2000, options);
+        expect(generateEventStream(data, 2000, options)).toEqual(first);
+        expect(generateEventStream(data, 2000, { ...options, seed: 10 })).not.toEqual(first);
+    });
+
+    it('emits the rate on average, in time order, then the final burst', () => {
+        const events = generateEventStream(data, 3000, { ratePerSec: 200, finalBurst: 25 });
+        expect(events).toHaveLength(200 * 3 + 25);
+        for (let i = 1; i < events.length; i++) {
+            expect(events[i]!.at).toBeGreaterThanOrEqual(events[i - 1]!.at);
+        }
+        expect(events.slice(-25).every((event) => event.at === 3000)).toBe(true);
+    });
+
+    it('sends a burst at the start of every period', () => {
+        const events = generateEventStream(data, 3000, { ratePerSec: 100, burstiness: 1 });
+        expect(new Set(events.map((event) => event.at))).toEqual(new Set([0, 1000, 2000]));
+    });
+
+    it('targets the dataset, with new comment ids outside it', () => {
+        const deckIds = data.decksOrder.slice(0, 2);
+        const events = generateEventStream(data, 2000, { deckIds, seed: 3 });
+        for (const { op } of events) {
+            if (op.kind === 'card-edit') {
+                expect(deckIds).toContain(data.entities.cards[op.cardId]?.deckId);
+            } else if (op.kind === 'new-comment') {
+                expect(data.entities.comments[op.comment.id]).toBeUndefined();
+                expect(deckIds).toContain(data.entities.cards[op.comment.cardId]?.deckId);
+            } else if (op.kind === 'tag-toggle') {
+                expect(data.entities.tags[op.tagId]).toBeDefined();
+            }
+        }
+    });
+
+    it('emits only the kinds in the mix', () => {
+        const events = generateEventStream(data, 1000, { mix: { rename: 1 } });
+        expect(events.every((event) => event.op.kind === 'rename')).toBe(true);
+    });
+});
+
+describe('applyStreamOp', () => {
+    // Actions that log the writes, and whether each ran inside withoutHistory
+    const createLoggingActions = (withHistory: boolean) => {
+        const writes: Array<{ name: string; recorded: boolean }> = [];
+        let paused = false;
+        const log = (name: string) => () => writes.push({ name, recorded: !paused });
+        const actions = {
+            updateCard: log('updateCard'),
+            renameUser: log('renameUser'),
+            renameTag: log('renameTag'),
+            bulkToggleTagOnCards: log('bulkToggleTagOnCards'),
+            addComment: log('addComment'),
+            ...(withHistory && {
+                withoutHistory(write: () => void) {
+                    paused = true;
+                    write();
+                    paused = false;
+                },
+            }),
+        } as unknown as Actions;
+        return { actions, writes };
+    };
+
+    const ops: StreamOp[] = generateEventStream(data, 1000, { seed: 5 }).map((e) => e.op);
+
+    it('applies every push inside withoutHistory when the adapter has undo', () => {
+        const { actions, writes } = createLoggingActions(true);
+        for (const op of ops) expect(applyStreamOp(actions, op)).toBe(true);
+        expect(writes).toHaveLength(ops.length);
+        expect(writes.some((write) => write.recorded)).toBe(false);
+    });
+
+    it('writes directly without undo, and skips comments without addComment', () => {
+        const { actions, writes } = createLoggingActions(false);
+        delete (actions as Partial<Actions>).addComment;
+        const applied = ops.filter((op) => applyStreamOp(actions, op)).length;
+        expect(applied).toBe(ops.filter((op) => op.kind !== 'new-comment').length);
+        expect(writes).toHaveLength(applied);
+    });
+});
@@ -0,0 +1,246 @@
+import type { Actions } from './adapter';
+import { Mulberry32 } from './dataGen';
+import type { Card, Comment, ID, RootState } from './types';
+
+/**
+ * Local event stream standing in for a realtime feed: server-pushed entity
+ * operations (card edits, new comments, user and tag renames, tag toggles) at a
+ * configurable rate, arriving evenly or in bursts. Operations are drawn from a
+ * seeded generator over the ids of a dataset, so the same options give the same
+ * stream on every run and every adapter.
+ */
+
+export type StreamOpKind = 'card-edit' | 'new-comment' | 'rename' | 'tag-toggle';
+
+export type StreamOp =
+    | { kind: 'card-edit'; cardId: ID; changes: Partial<Card> }
+    | { kind: 'new-comment'; comment: Comment }
+    | { kind: 'rename'; entity: 'user' | 'tag'; id: ID; name: string }
+    | { kind: 'tag-toggle'; cardIds: ID[]; tagId: ID };
+
+export type StreamEvent = {
+    at: number; // ms since the stream started
+    op: StreamOp;
+};
+
+export type EventStreamOptions = {
+    ratePerSec?: number; // average events per second over the whole stream
+    // Share of each period's events that arrive together at its start, 0..1; the
+    // rest are spread evenly over the period. 0 is a steady trickle, 1 one burst
+    // per period with silence in between, at the same average rate.
+    burstiness?: number;
+    periodMs?: number; // time from one burst to the next
+    // Events arriving together at durationMs, once the stream is over, so a run
+    // can time how long the store takes to settle after a burst
+    finalBurst?: number;
+    // Relative weights of the operation kinds; a kind left out is not emitted
+    mix?: Partial<Record<StreamOpKind, number>>;
+    // Cards are picked from these decks only (the mounted ones, say); all by default
+    deckIds?: ID[];
+    seed?: number;
+    // Prefix of the new comments' ids, `stream<seed>` by default; streams added to
+    // one store need prefixes of their own
+    idPrefix?: string;
+};
+
+const DEFAULT_MIX: Record<StreamOpKind, number> = {
+    'card-edit': 4,
+    'new-comment': 3,
+    rename: 1,
+    'tag-toggle': 2,
+};
+
+// Cards one tag toggle flips
+const TOGGLE_CARDS = 3;
+
+/**
+ * The events of a stream `durationMs` long, ordered by time. Bursts start at
+ * 0, periodMs, 2 * periodMs, ...; new comments get ids that are not in `data`.
+ */
+export function generateEventStream(
+    data: RootState,
+    durationMs: number,
+    options: EventStreamOptions = {},
+): StreamEvent[] {
+    const seed = options.seed ?? 1;
+    const idPrefix = options.idPrefix ?? `stream${seed}`;
+    const ratePerSec = options.ratePerSec ?? 200;
+    const burstiness = Math.min(1, Math.max(0, options.burstiness ?? 0));
+    const periodMs = options.periodMs ?? 1000;
+    const mix = options.mix ?? DEFAULT_MIX;
+    const rng = new Mulberry32(seed);
+    const random = () => rng.next();
+    const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)]!;
+
+    const deckIds = new Set(options.deckIds ?? data.decksOrder);
+    const cards = Object.values(data.entities.cards).filter((card) => deckIds.has(card.deckId));
+    const userIds = Object.keys(data.entities.users);
+    const tagIds = Object.keys(data.entities.tags);
+    if (cards.length === 0) throw new Error('Event stream has no cards to target');
+
+    const kinds = (Object.keys(mix) as StreamOpKind[]).filter(
+        (kind) =>
+            (mix[kind] ?? 0) > 0 &&
+            (kind !== 'rename' || userIds.length + tagIds.length > 0) &&
+            (kind !== 'tag-toggle' || tagIds.length > 0),
+    );
+    const totalWeight = kinds.reduce((sum, kind) => sum + mix[kind]!, 0);
+    if (kinds.length === 0) throw new Error('Event stream mix has no operation to emit');
+    const pickKind = (): StreamOpKind => {
+        let r = random() * totalWeight;
+        for (const kind of kinds) {
+            r -= mix[kind]!;
+            if (r < 0) return kind;
+        }
+        return kinds[kinds.length - 1]!;
+    };
+
+    let seq = 0;
+    const nextOp = (at: number): StreamOp => {
+        const n = seq++;
+        switch (pickKind()) {
+            case 'card-edit': {
+                const card = pick(cards);
+                return random() < 0.5
+                    ? { kind: 'card-edit', cardId: card.id, changes: { updatedAt: at } }
+                    : {
+                          kind: 'card-edit',
+                          cardId: card.id,
+                          changes: { title: `${card.title} · live ${n}`, updatedAt: at },
+                      };
+            }
+            case 'new-comment': {
+                const card = pick(cards);
+                return {
+                    kind: 'new-comment',
+                    comment: {
+                        id: `${idPrefix}_comment_${n}`,
+                        cardId: card.id,
+                        authorId: userIds.length > 0 ? pick(userIds) : '',
+                        createdAt: at,
+                        text: `Live comment ${n}`,
+                    },
+                };
+            }
+            case 'rename': {
+                const isUser = tagIds.length === 0 || (userIds.length > 0 && random() < 0.5);
+                return isUser
+                    ? { kind: 'rename', entity: 'user', id: pick(userIds), name: `User ${n}` }
+                    : { kind: 'rename', entity: 'tag', id: pick(tagIds), name: `tag-${n}` };
+            }
+            case 'tag-toggle': {
+                const cardIds = new Set<ID>();
+                for (let i = 0; i < TOGGLE_CARDS; i++) cardIds.add(pick(cards).id);
+                return { kind: 'tag-toggle', cardIds: [...cardIds], tagId: pick(tagIds) };
+            }
+        }
+    };
+
+    const events: StreamEvent[] = [];
+    const perPeriod = (ratePerSec * periodMs) / 1000;
+    // Fractional counts carry over, so a low rate still emits its average
+    let carry = 0;
+    for (let start = 0; start < durationMs; start += periodMs) {
+        const length = Math.min(periodMs, durationMs - start);
+        carry += perPeriod * (length / periodMs);
+        const count = Math.floor(carry);
+        carry -= count;
+        const burst = Math.round(count * burstiness);
+        for (let i = 0; i < burst; i++) events.push({ at: start, op: nextOp(start) });
+        const spread = count - burst;
+        for (let i = 0; i < spread; i++) {
+            const at = start + ((i + 1) * length) / (spread + 1);
+            events.push({ at, op: nextOp(at) });
+        }
+    }
+    for (let i = 0; i < (options.finalBurst ?? 0); i++) {
+        events.push({ at: durationMs, op: nextOp(durationMs) });
+    }
+    return events;
+}
+
+/**
+ * Applies one operation through the adapter's actions, inside withoutHistory when
+ * the adapter has undo, so a push is never an undo entry. False, without a write,
+ * when the adapter has no action for it (addComment is optional).
+ */
+export function applyStreamOp(actions: Actions, op: StreamOp): boolean {
+    if (op.kind === 'new-comment' && !actions.addComment) return false;
+    if (actions.withoutHistory) actions.withoutHistory(() => writeStreamOp(actions, op));
+    else writeStreamOp(actions, op);
+    return true;
+}
+
+function writeStreamOp(actions: Actions, op: StreamOp) {
+    switch (op.kind) {
+        case 'card-edit':
+            actions.updateCard(op.cardId, op.changes);
+            break;
+        case 'new-comment':
+            actions.addComment?.(op.comment);
+            break;
+        case 'rename':
+            if (op.entity === 'user') actions.renameUser(op.id, op.name);
+            else actions.renameTag(op.id, op.name);
+            break;
+        case 'tag-toggle':
+            actions.bulkToggleTagOnCards(op.cardIds, op.tagId);
+            break;
+    }
+}
+
+export type EventStreamRunOptions = {
+    // Longest stretch spent applying due events before yielding to the browser;
+    // events that fall due meanwhile wait in the backlog
+    sliceMs?: number;
+    shouldStop?: () => boolean;
+};
+
+export type EventStreamRun = {
+    applied: number;
+    skipped: number; // operations the adapter has no action for
+    // Most events that were due but not yet applied at once
+    maxBacklog: number;
+    // When the last event was applied, ms since the stream started
+    lastAppliedAt: number;
+};
+
+/**
+ * Feeds `events` to `actions` in real time: every event is applied once its time
+ * has come, in order, in slices of at most sliceMs with a macrotask in between,
+ * so renders and frames can interleave. Resolves after the last event.
+ */
+export async function runEventStream(
+    actions: Actions,
+    events: StreamEvent[],
+    options: EventStreamRunOptions = {},
+): Promise<EventStreamRun> {
+    const sliceMs = options.sliceMs ?? 8;
+    const start = performance.now();
+    let next = 0;
+    let applied = 0;
+    let skipped = 0;
+    let maxBacklog = 0;
+    let lastAppliedAt = 0;
+    const countDue = (now: number) => {
+        let due = next;
+        while (due < events.length && events[due]!.at <= now) due++;
+        return due - next;
+    };
+
+    while (next < events.length && !options.shouldStop?.()) {
+        const wait = start + events[next]!.at - performance.now();
+        if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+        else await new Promise((resolve) => setTimeout(resolve, 0));
+        const sliceStart = performance.now();
+        maxBacklog = Math.max(maxBacklog, countDue(sliceStart - start));
+        while (next < events.length && events[next]!.at <= performance.now() - start) {
+            if (applyStreamOp(actions, events[next]!.op)) applied++;
+            else skipped++;
+            next++;
+            if (performance.now() - sliceStart >= sliceMs) break;
+        }
+        lastAppliedAt = performance.now() - start;
+    }
+    return { applied, skipped, maxBacklog, lastAppliedAt };
+}
@@ -0,0 +1,106 @@
+import type { RootState } from './types';
+import type { DataGenOptions } from './dataGen';
+
+/**
+ * Dataset fixtures: a RootState frozen to JSON together with a content hash, so
+ * every benchmark result can say exactly which data it ran against and runs on
+ * different machines can be compared (or replayed) on identical input.
+ */
+
+// Bump when the fixture envelope or the RootState shape changes incompatibly.
+export const FIXTURE_VERSION = 2;
+
+// Fixed epoch the bench app generates its dataset against (2024-01-01T00:00:00Z),
+// so the same seed yields a byte-identical dataset on every run.
+export const DEFAULT_FIXTURE_EPOCH = Date.UTC(2024, 0, 1);
+
+export type DatasetFixture = {
+    version: number;
+    hash: string;
+    // Generator options the state was produced with, when known (informational only)
+    generator?: DataGenOptions;
+    state: RootState;
+};
+
+// JSON with object keys sorted at every level, so the hash does not depend on
+// property insertion order.
+function canonicalJson(value: unknown): string {
+    if (value === null || typeof value !== 'object') {
+        return JSON.stringify(value) ?? 'null';
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map((v) => (v === undefined ? 'null' : canonicalJson(v))).join(',')}]`;
+    }
+    const obj = value as Record<string, unknown>;
+    const parts: string[] = [];
+    for (const key of Object.keys(obj).sort()) {
+        if (obj[key] === undefined) continue;
+        parts.push(`${JSON.stringify(key)}:${canonicalJson(obj[key])}`);
+    }
+    return `{${parts.join(',')}}`;
+}
+
+// cyrb53: fast, synchronous 53-bit string hash (crypto.subtle is async and
+// browser-only). Not cryptographic — it only has to tell datasets apart.
+function cyrb53(str: string, seed = 0): string {
+    let h1 = 0xdeadbeef ^ seed;
+    let h2 = 0x41c6ce57 ^ seed;
+    for (let i = 0; i < str.length; i++) {
+        const ch = str.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+    h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+    h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    const n = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+    return n.toString(16).padStart(14, '0');
+}
+
+/**
+ * Content hash of a dataset: identical entities/order/activeDeckId give the same
+ * hash regardless of key order or which machine generated them.
+ */
+export function hashDataset(state: RootState): string {
+    return cyrb53(canonicalJson(state));
+}
+
+export function createFixture(state: RootState, generator?: DataGenOptions): DatasetFixture {
+    return { version: FIXTURE_VERSION, hash: hashDataset(state), generator, state };
+}
+
+export function serializeFixture(fixture: DatasetFixture): string {
+    return JSON.stringify(fixture);
+}
+
+/**
+ * Parse fixture JSON, rejecting unknown versions and content that does not
+ * match its recorded hash (hand-edited or truncated files).
+ */
+export function parseFixture(json: string): DatasetFixture {
+    const fixture = JSON.parse(json) as Partial<DatasetFixture>;
+    if (!fixture || typeof fixture !== 'object' || !fixture.state) {
+        throw new Error('Invalid dataset fixture: missing state');
+    }
+    if (fixture.version !== FIXTURE_VERSION) {
+        throw new Error(
+            `Unsupported dataset fixture version ${String(fixture.version)} (expected ${FIXTURE_VERSION})`,
+        );
+    }
+    const actual = hashDataset(fixture.state);
+    if (fixture.hash !== actual) {
+        throw new Error(
+            `Dataset fixture hash mismatch: file says ${String(fixture.hash)}, content is ${actual}`,
+        );
+    }
+    return fixture as DatasetFixture;
+}
+
+export async function loadFixture(url: string): Promise<DatasetFixture> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to load dataset fixture ${url}: ${response.status}`);
+    }
+    return parseFixture(await response.text());
+}
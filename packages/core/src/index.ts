@@ -2,6 +2,12 @@ export * from './types';
 export * from './adapter';
 export * from './adapter-test';
 export * from './dataGen';
+export * from './eventStream';
+export * from './fixtures';
 export * from './metrics';
+export * from './mockServer';
+export * from './scenarios';
+export * from './stats';
+export * from './traces';
 export * from './workloads';
 export * from './useRenderCount';
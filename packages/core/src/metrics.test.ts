@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { fitLogLogSlope, summarizeScalingSweep, type ScalingPoint } from './metrics';
+
+const SIZES = [1000, 5000, 20000, 100000];
+
+describe('fitLogLogSlope', () => {
+    it('recovers the exponent and factor of a power law', () => {
+        const fit = fitLogLogSlope(SIZES.map((x) => ({ x, y: 3 * x ** 1.5 })));
+        expect(fit.slope).toBeCloseTo(1.5, 10);
+        expect(fit.intercept).toBeCloseTo(Math.log(3), 10);
+        expect(fit.r2).toBeCloseTo(1, 10);
+    });
+
+    it('fits a flat series with slope 0', () => {
+        const fit = fitLogLogSlope(SIZES.map((x) => ({ x, y: 42 })));
+        expect(fit.slope).toBe(0);
+        expect(fit.intercept).toBeCloseTo(Math.log(42), 10);
+    });
+
+    it('keeps a good fit under multiplicative noise', () => {
+        const noise = [1.05, 0.97, 1.02, 0.96];
+        const fit = fitLogLogSlope(SIZES.map((x, i) => ({ x, y: 0.5 * x * noise[i]! })));
+        expect(fit.slope).toBeGreaterThan(0.95);
+        expect(fit.slope).toBeLessThan(1.05);
+        expect(fit.r2).toBeGreaterThan(0.99);
+    });
+
+    it('leaves out points with no log', () => {
+        const points = [{ x: 0, y: 5 }, { x: 100, y: 0 }, ...SIZES.map((x) => ({ x, y: x ** 2 }))];
+        expect(fitLogLogSlope(points).slope).toBeCloseTo(2, 10);
+    });
+
+    it('fits fewer than two points as a flat line', () => {
+        expect(fitLogLogSlope([])).toEqual({ slope: 0, intercept: 0, r2: 0 });
+        expect(fitLogLogSlope([{ x: 10, y: Math.E }])).toEqual({ slope: 0, intercept: 1, r2: 0 });
+    });
+});
+
+describe('summarizeScalingSweep', () => {
+    it('fits every adapter and scenario series on its own', () => {
+        const point = (adapter: string, cards: number, usPerUpdate: number): ScalingPoint => ({
+            adapter,
+            scenario: 'inline-editing',
+            cards,
+            usPerUpdate,
+            rendersPerUpdate: 1,
+        });
+        const fits = summarizeScalingSweep({
+            sizes: SIZES,
+            points: [
+                ...SIZES.map((cards) => point('flat', cards, 20)),
+                ...SIZES.map((cards) => point('linear', cards, cards / 100)),
+            ],
+            timestamp: 0,
+        });
+        expect(fits.map((fit) => fit.adapter)).toEqual(['flat', 'linear']);
+        expect(fits[0]!.usSlope).toBeCloseTo(0, 10);
+        expect(fits[1]!.usSlope).toBeCloseTo(1, 10);
+        expect(fits[1]!.rendersSlope).toBeCloseTo(0, 10);
+    });
+});
@@ -1,3 +1,5 @@
+import type { ConfidenceInterval } from './stats';
+
 export function createMarks() {
     const marks = new Map<string, number>();
     return {
@@ -43,28 +45,120 @@ export function createFpsMeter() {
     };
 }
 
+// What one render of an entity component read: entity fields and id lists, as
+// primitives and arrays of primitives
+export type RenderInputs = readonly unknown[];
+
+// A copy that later writes cannot change: mutable stores (MobX) update the arrays
+// a component read in place
+export function snapshotRenderInputs(inputs: RenderInputs): RenderInputs {
+    return inputs.map((value) => (Array.isArray(value) ? [...value] : value));
+}
+
+// Equal by value, so a fresh copy of unchanged data counts as the same input
+export function sameRenderInputs(a: RenderInputs, b: RenderInputs): boolean {
+    if (a.length !== b.length) return false;
+    return a.every((value, i) => {
+        const other = b[i];
+        if (Array.isArray(value) && Array.isArray(other)) {
+            return value.length === other.length && value.every((v, j) => Object.is(v, other[j]));
+        }
+        return Object.is(value, other);
+    });
+}
+
+export type InstanceRenders = {
+    renders: number;
+    wasted: number; // renders that read the same inputs as the instance's previous render
+};
+
+export type WastedRenderReport = InstanceRenders & {
+    byComponent: Record<string, InstanceRenders & { instances: number }>;
+    // Instances with the most wasted renders, keyed `Component:id` (the id the
+    // component recorded: its entity's, or host and entity for shared entities)
+    topInstances: Array<InstanceRenders & { key: string }>;
+};
+
+const TOP_WASTED_INSTANCES = 10;
+
 export type RenderCounter = {
     increment(key: string): number;
+    // One render of component `key` showing entity `id`, wasted or not; only
+    // components that compare their inputs record here
+    recordRender(key: string, id: string, wasted: boolean): void;
     get(): Record<string, number>;
+    getWasted(): WastedRenderReport;
     reset(): void;
 };
 
 export function createRenderCounter(): RenderCounter {
     const map = new Map<string, number>();
+    const instances = new Map<string, InstanceRenders & { component: string }>();
     return {
         increment(key: string) {
             map.set(key, (map.get(key) ?? 0) + 1);
             return map.get(key) ?? 0;
         },
+        recordRender(key, id, wasted) {
+            const instanceKey = `${key}:${id}`;
+            let instance = instances.get(instanceKey);
+            if (!instance) {
+                instance = { component: key, renders: 0, wasted: 0 };
+                instances.set(instanceKey, instance);
+            }
+            instance.renders++;
+            if (wasted) instance.wasted++;
+        },
         get() {
             return Object.fromEntries(map.entries());
         },
+        getWasted() {
+            const report: WastedRenderReport = {
+                renders: 0,
+                wasted: 0,
+                byComponent: {},
+                topInstances: [],
+            };
+            for (const [key, { component, renders, wasted }] of instances) {
+                report.renders += renders;
+                report.wasted += wasted;
+                const stats = (report.byComponent[component] ??= {
+                    renders: 0,
+                    wasted: 0,
+                    instances: 0,
+                });
+                stats.renders += renders;
+                stats.wasted += wasted;
+                stats.instances++;
+                if (wasted > 0) report.topInstances.push({ key, renders, wasted });
+            }
+            report.topInstances.sort((a, b) => b.wasted - a.wasted);
+            report.topInstances.length = Math.min(report.topInstances.length, TOP_WASTED_INSTANCES);
+            return report;
+        },
         reset() {
             map.clear();
+            instances.clear();
         },
     };
 }
 
+// Main-thread time of one run, from PerformanceObserver entries (ms). Script,
+// style/layout and paint come from long-animation-frame entries, so they only
+// cover frames over 50ms; `observed` lists the entry types the browser delivered,
+// and a field whose type is missing stays 0.
+export type MainThreadTiming = {
+    longTasks: number;
+    longTaskMs: number;
+    slowEvents: number; // input events that took 16ms or more to their next paint
+    eventMsMax: number;
+    longFrames: number;
+    scriptMs: number;
+    styleLayoutMs: number; // forced (synchronous) style and layout included
+    paintMs: number;
+    observed: string[];
+};
+
 export type BenchmarkMetrics = {
     executionTime: number;
     renderCount: number;
@@ -74,6 +168,8 @@ export type BenchmarkMetrics = {
     timestamp: number;
     adapter: string;
     scenario: string;
+    mainThread?: MainThreadTiming; // absent without PerformanceObserver
+    wastedRenders?: WastedRenderReport; // absent when no component compared its inputs
 };
 
 export type BenchmarkResult = {
@@ -90,8 +186,89 @@ export type BenchmarkResult = {
             p95: number;
             p99: number;
         };
+        mainThread?: MainThreadTiming; // median of each field over the runs
+        // Report of the run with the median number of wasted renders, so its
+        // components and instances add up to its totals
+        wastedRenders?: WastedRenderReport;
+        // 95% bootstrap intervals of the averages above (see stats.ts)
+        ci?: {
+            executionTime: ConfidenceInterval;
+            renderCount: ConfidenceInterval;
+            memoryUsage: ConfidenceInterval;
+            fps: ConfidenceInterval;
+            latency: {
+                p50: ConfidenceInterval;
+                p95: ConfidenceInterval;
+                p99: ConfidenceInterval;
+            };
+        };
     };
     timestamp: number;
+    fixtureHash?: string; // content hash of the dataset the runs used (see fixtures.ts)
+    // optimistic-save only: saves whose comment did not end up with the text the
+    // mock server's answer called for (0 when every rollback was correct)
+    rollbackMismatches?: number;
+    // scroll only: frame times while the deck list scrolls, and the delay from an
+    // IntersectionObserver entry to the commit of the card's visibility change
+    scroll?: {
+        frameMsP50: number;
+        frameMsP95: number;
+        frameMsMax: number;
+        visibilityLagMsP50: number;
+        visibilityLagMsP95: number;
+        visibilityUpdates: number;
+        missedVisibilityUpdates: number; // changes the cards never committed
+    };
+    // cold-start only: medians per dataset size of each initialization step (ms)
+    // and of the heap the initialized store and tree retain (MB, 0 without
+    // performance.memory)
+    coldStart?: Array<{
+        decks: number;
+        cards: number;
+        createStoreMs: number;
+        bindActionsMs: number;
+        firstCommitMs: number; // mount of the deck list up to its first commit
+        firstPaintMs: number; // createStore call up to the first paint
+        heapMB: number;
+    }>;
+    // concurrent-input only: main-thread blocks while typing raced transitions (gaps
+    // between zero-delay timer ticks, ms) and how many transitions the store
+    // committed synchronously instead of leaving them to React's scheduler
+    concurrent?: {
+        blockMsP95: number;
+        blockMsMax: number;
+        longTasks: number; // blocks over 50ms
+        transitions: number;
+        syncTransitionCommits: number;
+    };
+    // deck-navigation only: time to mount and to unmount one deck's detail view
+    // (ms), and the store's subscribers (adapter debugStats, null without them)
+    // with no deck shown before the runs, with a deck shown and once the runs are
+    // over; subscribers left over after the last unmount leaked
+    navigation?: {
+        mountMsP50: number;
+        mountMsP95: number;
+        unmountMsP50: number;
+        unmountMsP95: number;
+        navigations: number;
+        subscribersBefore: number | null;
+        subscribersMounted: number | null; // median over the mounted decks
+        subscribersAfter: number | null;
+        leakedSubscribers: number | null;
+    };
+    // realtime-stream only: a generated feed of server pushes (see eventStream.ts)
+    // played in real time. Frames dropped at 60Hz per run while it played, the most
+    // events due but not yet applied at once, and the time from its final burst
+    // until the deck list stopped changing (ms)
+    stream?: {
+        events: number; // per run
+        skippedEvents: number; // all runs; operations the adapter has no action for
+        droppedFramesP50: number;
+        droppedFramesMax: number;
+        maxBacklog: number;
+        settleMsP50: number;
+        settleMsMax: number;
+    };
 };
 
 /**
@@ -344,3 +521,118 @@ export function createBenchmarkRunner() {
         },
     };
 }
+
+// One point of a dataset scaling sweep: the cost of one scenario for one adapter
+// at one dataset size, per action the scenario performed
+export type ScalingPoint = {
+    adapter: string;
+    scenario: string;
+    cards: number; // cards in the dataset
+    usPerUpdate: number; // execution time per action (µs)
+    rendersPerUpdate: number;
+};
+
+export type ScalingSweep = {
+    sizes: number[]; // card counts, ascending
+    points: ScalingPoint[];
+    timestamp: number;
+};
+
+// Growth of a series with dataset size: the slope of log(value) against log(cards),
+// so ~0 means flat and ~1 means linear in store size. r2 is the fit's quality.
+export type ScalingFit = {
+    adapter: string;
+    scenario: string;
+    usSlope: number;
+    usR2: number;
+    rendersSlope: number;
+    rendersR2: number;
+};
+
+function median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1]! + sorted[mid]!) / 2 : sorted[mid]!;
+}
+
+/**
+ * Per-action cost of a benchmark: medians over its runs of execution time and
+ * render count divided by the run's action count (one latency sample per action)
+ */
+export function getPerUpdateCost(result: BenchmarkResult): {
+    usPerUpdate: number;
+    rendersPerUpdate: number;
+} {
+    const runs = result.runs.filter((run) => run.latency.length > 0);
+    return {
+        usPerUpdate: median(runs.map((run) => (run.executionTime * 1000) / run.latency.length)),
+        rendersPerUpdate: median(runs.map((run) => run.renderCount / run.latency.length)),
+    };
+}
+
+/**
+ * Least-squares fit of log(y) against log(x). Points with a non-positive x or y
+ * are left out (no log); fewer than two points fit as a flat line.
+ */
+export function fitLogLogSlope(points: Array<{ x: number; y: number }>): {
+    slope: number;
+    intercept: number;
+    r2: number;
+} {
+    const logs = points
+        .filter((p) => p.x > 0 && p.y > 0)
+        .map((p) => ({ x: Math.log(p.x), y: Math.log(p.y) }));
+    const n = logs.length;
+    if (n < 2) return { slope: 0, intercept: n === 1 ? logs[0]!.y : 0, r2: 0 };
+    const meanX = logs.reduce((sum, p) => sum + p.x, 0) / n;
+    const meanY = logs.reduce((sum, p) => sum + p.y, 0) / n;
+    let sxx = 0;
+    let sxy = 0;
+    let syy = 0;
+    for (const p of logs) {
+        sxx += (p.x - meanX) ** 2;
+        sxy += (p.x - meanX) * (p.y - meanY);
+        syy += (p.y - meanY) ** 2;
+    }
+    const slope = sxx > 0 ? sxy / sxx : 0;
+    const r2 = sxx > 0 && syy > 0 ? (sxy * sxy) / (sxx * syy) : 0;
+    return { slope, intercept: meanY - slope * meanX, r2 };
+}
+
+/**
+ * Fits every adapter/scenario series of a sweep against the dataset size
+ */
+export function summarizeScalingSweep(sweep: ScalingSweep): ScalingFit[] {
+    const series = new Map<string, ScalingPoint[]>();
+    for (const point of sweep.points) {
+        const key = `${point.adapter}\u0000${point.scenario}`;
+        const list = series.get(key);
+        if (list) list.push(point);
+        else series.set(key, [point]);
+    }
+    return [...series.values()].map((points) => {
+        const us = fitLogLogSlope(points.map((p) => ({ x: p.cards, y: p.usPerUpdate })));
+        const renders = fitLogLogSlope(points.map((p) => ({ x: p.cards, y: p.rendersPerUpdate })));
+        return {
+            adapter: points[0]!.adapter,
+            scenario: points[0]!.scenario,
+            usSlope: us.slope,
+            usR2: us.r2,
+            rendersSlope: renders.slope,
+            rendersR2: renders.r2,
+        };
+    });
+}
+
+// Tearing check: components reading the same entity while a slow concurrent render
+// is interrupted by store writes. A check passes when every commit showed one value
+// in all of them and they settled on the store's last write.
+export type TearingCheckResult = {
+    adapter: string;
+    check: string;
+    passed: boolean;
+    commits: number; // commits in which at least one reading component re-rendered
+    tornCommits: number; // commits after which the components showed different values
+    finalMismatch: boolean; // the components did not settle on the last written value
+};
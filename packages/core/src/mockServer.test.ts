@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockServer, type MockServer } from './mockServer';
+
+// Outcome of every request once all timers have run: true when it resolved
+async function settle(server: MockServer, count: number): Promise<boolean[]> {
+    const outcomes = Array.from({ length: count }, (_, i) =>
+        server.request('save', i).then(
+            () => true,
+            () => false,
+        ),
+    );
+    await vi.runAllTimersAsync();
+    return Promise.all(outcomes);
+}
+
+describe('createMockServer', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('answers after latencyMs plus at most jitterMs', async () => {
+        const server = createMockServer({ latencyMs: 50, jitterMs: 30, seed: 3 });
+        const answered: number[] = [];
+        for (let i = 0; i < 20; i++) void server.request('save', i).then(() => answered.push(i));
+
+        await vi.advanceTimersByTimeAsync(49);
+        expect(answered).toEqual([]);
+        expect(server.stats().inFlight).toBe(20);
+
+        await vi.advanceTimersByTimeAsync(31);
+        expect(answered).toHaveLength(20);
+        expect(server.stats().inFlight).toBe(0);
+    });
+
+    it('resolves with the body it was sent', async () => {
+        const server = createMockServer({ latencyMs: 10 });
+        const response = server.request('save', { text: 'hello' });
+        await vi.runAllTimersAsync();
+        await expect(response).resolves.toEqual({ text: 'hello' });
+    });
+
+    it('rejects failureRate of the requests and counts them', async () => {
+        const server = createMockServer({ latencyMs: 0, failureRate: 0.2, seed: 7 });
+        const outcomes = await settle(server, 2000);
+        const failures = outcomes.filter((ok) => !ok).length;
+        expect(failures / outcomes.length).toBeGreaterThan(0.17);
+        expect(failures / outcomes.length).toBeLessThan(0.23);
+        expect(server.stats()).toEqual({ requests: 2000, failures, inFlight: 0 });
+    });
+
+    it('never fails at rate 0 and always fails at rate 1', async () => {
+        expect(await settle(createMockServer({ failureRate: 0 }), 100)).not.toContain(false);
+        expect(await settle(createMockServer({ failureRate: 1 }), 100)).not.toContain(true);
+    });
+
+    it('fails the same requests for the same seed', async () => {
+        const first = await settle(createMockServer({ failureRate: 0.5, seed: 11 }), 200);
+        const second = await settle(createMockServer({ failureRate: 0.5, seed: 11 }), 200);
+        const other = await settle(createMockServer({ failureRate: 0.5, seed: 12 }), 200);
+        expect(second).toEqual(first);
+        expect(other).not.toEqual(first);
+    });
+
+    it('restarts the failure sequence when reseeded', async () => {
+        const server = createMockServer({ failureRate: 0.5, seed: 11 });
+        const first = await settle(server, 200);
+        server.configure({ seed: 11 });
+        server.resetStats();
+        expect(await settle(server, 200)).toEqual(first);
+        expect(server.stats().requests).toBe(200);
+    });
+});
@@ -0,0 +1,75 @@
+import { Mulberry32 } from './dataGen';
+
+/**
+ * Local mock server for the optimistic actions: every request resolves after a
+ * configurable latency or is rejected at a configurable rate. Nothing goes over
+ * the network, and failures come from a seeded generator, so the same sequence
+ * of requests fails the same way on every run.
+ */
+
+export type MockServerOptions = {
+    latencyMs?: number; // base response time
+    jitterMs?: number; // up to this much extra per request, uniformly distributed
+    failureRate?: number; // share of requests rejected, 0..1
+    seed?: number;
+};
+
+export type MockServerStats = {
+    requests: number;
+    failures: number;
+    inFlight: number;
+};
+
+export type MockServer = {
+    // Resolves with `body` (the server stores it as sent) or rejects with an Error
+    request<T>(endpoint: string, body: T): Promise<T>;
+    // Changes only the given options; a new seed restarts the failure sequence
+    configure(options: MockServerOptions): void;
+    stats(): MockServerStats;
+    resetStats(): void;
+};
+
+export function createMockServer(options: MockServerOptions = {}): MockServer {
+    let latencyMs = options.latencyMs ?? 50;
+    let jitterMs = options.jitterMs ?? 0;
+    let failureRate = options.failureRate ?? 0;
+    let rng = new Mulberry32(options.seed ?? 1);
+    let requests = 0;
+    let failures = 0;
+    let inFlight = 0;
+
+    return {
+        request<T>(endpoint: string, body: T): Promise<T> {
+            requests++;
+            inFlight++;
+            // Drawn when the request is sent, so the outcome does not depend on
+            // the order in which responses arrive
+            const fails = rng.next() < failureRate;
+            const delay = latencyMs + rng.next() * jitterMs;
+            return new Promise<T>((resolve, reject) => {
+                setTimeout(() => {
+                    inFlight--;
+                    if (fails) {
+                        failures++;
+                        reject(new Error(`Mock server rejected ${endpoint}`));
+                    } else {
+                        resolve(body);
+                    }
+                }, delay);
+            });
+        },
+        configure(next: MockServerOptions) {
+            if (next.latencyMs != null) latencyMs = next.latencyMs;
+            if (next.jitterMs != null) jitterMs = next.jitterMs;
+            if (next.failureRate != null) failureRate = next.failureRate;
+            if (next.seed != null) rng = new Mulberry32(next.seed);
+        },
+        stats() {
+            return { requests, failures, inFlight };
+        },
+        resetStats() {
+            requests = 0;
+            failures = 0;
+        },
+    };
+}
@@ -0,0 +1,550 @@
+/**
+ * Scenario registry: every benchmark scenario declares here, once, which entities
+ * it targets, how many runs it takes and the parameters it can be tuned with.
+ * Action-driven scenarios (SCENARIOS) also declare what one run does. The bench
+ * app's toolbar, its window API (`__runAndReport`) and the CLI all run scenarios
+ * from these lists, so a scenario picks the same targets and takes the same steps
+ * however it is started.
+ *
+ * Scenarios that need the DOM, fresh stores or the mock server (APP_SCENARIOS)
+ * are measured by the app itself: they declare `measure: 'app'` and the app runs
+ * them with its runner of the same id.
+ */
+import type { Actions, CardSortKey, WorkloadScenario } from './adapter';
+import type { ID, RootState, Tag } from './types';
+
+export type ScenarioParams = Record<string, number>;
+
+export type ScenarioRunContext<T, P extends ScenarioParams = ScenarioParams> = {
+    targets: T;
+    runNum: number; // 0 for the warmup run, then 0..runs-1
+    params: P;
+};
+
+// What every registered scenario declares
+export type ScenarioBase<T, P extends ScenarioParams> = {
+    id: WorkloadScenario;
+    label: string;
+    runs: number;
+    params: P; // defaults; callers may override any of them
+    // Picks the targets from the dataset; throws when the dataset has none
+    setup(state: RootState, params: P): T;
+};
+
+export type ScenarioDefinition<T = any, P extends ScenarioParams = ScenarioParams> = ScenarioBase<
+    T,
+    P
+> & {
+    measure?: 'actions'; // the default: runs are timed through the actions
+    // Deck view order the steps rely on; the app sorts the view for the runs
+    deckSort?: CardSortKey;
+    // One run, through the latency-measuring actions. Runs leave the dataset as
+    // they found it unless noted.
+    steps(actions: Actions, context: ScenarioRunContext<T, P>): Promise<void>;
+};
+
+// A scenario the bench app measures in the DOM: its runner of the same id does
+// the runs, with the targets setup picked
+export type AppScenarioDefinition<
+    T = any,
+    P extends ScenarioParams = ScenarioParams,
+> = ScenarioBase<T, P> & {
+    measure: 'app';
+    // Left out of "run all": it needs input from the user (a recorded trace)
+    manual?: boolean;
+};
+
+export type ScenarioOptions = {
+    runs?: number;
+    params?: ScenarioParams;
+};
+
+export type PreparedScenario<T = any, S extends ScenarioBase<T, any> = ScenarioDefinition<T>> = {
+    scenario: S;
+    runs: number;
+    params: ScenarioParams;
+    targets: T;
+};
+
+// Card ids of the first `deckCount` decks, at most `perDeck` per deck in dataset
+// order; decks without cards are left out.
+export function getDeckHeadCardIds(state: RootState, deckCount: number, perDeck: number): ID[][] {
+    const deckIds = state.decksOrder.slice(0, deckCount);
+    const cardsByDeck = new Map<ID, ID[]>(deckIds.map((id) => [id, []]));
+    for (const card of Object.values(state.entities.cards)) {
+        const cardIds = cardsByDeck.get(card.deckId);
+        if (cardIds && cardIds.length < perDeck) cardIds.push(card.id);
+    }
+    return [...cardsByDeck.values()].filter((cardIds) => cardIds.length > 0);
+}
+
+// The first comment on each of `cardIds` that has one
+function getFirstCommentIds(state: RootState, cardIds: ID[]): ID[] {
+    const wanted = new Set(cardIds);
+    const commentByCard = new Map<ID, ID>();
+    for (const comment of Object.values(state.entities.comments)) {
+        if (wanted.has(comment.cardId) && !commentByCard.has(comment.cardId)) {
+            commentByCard.set(comment.cardId, comment.id);
+        }
+    }
+    return [...commentByCard.values()];
+}
+
+// The tag carried by the most cards — the widest fan-out a single tag edit can have.
+function getMostUsedTag(state: RootState): Tag {
+    const cardsByTag = new Map<ID, Set<ID>>();
+    for (const cardTag of Object.values(state.entities.cardTags)) {
+        let cardIds = cardsByTag.get(cardTag.tagId);
+        if (!cardIds) cardsByTag.set(cardTag.tagId, (cardIds = new Set()));
+        cardIds.add(cardTag.cardId);
+    }
+    let best: ID | undefined;
+    for (const [tagId, cardIds] of cardsByTag) {
+        if (!best || cardIds.size > cardsByTag.get(best)!.size) best = tagId;
+    }
+    const tag = best ? state.entities.tags[best] : undefined;
+    if (!tag) throw new Error('Dataset has no tagged cards');
+    return tag;
+}
+
+// Background churn: repeated churn ticks over a block of cards
+const backgroundChurn: ScenarioDefinition<null, { triggers: number }> = {
+    id: 'background-churn',
+    label: 'Update',
+    runs: 10,
+    params: { triggers: 5 },
+    setup: () => null,
+    async steps(actions, { params }) {
+        // Latency is automatically measured for each action call
+        for (let i = 0; i < params.triggers; i++) {
+            await actions.backgroundChurnStart();
+        }
+        await actions.backgroundChurnStop();
+    },
+};
+
+// Inline editing: rapid text edits to one comment of the first card, a different
+// comment per run
+const inlineEditing: ScenarioDefinition<ID[], { comments: number; edits: number }> = {
+    id: 'inline-editing',
+    label: 'Inline Edit',
+    runs: 10,
+    params: { comments: 5, edits: 20 },
+    setup(state, params) {
+        const firstCardId = getDeckHeadCardIds(state, 1, 1)[0]?.[0];
+        const commentIds = Object.values(state.entities.comments)
+            .filter((c) => c.cardId === firstCardId)
+            .slice(0, params.comments)
+            .map((c) => c.id);
+        if (commentIds.length === 0) throw new Error('No comments available for inline-editing');
+        return commentIds;
+    },
+    async steps(actions, { targets, runNum, params }) {
+        const commentId = targets[runNum % targets.length]!;
+        const baseTimestamp = Date.now();
+        for (let i = 0; i < params.edits; i++) {
+            // Latency is automatically measured for each action call
+            await actions.updateCommentText(
+                commentId,
+                `Run${runNum}_Typing update ${i} at ${baseTimestamp + i}: testing reactivity to frequent state changes`,
+            );
+        }
+    },
+};
+
+// Bulk update: tag toggles on overlapping subsets of the first deck's cards, a
+// different tag per step, then one churn tick
+const bulkUpdate: ScenarioDefinition<
+    { cardIds: ID[]; tagIds: ID[] },
+    { cards: number; steps: number; cardsPerStep: number }
+> = {
+    id: 'bulk-update',
+    label: 'Bulk Update',
+    runs: 10,
+    params: { cards: 10, steps: 5, cardsPerStep: 5 },
+    setup(state, params) {
+        const cardIds = getDeckHeadCardIds(state, 1, params.cards)[0] ?? [];
+        const tagIds = Object.keys(state.entities.tags);
+        if (cardIds.length === 0) throw new Error('No cards available for bulk-update');
+        if (tagIds.length === 0) throw new Error('No tags available for bulk-update');
+        return { cardIds, tagIds };
+    },
+    async steps(actions, { targets, runNum, params }) {
+        // A different window of cards per run
+        const startIdx = (runNum * 5) % targets.cardIds.length;
+        const cardIds = targets.cardIds.slice(startIdx, startIdx + params.cards);
+        for (let i = 0; i < params.steps; i++) {
+            // Rotate tags across steps and runs so every step changes state
+            const tagId = targets.tagIds[(i * 2 + runNum * 3) % targets.tagIds.length]!;
+            const start = (i * 2) % Math.max(1, cardIds.length - 3);
+            const subset = cardIds.slice(start, start + params.cardsPerStep);
+            if (subset.length > 0) {
+                // Latency is automatically measured for each action call
+                await actions.bulkToggleTagOnCards(subset, tagId);
+            }
+        }
+        await actions.backgroundChurnStart();
+    },
+};
+
+// Structural edit: create cards in one deck, move them to the head of the next
+// deck, reorder within it, then delete them again. Every run leaves the deck
+// lists as it found them, so later scenarios see the original dataset shape.
+let structuralCardSeq = 0;
+const structuralEdit: ScenarioDefinition<
+    { deckIds: ID[]; authorId: ID },
+    { decks: number; cards: number }
+> = {
+    id: 'structural-edit',
+    label: 'Structural Edit',
+    runs: 10,
+    params: { decks: 10, cards: 5 },
+    setup(state, params) {
+        const deckIds = state.decksOrder.slice(0, params.decks);
+        if (deckIds.length < 2) throw new Error('structural-edit needs at least two decks');
+        const firstCardId = getDeckHeadCardIds(state, 1, 1)[0]?.[0];
+        const authorId =
+            (firstCardId && state.entities.cards[firstCardId]?.authorId) ||
+            Object.keys(state.entities.users)[0] ||
+            '';
+        return { deckIds, authorId };
+    },
+    async steps(actions, { targets, runNum, params }) {
+        const { deckIds, authorId } = targets;
+        const fromDeckId = deckIds[runNum % deckIds.length]!;
+        const toDeckId = deckIds[(runNum + 1) % deckIds.length]!;
+        const createdIds: ID[] = [];
+        for (let i = 0; i < params.cards; i++) {
+            const now = Date.now();
+            const id = `card_bench_${structuralCardSeq++}`;
+            createdIds.push(id);
+            // Latency is automatically measured for each action call
+            await actions.createCard({
+                id,
+                deckId: fromDeckId,
+                title: `Run${runNum}_New card ${i}`,
+                description: 'Created by the structural-edit benchmark',
+                authorId,
+                createdAt: now,
+                updatedAt: now,
+            });
+        }
+        for (const id of createdIds) {
+            await actions.moveCard(id, toDeckId, 0);
+        }
+        // Reorder within the target deck: oldest created card back to the front
+        await actions.moveCard(createdIds[0]!, toDeckId, 0);
+        for (const id of createdIds) {
+            await actions.deleteCard(id);
+        }
+    },
+};
+
+// Deep toggle: flip a rotating window of the deepest checklist items (longest
+// parent chain below a card) and flip them back
+const deepToggle: ScenarioDefinition<ID[], { toggles: number }> = {
+    id: 'deep-toggle',
+    label: 'Deep Toggle',
+    runs: 10,
+    params: { toggles: 10 },
+    setup(state) {
+        const subtasks = state.entities.subtasks;
+        const depthOf = (id: ID): number => {
+            let depth = 0;
+            for (let s = subtasks[id]; s; s = subtasks[s.parentId]) depth++;
+            return depth;
+        };
+        let maxDepth = 0;
+        const depths = new Map<ID, number>();
+        for (const id of Object.keys(subtasks)) {
+            const depth = depthOf(id);
+            depths.set(id, depth);
+            if (depth > maxDepth) maxDepth = depth;
+        }
+        const leafIds = [...depths].filter(([, d]) => d === maxDepth).map(([id]) => id);
+        if (leafIds.length === 0) throw new Error('No nested subtasks available for deep-toggle');
+        return leafIds;
+    },
+    async steps(actions, { targets, runNum, params }) {
+        const start = (runNum * params.toggles) % targets.length;
+        const batch = [...targets.slice(start), ...targets.slice(0, start)].slice(
+            0,
+            params.toggles,
+        );
+        for (const id of batch) {
+            // Latency is automatically measured for each action call
+            await actions.toggleSubtask(id);
+        }
+        for (const id of batch) {
+            await actions.toggleSubtask(id);
+        }
+    },
+};
+
+// Tag rename: rename and recolor the most used tag, then restore its label and color
+const TAG_RENAME_COLORS = ['#ef4444', '#f59e0b', '#10b981', '#3b82f6', '#8b5cf6'];
+const tagRename: ScenarioDefinition<Tag, { renames: number }> = {
+    id: 'tag-rename',
+    label: 'Tag Rename',
+    runs: 10,
+    params: { renames: 5 },
+    setup: (state) => getMostUsedTag(state),
+    async steps(actions, { targets: tag, runNum, params }) {
+        for (let i = 0; i < params.renames; i++) {
+            // Latency is automatically measured for each action call
+            await actions.renameTag(tag.id, `Run${runNum}_${tag.label} ${i}`);
+            await actions.recolorTag(tag.id, TAG_RENAME_COLORS[i % TAG_RENAME_COLORS.length]!);
+        }
+        await actions.renameTag(tag.id, tag.label);
+        await actions.recolorTag(tag.id, tag.color);
+    },
+};
+
+// Derived churn: background churn and comment edits touch the entities behind
+// each deck's derived data without changing it, then toggling the most used tag
+// on the first card of each deck (and back) really changes the histograms
+const derivedChurn: ScenarioDefinition<
+    { cardIds: ID[]; commentIds: ID[]; tagId: ID },
+    { decks: number }
+> = {
+    id: 'derived-churn',
+    label: 'Derived Churn',
+    runs: 10,
+    params: { decks: 10 },
+    setup(state, params) {
+        const cardIds = getDeckHeadCardIds(state, params.decks, 1).map((ids) => ids[0]!);
+        const commentIds = getFirstCommentIds(state, cardIds);
+        return { cardIds, commentIds, tagId: getMostUsedTag(state).id };
+    },
+    async steps(actions, { targets, runNum }) {
+        // Latency is automatically measured for each action call
+        await actions.backgroundChurnStart();
+        for (const commentId of targets.commentIds) {
+            await actions.updateCommentText(commentId, `Run${runNum}_Derived churn`);
+        }
+        for (const cardId of targets.cardIds) {
+            await actions.bulkToggleTagOnCards([cardId], targets.tagId);
+        }
+        for (const cardId of targets.cardIds) {
+            await actions.bulkToggleTagOnCards([cardId], targets.tagId);
+        }
+        await actions.backgroundChurnStop();
+    },
+};
+
+// Filter typing: type the id of the middle deck's first card one keystroke at a
+// time, then erase it the same way. Every card id shares the `card_` prefix, so
+// each keystroke matches fewer cards than the last; runs leave the query blank.
+const filterTyping: ScenarioDefinition<string> = {
+    id: 'filter-typing',
+    label: 'Filter Typing',
+    runs: 10,
+    params: {},
+    setup(state) {
+        const deckId = state.decksOrder[Math.floor(state.decksOrder.length / 2)];
+        const card = Object.values(state.entities.cards).find((c) => c.deckId === deckId);
+        return card?.id ?? 'card_1';
+    },
+    async steps(actions, { targets: query }) {
+        // Latency is automatically measured for each keystroke
+        for (let i = 1; i <= query.length; i++) {
+            await actions.setSearchQuery(query.slice(0, i));
+        }
+        for (let i = query.length - 1; i >= 0; i--) {
+            await actions.setSearchQuery(query.slice(0, i));
+        }
+    },
+};
+
+// Strictly increasing, and ahead of the timestamps background churn writes, so
+// every bump moves its card to the top of a deck sorted by last update.
+let reorderClock = 0;
+
+// Reorder churn: background churn rewrites `updatedAt` on a block of cards, then
+// one card per deck at a time gets a fresh `updatedAt`. With the deck view
+// sorted by last update, each action reorders a deck's card list.
+const reorderChurn: ScenarioDefinition<
+    ID[][],
+    { decks: number; cardsPerDeck: number; rounds: number }
+> = {
+    id: 'reorder-churn',
+    label: 'Reorder Churn',
+    runs: 10,
+    params: { decks: 10, cardsPerDeck: 5, rounds: 5 },
+    deckSort: 'updatedAt',
+    setup: (state, params) => getDeckHeadCardIds(state, params.decks, params.cardsPerDeck),
+    async steps(actions, { targets, params }) {
+        // Latency is automatically measured for each action call
+        await actions.backgroundChurnStart();
+        for (let i = 0; i < params.rounds; i++) {
+            for (const cardIds of targets) {
+                reorderClock = Math.max(Date.now() + 1, reorderClock + 1);
+                await actions.updateCard(cardIds[i % cardIds.length]!, {
+                    updatedAt: reorderClock,
+                });
+            }
+        }
+        await actions.backgroundChurnStop();
+    },
+};
+
+// Undo/redo: title edits spread over the first card of each deck, then as many
+// undos. Every undo is timed like an edit; the heap delta of the run is what the
+// history retains for the undone entries, which stay on the redo stack. Each run
+// leaves the titles as it found them. Adapters without history only edit.
+const undoRedo: ScenarioDefinition<ID[], { decks: number; edits: number }> = {
+    id: 'undo-redo',
+    label: 'Undo/Redo',
+    runs: 10,
+    params: { decks: 10, edits: 50 },
+    setup(state, params) {
+        const cardIds = getDeckHeadCardIds(state, params.decks, 1).map((ids) => ids[0]!);
+        if (cardIds.length === 0) throw new Error('No cards available for undo-redo');
+        return cardIds;
+    },
+    async steps(actions, { targets, runNum, params }) {
+        // Latency is automatically measured for each action call
+        for (let i = 0; i < params.edits; i++) {
+            await actions.updateCard(targets[i % targets.length]!, {
+                title: `Run${runNum}_Undo edit ${i}`,
+            });
+        }
+        if (!actions.undo) return;
+        for (let i = 0; i < params.edits; i++) {
+            await actions.undo();
+        }
+    },
+};
+
+// In the order "run all" goes through them
+export const SCENARIOS: ScenarioDefinition[] = [
+    backgroundChurn,
+    inlineEditing,
+    bulkUpdate,
+    structuralEdit,
+    deepToggle,
+    tagRename,
+    derivedChurn,
+    filterTyping,
+    reorderChurn,
+    undoRedo,
+];
+
+export function getScenario(id: string): ScenarioDefinition | undefined {
+    return SCENARIOS.find((scenario) => scenario.id === id);
+}
+
+// App scenarios, in the order "run all" goes through them, after SCENARIOS
+
+const optimisticSave: AppScenarioDefinition<ID[]> = {
+    id: 'optimistic-save',
+    label: 'Optimistic Save',
+    runs: 10,
+    params: {},
+    measure: 'app',
+    // The first comment of the first card of each of the first ten decks
+    setup(state) {
+        const cardIds = getDeckHeadCardIds(state, 10, 1).map((ids) => ids[0]!);
+        const commentIds = getFirstCommentIds(state, cardIds);
+        if (commentIds.length === 0) throw new Error('No comments available for optimistic-save');
+        return commentIds;
+    },
+};
+
+const scroll: AppScenarioDefinition<null> = {
+    id: 'scroll',
+    label: 'Scroll',
+    runs: 10,
+    params: {},
+    measure: 'app',
+    setup: () => null,
+};
+
+const coldStart: AppScenarioDefinition<null> = {
+    id: 'cold-start',
+    label: 'Cold Start',
+    runs: 10,
+    params: {},
+    measure: 'app',
+    setup: () => null,
+};
+
+// Edits one comment while the cards of the first ten decks churn
+const concurrentInput: AppScenarioDefinition<{ commentId: ID; cardIds: ID[] }> = {
+    id: 'concurrent-input',
+    label: 'Concurrent Input',
+    runs: 10,
+    params: {},
+    measure: 'app',
+    setup(state) {
+        const cardIds = getDeckHeadCardIds(state, 10, 1).map((ids) => ids[0]!);
+        const commentId = getFirstCommentIds(state, cardIds)[0];
+        if (!commentId) throw new Error('No comments available for concurrent-input');
+        return { commentId, cardIds: getDeckHeadCardIds(state, 10, 5).flat() };
+    },
+};
+
+// Opens every deck in turn; the active deck is shown again afterwards
+const deckNavigation: AppScenarioDefinition<{ deckIds: ID[]; restoreDeckId: ID | null }> = {
+    id: 'deck-navigation',
+    label: 'Deck Navigation',
+    runs: 10,
+    params: {},
+    measure: 'app',
+    setup(state) {
+        if (state.decksOrder.length === 0) {
+            throw new Error('No decks available for deck-navigation');
+        }
+        return { deckIds: state.decksOrder, restoreDeckId: state.activeDeckId };
+    },
+};
+
+const realtimeStream: AppScenarioDefinition<null> = {
+    id: 'realtime-stream',
+    label: 'Realtime Stream',
+    runs: 10,
+    params: {},
+    measure: 'app',
+    setup: () => null,
+};
+
+// Replays the loaded action trace; speed 0 drops the idle time between calls
+const replay: AppScenarioDefinition<null, { speed: number }> = {
+    id: 'replay',
+    label: 'Trace Replay',
+    runs: 10,
+    params: { speed: 0 },
+    measure: 'app',
+    manual: true,
+    setup: () => null,
+};
+
+export const APP_SCENARIOS: AppScenarioDefinition[] = [
+    optimisticSave,
+    scroll,
+    coldStart,
+    concurrentInput,
+    deckNavigation,
+    realtimeStream,
+    replay,
+];
+
+export function getAppScenario(id: string): AppScenarioDefinition | undefined {
+    return APP_SCENARIOS.find((scenario) => scenario.id === id);
+}
+
+// Resolves the runs and parameters of one benchmark of `scenario` (defaults
+// overridden by `options`) and picks its targets from `state`
+export function prepareScenario<T, S extends ScenarioBase<T, any> = ScenarioDefinition<T>>(
+    scenario: S & ScenarioBase<T, any>,
+    state: RootState,
+    options: ScenarioOptions = {},
+): PreparedScenario<T, S> {
+    const params = { ...scenario.params, ...options.params };
+    return {
+        scenario,
+        runs: options.runs ?? scenario.runs,
+        params,
+        targets: scenario.setup(state, params),
+    };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { bootstrapCI, comparePairwise, differsSignificantly, mannWhitneyU } from './stats';
+
+const median = (sorted: Float64Array) => sorted[Math.floor(sorted.length / 2)]!;
+const range = (from: number, to: number) =>
+    Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+describe('bootstrapCI', () => {
+    const runs = [12.1, 11.8, 13.4, 12.6, 19.2, 12.0, 11.9, 12.8, 13.1, 12.3];
+
+    it('gives the same interval for the same seed', () => {
+        const first = bootstrapCI(runs, median, { seed: 4 });
+        expect(bootstrapCI(runs, median, { seed: 4 })).toEqual(first);
+        expect(bootstrapCI(runs, median)).toEqual(bootstrapCI(runs, median));
+    });
+
+    it('brackets the statistic of the runs within their range', () => {
+        const ci = bootstrapCI(runs, median);
+        const sorted = Float64Array.from(runs).sort();
+        expect(ci.low).toBeLessThanOrEqual(median(sorted));
+        expect(ci.high).toBeGreaterThanOrEqual(median(sorted));
+        expect(ci.low).toBeGreaterThanOrEqual(sorted[0]!);
+        expect(ci.high).toBeLessThanOrEqual(sorted[sorted.length - 1]!);
+    });
+
+    it('narrows as the confidence drops', () => {
+        const wide = bootstrapCI(runs, median, { confidence: 0.99 });
+        const narrow = bootstrapCI(runs, median, { confidence: 0.5 });
+        expect(narrow.high - narrow.low).toBeLessThanOrEqual(wide.high - wide.low);
+    });
+
+    it('gives a zero-width interval for equal runs, one run or none', () => {
+        expect(bootstrapCI([5, 5, 5, 5], median)).toEqual({ low: 5, high: 5 });
+        expect(bootstrapCI([7], median)).toEqual({ low: 7, high: 7 });
+        expect(bootstrapCI([], median)).toEqual({ low: 0, high: 0 });
+    });
+});
+
+describe('mannWhitneyU', () => {
+    // With 10 runs each, the two-sided 5% critical value of U is 23 (exact table)
+    const b = range(11, 20);
+
+    it('is significant at the critical U of the table', () => {
+        const { u, pValue } = mannWhitneyU([...range(1, 7), 20.5, 20.6, 13.5], b);
+        expect(u).toBe(23);
+        expect(pValue).toBeCloseTo(0.04515, 5);
+    });
+
+    it('is not significant one past the critical U', () => {
+        const { u, pValue } = mannWhitneyU([...range(1, 7), 20.5, 20.6, 14.5], b);
+        expect(u).toBe(24);
+        expect(pValue).toBeCloseTo(0.0539, 4);
+    });
+
+    it('gives U 0 for fully separated samples, and n1 * n2 the other way', () => {
+        const low = range(1, 8);
+        const high = range(9, 16);
+        expect(mannWhitneyU(low, high).u).toBe(0);
+        expect(mannWhitneyU(low, high).pValue).toBeCloseTo(0.00094, 5);
+        expect(mannWhitneyU(high, low).u).toBe(64);
+        expect(mannWhitneyU(high, low).pValue).toBe(mannWhitneyU(low, high).pValue);
+    });
+
+    it('gives tied values the mean of their ranks', () => {
+        const { u, pValue } = mannWhitneyU([1, 2, 2, 3, 5], [2, 3, 4, 4, 6]);
+        expect(u).toBe(6.5);
+        expect(pValue).toBeCloseTo(0.2418, 4);
+    });
+
+    it('finds no difference in equal samples or too few runs', () => {
+        expect(mannWhitneyU([3, 3, 3], [3, 3, 3]).pValue).toBe(1);
+        expect(mannWhitneyU(b, b).pValue).toBeCloseTo(1, 6);
+        expect(mannWhitneyU([1, 2], [5, 6, 7])).toEqual({ u: 3, pValue: 1 });
+    });
+});
+
+describe('comparePairwise', () => {
+    it('compares every pair once and marks the significant ones', () => {
+        const comparisons = comparePairwise({
+            fast: range(1, 10),
+            alsoFast: range(1, 10).map((x) => x + 0.5),
+            slow: range(31, 40),
+        });
+        expect(comparisons.map(({ a, b }) => `${a}/${b}`)).toEqual([
+            'fast/alsoFast',
+            'fast/slow',
+            'alsoFast/slow',
+        ]);
+        expect(comparisons.map((c) => c.significant)).toEqual([false, true, true]);
+        expect(differsSignificantly(range(1, 10), range(31, 40))).toBe(true);
+        expect(differsSignificantly(range(1, 10), range(31, 40), 0.0001)).toBe(false);
+    });
+});
@@ -0,0 +1,154 @@
+import { Mulberry32 } from './dataGen';
+
+/**
+ * Statistics for comparing benchmark runs: bootstrap confidence intervals for a
+ * summary of the runs and the Mann–Whitney U test between two adapters' runs.
+ * Both make no assumption about the distribution, since run times are skewed and
+ * ten runs are too few to treat them as normal.
+ */
+
+export type ConfidenceInterval = {
+    low: number;
+    high: number;
+};
+
+export type BootstrapOptions = {
+    resamples?: number; // default 1000
+    confidence?: number; // default 0.95
+    // Fixed by default, so the same runs always get the same interval
+    seed?: number;
+};
+
+// Differences with a p-value under this are significant
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+/**
+ * Percentile bootstrap interval of `statistic` over `values`: the statistic of
+ * many same-size resamples drawn with replacement, cut at the tails. The
+ * statistic gets each resample sorted ascending. A single value, or none, gives
+ * a zero-width interval.
+ */
+export function bootstrapCI(
+    values: number[],
+    statistic: (sorted: Float64Array) => number,
+    options: BootstrapOptions = {},
+): ConfidenceInterval {
+    if (values.length < 2) {
+        const value = values.length === 1 ? statistic(Float64Array.from(values)) : 0;
+        return { low: value, high: value };
+    }
+    const resamples = options.resamples ?? 1000;
+    const confidence = options.confidence ?? 0.95;
+    const rng = new Mulberry32(options.seed ?? 1);
+
+    const sample = new Float64Array(values.length);
+    const estimates = new Float64Array(resamples);
+    for (let r = 0; r < resamples; r++) {
+        for (let i = 0; i < sample.length; i++) {
+            sample[i] = values[Math.floor(rng.next() * values.length)]!;
+        }
+        sample.sort();
+        estimates[r] = statistic(sample);
+    }
+    estimates.sort();
+    const tail = (1 - confidence) / 2;
+    return {
+        low: estimates[Math.floor(tail * (resamples - 1))]!,
+        high: estimates[Math.ceil((1 - tail) * (resamples - 1))]!,
+    };
+}
+
+export type MannWhitneyResult = {
+    u: number; // U of the first sample
+    pValue: number; // two-sided
+};
+
+// Standard normal CDF (Abramowitz and Stegun 7.1.26, error under 1.5e-7)
+function normalCdf(z: number): number {
+    const x = Math.abs(z) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * x);
+    const erf =
+        1 -
+        ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t +
+            0.254829592) *
+            t *
+            Math.exp(-x * x);
+    return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Mann–Whitney U test: whether one sample tends to be larger than the other.
+ * Uses the normal approximation with tie and continuity corrections, which
+ * holds from about 8 values per sample; with fewer than 3 in either sample, or
+ * all values equal, there is no evidence of a difference and p is 1.
+ */
+export function mannWhitneyU(a: number[], b: number[]): MannWhitneyResult {
+    const n1 = a.length;
+    const n2 = b.length;
+    if (n1 < 3 || n2 < 3) return { u: (n1 * n2) / 2, pValue: 1 };
+
+    // Ranks over both samples, ties getting the mean of the ranks they span
+    const pooled = [
+        ...a.map((value) => ({ value, first: true })),
+        ...b.map((value) => ({ value, first: false })),
+    ].sort((x, y) => x.value - y.value);
+    let rankSumA = 0;
+    let tieTerm = 0;
+    let i = 0;
+    while (i < pooled.length) {
+        let j = i;
+        while (j < pooled.length && pooled[j]!.value === pooled[i]!.value) j++;
+        const rank = (i + 1 + j) / 2;
+        for (let k = i; k < j; k++) if (pooled[k]!.first) rankSumA += rank;
+        const ties = j - i;
+        tieTerm += ties * ties * ties - ties;
+        i = j;
+    }
+
+    const n = n1 + n2;
+    const u = rankSumA - (n1 * (n1 + 1)) / 2;
+    const mean = (n1 * n2) / 2;
+    const variance = ((n1 * n2) / 12) * (n + 1 - tieTerm / (n * (n - 1)));
+    if (variance <= 0) return { u, pValue: 1 };
+    const z = Math.max(0, Math.abs(u - mean) - 0.5) / Math.sqrt(variance);
+    return { u, pValue: Math.min(1, 2 * (1 - normalCdf(z))) };
+}
+
+// Whether two adapters' runs differ by more than noise
+export function differsSignificantly(
+    a: number[],
+    b: number[],
+    alpha: number = SIGNIFICANCE_LEVEL,
+): boolean {
+    return mannWhitneyU(a, b).pValue < alpha;
+}
+
+export type PairwiseComparison = {
+    a: string;
+    b: string;
+    u: number;
+    pValue: number;
+    significant: boolean;
+};
+
+// Mann–Whitney U between every pair of named samples (the runs of each adapter)
+export function comparePairwise(
+    samples: Record<string, number[]>,
+    alpha: number = SIGNIFICANCE_LEVEL,
+): PairwiseComparison[] {
+    const names = Object.keys(samples);
+    const comparisons: PairwiseComparison[] = [];
+    for (let i = 0; i < names.length; i++) {
+        for (let j = i + 1; j < names.length; j++) {
+            const { u, pValue } = mannWhitneyU(samples[names[i]!]!, samples[names[j]!]!);
+            comparisons.push({
+                a: names[i]!,
+                b: names[j]!,
+                u,
+                pValue,
+                significant: pValue < alpha,
+            });
+        }
+    }
+    return comparisons;
+}
@@ -0,0 +1,213 @@
+import type { Actions } from './adapter';
+import type { Card, ID } from './types';
+
+/**
+ * Action traces: the Actions calls of a real session (editing, scrolling,
+ * toggling), recorded with their timing while someone uses the app, so the same
+ * interaction can be replayed through the benchmark runner on every adapter.
+ */
+
+// Bump when the trace envelope or the recorded call shape changes incompatibly.
+export const TRACE_VERSION = 1;
+
+// Every call that writes to the store. saveCommentText takes a live mock server,
+// addComment is a server push rather than something the user did and canUndo only
+// reads, so none of them is recorded.
+export type TracedAction = Exclude<keyof Actions, 'saveCommentText' | 'addComment' | 'canUndo'>;
+
+const TRACED_ACTIONS: ReadonlySet<string> = new Set<TracedAction>([
+    'setActiveDeck',
+    'setSearchQuery',
+    'updateCard',
+    'updateCommentText',
+    'setCommentEditing',
+    'renameUser',
+    'renameTag',
+    'recolorTag',
+    'bulkToggleTagOnCards',
+    'backgroundChurnStart',
+    'backgroundChurnStop',
+    'setCardVisibility',
+    'createCard',
+    'deleteCard',
+    'moveCard',
+    'toggleSubtask',
+    'undo',
+    'redo',
+]);
+
+export type TraceCall = {
+    at: number; // ms since the recording started
+    action: TracedAction;
+    args: unknown[];
+};
+
+export type ActionTrace = {
+    version: number;
+    // Hash of the dataset the session ran against (see fixtures.ts), when known
+    fixtureHash: string | null;
+    recordedAt: number; // epoch ms
+    durationMs: number;
+    calls: TraceCall[];
+};
+
+export type TraceRecorder = {
+    // Actions that record every traced call made through them while recording
+    wrap(actions: Actions): Actions;
+    start(fixtureHash?: string | null): void;
+    stop(): ActionTrace;
+    isRecording(): boolean;
+};
+
+export function createTraceRecorder(): TraceRecorder {
+    let startedAt: number | null = null;
+    let recordedAt = 0;
+    let fixtureHash: string | null = null;
+    let calls: TraceCall[] = [];
+
+    return {
+        wrap(actions) {
+            return new Proxy(actions, {
+                get(target, prop) {
+                    const original = (target as any)[prop];
+                    if (typeof original !== 'function' || !TRACED_ACTIONS.has(String(prop))) {
+                        return original;
+                    }
+                    return (...args: unknown[]) => {
+                        if (startedAt !== null) {
+                            calls.push({
+                                at: performance.now() - startedAt,
+                                action: prop as TracedAction,
+                                // Copied now: callers may reuse or mutate what they pass
+                                args: JSON.parse(JSON.stringify(args)),
+                            });
+                        }
+                        return original.apply(target, args);
+                    };
+                },
+            });
+        },
+        start(hash = null) {
+            startedAt = performance.now();
+            recordedAt = Date.now();
+            fixtureHash = hash;
+            calls = [];
+        },
+        stop() {
+            if (startedAt === null) throw new Error('Trace recorder is not recording');
+            const trace: ActionTrace = {
+                version: TRACE_VERSION,
+                fixtureHash,
+                recordedAt,
+                durationMs: performance.now() - startedAt,
+                calls,
+            };
+            startedAt = null;
+            calls = [];
+            return trace;
+        },
+        isRecording: () => startedAt !== null,
+    };
+}
+
+export function serializeTrace(trace: ActionTrace): string {
+    return JSON.stringify(trace);
+}
+
+/**
+ * Parse trace JSON, rejecting unknown versions and calls that are not traced
+ * actions (hand-edited or truncated files).
+ */
+export function parseTrace(json: string): ActionTrace {
+    const trace = JSON.parse(json) as Partial<ActionTrace>;
+    if (!trace || typeof trace !== 'object' || !Array.isArray(trace.calls)) {
+        throw new Error('Invalid action trace: missing calls');
+    }
+    if (trace.version !== TRACE_VERSION) {
+        throw new Error(
+            `Unsupported action trace version ${String(trace.version)} (expected ${TRACE_VERSION})`,
+        );
+    }
+    trace.calls.forEach((call, i) => {
+        if (
+            !call ||
+            typeof call.at !== 'number' ||
+            !TRACED_ACTIONS.has(call.action) ||
+            !Array.isArray(call.args)
+        ) {
+            throw new Error(`Invalid action trace: call ${i} is not a traced action call`);
+        }
+    });
+    return trace as ActionTrace;
+}
+
+export async function loadTrace(url: string): Promise<ActionTrace> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to load action trace ${url}: ${response.status}`);
+    }
+    return parseTrace(await response.text());
+}
+
+export type ReplayOptions = {
+    // 1 keeps the recorded pacing, 2 plays it twice as fast; 0 (default) drops the
+    // idle time between calls, so a benchmark measures only the calls themselves
+    speed?: number;
+    shouldStop?: () => boolean;
+};
+
+export type TraceReplayer = {
+    // Resolves once every call has returned (async ones awaited); calls the
+    // adapter does not implement (optional undo/redo) are skipped
+    replay(actions: Actions, options?: ReplayOptions): Promise<{ calls: number; skipped: number }>;
+};
+
+export function createTraceReplayer(trace: ActionTrace): TraceReplayer {
+    // Cards the session created: replays after the first create them under fresh
+    // ids, and remap every later reference, so they do not collide with the cards
+    // an earlier replay left in the store
+    const createdIds = new Set<ID>(
+        trace.calls
+            .filter((call) => call.action === 'createCard')
+            .map((call) => (call.args[0] as Card).id),
+    );
+    let replays = 0;
+
+    return {
+        async replay(actions, options = {}) {
+            const suffix = replays++ === 0 ? '' : `~replay${replays - 1}`;
+            const remap = (value: unknown): unknown => {
+                if (typeof value === 'string') {
+                    return createdIds.has(value) ? value + suffix : value;
+                }
+                if (Array.isArray(value)) return value.map(remap);
+                if (value && typeof value === 'object') {
+                    return Object.fromEntries(
+                        Object.entries(value).map(([key, v]) => [key, remap(v)]),
+                    );
+                }
+                return value;
+            };
+            const speed = options.speed ?? 0;
+            const start = performance.now();
+            let calls = 0;
+            let skipped = 0;
+            for (const call of trace.calls) {
+                if (options.shouldStop?.()) break;
+                if (speed > 0) {
+                    const wait = start + call.at / speed - performance.now();
+                    if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+                }
+                const fn = (actions as any)[call.action];
+                if (typeof fn !== 'function') {
+                    skipped++;
+                    continue;
+                }
+                const args = suffix && createdIds.size > 0 ? call.args.map(remap) : call.args;
+                await fn.apply(actions, args);
+                calls++;
+            }
+            return { calls, skipped };
+        },
+    };
+}
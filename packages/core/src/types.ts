@@ -26,6 +26,15 @@ export type Card = {
     isVisible?: boolean;
 };
 
+// Nested checklist item; parentId is either a card id or another subtask id
+export type Subtask = {
+    id: ID;
+    parentId: ID;
+    title: string;
+    done: boolean;
+    createdAt: number;
+};
+
 export type Deck = {
     id: ID;
     title: string;
@@ -63,6 +72,7 @@ export type NormalizedEntities = {
     tags: Record<ID, Tag>;
     cardAssignments: Record<ID, CardAssignment>;
     cardTags: Record<ID, CardTag>;
+    subtasks: Record<ID, Subtask>;
 };
 
 export type RootState = {
@@ -1,4 +1,8 @@
 import type { StoreAdapter, WorkloadDriver, WorkloadScenario, ID } from './adapter';
+import { generateEventStream, runEventStream, type EventStreamOptions } from './eventStream';
+import { createMockServer, type MockServer } from './mockServer';
+import { createTraceReplayer, type ActionTrace } from './traces';
+import type { RootState } from './types';
 
 export function createWorkloadDriver(adapter: StoreAdapter, storeHandle: unknown): WorkloadDriver {
     let stopped = false;
@@ -14,22 +18,49 @@ export function createWorkloadDriver(adapter: StoreAdapter, storeHandle: unknown
             stopped = false;
             switch (scenario) {
                 case 'cold-start': {
-                    // noop here; measured in app mount
+                    // noop here: the app measures it, since it needs fresh stores
+                    // and React roots (see runColdStartWorkload in the bench app)
+                    break;
+                }
+                case 'concurrent-input': {
+                    // noop here: the app measures it, since it needs startTransition
+                    // and deferred lists (see runConcurrentInputWorkload in the bench app)
+                    break;
+                }
+                case 'deck-navigation': {
+                    // noop here: the app measures it, since it times the mount of its
+                    // deck detail view (see runDeckNavigationWorkload in the bench app)
                     break;
                 }
                 case 'scroll': {
-                    // scrolling is handled in the UI; driver may trigger programmatic scroll via custom event
+                    // The app scrolls its deck list on each bench:scroll event: down by
+                    // distancePx at speedPxPerSec, then back to the top
                     const times = (opts?.times as number) ?? 3;
+                    const speedPxPerSec = (opts?.speedPxPerSec as number) ?? 3000;
+                    const distancePx = (opts?.distancePx as number) ?? 1200;
                     for (let i = 0; i < times && !stopped; i++) {
                         window.dispatchEvent(
-                            new CustomEvent('bench:scroll', { detail: { pass: i } }),
+                            new CustomEvent('bench:scroll', {
+                                detail: { pass: i, speedPxPerSec, distancePx },
+                            }),
                         );
-                        await wait(800);
+                        await wait(((2 * distancePx) / speedPxPerSec) * 1000 + 100);
                     }
                     break;
                 }
                 case 'filter-typing': {
-                    // Search removed - no-op
+                    // Type a query one keystroke at a time, then erase it; every
+                    // keystroke re-filters every deck's card list
+                    const query = (opts?.query as string) ?? 'card_1';
+                    for (let i = 1; i <= query.length && !stopped; i++) {
+                        actions.setSearchQuery(query.slice(0, i));
+                        await wait(16);
+                    }
+                    for (let i = query.length - 1; i >= 0 && !stopped; i--) {
+                        actions.setSearchQuery(query.slice(0, i));
+                        await wait(16);
+                    }
+                    actions.setSearchQuery('');
                     break;
                 }
                 case 'inline-editing': {
@@ -57,11 +88,163 @@ export function createWorkloadDriver(adapter: StoreAdapter, storeHandle: unknown
                     actions.renameUser(userId, 'Renamed User');
                     break;
                 }
+                case 'tag-rename': {
+                    // One tag entity changes; every card showing a chip for it re-renders
+                    const tagId = (opts?.tagId as ID) ?? 'tag_0';
+                    const rounds = (opts?.rounds as number) ?? 10;
+                    for (let i = 0; i < rounds && !stopped; i++) {
+                        actions.renameTag(tagId, `Renamed tag ${i}`);
+                        await wait(16);
+                        actions.recolorTag(tagId, i % 2 === 0 ? '#ef4444' : '#3b82f6');
+                        await wait(16);
+                    }
+                    break;
+                }
+                case 'derived-churn': {
+                    // Churn the entities behind deck stats, then toggle a tag that
+                    // really changes one deck's histogram (and toggle it back)
+                    const cardId = (opts?.cardId as ID) ?? 'card_0';
+                    const tagId = (opts?.tagId as ID) ?? 'tag_0';
+                    const rounds = (opts?.rounds as number) ?? 10;
+                    for (let i = 0; i < rounds && !stopped; i++) {
+                        actions.backgroundChurnStart();
+                        await wait(16);
+                        actions.bulkToggleTagOnCards([cardId], tagId);
+                        await wait(16);
+                        actions.bulkToggleTagOnCards([cardId], tagId);
+                        await wait(16);
+                    }
+                    actions.backgroundChurnStop();
+                    break;
+                }
+                case 'reorder-churn': {
+                    // Bump one card's updatedAt at a time so a deck view sorted by last
+                    // update reorders on every step, with background churn in between
+                    const ids = (opts?.cardIds as ID[]) ?? [];
+                    const rounds = (opts?.rounds as number) ?? 10;
+                    let clock = Date.now();
+                    for (let r = 0; r < rounds && !stopped; r++) {
+                        actions.backgroundChurnStart();
+                        await wait(16);
+                        for (const id of ids) {
+                            if (stopped) break;
+                            clock = Math.max(Date.now() + 1, clock + 1);
+                            actions.updateCard(id, { updatedAt: clock });
+                            await wait(16);
+                        }
+                    }
+                    actions.backgroundChurnStop();
+                    break;
+                }
                 case 'bulk-update': {
                     const ids = (opts?.cardIds as ID[]) ?? [];
                     actions.bulkToggleTagOnCards(ids, (opts?.tagId as ID) ?? 'tag_0');
                     break;
                 }
+                case 'structural-edit': {
+                    // Insert / move / remove cards so the deck->cards and card->comments
+                    // indexes are maintained under structural change, not just field updates
+                    const [fromDeckId, toDeckId] = (opts?.deckIds as ID[]) ?? ['deck_0', 'deck_1'];
+                    if (!fromDeckId || !toDeckId) break;
+                    const count = (opts?.count as number) ?? 5;
+                    const created: ID[] = [];
+                    for (let i = 0; i < count && !stopped; i++) {
+                        const now = Date.now();
+                        const id = `card_structural_${now}_${i}`;
+                        actions.createCard({
+                            id,
+                            deckId: fromDeckId,
+                            title: `Structural ${i}`,
+                            description: '',
+                            authorId: (opts?.authorId as ID) ?? 'user_0',
+                            createdAt: now,
+                            updatedAt: now,
+                        });
+                        created.push(id);
+                        await wait(16);
+                        actions.moveCard(id, toDeckId, 0);
+                        await wait(16);
+                    }
+                    for (const id of created) {
+                        actions.deleteCard(id);
+                        await wait(16);
+                    }
+                    break;
+                }
+                case 'deep-toggle': {
+                    // Toggle the deepest checklist items; ideally only the toggled leaf
+                    // re-renders, not its ancestors up to the card
+                    const ids = (opts?.subtaskIds as ID[]) ?? [];
+                    const rounds = (opts?.rounds as number) ?? 2;
+                    for (let r = 0; r < rounds && !stopped; r++) {
+                        for (const id of ids) {
+                            if (stopped) break;
+                            actions.toggleSubtask(id);
+                            await wait(16);
+                        }
+                    }
+                    break;
+                }
+                case 'undo-redo': {
+                    // N title edits, then N undos; adapters without history skip it
+                    if (!actions.undo) break;
+                    const ids = (opts?.cardIds as ID[]) ?? [];
+                    const edits = (opts?.edits as number) ?? 50;
+                    let done = 0;
+                    for (let i = 0; i < edits && ids.length > 0 && !stopped; i++) {
+                        actions.updateCard(ids[i % ids.length]!, { title: `Undo edit ${i}` });
+                        done++;
+                        await wait(16);
+                    }
+                    for (let i = 0; i < done && !stopped; i++) {
+                        actions.undo();
+                        await wait(16);
+                    }
+                    break;
+                }
+                case 'optimistic-save': {
+                    // Save each comment in turn without waiting for the server, then let
+                    // every save settle (or roll back) before the next round
+                    if (!actions.saveCommentText) break;
+                    const ids = (opts?.commentIds as ID[]) ?? [];
+                    const rounds = (opts?.rounds as number) ?? 5;
+                    const server =
+                        (opts?.server as MockServer) ??
+                        createMockServer({ latencyMs: 50, jitterMs: 30, failureRate: 0.2 });
+                    for (let r = 0; r < rounds && !stopped; r++) {
+                        const saves: Promise<boolean>[] = [];
+                        for (const id of ids) {
+                            if (stopped) break;
+                            saves.push(actions.saveCommentText(id, `Saved ${r}`, server));
+                            await wait(16);
+                        }
+                        await Promise.all(saves);
+                    }
+                    break;
+                }
+                case 'replay': {
+                    // A recorded session (see traces.ts), at its recorded pacing
+                    const trace = opts?.trace as ActionTrace | undefined;
+                    if (!trace) break;
+                    await createTraceReplayer(trace).replay(actions, {
+                        speed: (opts?.speed as number) ?? 1,
+                        shouldStop: () => stopped,
+                    });
+                    break;
+                }
+                case 'realtime-stream': {
+                    // A generated feed of server pushes over the ids of `data` (see
+                    // eventStream.ts), played in real time
+                    const data = opts?.data as RootState | undefined;
+                    if (!data) break;
+                    const events = generateEventStream(
+                        data,
+                        (opts?.durationMs as number) ?? 5000,
+                        opts?.stream as EventStreamOptions | undefined,
+                    );
+                    await runEventStream(actions, events, { shouldStop: () => stopped });
+                    break;
+                }
             }
         },
         stop() {
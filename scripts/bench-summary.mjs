@@ -101,8 +101,8 @@ function generateSummary(results) {
 
     for (const [scenario, scenarioResults] of Object.entries(byScenario)) {
         output.push(`## Scenario: ${scenario}\n`);
-        output.push('| Manager | P50 (ms) | P95 (ms) | P99 (ms) | JS Time (ms) | Renders | Memory (MB) | LOC |');
-        output.push('|---------|----------|----------|----------|--------------|---------|-------------|-----|');
+        output.push('| Manager | P50 (ms) | P95 (ms) | P99 (ms) | JS Time (ms) | Renders | Memory (MB) | GC Pause (ms) | GCs (minor/major) | Heap After GC (MB) | LOC |');
+        output.push('|---------|----------|----------|----------|--------------|---------|-------------|---------------|-------------------|--------------------|-----|');
 
         // Sort by P50 latency
         scenarioResults.sort((a, b) => {
@@ -119,11 +119,15 @@ function generateSummary(results) {
             const jsTime = d?.js_time_ms?.toFixed(2) || 'N/A';
             const renders = d?.renders?.total?.toFixed(0) || 'N/A';
             const memory = d?.heap_mb?.peak?.toFixed(2) || 'N/A';
+            // Per measured run, from the CDP trace (absent in results from the app's UI)
+            const gcPause = d?.gc?.runs ? d.gc.pause_ms_total.toFixed(2) : 'N/A';
+            const gcCount = d?.gc?.runs ? `${d.gc.minor}/${d.gc.major}` : 'N/A';
+            const heapAfterGc = d?.gc?.runs ? d.heap_mb.afterGC.toFixed(2) : 'N/A';
 
             const loc = getAdapterLoc(locMap, r.adapter);
             const locCell = loc != null ? String(loc) : '—';
 
-            output.push(`| ${r.adapter} | ${p50} | ${p95} | ${p99} | ${jsTime} | ${renders} | ${memory} | ${locCell} |`);
+            output.push(`| ${r.adapter} | ${p50} | ${p95} | ${p99} | ${jsTime} | ${renders} | ${memory} | ${gcPause} | ${gcCount} | ${heapAfterGc} | ${locCell} |`);
         }
 
         output.push('');
@@ -133,10 +137,10 @@ function generateSummary(results) {
             const baseline = scenarioResults[0];
             output.push('### Deltas vs Best\n');
             output.push(
-                '| Manager | P50 Δ | P95 Δ | P99 Δ | JS Time Δ | Renders Δ | Memory Δ |',
+                '| Manager | P50 Δ | P95 Δ | P99 Δ | JS Time Δ | Renders Δ | Memory Δ | GC Pause Δ |',
             );
             output.push(
-                '|---------|-------|-------|-------|------------|-----------|-----------|',
+                '|---------|-------|-------|-------|------------|-----------|-----------|------------|',
             );
 
             for (const r of scenarioResults.slice(1)) {
@@ -165,8 +169,12 @@ function generateSummary(results) {
                 const rMem = r.data?.heap_mb?.peak || 0;
                 const memDelta = baseMem > 0 ? ((rMem / baseMem - 1) * 100).toFixed(1) : 'N/A';
 
+                const baseGc = baseline.data?.gc?.pause_ms_total || 0;
+                const rGc = r.data?.gc?.pause_ms_total || 0;
+                const gcDelta = baseGc > 0 ? ((rGc / baseGc - 1) * 100).toFixed(1) : 'N/A';
+
                 output.push(
-                    `| ${r.adapter} | ${p50Delta}% | ${p95Delta}% | ${p99Delta}% | ${jsDelta}% | ${rendersDelta}% | ${memDelta}% |`,
+                    `| ${r.adapter} | ${p50Delta}% | ${p95Delta}% | ${p99Delta}% | ${jsDelta}% | ${rendersDelta}% | ${memDelta}% | ${gcDelta}% |`,
                 );
             }
             output.push('');
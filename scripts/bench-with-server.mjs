@@ -25,14 +25,19 @@ const ALL_ADAPTERS = [
     'Effector (atomic stores)',
 ];
 
-const SCENARIOS = ['background-churn', 'inline-editing', 'bulk-update'];
+// Dataset skew profiles (see DATASET_SKEW_PRESETS in packages/core/src/dataGen.ts)
+const SKEWS = ['uniform', 'zipf', 'hot-set'];
 
 // Parse command line arguments
 function parseArgs() {
     const args = process.argv.slice(2);
     const config = {
         adapters: ALL_ADAPTERS,
-        scenarios: SCENARIOS,
+        // Checked against the app's scenario registry once the browser is up
+        scenario: 'all',
+        runs: undefined,
+        params: {},
+        skew: 'uniform',
     };
 
     for (let i = 0; i < args.length; i++) {
@@ -52,16 +57,37 @@ function parseArgs() {
             }
             i++; // Skip next argument as it's been consumed
         } else if ((arg === '--scenario' || arg === '-s') && nextArg) {
-            const scenario = nextArg;
-            if (scenario.toLowerCase() === 'all') {
-                config.scenarios = SCENARIOS;
-            } else if (SCENARIOS.includes(scenario)) {
-                config.scenarios = [scenario];
-            } else {
-                console.error(`❌ Unknown scenario: ${scenario}`);
-                console.error(`   Available: ${SCENARIOS.join(', ')}`);
+            config.scenario = nextArg;
+            i++; // Skip next argument as it's been consumed
+        } else if (arg === '--runs' && nextArg) {
+            const runs = Number(nextArg);
+            if (!Number.isInteger(runs) || runs < 1) {
+                console.error(`❌ Invalid run count: ${nextArg}`);
                 process.exit(1);
             }
+            config.runs = runs;
+            i++; // Skip next argument as it's been consumed
+        } else if (arg === '--param' && nextArg) {
+            const [name, value] = nextArg.split('=');
+            if (!name || value === undefined || !Number.isFinite(Number(value))) {
+                console.error(`❌ Invalid parameter: ${nextArg} (expected <name>=<number>)`);
+                process.exit(1);
+            }
+            config.params[name] = Number(value);
+            i++; // Skip next argument as it's been consumed
+        } else if (arg === '--skew' && nextArg) {
+            if (!SKEWS.includes(nextArg)) {
+                console.error(`❌ Unknown skew: ${nextArg}`);
+                console.error(`   Available: ${SKEWS.join(', ')}`);
+                process.exit(1);
+            }
+            config.skew = nextArg;
+            i++; // Skip next argument as it's been consumed
+        } else if (arg === '--fixture' && nextArg) {
+            config.fixture = nextArg;
+            i++; // Skip next argument as it's been consumed
+        } else if (arg === '--trace' && nextArg) {
+            config.trace = nextArg;
             i++; // Skip next argument as it's been consumed
         } else if (arg === '--help' || arg === '-h') {
             console.log('\n📊 Benchmark Runner');
@@ -72,15 +98,22 @@ function parseArgs() {
             console.log('                           Use "all" to run all adapters (default)');
             console.log('  -s, --scenario <name>   Run specific scenario');
             console.log('                           Use "all" to run all scenarios (default)');
+            console.log("      --runs <n>          Measured runs per scenario (default: the scenario's own)");
+            console.log('      --param <name>=<n>  Override a scenario parameter (repeatable)');
+            console.log(`      --skew <name>       Dataset skew profile: ${SKEWS.join(', ')} (default uniform)`);
+            console.log('      --fixture <url>     Run against a saved dataset fixture (URL the app can fetch)');
+            console.log('      --trace <url>       Load a recorded action trace and add the "replay" scenario');
             console.log('  -h, --help              Show this help message');
             console.log('\nExamples:');
             console.log('  npm run bench                           # Run all adapters, all scenarios');
             console.log('  npm run bench --adapter "Redux Toolkit"  # Run Redux Toolkit only');
             console.log('  npm run bench -a "Zustand" -s "inline-editing"  # Run Zustand with inline-editing only');
+            console.log('  npm run bench -s "undo-redo" --runs 5 --param edits=100  # Tune one scenario');
+            console.log('  npm run bench -s replay --trace /traces/session.json  # Replay a recorded session');
             console.log('\nAvailable adapters:');
             console.log(`  ${ALL_ADAPTERS.map((a) => `"${a}"`).join(', ')}`);
-            console.log('\nAvailable scenarios:');
-            console.log(`  ${SCENARIOS.join(', ')}`);
+            console.log("\nScenarios come from the app's registry (core's scenarios.ts);");
+            console.log('an unknown name lists them.');
             console.log('');
             process.exit(0);
         }
@@ -91,7 +124,13 @@ function parseArgs() {
 
 const config = parseArgs();
 const ADAPTERS = config.adapters;
-const SELECTED_SCENARIOS = config.scenarios;
+const SKEW = config.skew;
+const FIXTURE = config.fixture;
+const TRACE = config.trace;
+// Query parameters every page loads with: the fixture to run against and the trace to replay
+const DATA_PARAMS =
+    (FIXTURE ? `&fixture=${encodeURIComponent(FIXTURE)}` : '') +
+    (TRACE ? `&trace=${encodeURIComponent(TRACE)}` : '');
 
 const PORT = 5173; // Vite dev server default
 const BASE_URL = `http://localhost:${PORT}`;
@@ -184,6 +223,140 @@ async function stopDevServer(server) {
     }
 }
 
+// Trace categories with V8's MinorGC/MajorGC events, the UpdateCounters heap
+// samples and the runner's performance marks
+const GC_TRACE_CATEGORIES = [
+    'devtools.timeline',
+    'disabled-by-default-devtools.timeline',
+    'blink.user_timing',
+];
+const RUN_MARK = /^bench:run:(\d+):(start|end)$/;
+
+async function heapUsedMB(cdp) {
+    const { usedSize } = await cdp.send('Runtime.getHeapUsage');
+    return usedSize / 1024 / 1024;
+}
+
+// GC counts and pauses of the trace, in total and per measured run (between the
+// bench:run:<i>:start/end marks benchmarkRunner.ts sets), and the heap peak
+function summarizeGcTrace(events) {
+    const marks = events.filter((e) => RUN_MARK.test(e.name ?? ''));
+    // The page's renderer is the process that set the marks
+    const pid = marks[0]?.pid;
+    const fromPage = (e) => pid === undefined || e.pid === pid;
+    const gcEvents = events.filter(
+        (e) => (e.name === 'MinorGC' || e.name === 'MajorGC') && e.ph === 'X' && fromPage(e),
+    );
+    const countGc = (list) => ({
+        minor: list.filter((e) => e.name === 'MinorGC').length,
+        major: list.filter((e) => e.name === 'MajorGC').length,
+        pause_ms: list.reduce((sum, e) => sum + (e.dur ?? 0), 0) / 1000,
+    });
+
+    const bounds = new Map();
+    for (const mark of marks) {
+        const [, run, edge] = mark.name.match(RUN_MARK);
+        bounds.set(run, { ...bounds.get(run), [edge]: mark.ts });
+    }
+    const runs = [...bounds.values()]
+        .filter((b) => b.start !== undefined && b.end !== undefined)
+        .sort((a, b) => a.start - b.start)
+        .map((b) => countGc(gcEvents.filter((e) => e.ts >= b.start && e.ts < b.end)));
+
+    const heapSamples = events
+        .filter((e) => e.name === 'UpdateCounters' && fromPage(e))
+        .map((e) => e.args?.data?.jsHeapSizeUsed)
+        .filter((bytes) => typeof bytes === 'number');
+    return {
+        total: countGc(gcEvents),
+        runs,
+        peakHeapMB: heapSamples.length > 0 ? Math.max(...heapSamples) / 1024 / 1024 : null,
+    };
+}
+
+/**
+ * Runs `run` (one scenario) while tracing the page's garbage collections over
+ * CDP. The heap is collected before, to measure it idle, and after, to measure
+ * what the scenario left behind.
+ */
+async function withGcTracking(page, run) {
+    const cdp = await page.target().createCDPSession();
+    try {
+        await cdp.send('HeapProfiler.collectGarbage');
+        const idleHeapMB = await heapUsedMB(cdp);
+        await page.tracing.start({ categories: GC_TRACE_CATEGORIES });
+        let result;
+        let trace;
+        try {
+            result = await run();
+        } finally {
+            trace = JSON.parse((await page.tracing.stop()).toString());
+        }
+        await cdp.send('HeapProfiler.collectGarbage');
+        const afterGcHeapMB = await heapUsedMB(cdp);
+        const gc = summarizeGcTrace(Array.isArray(trace) ? trace : (trace.traceEvents ?? []));
+        return { result, gc: { ...gc, idleHeapMB, afterGcHeapMB } };
+    } finally {
+        await cdp.detach();
+    }
+}
+
+function median(values) {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// Fills the standardized result's gc and heap_mb fields, which the page cannot
+// measure itself. gc holds medians per measured run, like js_time_ms, or the
+// scenario's totals when it set no run marks.
+function mergeGcStats(result, gc) {
+    const perRun = gc.runs.length > 0;
+    return {
+        ...result,
+        heap_mb: {
+            ...result.heap_mb,
+            idle: gc.idleHeapMB,
+            peak: gc.peakHeapMB ?? result.heap_mb?.peak,
+            afterGC: gc.afterGcHeapMB,
+        },
+        gc: {
+            minor: perRun ? median(gc.runs.map((r) => r.minor)) : gc.total.minor,
+            major: perRun ? median(gc.runs.map((r) => r.major)) : gc.total.major,
+            pause_ms_total: perRun ? median(gc.runs.map((r) => r.pause_ms)) : gc.total.pause_ms,
+            runs: gc.runs,
+            // Warmup and everything between the runs included
+            scenario_total: gc.total,
+        },
+    };
+}
+
+// Scenario list of the app (window.__scenarios): the registry's scenarios, then
+// the ones the app measures itself, each with its default runs and parameters
+async function loadScenarios(browser) {
+    const page = await browser.newPage();
+    try {
+        await page.goto(`${BASE_URL}/?overlays=0${DATA_PARAMS}`, {
+            waitUntil: 'networkidle0',
+            timeout: 30000,
+        });
+        await page.waitForFunction(() => window.__ready === true, { timeout: 120000 });
+        return await page.evaluate(() => window.__scenarios ?? []);
+    } finally {
+        await page.close();
+    }
+}
+
+function selectScenarios(available) {
+    const ids = available.map((s) => s.id);
+    if (config.scenario.toLowerCase() === 'all') return ids;
+    if (!ids.includes(config.scenario)) {
+        throw new Error(`Unknown scenario: ${config.scenario}. Available: ${ids.join(', ')}`);
+    }
+    return [config.scenario];
+}
+
 async function runBenchmarks() {
     let server = null;
 
@@ -213,6 +386,10 @@ async function runBenchmarks() {
             ],
         });
 
+        const availableScenarios = await loadScenarios(browser);
+        const SELECTED_SCENARIOS = selectScenarios(availableScenarios);
+        const scenarioOptions = { runs: config.runs, params: config.params };
+
         const dateDir = path.join(rootDir, 'bench-results', new Date().toISOString().split('T')[0]);
         fs.mkdirSync(dateDir, { recursive: true });
 
@@ -222,7 +399,11 @@ async function runBenchmarks() {
         // Log configuration
         console.log(`\n📋 Configuration:`);
         console.log(`   Adapters: ${ADAPTERS.length === ALL_ADAPTERS.length ? 'all' : ADAPTERS.join(', ')}`);
-        console.log(`   Scenarios: ${SELECTED_SCENARIOS.length === SCENARIOS.length ? 'all' : SELECTED_SCENARIOS.join(', ')}`);
+        console.log(`   Scenarios: ${SELECTED_SCENARIOS.length === availableScenarios.length ? 'all' : SELECTED_SCENARIOS.join(', ')}`);
+        if (config.runs !== undefined) console.log(`   Runs: ${config.runs}`);
+        if (Object.keys(config.params).length > 0) {
+            console.log(`   Params: ${Object.entries(config.params).map(([k, v]) => `${k}=${v}`).join(', ')}`);
+        }
         console.log(`   Total runs: ${ADAPTERS.length * SELECTED_SCENARIOS.length}\n`);
 
         for (const adapter of ADAPTERS) {
@@ -231,7 +412,7 @@ async function runBenchmarks() {
 
                 try {
                     const adapterParam = normalizeAdapterName(adapter);
-                    const url = `${BASE_URL}/?scenario=${scenario}&adapter=${encodeURIComponent(adapter)}&overlays=0`;
+                    const url = `${BASE_URL}/?scenario=${scenario}&adapter=${encodeURIComponent(adapter)}&overlays=0&skew=${SKEW}${DATA_PARAMS}`;
 
                     // Show full adapter name with mode in logs
                     console.log(`📊 Running ${adapter}/${scenario}...`);
@@ -285,22 +466,39 @@ async function runBenchmarks() {
 
                     // Run benchmark (don't pass adapterName, rely on URL param)
                     // This ensures adapter is already selected via URL, avoiding switch overhead
-                    const result = await page.evaluate(() => {
-                        if (typeof window.__runAndReport !== 'function') {
-                            throw new Error('window.__runAndReport is not available');
-                        }
-                        return window.__runAndReport();
-                    });
+                    const { result: pageResult, gc } = await withGcTracking(page, () =>
+                        page.evaluate(
+                            (scenarioName, options) => {
+                                if (typeof window.__runAndReport !== 'function') {
+                                    throw new Error('window.__runAndReport is not available');
+                                }
+                                return window.__runAndReport(undefined, scenarioName, options);
+                            },
+                            scenario,
+                            scenarioOptions,
+                        ),
+                    );
+                    const result = mergeGcStats(pageResult, gc);
 
                     const benchmarkDuration = ((Date.now() - benchmarkStartTime) / 1000).toFixed(1);
 
                     // Save result
-                    const filename = path.join(dateDir, `${adapterParam}-${scenario}.json`);
+                    const skewSuffix = SKEW === 'uniform' ? '' : `-${SKEW}`;
+                    const filename = path.join(dateDir, `${adapterParam}-${scenario}${skewSuffix}.json`);
                     fs.writeFileSync(filename, JSON.stringify(result, null, 2));
 
                     // Log benchmark duration (NOT total time including page load)
                     console.log(`   ✅ Saved to bench-results/${path.basename(dateDir)}/${path.basename(filename)} (${benchmarkDuration}s)`);
 
+                    // Save the dataset once per hash so every result can be traced back to its input
+                    if (result?.fixture_hash) {
+                        const fixtureFile = path.join(dateDir, `fixture-${result.fixture_hash}.json`);
+                        if (!fs.existsSync(fixtureFile)) {
+                            const fixtureJson = await page.evaluate(() => window.__saveFixture?.());
+                            if (fixtureJson) fs.writeFileSync(fixtureFile, fixtureJson);
+                        }
+                    }
+
                     results.push({ adapter, scenario, result, filename });
                 } catch (error) {
                     console.error(`   ❌ Error: ${error.message}`);
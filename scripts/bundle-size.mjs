@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+/**
+ * Bundle size of each adapter — what an app pays in shipped code for choosing it.
+ *
+ * Builds every adapter package on its own through Vite (Rollup): the package's
+ * entry with its state library, minified for production, React and React DOM
+ * left external since every adapter needs them anyway. Records the raw, gzip and
+ * brotli sizes in packages/core/src/adapter-bundle-size.json, next to
+ * adapter-loc.json, for the results table and the exported JSON. The file is not
+ * committed: it is written only when every adapter got a size, and the app shows
+ * no sizes without it.
+ *
+ * The entry exports every adapter variant of its package, so variants from one
+ * package (the Cnstra + Oimdb and MobX ones) share one bundle: nothing is
+ * tree-shaken down to a single variant.
+ *
+ *   npm run bundle-size   # also runs before `npm run build` and `npm run bench`
+ */
+import { build } from 'vite';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const rootDir = path.resolve(__dirname, '..');
+const adaptersDir = path.join(rootDir, 'packages/adapters');
+const outputFile = path.join(rootDir, 'packages/core/src/adapter-bundle-size.json');
+
+// Every adapter the app benchmarks, by the name it reports, and the package
+// (directory under packages/adapters) whose bundle ships it. A new adapter needs
+// an entry here to get a size.
+const adapterPackages = {
+    'Cnstra + Oimdb (ids-based)': 'cnstra-oimdb',
+    'Cnstra + Oimdb (in-place)': 'cnstra-oimdb',
+    'Oimdb (no cnstra)': 'cnstra-oimdb',
+    'Redux Toolkit (ids-based)': 'redux',
+    'Effector (ids-based)': 'effector',
+    'Effector (atomic stores)': 'effector-atomic',
+    'MobX (ids-based)': 'mobx',
+    'MobX (deep/in-place)': 'mobx',
+    'Zustand (ids-based)': 'zustand',
+};
+
+function findEntry(adapterPath) {
+    return ['src/index.tsx', 'src/index.ts']
+        .map((file) => path.join(adapterPath, file))
+        .find((file) => fs.existsSync(file));
+}
+
+// Minified production code of one entry, every chunk Rollup emits for it
+async function bundle(entry) {
+    const output = await build({
+        configFile: false,
+        logLevel: 'silent',
+        // Libraries drop their development-only code, as in the app's build
+        define: { 'process.env.NODE_ENV': JSON.stringify('production') },
+        esbuild: { jsx: 'automatic' },
+        build: {
+            write: false,
+            target: 'esnext',
+            minify: 'esbuild',
+            lib: { entry, formats: ['es'], fileName: 'adapter' },
+            rollupOptions: {
+                external: [/^react(\/.*)?$/, /^react-dom(\/.*)?$/],
+            },
+        },
+    });
+    const chunks = (Array.isArray(output) ? output : [output]).flatMap((o) => o.output);
+    return Buffer.concat(
+        chunks.map((chunk) => Buffer.from(chunk.type === 'chunk' ? chunk.code : chunk.source)),
+    );
+}
+
+const packages = {};
+
+for (const dir of new Set(Object.values(adapterPackages))) {
+    const entry = findEntry(path.join(adaptersDir, dir));
+    if (!entry) {
+        console.error(`❌ ${dir}: no src/index.tsx or src/index.ts`);
+        continue;
+    }
+    try {
+        const code = await bundle(entry);
+        packages[dir] = {
+            rawBytes: code.length,
+            gzipBytes: zlib.gzipSync(code, { level: 9 }).length,
+            brotliBytes: zlib.brotliCompressSync(code, {
+                params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 11 },
+            }).length,
+        };
+    } catch (error) {
+        console.error(`❌ ${dir}: ${error.message}`);
+    }
+}
+
+// Every adapter needs its package measured, or the results would miss its size.
+// Sizes from an earlier run are removed too, so they never pass for this one.
+const unmeasured = Object.entries(adapterPackages).filter(([, dir]) => !packages[dir]);
+if (unmeasured.length > 0) {
+    for (const [name, dir] of unmeasured) console.error(`❌ ${name}: ${dir} has no size`);
+    fs.rmSync(outputFile, { force: true });
+    console.error(`No sizes saved to ${path.relative(rootDir, outputFile)}`);
+    process.exit(1);
+}
+
+fs.writeFileSync(
+    outputFile,
+    JSON.stringify(
+        {
+            _comment:
+                "⚠️ AUTO-GENERATED FILE - Do not edit manually! Run 'npm run bundle-size' to update after modifying adapter code or dependencies.",
+            generated: new Date().toISOString(),
+            // Sizes per package
+            packages,
+            // Package of every adapter, by display name
+            adapters: adapterPackages,
+        },
+        null,
+        2,
+    ) + '\n',
+);
+console.log(`✅ Bundle sizes saved to ${path.relative(rootDir, outputFile)}`);
+for (const [name, size] of Object.entries(packages)) {
+    console.log(
+        `  ${name}: ${(size.rawBytes / 1024).toFixed(1)} KB, ${(size.gzipBytes / 1024).toFixed(1)} KB gzip, ${(size.brotliBytes / 1024).toFixed(1)} KB brotli`,
+    );
+}
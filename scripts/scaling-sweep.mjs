@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+/**
+ * Dataset scaling sweep — how each adapter's single-entity update cost grows with
+ * the size of the store.
+ *
+ * Drives window.__runSweep(), which re-generates the app's dataset at each size
+ * (the deck list still mounts only its first 100 decks, so the UI stays the same
+ * size), runs the selected registry scenarios on every adapter and reports µs and
+ * renders per update. The slope of log(cost) against log(cards) is ~0 for an
+ * adapter whose updates do not depend on store size and ~1 for one that scans or
+ * copies the whole store on every update.
+ *
+ *   SWEEP_SIZES=1000,5000,20000,100000 SWEEP_SCENARIOS=inline-editing,deep-toggle \
+ *     SWEEP_RUNS=5 npm run bench:sweep
+ *
+ * Manages its own dev server. On recent macOS pass system Chrome:
+ *   PUPPETEER_EXECUTABLE_PATH="/Applications/Google Chrome.app/Contents/MacOS/Google Chrome" \
+ *     npm run bench:sweep
+ */
+import puppeteer from 'puppeteer';
+import { spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const rootDir = path.resolve(__dirname, '..');
+const PORT = 5173;
+const BASE = `http://localhost:${PORT}`;
+const list = (value) => (value ? value.split(',').map((s) => s.trim()) : undefined);
+const OPTIONS = {
+    sizes: list(process.env.SWEEP_SIZES)?.map(Number),
+    scenarios: list(process.env.SWEEP_SCENARIOS),
+    adapters: list(process.env.SWEEP_ADAPTERS),
+    runs: process.env.SWEEP_RUNS ? Number(process.env.SWEEP_RUNS) : undefined,
+};
+
+async function isUp() {
+    try {
+        return (await fetch(BASE, { signal: AbortSignal.timeout(1500) })).ok;
+    } catch {
+        return false;
+    }
+}
+async function startServer() {
+    if (await isUp()) return null;
+    const server = spawn('npm', ['run', 'dev'], { cwd: rootDir, stdio: 'ignore', shell: true });
+    for (let i = 0; i < 120; i++) {
+        if (await isUp()) return server;
+        await new Promise((r) => setTimeout(r, 500));
+    }
+    throw new Error('dev server did not start');
+}
+
+const server = await startServer();
+const browser = await puppeteer.launch({
+    headless: 'new',
+    executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || undefined,
+    // A sweep runs every adapter at every size in one page call
+    protocolTimeout: 3600000,
+    args: ['--no-sandbox', '--disable-setuid-sandbox', '--js-flags=--max-old-space-size=4096'],
+});
+
+let sweep;
+try {
+    const page = await browser.newPage();
+    page.on('console', (msg) => {
+        if (msg.type() === 'error') console.error('[page]', msg.text());
+    });
+    await page.goto(BASE, { waitUntil: 'networkidle0', timeout: 60000 });
+    await page.waitForFunction(() => window.__ready === true, { timeout: 60000 });
+    sweep = await page.evaluate((options) => window.__runSweep(options), OPTIONS);
+} finally {
+    await browser.close();
+    if (server) server.kill('SIGTERM');
+}
+
+const scenarios = [...new Set(sweep.points.map((p) => p.scenario))];
+const usCell = (point) => (point ? point.usPerUpdate.toFixed(1) : '-');
+const md = [
+    `# Dataset scaling sweep`,
+    ``,
+    `Per-update cost at ${sweep.sizes.join(', ')} cards; the deck list mounts its first 100 decks at every size.`,
+    `Slope = fit of log(cost) against log(cards): ~0 flat, ~1 linear in store size.`,
+    ``,
+];
+for (const scenario of scenarios) {
+    const fits = sweep.fits
+        .filter((f) => f.scenario === scenario)
+        .sort((a, b) => b.usSlope - a.usSlope);
+    const sizeHeaders = sweep.sizes.map((s) => `µs @ ${s}`);
+    md.push(
+        `## ${scenario}`,
+        ``,
+        `| Adapter | ${sizeHeaders.join(' | ')} | µs slope | renders slope | r² |`,
+        `|---------|${sizeHeaders.map(() => '---').join('|')}|---|---|---|`,
+        ...fits.map((f) => {
+            const at = (cards) =>
+                sweep.points.find(
+                    (p) => p.scenario === scenario && p.adapter === f.adapter && p.cards === cards,
+                );
+            const costs = sweep.sizes.map((cards) => usCell(at(cards)));
+            return `| ${f.adapter} | ${costs.join(' | ')} | ${f.usSlope.toFixed(2)} | ${f.rendersSlope.toFixed(2)} | ${f.usR2.toFixed(2)} |`;
+        }),
+        ``,
+    );
+}
+
+const outDir = path.join(rootDir, 'bench-results');
+fs.mkdirSync(outDir, { recursive: true });
+const mdFile = path.join(outDir, 'scaling-sweep.md');
+const jsonFile = path.join(outDir, 'scaling-sweep.json');
+fs.writeFileSync(mdFile, md.join('\n'));
+fs.writeFileSync(jsonFile, JSON.stringify(sweep, null, 2));
+console.log(
+    `\n${md.join('\n')}\nSaved to ${path.relative(rootDir, mdFile)} and ${path.relative(rootDir, jsonFile)}`,
+);